@@ -0,0 +1,19 @@
+/**
+ * Advisory database module barrel export
+ *
+ * @module @dcyfr/ai-cli/advisories
+ */
+
+export { ADVISORIES_DIR, AdvisoryDatabase, importAdvisories } from './store.js';
+export { isAffected, fixedVersion, advisorySeverity, findVulnerabilities } from './match.js';
+
+export type {
+  OsvEvent,
+  OsvRange,
+  OsvAffected,
+  OsvAdvisory,
+  AdvisorySeverity,
+  AdvisorySnapshotIndex,
+  AdvisoryImportResult,
+  VulnerabilityMatch,
+} from './types.js';
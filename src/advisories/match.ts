@@ -0,0 +1,99 @@
+/**
+ * Advisory matching — which installed versions an advisory affects
+ *
+ * @module @dcyfr/ai-cli/advisories/match
+ */
+
+import { compareVersions } from '@/lib/semver.js';
+import type { LockedPackage } from '@/lib/lockfile.js';
+import type { AdvisoryDatabase } from './store.js';
+import type { AdvisorySeverity, OsvAdvisory, OsvAffected, OsvEvent, VulnerabilityMatch } from './types.js';
+
+/**
+ * Whether `version` falls in the affected versions or ranges
+ *
+ * Range events are applied in version order: `introduced` opens a range,
+ * `fixed`/`limit` close it at that version, `last_affected` just after.
+ */
+export function isAffected(version: string, affected: OsvAffected): boolean {
+  if (affected.versions?.includes(version)) return true;
+
+  for (const range of affected.ranges ?? []) {
+    if (range.type !== 'SEMVER' && range.type !== 'ECOSYSTEM') continue;
+
+    let inRange = false;
+    for (const event of [...range.events].sort((a, b) => compareVersions(eventVersion(a), eventVersion(b)))) {
+      if (event.introduced !== undefined) {
+        if (event.introduced === '0' || compareVersions(version, event.introduced) >= 0) inRange = true;
+      } else if (event.fixed !== undefined) {
+        if (compareVersions(version, event.fixed) >= 0) inRange = false;
+      } else if (event.limit !== undefined) {
+        if (compareVersions(version, event.limit) >= 0) inRange = false;
+      } else if (event.last_affected !== undefined) {
+        if (compareVersions(version, event.last_affected) > 0) inRange = false;
+      }
+    }
+    if (inRange) return true;
+  }
+  return false;
+}
+
+/**
+ * Lowest `fixed` version above `version` for the package
+ */
+export function fixedVersion(version: string, affected: OsvAffected): string | undefined {
+  const fixes = (affected.ranges ?? [])
+    .flatMap((range) => range.events.map((e) => e.fixed))
+    .filter((fixed): fixed is string => fixed !== undefined && compareVersions(fixed, version) > 0)
+    .sort(compareVersions);
+  return fixes[0];
+}
+
+/**
+ * Normalized severity: the GitHub database severity when present,
+ * otherwise `moderate`
+ */
+export function advisorySeverity(advisory: OsvAdvisory, affected?: OsvAffected): AdvisorySeverity {
+  const raw = (
+    affected?.ecosystem_specific?.severity ??
+    affected?.database_specific?.severity ??
+    advisory.database_specific?.severity ??
+    ''
+  ).toLowerCase();
+  if (raw === 'critical' || raw === 'high' || raw === 'low') return raw;
+  return 'moderate';
+}
+
+/**
+ * Match installed packages against the advisory database
+ */
+export async function findVulnerabilities(
+  db: AdvisoryDatabase,
+  packages: LockedPackage[],
+): Promise<VulnerabilityMatch[]> {
+  const matches: VulnerabilityMatch[] = [];
+  for (const pkg of packages) {
+    for (const advisory of await db.forPackage(pkg.name)) {
+      const affected = advisory.affected.find((a) => a.package.name === pkg.name && isAffected(pkg.version, a));
+      if (!affected) continue;
+      matches.push({
+        advisory,
+        severity: advisorySeverity(advisory, affected),
+        name: pkg.name,
+        version: pkg.version,
+        path: pkg.path,
+        dev: pkg.dev,
+        fixedIn: fixedVersion(pkg.version, affected),
+      });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Version an event refers to; `introduced: 0` sorts first
+ */
+function eventVersion(event: OsvEvent): string {
+  const version = event.introduced ?? event.fixed ?? event.limit ?? event.last_affected ?? '0';
+  return version === '0' ? '0.0.0-0' : version;
+}
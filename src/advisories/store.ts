@@ -0,0 +1,168 @@
+/**
+ * Advisory snapshot — import and lookup of OSV advisories on disk
+ *
+ * `dcyfr advisories import <dir>` copies the npm advisories of an OSV
+ * export into `.dcyfr/advisories/osv/<id>.json` and writes an index by
+ * package name, so audits run offline and only read the advisories for
+ * packages that are actually installed.
+ *
+ * @module @dcyfr/ai-cli/advisories/store
+ */
+
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { pathExists } from '@/lib/files.js';
+import type { AdvisoryImportResult, AdvisorySnapshotIndex, OsvAdvisory } from './types.js';
+
+/** Snapshot directory, relative to the workspace root */
+export const ADVISORIES_DIR = join('.dcyfr', 'advisories');
+
+const SNAPSHOT_FORMAT = 1;
+const INDEX_FILE = 'index.json';
+const OSV_DIR = 'osv';
+
+/**
+ * Replace the workspace's advisory snapshot with the npm advisories found
+ * in `source`: a directory of OSV JSON files (searched recursively) or a
+ * single JSON file holding one advisory or an array of them
+ */
+export async function importAdvisories(workspaceRoot: string, source: string): Promise<AdvisoryImportResult> {
+  const sourcePath = resolve(source);
+  if (!(await pathExists(sourcePath))) {
+    throw new Error(`Advisory source not found: ${source}`);
+  }
+
+  const dir = join(workspaceRoot, ADVISORIES_DIR);
+  const staging = join(dir, `${OSV_DIR}.importing`);
+  await rm(staging, { recursive: true, force: true });
+  await mkdir(staging, { recursive: true });
+
+  const packages: Record<string, string[]> = {};
+  let imported = 0;
+  let skipped = 0;
+
+  for (const file of await listJsonFiles(sourcePath)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(file, 'utf-8'));
+    } catch {
+      skipped++;
+      continue;
+    }
+
+    for (const entry of Array.isArray(parsed) ? parsed : [parsed]) {
+      const advisory = toNpmAdvisory(entry);
+      if (!advisory) {
+        skipped++;
+        continue;
+      }
+      await writeFile(join(staging, `${safeFileName(advisory.id)}.json`), JSON.stringify(advisory));
+      for (const { package: pkg } of advisory.affected) {
+        const ids = (packages[pkg.name] ??= []);
+        if (!ids.includes(advisory.id)) ids.push(advisory.id);
+      }
+      imported++;
+    }
+  }
+
+  if (imported === 0) {
+    await rm(staging, { recursive: true, force: true });
+    throw new Error(`No npm advisories found in ${source} (expected OSV JSON files)`);
+  }
+
+  // Swap the new snapshot in only once it is complete
+  await rm(join(dir, OSV_DIR), { recursive: true, force: true });
+  await rename(staging, join(dir, OSV_DIR));
+  const index: AdvisorySnapshotIndex = {
+    format: SNAPSHOT_FORMAT,
+    importedAt: new Date().toISOString(),
+    source: sourcePath,
+    count: imported,
+    packages,
+  };
+  await writeFile(join(dir, INDEX_FILE), JSON.stringify(index));
+
+  return { imported, skipped, packages: Object.keys(packages).length };
+}
+
+/**
+ * Imported advisories of a workspace
+ */
+export class AdvisoryDatabase {
+  private cache = new Map<string, OsvAdvisory | null>();
+
+  private constructor(
+    private readonly dir: string,
+    readonly index: AdvisorySnapshotIndex,
+  ) {}
+
+  /**
+   * Open the workspace's snapshot; null when none has been imported
+   */
+  static async open(workspaceRoot: string): Promise<AdvisoryDatabase | null> {
+    const dir = join(workspaceRoot, ADVISORIES_DIR);
+    let index: AdvisorySnapshotIndex;
+    try {
+      index = JSON.parse(await readFile(join(dir, INDEX_FILE), 'utf-8')) as AdvisorySnapshotIndex;
+    } catch {
+      return null;
+    }
+    if (index.format !== SNAPSHOT_FORMAT) {
+      throw new Error(`Unsupported advisory snapshot format ${index.format}; re-run dcyfr advisories import`);
+    }
+    return new AdvisoryDatabase(dir, index);
+  }
+
+  /**
+   * Advisories affecting some version of `name`
+   */
+  async forPackage(name: string): Promise<OsvAdvisory[]> {
+    const advisories: OsvAdvisory[] = [];
+    for (const id of this.index.packages[name] ?? []) {
+      if (!this.cache.has(id)) {
+        const file = join(this.dir, OSV_DIR, `${safeFileName(id)}.json`);
+        const advisory = await readFile(file, 'utf-8')
+          .then((content) => JSON.parse(content) as OsvAdvisory)
+          .catch(() => null);
+        this.cache.set(id, advisory);
+      }
+      const advisory = this.cache.get(id);
+      if (advisory) advisories.push(advisory);
+    }
+    return advisories;
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+async function listJsonFiles(path: string): Promise<string[]> {
+  if (!(await stat(path)).isDirectory()) return [path];
+
+  const files: string[] = [];
+  for (const entry of await readdir(path, { withFileTypes: true })) {
+    const full = join(path, entry.name);
+    if (entry.isDirectory()) files.push(...(await listJsonFiles(full)));
+    else if (entry.name.endsWith('.json')) files.push(full);
+  }
+  return files.sort();
+}
+
+/**
+ * The advisory restricted to its npm packages; null when it is withdrawn,
+ * malformed or has no npm package
+ */
+function toNpmAdvisory(value: unknown): OsvAdvisory | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const advisory = value as Partial<OsvAdvisory>;
+  if (typeof advisory.id !== 'string' || !Array.isArray(advisory.affected) || advisory.withdrawn) return null;
+
+  const affected = advisory.affected.filter(
+    (a) => a?.package?.ecosystem === 'npm' && typeof a.package.name === 'string',
+  );
+  if (affected.length === 0) return null;
+  return { ...(advisory as OsvAdvisory), affected };
+}
+
+function safeFileName(id: string): string {
+  return id.replace(/[^A-Za-z0-9._-]/g, '_');
+}
@@ -0,0 +1,96 @@
+/**
+ * Advisory types
+ *
+ * Advisories use the OSV schema (https://ossf.github.io/osv-schema/);
+ * only the fields the audit reads are declared here.
+ *
+ * @module @dcyfr/ai-cli/advisories/types
+ */
+
+/**
+ * One point in an affected range; exactly one field is set
+ */
+export interface OsvEvent {
+  introduced?: string | undefined;
+  fixed?: string | undefined;
+  last_affected?: string | undefined;
+  limit?: string | undefined;
+}
+
+/**
+ * Affected version range
+ */
+export interface OsvRange {
+  /** `SEMVER`, `ECOSYSTEM` or `GIT` (git ranges are ignored) */
+  type: string;
+  events: OsvEvent[];
+}
+
+/**
+ * A package an advisory applies to
+ */
+export interface OsvAffected {
+  package: { ecosystem: string; name: string };
+  ranges?: OsvRange[] | undefined;
+  /** Explicitly affected versions */
+  versions?: string[] | undefined;
+  database_specific?: { severity?: string | undefined } | undefined;
+  ecosystem_specific?: { severity?: string | undefined } | undefined;
+}
+
+/**
+ * An OSV advisory
+ */
+export interface OsvAdvisory {
+  id: string;
+  modified: string;
+  summary?: string | undefined;
+  details?: string | undefined;
+  aliases?: string[] | undefined;
+  withdrawn?: string | undefined;
+  affected: OsvAffected[];
+  database_specific?: { severity?: string | undefined } | undefined;
+}
+
+/**
+ * Normalized severity, ordered from most to least severe
+ */
+export type AdvisorySeverity = 'critical' | 'high' | 'moderate' | 'low';
+
+/**
+ * Metadata of the imported snapshot (`.dcyfr/advisories/index.json`)
+ */
+export interface AdvisorySnapshotIndex {
+  format: number;
+  importedAt: string;
+  /** Path the snapshot was imported from */
+  source: string;
+  count: number;
+  /** Package name → IDs of the advisories that affect it */
+  packages: Record<string, string[]>;
+}
+
+/**
+ * Outcome of `dcyfr advisories import`
+ */
+export interface AdvisoryImportResult {
+  imported: number;
+  /** Files or entries that weren't npm advisories, were withdrawn or invalid */
+  skipped: number;
+  packages: number;
+}
+
+/**
+ * An installed package version affected by an advisory
+ */
+export interface VulnerabilityMatch {
+  advisory: OsvAdvisory;
+  severity: AdvisorySeverity;
+  name: string;
+  version: string;
+  /** Dependency chain from the project, ending with the package */
+  path: string[];
+  dev: boolean;
+  /** Lowest fixed version above the installed one, if any */
+  fixedIn?: string | undefined;
+}
@@ -7,9 +7,9 @@
  * @module @dcyfr/ai-cli/ai/ai-scanner
  */
 
-import { readFile } from 'fs/promises';
 import type { ScanContext, ScanResult, ScanViolation } from '@/scanners/types.js';
 import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
 import type { AIMessage } from './provider.js';
 import { resolveProvider, checkProviderStatus, chatCompletion } from './provider.js';
 
@@ -51,6 +51,10 @@ export interface AIScannerConfig {
   buildUserPrompt: (files: AnalysisFile[]) => string;
   /** Parse LLM response into violations */
   parseResponse: (response: string, files: AnalysisFile[]) => AIAnalysisResult[];
+  /** Scanner ID — enables per-file result caching when `context.cache` is set */
+  scannerId?: string | undefined;
+  /** Scanner version, part of the cache key */
+  scannerVersion?: string | undefined;
 }
 
 // ---------------------------------------------------------------------------
@@ -62,6 +66,9 @@ export interface AIScannerConfig {
  *
  * Handles: provider resolution, batching, LLM calls, response parsing.
  * Returns empty results if no provider is available (offline mode).
+ * With `context.cache` and `config.scannerId`, files whose content,
+ * scanner version, provider and model are unchanged reuse their cached
+ * result instead of being sent to the LLM.
  */
 export async function runAIAnalysis(
   context: ScanContext,
@@ -72,6 +79,7 @@ export async function runAIAnalysis(
   providerUsed: string | null;
   totalTokens: number;
   offline: boolean;
+  cachedFiles: number;
 }> {
   // Resolve provider
   const providerConfig = await resolveProvider(context.workspaceRoot);
@@ -83,39 +91,60 @@ export async function runAIAnalysis(
       providerUsed: null,
       totalTokens: 0,
       offline: true,
+      cachedFiles: 0,
     };
   }
 
   // Prepare files
   const maxChars = config.maxFileChars ?? 3000;
   const analysisFiles: AnalysisFile[] = [];
+  const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
   for (const filePath of filePaths) {
-    try {
-      const content = await readFile(filePath, 'utf-8');
-      const relPath = relativePath(context.workspaceRoot, filePath);
-      analysisFiles.push({
-        path: filePath,
-        relativePath: relPath,
-        content,
-        snippet: content.slice(0, maxChars),
-      });
-    } catch {
-      // Skip unreadable files
-    }
+    const content = await index.read(filePath);
+    if (content === null) continue; // Skip unreadable files
+
+    analysisFiles.push({
+      path: filePath,
+      relativePath: relativePath(context.workspaceRoot, filePath),
+      content,
+      snippet: content.slice(0, maxChars),
+    });
   }
 
   if (analysisFiles.length === 0) {
-    return { results: [], providerUsed: providerConfig.provider, totalTokens: 0, offline: false };
+    return {
+      results: [],
+      providerUsed: providerConfig.provider,
+      totalTokens: 0,
+      offline: false,
+      cachedFiles: 0,
+    };
   }
 
+  // Reuse cached results for unchanged files
+  const cache = config.scannerId ? context.cache : undefined;
+  const cacheKey = `${config.scannerVersion ?? '0'}:${providerConfig.provider}:${providerConfig.model}`;
+  const allResults: AIAnalysisResult[] = [];
+  const pending: AnalysisFile[] = [];
+
+  for (const file of analysisFiles) {
+    const cached = await cache?.get<AIAnalysisResult>(config.scannerId!, cacheKey, file.path, file.content);
+    if (cached) {
+      allResults.push(cached);
+    } else {
+      pending.push(file);
+    }
+  }
+  const cachedFiles = analysisFiles.length - pending.length;
+
   // Batch and analyze
   const batchSize = config.batchSize ?? 5;
-  const allResults: AIAnalysisResult[] = [];
   let totalTokens = 0;
 
-  for (let i = 0; i < analysisFiles.length; i += batchSize) {
-    const batch = analysisFiles.slice(i, i + batchSize);
+  for (let i = 0; i < pending.length; i += batchSize) {
+    context.signal?.throwIfAborted();
+    const batch = pending.slice(i, i + batchSize);
 
     const messages: AIMessage[] = [
       { role: 'system', content: config.systemPrompt },
@@ -123,13 +152,25 @@ export async function runAIAnalysis(
     ];
 
     try {
-      const response = await chatCompletion(providerConfig, messages);
+      const response = await chatCompletion(providerConfig, messages, context.signal);
       totalTokens += response.usage.inputTokens + response.usage.outputTokens;
 
       const parsed = config.parseResponse(response.content, batch);
       allResults.push(...parsed);
+
+      if (cache) {
+        for (const file of batch) {
+          const result = parsed.find((r) => r.file === file.relativePath) ?? {
+            file: file.relativePath,
+            violations: [],
+            summary: '',
+          };
+          await cache.set(config.scannerId!, cacheKey, file.path, file.content, result);
+        }
+      }
     } catch (error) {
-      // Log but continue with remaining batches
+      // Cancellation stops the whole analysis; other failures only skip the batch
+      if (context.signal?.aborted) throw error;
       const message = error instanceof Error ? error.message : String(error);
       for (const file of batch) {
         allResults.push({
@@ -146,6 +187,7 @@ export async function runAIAnalysis(
     providerUsed: providerConfig.provider,
     totalTokens,
     offline: false,
+    cachedFiles,
   };
 }
 
@@ -280,19 +280,20 @@ export async function checkProviderStatus(config: AIProviderConfig): Promise<AIP
 export async function chatCompletion(
   config: AIProviderConfig,
   messages: AIMessage[],
+  signal?: AbortSignal,
 ): Promise<AIResponse> {
   const start = Date.now();
 
   switch (config.provider) {
     case 'anthropic':
-      return anthropicCompletion(config, messages, start);
+      return anthropicCompletion(config, messages, start, signal);
     case 'local':
     case 'workbench':
     case 'github-models':
     case 'openai':
-      return openaiCompletion(config, messages, start);
+      return openaiCompletion(config, messages, start, signal);
     case 'ollama':
-      return ollamaCompletion(config, messages, start);
+      return ollamaCompletion(config, messages, start, signal);
     default:
       throw new Error(`Unsupported provider: ${config.provider}`);
   }
@@ -305,6 +306,7 @@ async function anthropicCompletion(
   config: AIProviderConfig,
   messages: AIMessage[],
   start: number,
+  signal: AbortSignal | undefined,
 ): Promise<AIResponse> {
   const systemMessage = messages.find((m) => m.role === 'system');
   const nonSystemMessages = messages.filter((m) => m.role !== 'system');
@@ -328,6 +330,7 @@ async function anthropicCompletion(
       'anthropic-version': '2023-06-01',
     },
     body: JSON.stringify(body),
+    signal: signal ?? null,
   });
 
   if (!resp.ok) {
@@ -360,6 +363,7 @@ async function openaiCompletion(
   config: AIProviderConfig,
   messages: AIMessage[],
   start: number,
+  signal: AbortSignal | undefined,
 ): Promise<AIResponse> {
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
@@ -377,6 +381,7 @@ async function openaiCompletion(
       max_tokens: config.maxTokens ?? 4096,
       temperature: config.temperature ?? 0.3,
     }),
+    signal: signal ?? null,
   });
 
   if (!resp.ok) {
@@ -409,6 +414,7 @@ async function ollamaCompletion(
   config: AIProviderConfig,
   messages: AIMessage[],
   start: number,
+  signal: AbortSignal | undefined,
 ): Promise<AIResponse> {
   const resp = await fetch(`${config.baseUrl}/chat`, {
     method: 'POST',
@@ -422,6 +428,7 @@ async function ollamaCompletion(
         num_predict: config.maxTokens ?? 4096,
       },
     }),
+    signal: signal ?? null,
   });
 
   if (!resp.ok) {
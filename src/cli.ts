@@ -20,6 +20,8 @@ import { createDaemonCommand } from './commands/daemon.js';
 import { createFixCommand } from './commands/fix.js';
 import { createAICommand } from './commands/ai.js';
 import { createConfigCommand } from './commands/config.js';
+import { createRulesCommand } from './commands/rules.js';
+import { createAdvisoriesCommand } from './commands/advisories.js';
 
 const program = new Command();
 
@@ -40,6 +42,8 @@ program.addCommand(createDaemonCommand());
 program.addCommand(createFixCommand());
 program.addCommand(createAICommand());
 program.addCommand(createConfigCommand());
+program.addCommand(createRulesCommand());
+program.addCommand(createAdvisoriesCommand());
 
 /**
  * Handle unknown commands through Commander error system
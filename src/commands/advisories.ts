@@ -0,0 +1,92 @@
+/**
+ * Advisories command — manage the offline advisory snapshot
+ *
+ * Usage:
+ *   dcyfr advisories import <source>   # Import OSV advisories (directory or JSON file)
+ *   dcyfr advisories status            # Show the imported snapshot
+ *
+ * @module @dcyfr/ai-cli/commands/advisories
+ */
+
+import { Command } from 'commander';
+import { createLogger } from '@/lib/logger.js';
+import { findWorkspaceRoot } from '@/lib/workspace.js';
+import { ADVISORIES_DIR, AdvisoryDatabase, importAdvisories } from '@/advisories/index.js';
+
+const logger = createLogger('advisories');
+
+export function createAdvisoriesCommand(): Command {
+  const cmd = new Command('advisories').description('Manage the offline vulnerability advisory snapshot');
+
+  cmd
+    .command('import <source>')
+    .description('Replace the snapshot with the npm advisories in an OSV directory or JSON file')
+    .option('--json', 'Output as JSON')
+    .action(async (source: string, options: AdvisoriesOptions) => {
+      try {
+        const workspaceRoot = await findWorkspaceRoot();
+        const result = await importAdvisories(workspaceRoot, source);
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        console.log(
+          `\n  ✅ Imported ${result.imported} advisories for ${result.packages} packages into ${ADVISORIES_DIR}/`,
+        );
+        if (result.skipped > 0) {
+          console.log(`  ${result.skipped} skipped (not npm, withdrawn or invalid)`);
+        }
+        console.log('  dependency-audit now runs offline against this snapshot\n');
+      } catch (error) {
+        logger.error('Advisory import failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command('status')
+    .description('Show the imported advisory snapshot')
+    .option('--json', 'Output as JSON')
+    .action(async (options: AdvisoriesOptions) => {
+      try {
+        const workspaceRoot = await findWorkspaceRoot();
+        const db = await AdvisoryDatabase.open(workspaceRoot);
+        const snapshot = db
+          ? {
+              importedAt: db.index.importedAt,
+              source: db.index.source,
+              advisories: db.index.count,
+              packages: Object.keys(db.index.packages).length,
+            }
+          : null;
+
+        if (options.json) {
+          console.log(JSON.stringify({ snapshot }, null, 2));
+          return;
+        }
+        if (!snapshot) {
+          console.log('\n  No advisory snapshot. dependency-audit uses npm audit (needs network).');
+          console.log('  Import one with: dcyfr advisories import <osv-dir>\n');
+          return;
+        }
+        console.log('\n  Advisory Snapshot\n  ' + '─'.repeat(50));
+        console.log(`  Imported:    ${snapshot.importedAt}`);
+        console.log(`  Source:      ${snapshot.source}`);
+        console.log(`  Advisories:  ${snapshot.advisories} (${snapshot.packages} packages)\n`);
+      } catch (error) {
+        logger.error('Failed to read advisory snapshot', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+interface AdvisoriesOptions {
+  json?: boolean;
+}
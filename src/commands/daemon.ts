@@ -6,6 +6,12 @@
  *   dcyfr daemon stop
  *   dcyfr daemon status [--json]
  *   dcyfr daemon logs [--lines N] [--follow]
+ *   dcyfr daemon schedules list [--json]
+ *   dcyfr daemon schedules enable|disable|run-now <id>
+ *   dcyfr daemon queue [--json]
+ *   dcyfr daemon queue add <scanner> [files...] [--priority P]
+ *   dcyfr daemon exec <method> [params-json]
+ *   dcyfr daemon events [--filter task:*,scan:completed]
  *
  * @module @dcyfr/ai-cli/commands/daemon
  */
@@ -14,18 +20,29 @@ import { Command } from 'commander';
 import { spawn } from 'child_process';
 import { findWorkspaceRoot } from '@/lib/workspace.js';
 import { createLogger } from '@/lib/logger.js';
+import { collectList } from '@/lib/options.js';
+import { createDefaultRegistry } from '@/scanners/registry.js';
 import {
   DaemonProcess,
   isDaemonRunning,
+  notifyScheduleChange,
   stopDaemon,
   readDaemonState,
   readDaemonLogs,
 } from '@/daemon/process.js';
+import { formatInterval } from '@/daemon/cron.js';
+import { connectDaemon } from '@/daemon/ipc.js';
+import type { DaemonClient } from '@/daemon/ipc.js';
+import { EventBus } from '@/daemon/events.js';
+import { TaskQueue } from '@/daemon/queue.js';
+import { Scheduler, nextRunTime } from '@/daemon/scheduler.js';
 import {
   installLaunchAgent,
   uninstallLaunchAgent,
   isLaunchAgentInstalled,
 } from '@/daemon/launchd.js';
+import type { DaemonState, ScheduleEntry, Task } from '@/daemon/types.js';
+import type { ScanResult } from '@/scanners/types.js';
 
 /**
  * Format uptime in human-readable form
@@ -42,6 +59,71 @@ function formatUptime(ms: number): string {
   return `${seconds}s`;
 }
 
+/**
+ * Describe when a schedule runs (`every 6h`, `cron 0 2 * * 1 (Europe/Berlin)`)
+ */
+function formatTiming(schedule: ScheduleEntry): string {
+  const timing = schedule.cron ? `cron ${schedule.cron}` : `every ${formatInterval(schedule.interval ?? 0)}`;
+  const zone = schedule.timezone ? ` (${schedule.timezone})` : '';
+  const quiet = schedule.quietHours?.length ? `, quiet ${schedule.quietHours.join(', ')}` : '';
+  return `${timing}${zone}${quiet}`;
+}
+
+/**
+ * Load the workspace's schedules into a scheduler that runs tasks in this process
+ */
+async function loadLocalScheduler(workspaceRoot: string): Promise<{ scheduler: Scheduler; queue: TaskQueue; events: EventBus }> {
+  const registry = await createDefaultRegistry(workspaceRoot);
+  const events = new EventBus();
+  // The daemon owns the persisted queue
+  const queue = new TaskQueue(workspaceRoot, registry, events, { persist: false });
+  const scheduler = new Scheduler(workspaceRoot, queue, events);
+  await scheduler.init();
+  return { scheduler, queue, events };
+}
+
+/**
+ * Call the daemon's control API, exiting with the daemon's error message
+ * when the call fails
+ */
+async function callDaemon<T>(client: DaemonClient, method: string, params: Record<string, unknown> = {}): Promise<T> {
+  try {
+    return await client.call<T>(method, params);
+  } catch (error) {
+    client.close();
+    console.error(`\n  ❌ ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Connect to the running daemon's control API, exiting when it isn't reachable
+ */
+async function requireDaemon(workspaceRoot: string): Promise<DaemonClient> {
+  const client = await connectDaemon(workspaceRoot);
+  if (!client) {
+    console.error('\n  ❌ Daemon is not running (start it with "dcyfr daemon start")\n');
+    process.exit(1);
+  }
+  return client;
+}
+
+/**
+ * Current daemon state from the control API, falling back to the last
+ * heartbeat written to disk
+ */
+async function readLiveState(workspaceRoot: string): Promise<DaemonState | null> {
+  const client = await connectDaemon(workspaceRoot);
+  if (!client) return readDaemonState(workspaceRoot);
+  try {
+    return await client.call<DaemonState>('daemon.state', {}, 5000);
+  } catch {
+    return readDaemonState(workspaceRoot);
+  } finally {
+    client.close();
+  }
+}
+
 /**
  * Create the `dcyfr daemon` command group
  */
@@ -155,7 +237,7 @@ export function createDaemonCommand(): Command {
       const { running, pid } = await isDaemonRunning(workspaceRoot);
 
       if (options.json) {
-        const state = running ? await readDaemonState(workspaceRoot) : null;
+        const state = running ? await readLiveState(workspaceRoot) : null;
         console.log(JSON.stringify({
           running,
           pid,
@@ -182,7 +264,7 @@ export function createDaemonCommand(): Command {
       console.log(`  Status:     🟢 Running`);
       console.log(`  PID:        ${pid}`);
 
-      const state = await readDaemonState(workspaceRoot);
+      const state = await readLiveState(workspaceRoot);
       if (state) {
         console.log(`  Uptime:     ${formatUptime(state.uptime)}`);
         console.log(`  Memory:     ${state.memoryUsageMB} MB`);
@@ -258,6 +340,232 @@ export function createDaemonCommand(): Command {
       }
     });
 
+  // ── daemon schedules ───────────────────────────────────────
+
+  const schedules = daemon.command('schedules').description('List, enable, disable and run daemon schedules');
+
+  schedules
+    .command('list', { isDefault: true })
+    .description('List schedules with their timing and next run')
+    .option('--json', 'Output as JSON')
+    .action(async (options: { json?: boolean }) => {
+      const workspaceRoot = await findWorkspaceRoot();
+      const now = new Date();
+      const client = await connectDaemon(workspaceRoot);
+      let entries: ScheduleEntry[];
+      if (client) {
+        // The daemon knows the actual next runs (with jitter)
+        entries = await callDaemon<ScheduleEntry[]>(client, 'schedules.list');
+        client.close();
+      } else {
+        const { scheduler } = await loadLocalScheduler(workspaceRoot);
+        entries = scheduler.getSchedules().map((schedule) => ({
+          ...schedule,
+          nextRun: schedule.enabled ? nextRunTime(schedule, now).toISOString() : undefined,
+        }));
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+
+      console.log('');
+      console.log('  DCYFR Daemon Schedules');
+      console.log('  ─────────────────────────────────');
+      for (const entry of entries) {
+        const next = entry.nextRun
+          ? new Date(entry.nextRun) <= now
+            ? 'due now'
+            : new Date(entry.nextRun).toLocaleString()
+          : '—';
+        console.log(`  ${entry.enabled ? '🟢' : '⚫'} ${entry.id} → ${entry.scanner}`);
+        console.log(`     ${formatTiming(entry)}`);
+        console.log(`     Last run: ${entry.lastRun ? new Date(entry.lastRun).toLocaleString() : 'never'}   Next: ${next}`);
+      }
+      console.log('');
+    });
+
+  for (const [name, enabled] of [['enable', true], ['disable', false]] as const) {
+    schedules
+      .command(`${name} <id>`)
+      .description(`${enabled ? 'Enable' : 'Disable'} a schedule`)
+      .action(async (id: string) => {
+        const workspaceRoot = await findWorkspaceRoot();
+        const client = await connectDaemon(workspaceRoot);
+        if (client) {
+          await callDaemon(client, 'schedules.setEnabled', { id, enabled });
+          client.close();
+          console.log(`\n  ✅ Schedule ${id} ${enabled ? 'enabled' : 'disabled'} (daemon updated)\n`);
+          return;
+        }
+
+        const { scheduler } = await loadLocalScheduler(workspaceRoot);
+        if (!(await scheduler.setEnabled(id, enabled))) {
+          console.error(`\n  ❌ Unknown schedule: ${id}\n`);
+          process.exit(1);
+        }
+        const notified = await notifyScheduleChange(workspaceRoot);
+        console.log(`\n  ✅ Schedule ${id} ${enabled ? 'enabled' : 'disabled'}${notified ? ' (daemon updated)' : ''}\n`);
+      });
+  }
+
+  schedules
+    .command('run-now <id>')
+    .description("Run a schedule's scanner now (in the daemon when it is running)")
+    .action(async (id: string) => {
+      const workspaceRoot = await findWorkspaceRoot();
+      const client = await connectDaemon(workspaceRoot);
+      if (client) {
+        const { taskId } = await callDaemon<{ taskId: string | null }>(client, 'schedules.runNow', { id });
+        client.close();
+        console.log(
+          taskId
+            ? `\n  ✅ Daemon queued ${id} (task ${taskId}) — see "dcyfr daemon logs"\n`
+            : `\n  ℹ️  ${id} is already queued in the daemon\n`,
+        );
+        return;
+      }
+
+      const { scheduler, queue, events } = await loadLocalScheduler(workspaceRoot);
+      const { running } = await isDaemonRunning(workspaceRoot);
+
+      if (running) {
+        if (!(await scheduler.requestRun(id))) {
+          console.error(`\n  ❌ Unknown schedule: ${id}\n`);
+          process.exit(1);
+        }
+        if (!(await notifyScheduleChange(workspaceRoot))) {
+          console.error('\n  ❌ Could not signal the daemon; the run starts when it next reloads schedules\n');
+          process.exit(1);
+        }
+        console.log(`\n  ✅ Daemon asked to run ${id} — see "dcyfr daemon logs"\n`);
+        return;
+      }
+
+      const schedule = scheduler.getSchedules().find((s) => s.id === id);
+      if (!schedule) {
+        console.error(`\n  ❌ Unknown schedule: ${id}\n`);
+        process.exit(1);
+      }
+
+      let outcome = '';
+      events.on('scan:completed', (event) => {
+        const result = event.data['result'] as ScanResult;
+        outcome = `${result.status.toUpperCase()} — ${result.summary}`;
+      });
+      events.on('task:failed', (event) => {
+        outcome = `FAILED — ${event.data['error']}`;
+      });
+
+      console.log(`\n  Running ${schedule.scanner} (schedule ${id})...`);
+      await scheduler.runNow(id);
+      await queue.drain();
+      console.log(`  ${outcome || 'No result'}\n`);
+      if (outcome.startsWith('FAILED')) process.exit(1);
+    });
+
+  // ── daemon queue ───────────────────────────────────────────
+
+  const queue = daemon.command('queue').description("Show or add to the running daemon's task queue");
+
+  queue
+    .command('list', { isDefault: true })
+    .description('List running, queued and recently finished tasks')
+    .option('--json', 'Output as JSON')
+    .action(async (options: { json?: boolean }) => {
+      const workspaceRoot = await findWorkspaceRoot();
+      const client = await requireDaemon(workspaceRoot);
+      const { pending, recent } = await callDaemon<{ pending: Task[]; recent: Task[] }>(client, 'queue.list');
+      client.close();
+
+      if (options.json) {
+        console.log(JSON.stringify({ pending, recent }, null, 2));
+        return;
+      }
+
+      console.log('');
+      console.log('  DCYFR Daemon Queue');
+      console.log('  ─────────────────────────────────');
+      if (pending.length === 0) {
+        console.log('  No tasks running or queued');
+      }
+      for (const task of pending) {
+        const files = task.files ? ` (${task.files.length} files)` : '';
+        console.log(`  ${task.status === 'running' ? '▶️ ' : '⏳'} ${task.scanner}${files} — ${task.source}, ${task.id}`);
+      }
+      if (recent.length > 0) {
+        console.log('');
+        console.log('  Recent:');
+        for (const task of recent.slice(0, 10)) {
+          const outcome = task.status === 'failed' ? `❌ ${task.error}` : '✅';
+          console.log(`  ${outcome} ${task.scanner} — ${task.completedAt ? new Date(task.completedAt).toLocaleString() : ''}`);
+        }
+      }
+      console.log('');
+    });
+
+  queue
+    .command('add <scanner> [files...]')
+    .description('Queue a scanner run in the daemon (optionally limited to files)')
+    .option('--priority <level>', 'critical, high, normal or low', 'high')
+    .action(async (scanner: string, files: string[], options: { priority: string }) => {
+      const workspaceRoot = await findWorkspaceRoot();
+      const client = await requireDaemon(workspaceRoot);
+      const { taskId } = await callDaemon<{ taskId: string | null }>(client, 'queue.enqueue', {
+        scanner,
+        files: files.length > 0 ? files : undefined,
+        priority: options.priority,
+      });
+      client.close();
+      console.log(taskId ? `\n  ✅ Queued ${scanner} (task ${taskId})\n` : `\n  ℹ️  ${scanner} is already queued\n`);
+    });
+
+  // ── daemon exec ────────────────────────────────────────────
+
+  daemon
+    .command('exec <method> [params]')
+    .description('Call a control API method of the running daemon (params as a JSON object)')
+    .action(async (method: string, paramsJson: string | undefined) => {
+      let params: Record<string, unknown> = {};
+      if (paramsJson !== undefined) {
+        try {
+          params = JSON.parse(paramsJson) as Record<string, unknown>;
+        } catch (error) {
+          console.error(`\n  ❌ params must be JSON: ${error instanceof Error ? error.message : String(error)}\n`);
+          process.exit(1);
+        }
+      }
+
+      const workspaceRoot = await findWorkspaceRoot();
+      const client = await requireDaemon(workspaceRoot);
+      const result = await callDaemon(client, method, params);
+      client.close();
+      console.log(JSON.stringify(result, null, 2));
+    });
+
+  // ── daemon events ──────────────────────────────────────────
+
+  daemon
+    .command('events')
+    .description('Stream daemon events as NDJSON until interrupted')
+    .option('--filter <types>', 'Event types to stream, comma-separated or repeated; * is a wildcard (e.g. task:*)', collectList)
+    .action(async (options: { filter?: string[] }) => {
+      const workspaceRoot = await findWorkspaceRoot();
+      const client = await requireDaemon(workspaceRoot);
+
+      client.onNotification((method, params) => {
+        if (method === 'event') console.log(JSON.stringify(params));
+      });
+      await callDaemon(client, 'events.subscribe', { filter: options.filter });
+
+      // Runs until Ctrl+C or the daemon stops
+      const interrupt = () => client.close();
+      process.once('SIGINT', interrupt);
+      await new Promise<void>((resolve) => client.onClose(resolve));
+      process.removeListener('SIGINT', interrupt);
+    });
+
   // ── daemon install ─────────────────────────────────────────
 
   daemon
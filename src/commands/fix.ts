@@ -3,19 +3,29 @@
  *
  * Usage:
  *   dcyfr fix                           # Fix all auto-fixable violations
- *   dcyfr fix --dry-run                 # Preview what would be fixed
+ *   dcyfr fix --dry-run                 # Preview what would be fixed as diffs
+ *   dcyfr fix --dry-run -o fixes.patch  # Write the preview to a patch file
+ *   dcyfr fix --interactive             # Review each fix as a diff first
  *   dcyfr fix license-headers           # Fix specific scanner only
+ *   dcyfr fix --no-verify               # Skip the post-fix re-scan
  *   dcyfr fix --project dcyfr-labs      # Fix specific project
  *   dcyfr fix list                      # List fixable scanners
+ *   dcyfr fix history                   # List recorded fix runs
+ *   dcyfr fix --undo                    # Restore files changed by the last run
+ *   dcyfr fix --undo <runId>            # Restore a specific run
  *
  * @module @dcyfr/ai-cli/commands/fix
  */
 
+import { writeFile } from 'fs/promises';
+import { createInterface } from 'readline';
+import { resolve } from 'path';
 import { Command } from 'commander';
 import { createLogger } from '@/lib/logger.js';
 import { createDefaultRegistry } from '@/scanners/registry.js';
 import type { ScanContext } from '@/scanners/types.js';
-import { runFixes, listFixableScanners, renderFixReport } from '@/fix/index.js';
+import { runFixes, listFixableScanners, renderFixReport, listFixRuns, undoFixRun } from '@/fix/index.js';
+import type { FixReviewDecision, FixReviewItem, FixReviewer } from '@/fix/index.js';
 import { findWorkspaceRoot } from '@/lib/workspace.js';
 
 const logger = createLogger('fix');
@@ -24,14 +34,37 @@ export function createFixCommand(): Command {
   const cmd = new Command('fix')
     .description('Auto-fix violations detected by scanners')
     .argument('[scanner]', 'Specific scanner to fix (e.g., license-headers, tlp-headers)')
-    .option('-n, --dry-run', 'Preview fixes without applying them')
+    .option('-n, --dry-run', 'Preview fixes as unified diffs without applying them')
+    .option('-o, --output <file>', 'With --dry-run: write the diff to a .patch file')
+    .option('-i, --interactive', 'Review each fix as a diff before anything is written')
     .option('-p, --project <name>', 'Fix within a specific project (e.g., dcyfr-labs)')
+    .option('--no-verify', 'Skip the re-scan of modified files after fixing')
+    .option('--undo [runId]', 'Restore the files changed by a fix run (default: the last one)')
+    .option('--force', 'With --undo: restore even files edited since the fix')
     .option('-v, --verbose', 'Verbose output')
     .option('--json', 'Output results as JSON')
     .action(async (scannerArg: string | undefined, options: FixOptions) => {
+      let prompt: PromptReviewer | undefined;
       try {
+        if (options.undo !== undefined) {
+          await undoRun(options);
+          return;
+        }
+        if (options.interactive) {
+          if (options.dryRun || options.json) {
+            throw new Error('--interactive cannot be combined with --dry-run or --json');
+          }
+          if (!process.stdin.isTTY) {
+            throw new Error('--interactive requires a terminal');
+          }
+          prompt = createPromptReviewer();
+        }
+        if (options.output && !options.dryRun) {
+          throw new Error('--output requires --dry-run');
+        }
+
         const workspaceRoot = await findWorkspaceRoot();
-        const registry = await createDefaultRegistry();
+        const registry = await createDefaultRegistry(workspaceRoot);
 
         // Build scan context
         const context: ScanContext = {
@@ -47,20 +80,35 @@ export function createFixCommand(): Command {
           verbose: options.verbose,
           scanner: scannerArg,
           project: options.project,
+          review: prompt?.review,
+          verify: options.verify,
         });
+        prompt?.close();
+
+        // Write the dry-run patch where requested
+        if (options.output) {
+          await writeFile(resolve(options.output), report.diff ?? '', 'utf-8');
+        }
 
         // Output results
         if (options.json) {
           console.log(JSON.stringify(report, null, 2));
         } else {
+          if (report.diff && !options.output) {
+            process.stdout.write(report.diff);
+          }
           console.log(renderFixReport(report));
+          if (options.output) {
+            console.log(`  Patch written to ${options.output} (apply with: git apply ${options.output})\n`);
+          }
         }
 
-        // Exit with non-zero if there were failures
-        if (report.totalFailures > 0) {
+        // Exit with non-zero if there were failures or a fix made things worse
+        if (report.totalFailures > 0 || report.totalIntroduced > 0) {
           process.exit(1);
         }
       } catch (error) {
+        prompt?.close();
         const message = error instanceof Error ? error.message : String(error);
 
         if (options.json) {
@@ -79,30 +127,199 @@ export function createFixCommand(): Command {
     .command('list')
     .description('List scanners that support auto-fix')
     .action(async () => {
-      const registry = await createDefaultRegistry();
-      const fixable = listFixableScanners(registry);
+      try {
+        const workspaceRoot = await findWorkspaceRoot();
+        const registry = await createDefaultRegistry(workspaceRoot);
+        const fixable = listFixableScanners(registry);
+
+        console.log('\n  🔧 Scanners with Auto-Fix Support\n  ' + '─'.repeat(50));
 
-      console.log('\n  🔧 Scanners with Auto-Fix Support\n  ' + '─'.repeat(50));
+        if (fixable.length === 0) {
+          console.log('  No scanners support auto-fix yet.\n');
+          return;
+        }
 
-      if (fixable.length === 0) {
-        console.log('  No scanners support auto-fix yet.\n');
-        return;
+        for (const scanner of fixable) {
+          const projects = scanner.projects ? ` (${scanner.projects.join(', ')})` : ' (all)';
+          console.log(`  • ${scanner.id.padEnd(22)} ${scanner.category.padEnd(14)} ${projects}`);
+          console.log(`    ${scanner.description}`);
+        }
+        console.log('');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`\n  ❌ ${message}\n`);
+        logger.error('Fix list failed', { error: message });
+        process.exit(1);
       }
+    });
 
-      for (const scanner of fixable) {
-        const projects = scanner.projects ? ` (${scanner.projects.join(', ')})` : ' (all)';
-        console.log(`  • ${scanner.id.padEnd(22)} ${scanner.category.padEnd(14)} ${projects}`);
-        console.log(`    ${scanner.description}`);
+  // Add history subcommand
+  cmd
+    .command('history')
+    .description('List recorded fix runs')
+    .option('--json', 'Output as JSON')
+    .action(async (options: { json?: boolean }) => {
+      try {
+        const workspaceRoot = await findWorkspaceRoot();
+        const runs = await listFixRuns(workspaceRoot);
+
+        if (options.json) {
+          console.log(
+            JSON.stringify(
+              runs.map(({ entries, ...run }) => ({ ...run, files: entries.map((e) => e.renamedTo ?? e.file) })),
+              null,
+              2,
+            ),
+          );
+          return;
+        }
+
+        console.log('\n  🕘 Fix History\n  ' + '─'.repeat(50));
+        if (runs.length === 0) {
+          console.log('  No fix runs recorded.\n');
+          return;
+        }
+        for (const run of runs) {
+          console.log(`  • ${run.runId.padEnd(22)} ${run.status.padEnd(12)} ${run.entries.length} files`);
+          if (run.error) console.log(`    ${run.error}`);
+        }
+        console.log('');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`\n  ❌ ${message}\n`);
+        logger.error('Fix history failed', { error: message });
+        process.exit(1);
       }
-      console.log('');
     });
 
   return cmd;
 }
 
+/**
+ * Handle `dcyfr fix --undo [runId]`
+ */
+async function undoRun(options: FixOptions): Promise<void> {
+  const workspaceRoot = await findWorkspaceRoot();
+  const runId = typeof options.undo === 'string' ? options.undo : undefined;
+  const result = await undoFixRun(workspaceRoot, runId, { force: options.force });
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  console.log(`\n  ↩️  Undid fix run ${result.runId}: ${result.restored.length} files restored`);
+  for (const file of result.restored) {
+    console.log(`     • ${file}`);
+  }
+  console.log('');
+}
+
+// ── Interactive Review ───────────────────────────────────────
+
+interface PromptReviewer {
+  review: FixReviewer;
+  close(): void;
+}
+
+const ANSWERS: Record<string, FixReviewDecision> = {
+  y: 'accept',
+  n: 'skip',
+  a: 'accept-rule',
+  q: 'quit',
+};
+
+/**
+ * Terminal reviewer: prints each proposed fix and asks what to do with it
+ */
+function createPromptReviewer(): PromptReviewer {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const color = process.stdout.isTTY === true;
+
+  // Queue lines so answers typed ahead of the prompt are not lost
+  const pending: string[] = [];
+  let waiter: ((line: string) => void) | null = null;
+  let closed = false;
+  const deliver = (line: string): void => {
+    if (waiter) {
+      const resolve = waiter;
+      waiter = null;
+      resolve(line);
+    } else {
+      pending.push(line);
+    }
+  };
+  rl.on('line', deliver);
+  // Ctrl-D / closed stdin ends the review like `q`
+  rl.once('close', () => {
+    closed = true;
+    deliver('q');
+  });
+  const nextLine = (): Promise<string> => {
+    const line = pending.shift();
+    if (line !== undefined) return Promise.resolve(line);
+    if (closed) return Promise.resolve('q');
+    return new Promise((resolve) => (waiter = resolve));
+  };
+
+  const review = async (item: FixReviewItem): Promise<FixReviewDecision> => {
+    console.log(renderReviewItem(item, color));
+    const rule = item.patch ? (item.violations[0]?.id ?? item.scanner) : item.scanner;
+
+    for (;;) {
+      process.stdout.write(`  Apply this fix? [y]es, [n]o, [a]ll for ${rule}, [q]uit: `);
+      const decision = ANSWERS[(await nextLine()).trim().toLowerCase().charAt(0)];
+      if (decision) return decision;
+    }
+  };
+
+  return { review, close: () => rl.close() };
+}
+
+/**
+ * Render a proposed fix: header, violations and colored diff
+ */
+function renderReviewItem(item: FixReviewItem, color: boolean): string {
+  const lines: string[] = [''];
+  const file = item.patch?.file ?? item.violations[0]?.file;
+  lines.push(`  [${item.scannerName} ${item.position}/${item.total}]${file ? ` ${file}` : ''}`);
+
+  if (!item.patch) {
+    lines.push(`  ${item.violations.length} fixes applied together (no preview available):`);
+  }
+  for (const violation of item.violations.slice(0, 10)) {
+    const location = violation.line !== undefined ? `:${violation.line}` : '';
+    lines.push(`    • ${violation.file ?? ''}${location} ${violation.message}`);
+  }
+  if (item.violations.length > 10) {
+    lines.push(`    … and ${item.violations.length - 10} more`);
+  }
+
+  if (item.diff) {
+    lines.push('');
+    for (const line of item.diff.trimEnd().split('\n')) {
+      lines.push(`  ${color ? colorizeDiffLine(line) : line}`);
+    }
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+function colorizeDiffLine(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return `\x1b[1m${line}\x1b[0m`;
+  if (line.startsWith('@@')) return `\x1b[36m${line}\x1b[0m`;
+  if (line.startsWith('+')) return `\x1b[32m${line}\x1b[0m`;
+  if (line.startsWith('-')) return `\x1b[31m${line}\x1b[0m`;
+  return line;
+}
+
 interface FixOptions {
   dryRun?: boolean;
+  output?: string;
+  interactive?: boolean;
   project?: string;
+  verify?: boolean;
+  undo?: string | boolean;
+  force?: boolean;
   verbose?: boolean;
   json?: boolean;
 }
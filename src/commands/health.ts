@@ -4,6 +4,7 @@
  * Usage:
  *   dcyfr health                  # Show health dashboard
  *   dcyfr health --json           # Machine-readable output
+ *   dcyfr health --watch          # Full-screen live dashboard
  *   dcyfr health history          # Show health history
  *   dcyfr health history --days 7 # Last 7 days
  *
@@ -13,6 +14,7 @@
 import { Command } from 'commander';
 import { createLogger } from '@/lib/logger.js';
 import {
+  LiveDashboard,
   loadHealthSnapshot,
   loadHealthHistory,
   renderHealthDashboard,
@@ -26,9 +28,21 @@ export function createHealthCommand(): Command {
   const cmd = new Command('health')
     .description('Show workspace health dashboard')
     .option('--json', 'Output as JSON')
+    .option('-w, --watch', 'Full-screen live dashboard that refreshes as scans finish (q to quit)')
     .action(async (options: HealthOptions) => {
+      if (options.watch && (!process.stdin.isTTY || !process.stdout.isTTY)) {
+        console.error('\n  ❌ --watch needs an interactive terminal\n');
+        process.exit(1);
+      }
+
       try {
         const workspaceRoot = await findWorkspaceRoot();
+
+        if (options.watch) {
+          await new LiveDashboard(workspaceRoot, { input: process.stdin, output: process.stdout }).run();
+          return;
+        }
+
         const snapshot = await loadHealthSnapshot(workspaceRoot);
 
         if (!snapshot) {
@@ -103,6 +117,7 @@ function formatAge(ms: number): string {
 
 interface HealthOptions {
   json?: boolean;
+  watch?: boolean;
 }
 
 interface HistoryOptions {
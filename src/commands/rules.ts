@@ -0,0 +1,131 @@
+/**
+ * Rules command — manage declarative custom rules
+ *
+ * Usage:
+ *   dcyfr rules list              # List rules from .dcyfr/rules/
+ *   dcyfr rules test              # Run every rule's test cases
+ *   dcyfr rules test <rule-id>    # Run one rule's test cases
+ *
+ * @module @dcyfr/ai-cli/commands/rules
+ */
+
+import { Command } from 'commander';
+import { createLogger } from '@/lib/logger.js';
+import { findWorkspaceRoot } from '@/lib/workspace.js';
+import { loadRules, runRuleTests } from '@/rules/index.js';
+import type { RuleLoadError } from '@/rules/index.js';
+
+const logger = createLogger('rules');
+
+export function createRulesCommand(): Command {
+  const cmd = new Command('rules').description('Manage custom regex rules in .dcyfr/rules/');
+
+  cmd
+    .command('list')
+    .description('List custom rules')
+    .option('--json', 'Output as JSON')
+    .action(async (options: RulesOptions) => {
+      try {
+        const workspaceRoot = await findWorkspaceRoot();
+        const { rules, errors } = await loadRules(workspaceRoot);
+
+        if (options.json) {
+          console.log(
+            JSON.stringify(
+              {
+                rules: rules.map((r) => ({
+                  id: r.id,
+                  name: r.name,
+                  severity: r.severity,
+                  pattern: r.pattern.source,
+                  fixable: r.replacement !== undefined,
+                  tests: r.tests.length,
+                  source: r.source,
+                })),
+                errors,
+              },
+              null,
+              2,
+            ),
+          );
+          return;
+        }
+
+        console.log('\n  Custom Rules\n  ' + '─'.repeat(50));
+        if (rules.length === 0) {
+          console.log('  No rules defined. Add JSON or YAML files to .dcyfr/rules/\n');
+        }
+        for (const rule of rules) {
+          const fixable = rule.replacement !== undefined ? ' 🔧' : '';
+          console.log(`  • ${rule.id.padEnd(28)} ${rule.severity.padEnd(8)} ${rule.tests.length} tests${fixable}`);
+          console.log(`    /${rule.pattern.source}/  (${rule.source})`);
+        }
+        printLoadErrors(errors);
+        console.log('');
+
+        if (errors.length > 0) process.exit(1);
+      } catch (error) {
+        logger.error('Failed to list rules', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command('test [rule]')
+    .description('Run the test cases declared on custom rules')
+    .option('--json', 'Output as JSON')
+    .action(async (ruleId: string | undefined, options: RulesOptions) => {
+      try {
+        const workspaceRoot = await findWorkspaceRoot();
+        const { rules, errors } = await loadRules(workspaceRoot);
+
+        const selected = ruleId ? rules.filter((r) => r.id === ruleId) : rules;
+        if (ruleId && selected.length === 0) {
+          throw new Error(`Rule '${ruleId}' not found. Available: ${rules.map((r) => r.id).join(', ') || '(none)'}`);
+        }
+
+        const results = runRuleTests(selected);
+        const failed = results.filter((r) => !r.passed);
+
+        if (options.json) {
+          console.log(JSON.stringify({ results, errors }, null, 2));
+        } else {
+          console.log('\n  Custom Rule Tests\n  ' + '─'.repeat(50));
+          for (const result of results) {
+            const icon = result.passed ? '✅' : '❌';
+            console.log(`  ${icon} ${result.rule} › ${result.name}`);
+            if (result.reason) console.log(`     ${result.reason}`);
+          }
+          const untested = selected.filter((r) => r.tests.length === 0).map((r) => r.id);
+          if (untested.length > 0) {
+            console.log(`\n  ⚠️  No test cases: ${untested.join(', ')}`);
+          }
+          printLoadErrors(errors);
+          console.log(`\n  ${results.length - failed.length} passed, ${failed.length} failed\n`);
+        }
+
+        if (failed.length > 0 || errors.length > 0) process.exit(1);
+      } catch (error) {
+        logger.error('Rule tests failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+function printLoadErrors(errors: RuleLoadError[]): void {
+  if (errors.length === 0) return;
+  console.log('\n  ❌ Invalid rule definitions:');
+  for (const error of errors) {
+    console.log(`    ${error.file}: ${error.message}`);
+  }
+}
+
+interface RulesOptions {
+  json?: boolean;
+}
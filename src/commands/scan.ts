@@ -7,39 +7,68 @@
  *   dcyfr scan design-tokens      # Specific scanner
  *   dcyfr scan --project dcyfr-labs
  *   dcyfr scan --json             # Machine-readable output
+ *   dcyfr scan --format sarif     # SARIF 2.1.0 for code-scanning upload
  *   dcyfr scan --verbose          # Detailed violation output
+ *   dcyfr scan --update-baseline  # Accept current findings in .dcyfr/baseline.json
+ *   dcyfr scan --since origin/main --changed-lines-only   # PR scan in CI
+ *   dcyfr scan --concurrency 8 --timeout 60000
+ *   dcyfr scan --no-cache         # Ignore .dcyfr/cache and re-analyze every file
+ *   dcyfr scan --local            # Scan in this process even when the daemon is running
+ *
+ * When the daemon is running, scans are handed to it (through its control
+ * API) unless --local, --project, --no-cache, --concurrency or --timeout
+ * ask for an in-process scan.
  *
  * @module @dcyfr/ai-cli/commands/scan
  */
 
 import { Command } from 'commander';
 import { createLogger } from '@/lib/logger.js';
-import { getChangedFiles } from '@/lib/git.js';
+import { getChangedFiles, getChangedFilesSince, getChangedLines } from '@/lib/git.js';
 import { createDefaultRegistry } from '@/scanners/registry.js';
+import type { RunAllOptions } from '@/scanners/registry.js';
+import { applyWorkspaceBaseline, saveBaseline, BASELINE_FILE } from '@/scanners/baseline.js';
+import { filterToChangedLines } from '@/scanners/changed-lines.js';
+import { ScanCache } from '@/scanners/cache.js';
 import type { ScanContext, ScanResult } from '@/scanners/types.js';
 import {
   buildHealthSnapshot,
   saveHealthSnapshot,
+  saveScanResults,
   renderScanResults,
   renderScanResultsJson,
+  renderScanResultsSarif,
+  resolveOutputFormat,
 } from '@/health/index.js';
+import type { ScanOutputFormat } from '@/health/index.js';
 import { listProjects } from '@/lib/files.js';
 import { findWorkspaceRoot } from '@/lib/workspace.js';
+import { parsePositiveInt } from '@/lib/options.js';
+import { loadConfig, resolveRunOptions } from '@/config/index.js';
+import { connectDaemon } from '@/daemon/ipc.js';
 
 const logger = createLogger('scan');
 
+/** Extra time the daemon gets beyond the scanners' own timeouts */
+const HAND_OFF_GRACE_MS = 10_000;
+
 /**
- * Handle quick scan mode with changed files
+ * Handle quick / --since scan modes with changed files
  */
-async function handleQuickMode(
+async function handleChangedFilesMode(
   workspaceRoot: string,
   context: ScanContext,
-  isJsonOutput: boolean,
+  format: ScanOutputFormat,
+  since: string | undefined,
 ): Promise<boolean> {
-  const changed = await getChangedFiles(workspaceRoot);
+  const changed = since
+    ? await getChangedFilesSince(workspaceRoot, since)
+    : await getChangedFiles(workspaceRoot);
   if (changed.length === 0) {
-    if (isJsonOutput) {
+    if (format === 'json') {
       console.log(JSON.stringify({ message: 'No changed files', results: [] }));
+    } else if (format === 'sarif') {
+      console.log(renderScanResultsSarif([], [], { workspaceRoot }));
     } else {
       console.log('\n  ✅ No changed files to scan.\n');
     }
@@ -56,6 +85,7 @@ async function executeScan(
   registry: Awaited<ReturnType<typeof createDefaultRegistry>>,
   scannerArg: string | undefined,
   context: ScanContext,
+  runOptions: RunAllOptions,
 ): Promise<ScanResult[]> {
   if (scannerArg) {
     const scanner = registry.get(scannerArg);
@@ -64,9 +94,74 @@ async function executeScan(
       console.error(`  Available scanners: ${registry.ids().join(', ')}\n`);
       process.exit(1);
     }
-    return [await scanner.scan(context)];
+    const timeoutMs = runOptions.scannerTimeouts?.[scanner.id] ?? runOptions.timeoutMs;
+    return [await registry.run(scanner.id, context, { timeoutMs })];
+  }
+  return registry.runAll(context, runOptions);
+}
+
+/**
+ * Run the scan in the running daemon; null when no daemon is reachable, the
+ * daemon scan fails or it doesn't answer in time (the caller then scans
+ * in-process)
+ */
+async function executeDaemonScan(
+  registry: Awaited<ReturnType<typeof createDefaultRegistry>>,
+  scannerArg: string | undefined,
+  context: ScanContext,
+  runOptions: RunAllOptions,
+): Promise<ScanResult[] | null> {
+  if (scannerArg && !registry.get(scannerArg)) return null; // Reported by executeScan
+
+  const client = await connectDaemon(context.workspaceRoot);
+  if (!client) return null;
+  try {
+    const { results } = await client.call<{ results: ScanResult[] }>(
+      'scan.run',
+      { scanners: scannerArg ? [scannerArg] : undefined, files: context.files },
+      handOffTimeout(scannerArg ? [scannerArg] : registry.ids(), runOptions),
+    );
+    return results;
+  } catch (error) {
+    logger.warn('Daemon scan failed, scanning locally', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Longest a daemon scan can take: one scanner timeout per round of
+ * `concurrency` scanners, plus a grace period
+ */
+function handOffTimeout(ids: string[], runOptions: RunAllOptions): number {
+  const timeouts = ids.map((id) => runOptions.scannerTimeouts?.[id] ?? runOptions.timeoutMs ?? 0);
+  const rounds = Math.ceil(ids.length / Math.max(1, runOptions.concurrency ?? 1));
+  return rounds * Math.max(0, ...timeouts) + HAND_OFF_GRACE_MS;
+}
+
+/**
+ * Print scan results in the requested output format
+ */
+function printResults(
+  results: ScanResult[],
+  format: ScanOutputFormat,
+  registry: Awaited<ReturnType<typeof createDefaultRegistry>>,
+  workspaceRoot: string,
+  verbose: boolean | undefined,
+): void {
+  switch (format) {
+    case 'json':
+      console.log(renderScanResultsJson(results));
+      break;
+    case 'sarif':
+      console.log(renderScanResultsSarif(results, registry.all(), { workspaceRoot }));
+      break;
+    default:
+      console.log(renderScanResults(results, verbose));
   }
-  return registry.runAll(context);
 }
 
 /**
@@ -82,6 +177,7 @@ async function saveHealthSnapshotIfEnabled(
     const projects = await listProjects(workspaceRoot);
     snapshot.workspace.packages = projects.length;
     await saveHealthSnapshot(workspaceRoot, snapshot);
+    await saveScanResults(workspaceRoot, results);
   }
 }
 
@@ -90,40 +186,93 @@ export function createScanCommand(): Command {
     .description('Run workspace scanners')
     .argument('[scanner]', 'Specific scanner to run (e.g., design-tokens, barrel-exports)')
     .option('-q, --quick', 'Quick scan: only changed files (via git diff)')
+    .option('--since <ref>', 'Only scan files changed since the merge-base of <ref> and HEAD')
+    .option('--changed-lines-only', 'Only report violations on added or modified lines')
     .option('-p, --project <name>', 'Scan a specific project (e.g., dcyfr-labs)')
     .option('-v, --verbose', 'Show detailed violation output')
-    .option('--json', 'Output results as JSON')
+    .option('--json', 'Output results as JSON (shorthand for --format json)')
+    .option('--format <format>', 'Output format: text, json, sarif', 'text')
     .option('--no-save', 'Skip saving health snapshot')
+    .option('--no-cache', 'Re-analyze every file instead of reusing cached results')
+    .option('--concurrency <n>', 'Maximum scanners running at once', parsePositiveInt)
+    .option('--timeout <ms>', 'Per-scanner timeout in milliseconds', parsePositiveInt)
+    .option('--update-baseline', `Record current findings in ${BASELINE_FILE}`)
+    .option('--no-baseline', 'Ignore the baseline and report every finding')
+    .option('--local', 'Scan in this process even when the daemon is running')
     .action(async (scannerArg: string | undefined, options: ScanOptions) => {
       try {
+        const format = resolveOutputFormat(options);
+        if (options.updateBaseline && (options.quick || options.since || options.changedLinesOnly)) {
+          throw new Error(
+            '--update-baseline requires a full scan and cannot be combined with --quick, --since or --changed-lines-only',
+          );
+        }
         const workspaceRoot = await findWorkspaceRoot();
-        const registry = await createDefaultRegistry();
+        const registry = await createDefaultRegistry(workspaceRoot);
+        const { config } = await loadConfig(workspaceRoot);
+        const runOptions = resolveRunOptions(config, {
+          concurrency: options.concurrency,
+          timeoutMs: options.timeout,
+        });
 
         // Build scan context
+        const cache = options.cache === false ? undefined : new ScanCache(workspaceRoot);
         const context: ScanContext = {
           workspaceRoot,
           project: options.project,
           verbose: options.verbose,
+          cache,
         };
 
-        // Quick mode: handle early exit if no changed files
-        if (options.quick) {
-          const shouldExit = await handleQuickMode(workspaceRoot, context, !!options.json);
+        // Quick / --since mode: handle early exit if no changed files
+        if (options.quick || options.since) {
+          const shouldExit = await handleChangedFilesMode(
+            workspaceRoot,
+            context,
+            format,
+            options.since,
+          );
           if (shouldExit) return;
         }
 
-        // Execute scan
-        const results = await executeScan(registry, scannerArg, context);
+        // Execute scan, in the daemon when one is running and no local-only option is set
+        const useDaemon =
+          !options.local &&
+          !options.project &&
+          options.cache !== false &&
+          options.concurrency === undefined &&
+          options.timeout === undefined;
+        const delegated = useDaemon ? await executeDaemonScan(registry, scannerArg, context, runOptions) : null;
+        let scanned = delegated ?? (await executeScan(registry, scannerArg, context, runOptions));
+        if (!delegated) await cache?.flush();
 
-        // Output results
-        if (options.json) {
-          console.log(renderScanResultsJson(results));
-        } else {
-          console.log(renderScanResults(results, options.verbose));
+        // Keep only findings on lines the diff added or modified
+        if (options.changedLinesOnly) {
+          const changedLines = await getChangedLines(workspaceRoot, options.since);
+          scanned = filterToChangedLines(scanned, changedLines, workspaceRoot);
         }
 
-        // Save health snapshot
-        await saveHealthSnapshotIfEnabled(workspaceRoot, results, options.save !== false);
+        if (options.updateBaseline) {
+          const baseline = await saveBaseline(workspaceRoot, scanned);
+          await saveHealthSnapshotIfEnabled(workspaceRoot, scanned, options.save !== false);
+          if (format === 'text') {
+            const total = baseline.entries.reduce((sum, e) => sum + e.count, 0);
+            console.log(`\n  📌 Baseline updated: ${total} findings recorded in ${BASELINE_FILE}\n`);
+          } else {
+            printResults(scanned, format, registry, workspaceRoot, options.verbose);
+          }
+          return;
+        }
+
+        // Drop findings accepted in the baseline
+        const results =
+          options.baseline === false ? scanned : await applyWorkspaceBaseline(scanned, workspaceRoot);
+
+        // Output results
+        printResults(results, format, registry, workspaceRoot, options.verbose);
+
+        // Save health snapshot (baselined findings still count against health)
+        await saveHealthSnapshotIfEnabled(workspaceRoot, scanned, options.save !== false);
 
         // Exit with non-zero if any scanner failed
         const hasFailed = results.some((r) => r.status === 'fail');
@@ -143,16 +292,26 @@ export function createScanCommand(): Command {
     .command('list')
     .description('List all available scanners')
     .action(async () => {
-      const registry = await createDefaultRegistry();
-      const scanners = registry.all();
-
-      console.log('\n  Available Scanners\n  ' + '─'.repeat(50));
-      for (const scanner of scanners) {
-        const projects = scanner.projects ? ` (${scanner.projects.join(', ')})` : ' (all)';
-        console.log(`  • ${scanner.id.padEnd(22)} ${scanner.category.padEnd(14)} ${projects}`);
-        console.log(`    ${scanner.description}`);
+      try {
+        const workspaceRoot = await findWorkspaceRoot();
+        const registry = await createDefaultRegistry(workspaceRoot);
+        const scanners = registry.all();
+
+        console.log('\n  Available Scanners\n  ' + '─'.repeat(50));
+        for (const scanner of scanners) {
+          const projects = scanner.projects ? ` (${scanner.projects.join(', ')})` : ' (all)';
+          const source = registry.sourceOf(scanner.id);
+          const plugin = source && source !== 'built-in' ? ` [plugin: ${source}]` : '';
+          console.log(`  • ${scanner.id.padEnd(22)} ${scanner.category.padEnd(14)} ${projects}${plugin}`);
+          console.log(`    ${scanner.description}`);
+        }
+        console.log('');
+      } catch (error) {
+        logger.error('Scanner list failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        process.exit(1);
       }
-      console.log('');
     });
 
   return cmd;
@@ -160,8 +319,17 @@ export function createScanCommand(): Command {
 
 interface ScanOptions {
   quick?: boolean;
+  since?: string;
+  changedLinesOnly?: boolean;
   project?: string;
   verbose?: boolean;
   json?: boolean;
+  format?: string;
   save?: boolean;
+  cache?: boolean;
+  updateBaseline?: boolean;
+  baseline?: boolean;
+  concurrency?: number;
+  timeout?: number;
+  local?: boolean;
 }
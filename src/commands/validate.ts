@@ -9,15 +9,20 @@
 import { Command } from 'commander';
 import { createLogger } from '@/lib/logger.js';
 import { createDefaultRegistry } from '@/scanners/registry.js';
+import { applyWorkspaceBaseline } from '@/scanners/baseline.js';
 import type { ScanContext } from '@/scanners/types.js';
 import { safeExit } from '@/lib/mode.js';
 import {
   buildHealthSnapshot,
   saveHealthSnapshot,
   renderScanResults,
+  renderScanResultsSarif,
+  resolveOutputFormat,
 } from '@/health/index.js';
 import { listProjects } from '@/lib/files.js';
 import { findWorkspaceRoot } from '@/lib/workspace.js';
+import { parsePositiveInt } from '@/lib/options.js';
+import { loadConfig, resolveRunOptions } from '@/config/index.js';
 
 const logger = createLogger('validate');
 
@@ -26,13 +31,23 @@ export function createValidateCommand(): Command {
     .description('Run DCYFR AI validation checks (compliance, security, governance)')
     .option('-v, --verbose', 'Verbose output')
     .option('-p, --project <name>', 'Validate a specific project')
-    .option('--json', 'Output results as JSON')
+    .option('--json', 'Output results as JSON (shorthand for --format json)')
+    .option('--format <format>', 'Output format: text, json, sarif', 'text')
+    .option('--no-baseline', 'Ignore the baseline and report every finding')
+    .option('--concurrency <n>', 'Maximum scanners running at once', parsePositiveInt)
+    .option('--timeout <ms>', 'Per-scanner timeout in milliseconds', parsePositiveInt)
     .action(async (options) => {
       try {
+        const format = resolveOutputFormat(options);
         const workspaceRoot = await findWorkspaceRoot();
-        const registry = await createDefaultRegistry();
+        const registry = await createDefaultRegistry(workspaceRoot);
+        const { config } = await loadConfig(workspaceRoot);
+        const runOptions = resolveRunOptions(config, {
+          concurrency: options.concurrency,
+          timeoutMs: options.timeout,
+        });
 
-        if (!options.json) {
+        if (format === 'text') {
           console.log('\n🔍 Running DCYFR Validation Checks\n');
         }
 
@@ -42,17 +57,21 @@ export function createValidateCommand(): Command {
           verbose: options.verbose,
         };
 
-        // Run all scanners
-        const results = await registry.runAll(context);
+        // Run all scanners, dropping findings accepted in the baseline
+        const scanned = await registry.runAll(context, runOptions);
+        const results =
+          options.baseline === false ? scanned : await applyWorkspaceBaseline(scanned, workspaceRoot);
 
-        if (options.json) {
+        if (format === 'json') {
           console.log(JSON.stringify(results, null, 2));
+        } else if (format === 'sarif') {
+          console.log(renderScanResultsSarif(results, registry.all(), { workspaceRoot }));
         } else {
           console.log(renderScanResults(results, options.verbose));
         }
 
         // Save health snapshot
-        const snapshot = buildHealthSnapshot(results);
+        const snapshot = buildHealthSnapshot(scanned);
         const projects = await listProjects(workspaceRoot);
         snapshot.workspace.packages = projects.length;
         await saveHealthSnapshot(workspaceRoot, snapshot);
@@ -60,12 +79,12 @@ export function createValidateCommand(): Command {
         // Exit with non-zero if any scanner failed
         const hasFailed = results.some((r) => r.status === 'fail');
         if (hasFailed) {
-          if (!options.json) {
+          if (format === 'text') {
             console.log('  ❌ Validation failed. See violations above.\n');
           }
           safeExit(1);
         } else {
-          if (!options.json) {
+          if (format === 'text') {
             console.log('  ✅ Validation passed.\n');
           }
         }
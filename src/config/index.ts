@@ -10,6 +10,8 @@ export {
   initConfig,
   validateConfig,
   renderConfig,
+  resolveRunOptions,
+  resolveWatcherConfig,
   DEFAULT_CONFIG,
 } from './schema.js';
 
@@ -19,6 +21,10 @@ export type {
   LogConfig,
   NotifyConfig,
   AISettingsConfig,
+  ScanSettingsConfig,
   ScannerConfig,
+  WatcherSettingsConfig,
+  WatcherRuleConfig,
+  ScheduleConfig,
   ConfigValidationError,
 } from './schema.js';
@@ -9,8 +9,13 @@
  */
 
 import { readFile, writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
+import { isAbsolute, join } from 'path';
 import { pathExists } from '@/lib/files.js';
+import { globToRegExp } from '@/lib/glob.js';
+import { DEFAULT_SCHEDULES, DEFAULT_WATCHER_CONFIG } from '@/daemon/types.js';
+import { isValidTimeZone, nextCronRun, parseCron, parseInterval, parseQuietWindow } from '@/daemon/cron.js';
+import type { RunAllOptions } from '@/scanners/registry.js';
+import type { WatcherConfig } from '@/daemon/types.js';
 
 const DCYFR_DIR = '.dcyfr';
 const CONFIG_FILE = 'config.json';
@@ -27,6 +32,18 @@ export interface ScannerConfig {
   exclude?: string[] | undefined;
   /** Scanner-specific options */
   options?: Record<string, unknown> | undefined;
+  /** Per-scanner timeout in ms (overrides `scan.timeoutMs`) */
+  timeoutMs?: number | undefined;
+}
+
+/**
+ * Scan execution configuration section
+ */
+export interface ScanSettingsConfig {
+  /** Maximum scanners running at once (default: 4) */
+  concurrency: number;
+  /** Default per-scanner timeout in ms (default: 120000) */
+  timeoutMs: number;
 }
 
 /**
@@ -47,6 +64,57 @@ export interface DaemonSettingsConfig {
   watcherDebounceMs: number;
 }
 
+/**
+ * File watcher rule — set exactly one of `glob` or `pattern`
+ */
+export interface WatcherRuleConfig {
+  /** Glob matched against workspace-relative paths (e.g. `apps/web/src/**` or `*.md`) */
+  glob?: string | undefined;
+  /** Regular expression tested against workspace-relative paths */
+  pattern?: string | undefined;
+  /** Scanner IDs to run for matching changes */
+  scanners: string[];
+  /** Debounce for this rule in ms (default: `daemon.watcherDebounceMs`) */
+  debounceMs?: number | undefined;
+}
+
+/**
+ * File watcher configuration section (unset fields use the built-in defaults)
+ */
+export interface WatcherSettingsConfig {
+  /** Directories to watch, relative to the workspace root (`.` = everything) */
+  roots?: string[] | undefined;
+  /** Globs of paths to ignore, in addition to node_modules, build output etc. */
+  ignore?: string[] | undefined;
+  /** Rules mapping changed files to scanners (replace the built-in rules) */
+  rules?: WatcherRuleConfig[] | undefined;
+}
+
+/**
+ * User-defined daemon schedule. Set `every` or `cron`; an `id` matching a
+ * built-in schedule overrides it (and may keep its timing).
+ */
+export interface ScheduleConfig {
+  /** Schedule identifier */
+  id: string;
+  /** Human-readable name (default: the id) */
+  name?: string | undefined;
+  /** Scanner ID to invoke (default: the id) */
+  scanner?: string | undefined;
+  /** Interval such as `30m`, `6h`, `1d` (or ms) */
+  every?: string | number | undefined;
+  /** Cron expression, e.g. `0 3 * * 1-5` or `@daily` */
+  cron?: string | undefined;
+  /** IANA timezone for `cron` and `quietHours` (default: system timezone) */
+  timezone?: string | undefined;
+  /** Daily `HH:MM-HH:MM` windows in which runs are deferred */
+  quietHours?: string[] | undefined;
+  /** Scanner-specific options for scheduled runs */
+  options?: Record<string, unknown> | undefined;
+  /** Whether the schedule is active (default: true) */
+  enabled?: boolean | undefined;
+}
+
 /**
  * Log rotation configuration section
  */
@@ -97,14 +165,22 @@ export interface DcyfrConfig {
   $schema: string;
   /** Daemon settings */
   daemon: DaemonSettingsConfig;
+  /** File watcher roots, ignores and rules */
+  watcher: WatcherSettingsConfig;
+  /** User-defined and overridden daemon schedules */
+  schedules: ScheduleConfig[];
   /** Log rotation settings */
   logs: LogConfig;
   /** Notification settings */
   notifications: NotifyConfig;
   /** AI provider settings */
   ai: AISettingsConfig;
+  /** Scan execution settings */
+  scan: ScanSettingsConfig;
   /** Per-scanner overrides */
   scanners: Record<string, ScannerConfig>;
+  /** Scanner plugin modules — local paths or package names */
+  plugins: string[];
 }
 
 // ── Defaults ─────────────────────────────────────────────────
@@ -122,6 +198,8 @@ export const DEFAULT_CONFIG: DcyfrConfig = {
     schedulerEnabled: true,
     watcherDebounceMs: 1_000,
   },
+  watcher: {},
+  schedules: [],
   logs: {
     maxSizeBytes: 5 * 1024 * 1024,
     maxFiles: 5,
@@ -137,7 +215,12 @@ export const DEFAULT_CONFIG: DcyfrConfig = {
     temperature: 0.3,
     rateLimitPerMinute: 30,
   },
+  scan: {
+    concurrency: 4,
+    timeoutMs: 120_000,
+  },
   scanners: {},
+  plugins: [],
 };
 
 // ── Validation ───────────────────────────────────────────────
@@ -175,6 +258,13 @@ export function validateConfig(config: unknown): ConfigValidationError[] {
     validateNumber(daemon, 'watcherDebounceMs', 100, 30_000, errors, 'daemon');
   }
 
+  // Validate watcher section
+  const watcher = validateSection(obj, 'watcher', errors);
+  if (watcher) validateWatcher(watcher, errors);
+
+  // Validate schedules
+  if (obj.schedules !== undefined) validateSchedules(obj.schedules, errors);
+
   // Validate logs section
   const logs = validateSection(obj, 'logs', errors);
   if (logs) {
@@ -202,6 +292,39 @@ export function validateConfig(config: unknown): ConfigValidationError[] {
     validateNumber(ai, 'rateLimitPerMinute', 1, 1000, errors, 'ai');
   }
 
+  // Validate scan section
+  const scan = validateSection(obj, 'scan', errors);
+  if (scan) {
+    validateNumber(scan, 'concurrency', 1, 32, errors, 'scan');
+    validateNumber(scan, 'timeoutMs', 1_000, 3_600_000, errors, 'scan');
+  }
+
+  // Validate per-scanner overrides
+  const scanners = validateSection(obj, 'scanners', errors);
+  if (scanners) {
+    for (const [id, value] of Object.entries(scanners)) {
+      if (typeof value !== 'object' || value === null) {
+        errors.push({ path: `scanners.${id}`, message: 'Must be an object', value });
+        continue;
+      }
+      validateNumber(value as Record<string, unknown>, 'timeoutMs', 1_000, 3_600_000, errors, `scanners.${id}`);
+    }
+  }
+
+  // Validate scanner plugins
+  const plugins = obj.plugins;
+  if (plugins !== undefined) {
+    if (!Array.isArray(plugins)) {
+      errors.push({ path: 'plugins', message: 'Must be an array of strings', value: plugins });
+    } else {
+      plugins.forEach((spec: unknown, i) => {
+        if (typeof spec !== 'string' || spec.trim() === '') {
+          errors.push({ path: `plugins.${i}`, message: 'Must be a non-empty string', value: spec });
+        }
+      });
+    }
+  }
+
   return errors;
 }
 
@@ -292,6 +415,38 @@ export function renderConfig(config: DcyfrConfig): string {
   lines.push(`    watcherDebounce:      ${config.daemon.watcherDebounceMs}ms`);
   lines.push('');
 
+  // Watcher
+  const { roots, ignore, rules } = config.watcher;
+  lines.push('  [watcher]');
+  lines.push(`    roots:                ${roots ? roots.join(', ') : '(built-in)'}`);
+  lines.push(`    ignore:               ${ignore?.length ? ignore.join(', ') : '(defaults only)'}`);
+  if (rules) {
+    for (const rule of rules) {
+      const debounce = rule.debounceMs ? ` (${rule.debounceMs}ms)` : '';
+      lines.push(`    ${rule.glob ?? `/${rule.pattern}/`} → ${rule.scanners.join(', ')}${debounce}`);
+    }
+  } else {
+    lines.push('    rules:                (built-in)');
+  }
+  lines.push('');
+
+  // Schedules
+  if (config.schedules.length > 0) {
+    lines.push('  [schedules]');
+    for (const schedule of config.schedules) {
+      const timing = schedule.cron
+        ? `cron ${schedule.cron}`
+        : schedule.every !== undefined
+          ? `every ${schedule.every}`
+          : '(built-in timing)';
+      const zone = schedule.timezone ? ` ${schedule.timezone}` : '';
+      const quiet = schedule.quietHours?.length ? `, quiet ${schedule.quietHours.join(', ')}` : '';
+      const status = schedule.enabled === false ? '❌' : '✅';
+      lines.push(`    ${schedule.id}: ${status} ${schedule.scanner ?? schedule.id}, ${timing}${zone}${quiet}`);
+    }
+    lines.push('');
+  }
+
   // Logs
   lines.push('  [logs]');
   lines.push(`    maxSize:              ${(config.logs.maxSizeBytes / 1024 / 1024).toFixed(1)} MB`);
@@ -316,6 +471,12 @@ export function renderConfig(config: DcyfrConfig): string {
   lines.push(`    rateLimit:            ${config.ai.rateLimitPerMinute}/min`);
   lines.push('');
 
+  // Scan
+  lines.push('  [scan]');
+  lines.push(`    concurrency:          ${config.scan.concurrency}`);
+  lines.push(`    timeout:              ${config.scan.timeoutMs / 1000}s`);
+  lines.push('');
+
   // Scanners
   const scannerOverrides = Object.entries(config.scanners);
   if (scannerOverrides.length > 0) {
@@ -323,7 +484,17 @@ export function renderConfig(config: DcyfrConfig): string {
     for (const [id, cfg] of scannerOverrides) {
       const status = cfg.enabled ? '✅' : '❌';
       const excludes = cfg.exclude ? ` (${cfg.exclude.length} exclusions)` : '';
-      lines.push(`    ${id}: ${status}${excludes}`);
+      const timeout = cfg.timeoutMs ? ` (timeout ${cfg.timeoutMs / 1000}s)` : '';
+      lines.push(`    ${id}: ${status}${excludes}${timeout}`);
+    }
+    lines.push('');
+  }
+
+  // Plugins
+  if (config.plugins.length > 0) {
+    lines.push('  [plugins]');
+    for (const spec of config.plugins) {
+      lines.push(`    ${spec}`);
     }
     lines.push('');
   }
@@ -331,6 +502,207 @@ export function renderConfig(config: DcyfrConfig): string {
   return lines.join('\n');
 }
 
+// ── Scan Options ─────────────────────────────────────────────
+
+/**
+ * Resolve `ScannerRegistry.runAll` options from config, with CLI overrides.
+ * Values `validateConfig` rejects fall back to the defaults.
+ */
+export function resolveRunOptions(
+  config: DcyfrConfig,
+  overrides: { concurrency?: number | undefined; timeoutMs?: number | undefined } = {},
+): RunAllOptions {
+  const scannerTimeouts: Record<string, number> = {};
+  // An explicit CLI timeout applies to every scanner
+  if (overrides.timeoutMs === undefined) {
+    for (const [id, cfg] of Object.entries(config.scanners)) {
+      const timeoutMs = validNumber(cfg, 'timeoutMs', 1_000, 3_600_000);
+      if (timeoutMs !== undefined) scannerTimeouts[id] = timeoutMs;
+    }
+  }
+
+  return {
+    concurrency:
+      overrides.concurrency ?? validNumber(config.scan, 'concurrency', 1, 32) ?? DEFAULT_CONFIG.scan.concurrency,
+    timeoutMs:
+      overrides.timeoutMs ?? validNumber(config.scan, 'timeoutMs', 1_000, 3_600_000) ?? DEFAULT_CONFIG.scan.timeoutMs,
+    scannerTimeouts,
+  };
+}
+
+// ── Watcher ──────────────────────────────────────────────────
+
+/**
+ * Resolve `FileWatcher` settings from config. An invalid `watcher` section
+ * is ignored as a whole (the built-in roots and rules apply) and reported
+ * by `validateConfig`.
+ */
+export function resolveWatcherConfig(config: DcyfrConfig): WatcherConfig {
+  const defaults: WatcherConfig = { ...DEFAULT_WATCHER_CONFIG, debounceMs: config.daemon.watcherDebounceMs };
+  const watcher = config.watcher as unknown;
+  if (typeof watcher !== 'object' || watcher === null) return defaults;
+
+  const errors: ConfigValidationError[] = [];
+  validateWatcher(watcher as Record<string, unknown>, errors);
+  if (errors.length > 0) return defaults;
+
+  const { roots, ignore = [], rules } = watcher as WatcherSettingsConfig;
+  return {
+    roots: roots ?? defaults.roots,
+    ignored: [...defaults.ignored, ...ignore],
+    debounceMs: defaults.debounceMs,
+    rules:
+      rules?.map((rule) => ({
+        pattern: rule.glob !== undefined ? globToRegExp(rule.glob) : new RegExp(rule.pattern!),
+        scanners: rule.scanners,
+        debounceMs: rule.debounceMs,
+      })) ?? defaults.rules,
+  };
+}
+
+function validateWatcher(watcher: Record<string, unknown>, errors: ConfigValidationError[]): void {
+  if (validateStringArray(watcher, 'roots', errors, 'watcher')) {
+    (watcher['roots'] as string[]).forEach((root, i) => {
+      if (isAbsolute(root) || root.split(/[\\/]/).includes('..')) {
+        errors.push({ path: `watcher.roots.${i}`, message: 'Must be a path inside the workspace', value: root });
+      }
+    });
+  }
+  validateStringArray(watcher, 'ignore', errors, 'watcher');
+
+  const rules = watcher['rules'];
+  if (rules === undefined) return;
+  if (!Array.isArray(rules)) {
+    errors.push({ path: 'watcher.rules', message: 'Must be an array of rules', value: rules });
+    return;
+  }
+  rules.forEach((value: unknown, i) => {
+    const path = `watcher.rules.${i}`;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push({ path, message: 'Must be an object', value });
+      return;
+    }
+    const rule = value as Record<string, unknown>;
+
+    if ((rule['glob'] === undefined) === (rule['pattern'] === undefined)) {
+      errors.push({ path, message: 'Must set exactly one of glob or pattern', value });
+    } else if (rule['glob'] !== undefined && (typeof rule['glob'] !== 'string' || rule['glob'] === '')) {
+      errors.push({ path: `${path}.glob`, message: 'Must be a non-empty glob string', value: rule['glob'] });
+    } else if (rule['pattern'] !== undefined) {
+      if (typeof rule['pattern'] !== 'string' || rule['pattern'] === '') {
+        errors.push({ path: `${path}.pattern`, message: 'Must be a non-empty regular expression', value: rule['pattern'] });
+      } else {
+        try {
+          new RegExp(rule['pattern']);
+        } catch (error) {
+          errors.push({
+            path: `${path}.pattern`,
+            message: `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+            value: rule['pattern'],
+          });
+        }
+      }
+    }
+
+    const scanners = rule['scanners'];
+    if (!Array.isArray(scanners) || scanners.length === 0 || scanners.some((id) => typeof id !== 'string' || id === '')) {
+      errors.push({ path: `${path}.scanners`, message: 'Must be a non-empty array of scanner IDs', value: scanners });
+    }
+    validateNumber(rule, 'debounceMs', 100, 60_000, errors, path);
+  });
+}
+
+// ── Schedules ────────────────────────────────────────────────
+
+/** Shortest interval a schedule may use */
+const MIN_SCHEDULE_INTERVAL_MS = 60_000;
+
+function validateSchedules(schedules: unknown, errors: ConfigValidationError[]): void {
+  if (!Array.isArray(schedules)) {
+    errors.push({ path: 'schedules', message: 'Must be an array of schedules', value: schedules });
+    return;
+  }
+
+  const ids = new Set<string>();
+  schedules.forEach((value: unknown, i) => {
+    const path = `schedules.${i}`;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push({ path, message: 'Must be an object', value });
+      return;
+    }
+    const schedule = value as Record<string, unknown>;
+    const invalid = (key: string, message: string): void => {
+      errors.push({ path: `${path}.${key}`, message, value: schedule[key] });
+    };
+
+    const id = schedule['id'];
+    if (typeof id !== 'string' || id.trim() === '') {
+      invalid('id', 'Must be a non-empty string');
+    } else if (ids.has(id)) {
+      invalid('id', `Duplicate schedule id '${id}'`);
+    } else {
+      ids.add(id);
+    }
+    for (const key of ['name', 'scanner'] as const) {
+      if (schedule[key] !== undefined && (typeof schedule[key] !== 'string' || schedule[key] === '')) {
+        invalid(key, 'Must be a non-empty string');
+      }
+    }
+    validateBoolean(schedule, 'enabled', errors, path);
+    const options = schedule['options'];
+    if (options !== undefined && (typeof options !== 'object' || options === null || Array.isArray(options))) {
+      invalid('options', 'Must be an object');
+    }
+
+    const timeZone = schedule['timezone'];
+    const validTimeZone = typeof timeZone === 'string' && isValidTimeZone(timeZone);
+    if (timeZone !== undefined && !validTimeZone) invalid('timezone', 'Must be an IANA timezone (e.g. Europe/Berlin)');
+
+    if (schedule['every'] !== undefined && schedule['cron'] !== undefined) {
+      errors.push({ path, message: 'Must set only one of every or cron', value });
+    } else if (schedule['every'] !== undefined) {
+      try {
+        const every = schedule['every'];
+        if (typeof every !== 'string' && typeof every !== 'number') throw new Error('Must be an interval such as 6h');
+        if (parseInterval(every) < MIN_SCHEDULE_INTERVAL_MS) {
+          invalid('every', 'Must be at least 1m');
+        }
+      } catch (error) {
+        invalid('every', error instanceof Error ? error.message : String(error));
+      }
+    } else if (schedule['cron'] !== undefined) {
+      try {
+        if (typeof schedule['cron'] !== 'string') throw new Error('Must be a cron expression string');
+        nextCronRun(parseCron(schedule['cron']), new Date(), validTimeZone ? (timeZone as string) : undefined);
+      } catch (error) {
+        invalid('cron', error instanceof Error ? error.message : String(error));
+      }
+    } else if (!DEFAULT_SCHEDULES.some((d) => d.id === id)) {
+      errors.push({ path, message: 'Must set every or cron', value });
+    }
+
+    const quietHours = schedule['quietHours'];
+    if (quietHours !== undefined) {
+      if (!Array.isArray(quietHours)) {
+        invalid('quietHours', 'Must be an array of HH:MM-HH:MM windows');
+      } else {
+        quietHours.forEach((window: unknown, j) => {
+          try {
+            if (typeof window !== 'string') throw new Error('Must be a HH:MM-HH:MM string');
+            parseQuietWindow(window);
+          } catch (error) {
+            errors.push({
+              path: `${path}.quietHours.${j}`,
+              message: error instanceof Error ? error.message : String(error),
+              value: window,
+            });
+          }
+        });
+      }
+    }
+  });
+}
+
 // ── Helpers ──────────────────────────────────────────────────
 
 function validateNumber(
@@ -369,6 +741,39 @@ function validateBoolean(
   }
 }
 
+/**
+ * Validate an optional array of strings; returns true when present and valid
+ */
+function validateStringArray(
+  obj: Record<string, unknown>,
+  key: string,
+  errors: ConfigValidationError[],
+  prefix: string,
+): boolean {
+  const val = obj[key];
+  if (val === undefined) return false;
+  if (!Array.isArray(val) || val.some((item) => typeof item !== 'string' || item === '')) {
+    errors.push({
+      path: `${prefix}.${key}`,
+      message: 'Must be an array of non-empty strings',
+      value: val,
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * A section's number when `validateNumber` accepts it, else undefined
+ */
+function validNumber(section: unknown, key: string, min: number, max: number): number | undefined {
+  if (typeof section !== 'object' || section === null) return undefined;
+  const obj = section as Record<string, unknown>;
+  const errors: ConfigValidationError[] = [];
+  validateNumber(obj, key, min, max, errors, '');
+  return errors.length === 0 ? (obj[key] as number | undefined) : undefined;
+}
+
 /**
  * Validate that a config section is an object.
  * Returns the section as a typed record if valid, or null (and pushes an error) if not.
@@ -0,0 +1,321 @@
+/**
+ * Schedule timing — cron expressions, interval strings and quiet hours
+ *
+ * Cron expressions have five fields (minute, hour, day of month, month,
+ * day of week) with `*`, lists, ranges, `/` steps and month/weekday names,
+ * plus the `@hourly`/`@daily`/`@weekly`/`@monthly`/`@yearly` macros. Like
+ * classic cron, when both day fields are restricted a day matching either
+ * one runs. Times are evaluated in an IANA timezone, or the system
+ * timezone when none is given.
+ *
+ * @module @dcyfr/ai-cli/daemon/cron
+ */
+
+const MINUTE_MS = 60_000;
+const DAY_MINUTES = 1440;
+
+/** How far ahead `nextCronRun` looks before giving up (e.g. `0 0 30 2 *`) */
+const SEARCH_LIMIT_MS = 5 * 366 * 86_400_000;
+
+// ── Cron ─────────────────────────────────────────────────────
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  weekdays: Set<number>;
+  /** Both day fields are restricted, so either may match */
+  eitherDay: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is also Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/**
+ * Parse a cron expression; throws on malformed input
+ */
+export function parseCron(expression: string): CronSchedule {
+  const source = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = source.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression '${expression}' must have 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i]!, expression));
+  // Sunday may be written as 7
+  if (weekdays!.delete(7)) weekdays!.add(0);
+
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    days: days!,
+    months: months!,
+    weekdays: weekdays!,
+    eitherDay: !parts[2]!.startsWith('*') && !parts[4]!.startsWith('*'),
+  };
+}
+
+function parseField(text: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+  const fail = (part: string): never => {
+    throw new Error(`Invalid cron ${field.name} '${part}' in '${expression}'`);
+  };
+  const value = (token: string, part: string): number => {
+    const index = field.names?.indexOf(token.toLowerCase()) ?? -1;
+    const n = index !== -1 ? index + (field.min === 1 ? 1 : 0) : /^\d+$/.test(token) ? Number(token) : NaN;
+    if (!Number.isInteger(n) || n < field.min || n > field.max) fail(part);
+    return n;
+  };
+
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (range === undefined || extra !== undefined) fail(part);
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) fail(part);
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else {
+      const [from, to, more] = range!.split('-');
+      if (from === undefined || from === '' || more !== undefined) fail(part);
+      start = value(from!, part);
+      // `5/15` runs from 5 to the end of the range
+      end = to !== undefined ? value(to, part) : stepText !== undefined ? field.max : start;
+      if (end < start) fail(part);
+    }
+    for (let n = start; n <= end; n += step) values.add(n);
+  }
+  return values;
+}
+
+/**
+ * First time after `after` (exclusive, whole minutes) that matches the
+ * schedule in the given timezone; throws when nothing matches within
+ * five years
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date, timeZone?: string): Date {
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = time + SEARCH_LIMIT_MS;
+
+  while (time < limit) {
+    const t = wallClock(new Date(time), timeZone);
+    const minuteOfDay = t.hour * 60 + t.minute;
+
+    if (!schedule.months.has(t.month)) {
+      // Skip to the first day of the next month
+      const daysInMonth = new Date(Date.UTC(t.year, t.month, 0)).getUTCDate();
+      time += ((daysInMonth - t.day) * DAY_MINUTES + DAY_MINUTES - minuteOfDay) * MINUTE_MS;
+    } else if (!dayMatches(schedule, t.day, t.weekday)) {
+      time += (DAY_MINUTES - minuteOfDay) * MINUTE_MS;
+    } else if (!schedule.hours.has(t.hour)) {
+      time += (60 - t.minute) * MINUTE_MS;
+    } else if (!schedule.minutes.has(t.minute)) {
+      time += MINUTE_MS;
+    } else {
+      return new Date(time);
+    }
+  }
+  throw new Error('Cron expression never matches');
+}
+
+function dayMatches(schedule: CronSchedule, day: number, weekday: number): boolean {
+  const byDate = schedule.days.has(day);
+  const byWeekday = schedule.weekdays.has(weekday);
+  return schedule.eitherDay ? byDate || byWeekday : byDate && byWeekday;
+}
+
+// ── Intervals ────────────────────────────────────────────────
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1_000,
+  m: MINUTE_MS,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse an interval such as `30m`, `6h`, `1d` or `1h30m` (a number is
+ * taken as milliseconds); throws on malformed input
+ */
+export function parseInterval(value: string | number): number {
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value) || value <= 0) throw new Error(`Invalid interval ${value} (must be a positive number of ms)`);
+    return value;
+  }
+  const text = value.trim().toLowerCase();
+  if (!/^(\d+(ms|s|m|h|d|w))+$/.test(text)) {
+    throw new Error(`Invalid interval '${value}' (use e.g. 30m, 6h, 1d or 1h30m)`);
+  }
+  let total = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+)(ms|s|m|h|d|w)/g)) {
+    total += Number(amount) * UNIT_MS[unit!]!;
+  }
+  if (total <= 0) throw new Error(`Invalid interval '${value}' (must be longer than zero)`);
+  return total;
+}
+
+/**
+ * Render milliseconds as the largest exact interval units (`1h30m`)
+ */
+export function formatInterval(ms: number): string {
+  let rest = ms;
+  let text = '';
+  for (const unit of ['w', 'd', 'h', 'm', 's', 'ms']) {
+    const size = UNIT_MS[unit]!;
+    if (rest >= size) {
+      text += `${Math.floor(rest / size)}${unit}`;
+      rest %= size;
+    }
+  }
+  return text || '0ms';
+}
+
+// ── Quiet Hours ──────────────────────────────────────────────
+
+/**
+ * Daily window in minutes since midnight; `end` before `start` wraps past midnight
+ */
+export interface QuietWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a quiet-hours window such as `22:00-07:00`; throws on malformed input
+ */
+export function parseQuietWindow(window: string): QuietWindow {
+  const match = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/.exec(window.trim());
+  const minutes = (h: string, m: string): number => (Number(h) < 24 && Number(m) < 60 ? Number(h) * 60 + Number(m) : NaN);
+  const start = match ? minutes(match[1]!, match[2]!) : NaN;
+  const end = match ? minutes(match[3]!, match[4]!) : NaN;
+  if (Number.isNaN(start) || Number.isNaN(end) || start === end) {
+    throw new Error(`Invalid quiet hours '${window}' (use HH:MM-HH:MM, e.g. 22:00-07:00)`);
+  }
+  return { start, end };
+}
+
+/**
+ * Move a time out of quiet hours: a time inside a window becomes the
+ * window's end; times outside every window are returned unchanged
+ */
+export function deferQuietHours(time: Date, windows: QuietWindow[], timeZone?: string): Date {
+  let result = time;
+  // Adjacent windows may chain, but never more than once each
+  for (let i = 0; i <= windows.length; i++) {
+    const t = wallClock(result, timeZone);
+    const minute = t.hour * 60 + t.minute;
+    const window = windows.find(({ start, end }) =>
+      start < end ? minute >= start && minute < end : minute >= start || minute < end,
+    );
+    if (!window) return result;
+    const wait = (window.end - minute + DAY_MINUTES) % DAY_MINUTES;
+    result = new Date(Math.floor(result.getTime() / MINUTE_MS) * MINUTE_MS + wait * MINUTE_MS);
+  }
+  return result;
+}
+
+// ── Timezones ────────────────────────────────────────────────
+
+/**
+ * Check that a timezone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar fields of a time in a timezone (system timezone when unset)
+ */
+function wallClock(date: Date, timeZone?: string): WallClock {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      weekday: date.getDay(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+    };
+  }
+
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const { type, value } of formatter.formatToParts(date)) parts[type] = value;
+  return {
+    year: Number(parts['year']),
+    month: Number(parts['month']),
+    day: Number(parts['day']),
+    weekday: WEEKDAYS.indexOf(parts['weekday']!),
+    hour: Number(parts['hour']),
+    minute: Number(parts['minute']),
+  };
+}
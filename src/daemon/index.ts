@@ -4,10 +4,37 @@
  * @module @dcyfr/ai-cli/daemon
  */
 
-export { DaemonProcess, readDaemonState, isDaemonRunning, stopDaemon, readDaemonLogs } from './process.js';
+export {
+  DaemonProcess,
+  readDaemonState,
+  isDaemonRunning,
+  stopDaemon,
+  notifyScheduleChange,
+  readDaemonLogs,
+} from './process.js';
+export {
+  IpcServer,
+  DaemonClient,
+  RpcError,
+  RPC_ERRORS,
+  DEFAULT_SOCKET_FILE,
+  connectDaemon,
+  resolveSocketPath,
+} from './ipc.js';
+export type { IpcConnection, RpcHandler, RpcNotification, RpcRequest, RpcResponse } from './ipc.js';
 export { EventBus } from './events.js';
 export { TaskQueue } from './queue.js';
-export { Scheduler } from './scheduler.js';
+export { Scheduler, nextRunTime } from './scheduler.js';
+export {
+  parseCron,
+  nextCronRun,
+  parseInterval,
+  formatInterval,
+  parseQuietWindow,
+  deferQuietHours,
+  isValidTimeZone,
+} from './cron.js';
+export type { CronSchedule, QuietWindow } from './cron.js';
 export { FileWatcher } from './watcher.js';
 export {
   rotateLogIfNeeded,
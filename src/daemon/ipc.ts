@@ -0,0 +1,390 @@
+/**
+ * Daemon IPC — local control API over a Unix domain socket
+ *
+ * The daemon listens on `.dcyfr/daemon.sock` (a named pipe on Windows) and
+ * speaks JSON-RPC 2.0 with one JSON message per line. Only the local user
+ * can connect: the socket is created with owner-only permissions. Methods
+ * may also push notifications (messages without an `id`) to the client
+ * that called them, e.g. to stream daemon events.
+ *
+ * @module @dcyfr/ai-cli/daemon/ipc
+ */
+
+import { createHash } from 'crypto';
+import { chmod, unlink } from 'fs/promises';
+import { createConnection, createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Server, Socket } from 'net';
+
+/** Socket file, relative to the workspace root */
+export const DEFAULT_SOCKET_FILE = '.dcyfr/daemon.sock';
+
+/** Unix socket paths longer than this don't fit in `sockaddr_un` on every platform */
+const MAX_SOCKET_PATH = 100;
+
+/** Messages larger than this close the connection */
+const MAX_MESSAGE_BYTES = 8 * 1024 * 1024;
+
+/** Clients that let this much output pile up unread are disconnected */
+const MAX_BUFFERED_BYTES = 16 * 1024 * 1024;
+
+/** JSON-RPC error codes */
+export const RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  SERVER_ERROR: -32000,
+} as const;
+
+// ── Protocol ─────────────────────────────────────────────────
+
+/**
+ * JSON-RPC request
+ */
+export interface RpcRequest {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: Record<string, unknown> | undefined;
+}
+
+/**
+ * JSON-RPC response
+ */
+export type RpcResponse =
+  | { jsonrpc: '2.0'; id: number | string | null; result: unknown }
+  | { jsonrpc: '2.0'; id: number | string | null; error: { code: number; message: string } };
+
+/**
+ * Server-to-client notification
+ */
+export interface RpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params: unknown;
+}
+
+/**
+ * The client connection a method was called on
+ */
+export interface IpcConnection {
+  /** Push a notification to this client */
+  notify(method: string, params: unknown): void;
+  /** Run a callback when the client disconnects */
+  onClose(listener: () => void): void;
+}
+
+/**
+ * Handles one method; a thrown error becomes the JSON-RPC error response
+ */
+export type RpcHandler = (params: Record<string, unknown>, connection: IpcConnection) => unknown;
+
+/**
+ * Error a handler throws to choose the JSON-RPC error code
+ */
+export class RpcError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+  }
+}
+
+/**
+ * Where the daemon of a workspace listens. Workspaces too deep for a
+ * socket path get one in the temp directory, named after the workspace.
+ */
+export function resolveSocketPath(workspaceRoot: string, socketFile = DEFAULT_SOCKET_FILE): string {
+  const hash = createHash('sha256').update(workspaceRoot).digest('hex').slice(0, 16);
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\dcyfr-${hash}`;
+  }
+  const path = join(workspaceRoot, socketFile);
+  return path.length <= MAX_SOCKET_PATH ? path : join(tmpdir(), `dcyfr-${hash}.sock`);
+}
+
+// ── Server ───────────────────────────────────────────────────
+
+/**
+ * JSON-RPC server the daemon registers its control methods on
+ */
+export class IpcServer {
+  private handlers = new Map<string, RpcHandler>();
+  private sockets = new Set<Socket>();
+  private server: Server | null = null;
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Register the handler for a method
+   */
+  register(method: string, handler: RpcHandler): void {
+    this.handlers.set(method, handler);
+  }
+
+  /**
+   * Start listening, replacing a socket file left behind by a dead daemon
+   */
+  async listen(): Promise<void> {
+    if (process.platform !== 'win32') {
+      await unlink(this.path).catch(() => undefined);
+    }
+
+    const server = createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.path, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    if (process.platform !== 'win32') {
+      await chmod(this.path, 0o600);
+    }
+  }
+
+  /**
+   * Stop listening and disconnect all clients
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    if (process.platform !== 'win32') {
+      await unlink(this.path).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Number of connected clients
+   */
+  connections(): number {
+    return this.sockets.size;
+  }
+
+  private accept(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.setEncoding('utf-8');
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    const connection: IpcConnection = {
+      notify: (method, params) => {
+        const notification: RpcNotification = { jsonrpc: '2.0', method, params };
+        send(socket, notification);
+      },
+      onClose: (listener) => {
+        socket.on('close', listener);
+      },
+    };
+
+    readLines(socket, (line) => {
+      void this.dispatch(line, connection).then((response) => send(socket, response));
+    });
+  }
+
+  private async dispatch(line: string, connection: IpcConnection): Promise<RpcResponse> {
+    let request: Partial<RpcRequest>;
+    try {
+      request = JSON.parse(line) as Partial<RpcRequest>;
+    } catch {
+      return failure(null, RPC_ERRORS.PARSE_ERROR, 'Invalid JSON');
+    }
+
+    const id = typeof request.id === 'number' || typeof request.id === 'string' ? request.id : null;
+    if (request.jsonrpc !== '2.0' || id === null || typeof request.method !== 'string') {
+      return failure(id, RPC_ERRORS.INVALID_REQUEST, 'Expected a JSON-RPC 2.0 request with an id and a method');
+    }
+    const params = request.params ?? {};
+    if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+      return failure(id, RPC_ERRORS.INVALID_PARAMS, 'params must be an object');
+    }
+
+    const handler = this.handlers.get(request.method);
+    if (!handler) {
+      return failure(id, RPC_ERRORS.METHOD_NOT_FOUND, `Unknown method '${request.method}'`);
+    }
+
+    try {
+      const result = await handler(params, connection);
+      return { jsonrpc: '2.0', id, result: result ?? null };
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : RPC_ERRORS.SERVER_ERROR;
+      return failure(id, code, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+/**
+ * Write one message, dropping clients that stopped reading
+ */
+function send(socket: Socket, message: RpcResponse | RpcNotification): void {
+  if (socket.destroyed) return;
+  if (socket.writableLength > MAX_BUFFERED_BYTES) {
+    socket.destroy();
+    return;
+  }
+  socket.write(JSON.stringify(message) + '\n');
+}
+
+function failure(id: number | string | null, code: number, message: string): RpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+/**
+ * Split a socket's data into lines; oversized messages end the connection
+ */
+function readLines(socket: Socket, onLine: (line: string) => void): void {
+  let buffer = '';
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onLine(line);
+      newline = buffer.indexOf('\n');
+    }
+    if (buffer.length > MAX_MESSAGE_BYTES) {
+      socket.destroy();
+    }
+  });
+}
+
+// ── Client ───────────────────────────────────────────────────
+
+/**
+ * Connection to a running daemon
+ */
+export class DaemonClient {
+  private socket: Socket;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  private notificationListeners = new Set<(method: string, params: unknown) => void>();
+
+  constructor(socket: Socket) {
+    this.socket = socket;
+    socket.setEncoding('utf-8');
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      for (const { reject } of this.pending.values()) {
+        reject(new Error('Daemon closed the connection'));
+      }
+      this.pending.clear();
+    });
+
+    readLines(socket, (line) => {
+      let response: RpcResponse | RpcNotification;
+      try {
+        response = JSON.parse(line) as RpcResponse | RpcNotification;
+      } catch {
+        return;
+      }
+      if ('method' in response) {
+        for (const listener of this.notificationListeners) listener(response.method, response.params);
+        return;
+      }
+      const waiter = typeof response.id === 'number' ? this.pending.get(response.id) : undefined;
+      if (!waiter) return;
+      this.pending.delete(response.id as number);
+      if ('error' in response) {
+        waiter.reject(new RpcError(response.error.code, response.error.message));
+      } else {
+        waiter.resolve(response.result);
+      }
+    });
+  }
+
+  /**
+   * Call a method and wait for its result; rejects with an `RpcError` when
+   * the daemon reports one, or after `timeoutMs` when given
+   */
+  async call<T = unknown>(method: string, params: Record<string, unknown> = {}, timeoutMs?: number): Promise<T> {
+    if (this.socket.destroyed) {
+      throw new Error('Daemon connection is closed');
+    }
+    const id = this.nextId++;
+    const request: RpcRequest = { jsonrpc: '2.0', id, method, params };
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      if (timeoutMs) {
+        timer = setTimeout(() => {
+          this.pending.delete(id);
+          reject(new Error(`Daemon did not answer ${method} within ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+      this.pending.set(id, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value as T);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      this.socket.write(JSON.stringify(request) + '\n');
+    });
+  }
+
+  /**
+   * Listen for notifications the daemon pushes (e.g. subscribed events)
+   */
+  onNotification(listener: (method: string, params: unknown) => void): () => void {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run a callback when the connection closes (either side)
+   */
+  onClose(listener: () => void): void {
+    if (this.socket.closed) {
+      listener();
+    } else {
+      this.socket.on('close', listener);
+    }
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.socket.end();
+  }
+}
+
+/**
+ * Connect to the daemon of a workspace; null when no daemon is listening
+ */
+export async function connectDaemon(workspaceRoot: string, socketFile = DEFAULT_SOCKET_FILE): Promise<DaemonClient | null> {
+  const path = resolveSocketPath(workspaceRoot, socketFile);
+  return new Promise((resolve) => {
+    const socket = createConnection(path);
+    socket.once('connect', () => {
+      socket.removeAllListeners('error');
+      resolve(new DaemonClient(socket));
+    });
+    socket.once('error', () => {
+      socket.destroy();
+      resolve(null);
+    });
+  });
+}
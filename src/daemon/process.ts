@@ -3,7 +3,8 @@
  *
  * Orchestrates the daemon's components: scheduler, file watcher,
  * task queue, and event bus. Manages PID files, signal handling,
- * graceful shutdown, health heartbeats, and log output.
+ * graceful shutdown, health heartbeats, log output, and the local
+ * control API (`daemon/ipc`).
  *
  * @module @dcyfr/ai-cli/daemon/process
  */
@@ -11,15 +12,19 @@
 import { readFile, writeFile, unlink, mkdir, appendFile } from 'fs/promises';
 import { join } from 'path';
 import { pathExists } from '@/lib/files.js';
+import { loadConfig, resolveRunOptions, resolveWatcherConfig } from '@/config/schema.js';
 import { createDefaultRegistry } from '@/scanners/registry.js';
-import { buildHealthSnapshot, saveHealthSnapshot } from '@/health/state.js';
+import type { ScannerRegistry } from '@/scanners/registry.js';
+import { buildHealthSnapshot, saveHealthSnapshot, saveScanResults } from '@/health/state.js';
 import { rotateLogIfNeeded } from './log-rotation.js';
 import { NotificationManager } from './notifications.js';
 import { EventBus } from './events.js';
 import { TaskQueue } from './queue.js';
 import { Scheduler } from './scheduler.js';
 import { FileWatcher } from './watcher.js';
-import { DEFAULT_DAEMON_CONFIG } from './types.js';
+import { IpcServer, RpcError, RPC_ERRORS, resolveSocketPath } from './ipc.js';
+import type { IpcConnection } from './ipc.js';
+import { DEFAULT_DAEMON_CONFIG, TaskPriority } from './types.js';
 import type { DaemonConfig, DaemonState } from './types.js';
 import type { ScanResult } from '@/scanners/types.js';
 
@@ -35,11 +40,15 @@ export class DaemonProcess {
   private queue!: TaskQueue;
   private scheduler!: Scheduler;
   private watcher!: FileWatcher;
+  private registry!: ScannerRegistry;
+  private ipc: IpcServer | null = null;
+  private subscriptions = new Map<IpcConnection, () => void>();
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private startedAt: string | null = null;
   private tasksCompleted = 0;
   private running = false;
   private scanResults: ScanResult[] = [];
+  private resultsWrite: Promise<void> = Promise.resolve();
   private signalHandlers: Array<{ signal: string; handler: () => void }> = [];
   private notifications: NotificationManager;
   private lastHealthScore = 0;
@@ -80,11 +89,14 @@ export class DaemonProcess {
     await this.writePidFile();
 
     // Initialize components
-    const registry = await createDefaultRegistry();
+    const registry = await createDefaultRegistry(this.workspaceRoot);
+    this.registry = registry;
+    const { config, errors } = await loadConfig(this.workspaceRoot);
+    const watcherConfig = resolveWatcherConfig(config);
 
     this.queue = new TaskQueue(this.workspaceRoot, registry, this.events);
     this.scheduler = new Scheduler(this.workspaceRoot, this.queue, this.events);
-    this.watcher = new FileWatcher(this.workspaceRoot, this.queue, this.events);
+    this.watcher = new FileWatcher(this.workspaceRoot, this.queue, this.events, watcherConfig);
 
     // Restore any persisted queue state
     const restored = await this.queue.restore();
@@ -104,12 +116,24 @@ export class DaemonProcess {
     // Log startup
     this.log('info', `Daemon started (PID: ${process.pid})`);
     this.log('info', `Workspace: ${this.workspaceRoot}`);
+    for (const error of errors) {
+      this.log('warn', `Invalid config ${error.path}: ${error.message}`);
+    }
+    const unknownScanners = new Set(
+      watcherConfig.rules.flatMap((rule) => rule.scanners).filter((id) => !registry.get(id)),
+    );
+    if (unknownScanners.size > 0) {
+      this.log('warn', `Watcher rules reference unknown scanners: ${[...unknownScanners].join(', ')}`);
+    }
     this.events.emit('daemon:started', { pid: process.pid });
 
     // Start scheduler
     if (this.config.schedulerEnabled) {
       await this.scheduler.start();
       this.log('info', `Scheduler started (${this.scheduler.activeCount()} schedules active)`);
+    } else {
+      // Loaded anyway so the control API can list and toggle schedules
+      await this.scheduler.init();
     }
 
     // Start file watcher
@@ -118,6 +142,18 @@ export class DaemonProcess {
       this.log('info', 'File watcher started');
     }
 
+    // Start control API (the daemon still runs without it)
+    const socketPath = resolveSocketPath(this.workspaceRoot, this.config.socketFile);
+    const ipc = new IpcServer(socketPath);
+    this.registerControlMethods(ipc);
+    try {
+      await ipc.listen();
+      this.ipc = ipc;
+      this.log('info', `Control API listening on ${socketPath}`);
+    } catch (error) {
+      this.log('warn', `Control API unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
     this.log('info', 'Daemon is ready — monitoring workspace');
   }
 
@@ -132,6 +168,8 @@ export class DaemonProcess {
 
     // Stop accepting new tasks
     this.running = false;
+    await this.ipc?.close();
+    this.ipc = null;
 
     // Stop scheduler
     this.scheduler.stop();
@@ -150,6 +188,7 @@ export class DaemonProcess {
     clearTimeout(drainTimeout);
 
     // Save final health snapshot
+    await this.resultsWrite;
     await this.saveHealth();
 
     // Stop heartbeat
@@ -209,6 +248,16 @@ export class DaemonProcess {
       process.on(signal, handler);
       this.signalHandlers.push({ signal, handler });
     }
+
+    // SIGUSR2: schedules changed on disk (`dcyfr daemon schedules ...`)
+    const reloadHandler = () => {
+      void this.scheduler
+        .reload()
+        .then(() => this.log('info', `Schedules reloaded (${this.scheduler.activeCount()} active)`))
+        .catch((error: unknown) => this.log('error', `Schedule reload failed: ${String(error)}`));
+    };
+    process.on('SIGUSR2', reloadHandler);
+    this.signalHandlers.push({ signal: 'SIGUSR2', handler: reloadHandler });
   }
 
   private removeSignalHandlers(): void {
@@ -218,6 +267,110 @@ export class DaemonProcess {
     this.signalHandlers = [];
   }
 
+  // ── Control API ──────────────────────────────────────────────
+
+  private registerControlMethods(ipc: IpcServer): void {
+    ipc.register('daemon.state', () => this.getState());
+
+    ipc.register('queue.stats', () => this.queue.stats());
+
+    ipc.register('queue.list', () => ({
+      pending: this.queue.pending(),
+      recent: this.queue.recentResults(),
+    }));
+
+    ipc.register('queue.enqueue', (params) => {
+      const scanner = this.scannerParam(params['scanner']);
+      const files = stringArrayParam(params, 'files');
+      const options = params['options'];
+      if (options !== undefined && (typeof options !== 'object' || options === null || Array.isArray(options))) {
+        throw new RpcError(RPC_ERRORS.INVALID_PARAMS, 'options must be an object');
+      }
+      const taskId = this.queue.enqueue(
+        scanner,
+        'cli',
+        priorityParam(params['priority']),
+        files,
+        options as Record<string, unknown> | undefined,
+      );
+      return { taskId, deduplicated: taskId === null };
+    });
+
+    // Runs scanners with the scan settings from config and answers with their results
+    ipc.register('scan.run', async (params) => {
+      const scanners = stringArrayParam(params, 'scanners')?.map((id) => this.scannerParam(id));
+      const files = stringArrayParam(params, 'files');
+      const { config } = await loadConfig(this.workspaceRoot);
+      const results = await this.queue.runScan(files, { ...resolveRunOptions(config), scanners });
+      return { results };
+    });
+
+    // Streams matching events to the caller as `event` notifications
+    ipc.register('events.subscribe', (params, connection) => {
+      const filter = stringArrayParam(params, 'filter') ?? ['*'];
+      const patterns = filter.map(eventPattern);
+
+      // A new subscription replaces the connection's previous one
+      const previous = this.subscriptions.get(connection);
+      if (previous) {
+        previous();
+      } else {
+        connection.onClose(() => {
+          this.subscriptions.get(connection)?.();
+          this.subscriptions.delete(connection);
+        });
+      }
+      this.subscriptions.set(
+        connection,
+        this.events.onAny((event) => {
+          if (patterns.some((pattern) => pattern.test(event.type))) {
+            connection.notify('event', event);
+          }
+        }),
+      );
+      return { filter };
+    });
+
+    ipc.register('events.unsubscribe', (_params, connection) => {
+      const unsubscribe = this.subscriptions.get(connection);
+      unsubscribe?.();
+      if (unsubscribe) this.subscriptions.set(connection, () => undefined);
+      return { unsubscribed: unsubscribe !== undefined };
+    });
+
+    ipc.register('schedules.list', () => this.scheduler.getSchedules());
+
+    ipc.register('schedules.setEnabled', async (params) => {
+      const id = stringParam(params, 'id');
+      const enabled = params['enabled'];
+      if (typeof enabled !== 'boolean') {
+        throw new RpcError(RPC_ERRORS.INVALID_PARAMS, 'enabled must be a boolean');
+      }
+      if (!(await this.scheduler.setEnabled(id, enabled))) {
+        throw new RpcError(RPC_ERRORS.INVALID_PARAMS, `Unknown schedule '${id}'`);
+      }
+      return { id, enabled };
+    });
+
+    ipc.register('schedules.runNow', async (params) => {
+      const id = stringParam(params, 'id');
+      if (!this.scheduler.getSchedules().some((s) => s.id === id)) {
+        throw new RpcError(RPC_ERRORS.INVALID_PARAMS, `Unknown schedule '${id}'`);
+      }
+      return { taskId: await this.scheduler.runNow(id) };
+    });
+  }
+
+  private scannerParam(value: unknown): string {
+    if (typeof value !== 'string' || !this.registry.get(value)) {
+      throw new RpcError(
+        RPC_ERRORS.INVALID_PARAMS,
+        `Unknown scanner '${String(value)}'. Available: ${this.registry.ids().join(', ')}`,
+      );
+    }
+    return value;
+  }
+
   // ── Event Listeners ──────────────────────────────────────────
 
   private setupEventListeners(): void {
@@ -245,6 +398,13 @@ export class DaemonProcess {
       } else {
         this.scanResults.push(result);
       }
+      // Chained: each write merges into the file the previous one left
+      this.resultsWrite = this.resultsWrite
+        .then(() => saveScanResults(this.workspaceRoot, [result]))
+        .catch(() => undefined); // Non-fatal
+
+      const { overall } = buildHealthSnapshot(this.scanResults);
+      this.events.emit('health:updated', { score: overall.score, status: overall.status, scanner: result.scanner });
     });
 
     this.events.on('schedule:triggered', (event) => {
@@ -422,6 +582,49 @@ export class DaemonProcess {
   }
 }
 
+// ── Control API Parameters ───────────────────────────────────
+
+function stringParam(params: Record<string, unknown>, key: string): string {
+  const value = params[key];
+  if (typeof value !== 'string' || value === '') {
+    throw new RpcError(RPC_ERRORS.INVALID_PARAMS, `${key} must be a non-empty string`);
+  }
+  return value;
+}
+
+function stringArrayParam(params: Record<string, unknown>, key: string): string[] | undefined {
+  const value = params[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    throw new RpcError(RPC_ERRORS.INVALID_PARAMS, `${key} must be an array of strings`);
+  }
+  return value as string[];
+}
+
+/**
+ * Event type filter such as `task:*` or `scan:completed`
+ */
+function eventPattern(filter: string): RegExp {
+  if (!/^[\w:*-]+$/.test(filter)) {
+    throw new RpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid event filter '${filter}' (use e.g. task:* or scan:completed)`);
+  }
+  return new RegExp(`^${filter.replace(/\*/g, '.*')}$`);
+}
+
+function priorityParam(value: unknown): TaskPriority {
+  const priorities: Record<string, TaskPriority> = {
+    critical: TaskPriority.CRITICAL,
+    high: TaskPriority.HIGH,
+    normal: TaskPriority.NORMAL,
+    low: TaskPriority.LOW,
+  };
+  if (value === undefined) return TaskPriority.HIGH;
+  if (typeof value !== 'string' || !(value in priorities)) {
+    throw new RpcError(RPC_ERRORS.INVALID_PARAMS, `priority must be one of ${Object.keys(priorities).join(', ')}`);
+  }
+  return priorities[value]!;
+}
+
 // ── External Daemon Status Checking ────────────────────────────
 
 /**
@@ -478,6 +681,22 @@ export async function stopDaemon(workspaceRoot: string, pidFile = '.dcyfr/daemon
   }
 }
 
+/**
+ * Ask a running daemon to reload its schedules (after the CLI changed
+ * `.dcyfr/schedules.json`); returns false when no daemon is running
+ */
+export async function notifyScheduleChange(workspaceRoot: string, pidFile = '.dcyfr/daemon.pid'): Promise<boolean> {
+  const { running, pid } = await isDaemonRunning(workspaceRoot, pidFile);
+  if (!running || pid === null) return false;
+
+  try {
+    process.kill(pid, 'SIGUSR2');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Read daemon log file (last N lines)
  */
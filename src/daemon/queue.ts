@@ -15,8 +15,9 @@ import { pathExists } from '@/lib/files.js';
 import { EventBus } from './events.js';
 import { TaskPriority } from './types.js';
 import type { Task, TaskSource } from './types.js';
-import type { ScanContext } from '@/scanners/types.js';
-import type { ScannerRegistry } from '@/scanners/registry.js';
+import type { ScanContext, ScanResult } from '@/scanners/types.js';
+import type { RunAllOptions, ScannerRegistry } from '@/scanners/registry.js';
+import { ScanCache } from '@/scanners/cache.js';
 
 const QUEUE_FILE = '.dcyfr/queue.json';
 const TASK_TTL_MS = 3_600_000; // 1 hour
@@ -31,12 +32,15 @@ export interface QueueConfig {
   taskTTL: number;
   /** Enable queue state persistence */
   persist: boolean;
+  /** Reuse cached per-file results for unchanged files */
+  cache: boolean;
 }
 
 const DEFAULT_QUEUE_CONFIG: QueueConfig = {
   maxConcurrent: 1,
   taskTTL: TASK_TTL_MS,
   persist: true,
+  cache: true,
 };
 
 /**
@@ -51,6 +55,7 @@ export class TaskQueue {
   private workspaceRoot: string;
   private events: EventBus;
   private registry: ScannerRegistry;
+  private cache: ScanCache | undefined;
 
   constructor(
     workspaceRoot: string,
@@ -62,6 +67,7 @@ export class TaskQueue {
     this.registry = registry;
     this.events = events;
     this.config = { ...DEFAULT_QUEUE_CONFIG, ...config };
+    this.cache = this.config.cache ? new ScanCache(workspaceRoot) : undefined;
   }
 
   /**
@@ -145,9 +151,11 @@ export class TaskQueue {
             workspaceRoot: this.workspaceRoot,
             files: task.files,
             options: task.options,
+            cache: this.cache,
           };
 
           const result = await this.registry.run(task.scanner, context);
+          await this.cache?.flush();
           task.status = 'completed';
           task.completedAt = new Date().toISOString();
           this.events.emit('task:completed', {
@@ -156,7 +164,7 @@ export class TaskQueue {
             status: result.status,
             duration: result.duration,
           });
-          this.events.emit('scan:completed', { result });
+          this.events.emit('scan:completed', { taskId: task.id, result });
         } catch (error) {
           task.status = 'failed';
           task.completedAt = new Date().toISOString();
@@ -182,6 +190,24 @@ export class TaskQueue {
     }
   }
 
+  /**
+   * Run scanners right away, outside the queue, with the queue's cache.
+   * Used for `dcyfr scan` hand-offs, which wait for the results.
+   */
+  async runScan(files: string[] | undefined, options: RunAllOptions): Promise<ScanResult[]> {
+    const context: ScanContext = {
+      workspaceRoot: this.workspaceRoot,
+      files,
+      cache: this.cache,
+    };
+    const results = await this.registry.runAll(context, options);
+    await this.cache?.flush();
+    for (const result of results) {
+      this.events.emit('scan:completed', { taskId: null, result });
+    }
+    return results;
+  }
+
   /**
    * Expire tasks older than TTL
    */
@@ -282,6 +308,13 @@ export class TaskQueue {
     };
   }
 
+  /**
+   * Running and queued tasks, in execution order
+   */
+  pending(): Task[] {
+    return [...this.running.values(), ...this.queue.filter((t) => t.status === 'queued')].map((t) => ({ ...t }));
+  }
+
   /**
    * Get total tasks completed (including from completed history)
    */
@@ -1,8 +1,12 @@
 /**
- * Daemon Scheduler — cron-style task scheduling
+ * Daemon Scheduler — interval and cron task scheduling
  *
- * Manages periodic scanner invocations with persisted last-run times,
- * catch-up on restart, and jitter to avoid thundering herd.
+ * Runs the built-in schedules plus the ones defined (or overridden) under
+ * `schedules` in `.dcyfr/config.json`. Schedules run every interval or on
+ * a cron expression in their timezone, and runs due inside quiet hours
+ * wait for the window to end. Last-run times are persisted in
+ * `.dcyfr/schedules.json`, overdue schedules catch up on restart, and
+ * interval schedules get jitter to avoid a thundering herd.
  *
  * @module @dcyfr/ai-cli/daemon/scheduler
  */
@@ -10,19 +14,25 @@
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import { pathExists } from '@/lib/files.js';
+import { loadConfig, validateConfig } from '@/config/schema.js';
+import { deferQuietHours, nextCronRun, parseCron, parseInterval, parseQuietWindow } from './cron.js';
 import { EventBus } from './events.js';
 import { TaskQueue } from './queue.js';
 import { TaskPriority, DEFAULT_SCHEDULES } from './types.js';
-import type { ScheduleEntry } from './types.js';
+import type { ScheduleConfig } from '@/config/schema.js';
+import type { ScheduleEntry, TaskSource } from './types.js';
 
 const SCHEDULES_FILE = '.dcyfr/schedules.json';
 
+/** Longest delay `setTimeout` supports; longer waits are re-armed */
+const MAX_TIMER_MS = 2_147_483_647;
+
 /**
  * Scheduler manages periodic scanner invocations
  */
 export class Scheduler {
   private schedules: ScheduleEntry[] = [];
-  private timers = new Map<string, ReturnType<typeof setInterval>>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
   private workspaceRoot: string;
   private queue: TaskQueue;
   private events: EventBus;
@@ -35,7 +45,7 @@ export class Scheduler {
   }
 
   /**
-   * Initialize schedules from disk or defaults
+   * Initialize schedules from config, saved state and defaults
    */
   async init(): Promise<void> {
     await this.loadSchedules();
@@ -49,13 +59,14 @@ export class Scheduler {
     this.started = true;
 
     await this.loadSchedules();
-    await this.catchUp();
+    this.catchUp();
 
     for (const schedule of this.schedules) {
       if (schedule.enabled) {
         this.startSchedule(schedule);
       }
     }
+    await this.saveSchedules();
   }
 
   /**
@@ -63,127 +74,131 @@ export class Scheduler {
    */
   stop(): void {
     this.started = false;
-    for (const [id, timer] of this.timers) {
-      clearInterval(timer);
-      this.timers.delete(id);
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
     }
+    this.timers.clear();
   }
 
   /**
-   * Start a single schedule timer
+   * Re-read schedules from config and saved state (after another process
+   * changed them) and start any runs requested with `requestRun`
    */
-  private startSchedule(schedule: ScheduleEntry): void {
-    // Add jitter (0-10% of interval) to avoid thundering herd
-    const jitter = Math.random() * schedule.interval * 0.1;
-    const firstDelay = this.getTimeUntilNextRun(schedule) + jitter;
+  async reload(): Promise<void> {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    await this.loadSchedules();
 
-    // Set initial timeout, then switch to interval
-    const initialTimeout = setTimeout(() => {
-      void this.triggerSchedule(schedule);
+    for (const schedule of this.schedules) {
+      if (schedule.runRequested) {
+        schedule.runRequested = undefined;
+        this.triggerSchedule(schedule, TaskPriority.HIGH, 'cli');
+      }
+      if (this.started && schedule.enabled) {
+        this.startSchedule(schedule);
+      }
+    }
+    await this.saveSchedules();
+  }
 
-      // Now set the regular interval
-      const intervalTimer = setInterval(() => {
-        void this.triggerSchedule(schedule);
-      }, schedule.interval);
+  /**
+   * Arm the timer for a schedule's next run
+   */
+  private startSchedule(schedule: ScheduleEntry): void {
+    const due = nextRunTime(schedule, new Date()).getTime();
+    // Never-run schedules start within 30s; interval schedules get 0-10% jitter
+    const jitter = !schedule.lastRun
+      ? Math.random() * 30_000
+      : schedule.cron
+        ? 0
+        : Math.random() * schedule.interval! * 0.1;
+    const runAt = due + jitter;
+
+    schedule.nextRun = new Date(runAt).toISOString();
+    this.armTimer(schedule, runAt);
+  }
 
-      this.timers.set(schedule.id, intervalTimer);
-    }, Math.max(firstDelay, 1000));
+  private armTimer(schedule: ScheduleEntry, runAt: number): void {
+    const delay = Math.max(runAt - Date.now(), 1000);
+    const timer = setTimeout(() => {
+      this.timers.delete(schedule.id);
+      if (runAt - Date.now() > 1000) {
+        // Woke up early from a wait longer than setTimeout allows
+        this.armTimer(schedule, runAt);
+        return;
+      }
+      this.triggerSchedule(schedule, TaskPriority.NORMAL, 'scheduler');
+      if (this.started && schedule.enabled) {
+        this.startSchedule(schedule);
+      }
+      void this.saveSchedules();
+    }, Math.min(delay, MAX_TIMER_MS));
 
-    // Store the initial timeout as an interval (close enough for cleanup)
-    this.timers.set(schedule.id, initialTimeout as unknown as ReturnType<typeof setInterval>);
+    this.timers.set(schedule.id, timer);
   }
 
   /**
-   * Trigger a scheduled scan
+   * Enqueue a schedule's scanner and record the run; returns the task ID
+   * (null when an identical task is already queued)
    */
-  private async triggerSchedule(schedule: ScheduleEntry): Promise<void> {
+  private triggerSchedule(schedule: ScheduleEntry, priority: TaskPriority, source: TaskSource): string | null {
     this.events.emit('schedule:triggered', {
       scheduleId: schedule.id,
       scanner: schedule.scanner,
     });
 
-    this.queue.enqueue(
-      schedule.scanner,
-      'scheduler',
-      TaskPriority.NORMAL,
-      undefined,
-      schedule.options,
-    );
+    const taskId = this.queue.enqueue(schedule.scanner, source, priority, undefined, schedule.options);
 
-    // Update last run time
     schedule.lastRun = new Date().toISOString();
-    schedule.nextRun = new Date(Date.now() + schedule.interval).toISOString();
-
-    await this.saveSchedules();
-  }
-
-  /**
-   * Calculate time until next run for a schedule
-   */
-  private getTimeUntilNextRun(schedule: ScheduleEntry): number {
-    if (!schedule.lastRun) {
-      // Never run — run soon (within 30 seconds)
-      return Math.random() * 30_000;
-    }
-
-    const timeSinceLastRun = Date.now() - new Date(schedule.lastRun).getTime();
-    const remaining = schedule.interval - timeSinceLastRun;
-
-    return Math.max(remaining, 0);
+    return taskId;
   }
 
   /**
-   * Catch up on overdue schedules after restart
+   * Catch up on schedules that came due while the daemon was stopped
+   * (outside quiet hours; otherwise they run when the window ends)
    */
-  private async catchUp(): Promise<void> {
+  private catchUp(): void {
+    const now = new Date();
     for (const schedule of this.schedules) {
-      if (!schedule.enabled || !schedule.lastRun) continue;
-
-      const timeSinceLastRun = Date.now() - new Date(schedule.lastRun).getTime();
-      if (timeSinceLastRun > schedule.interval) {
-        // Overdue — enqueue immediately
-        this.queue.enqueue(
-          schedule.scanner,
-          'scheduler',
-          TaskPriority.LOW, // Lower priority for catch-up
-          undefined,
-          schedule.options,
-        );
-
-        schedule.lastRun = new Date().toISOString();
-        schedule.nextRun = new Date(Date.now() + schedule.interval).toISOString();
-      }
-    }
+      if (!schedule.enabled || !isOverdue(schedule, now) || inQuietHours(schedule, now)) continue;
 
-    await this.saveSchedules();
+      // Lower priority for catch-up
+      this.triggerSchedule(schedule, TaskPriority.LOW, 'scheduler');
+    }
   }
 
   /**
-   * Load schedules from disk, merging with defaults
+   * Load schedule definitions (defaults overridden and extended by config)
+   * and merge the saved state: last/next run, CLI enable/disable, requested runs
    */
   private async loadSchedules(): Promise<void> {
+    const { config } = await loadConfig(this.workspaceRoot);
+    const saved = await this.readState();
+
+    this.schedules = resolveSchedules(config.schedules).map((definition) => {
+      const state = saved.find((s) => s.id === definition.id);
+      return {
+        ...definition,
+        lastRun: state?.lastRun,
+        nextRun: state?.nextRun,
+        enabled: state?.enabledOverride ?? definition.enabled,
+        enabledOverride: state?.enabledOverride,
+        runRequested: state?.runRequested,
+      };
+    });
+  }
+
+  private async readState(): Promise<ScheduleEntry[]> {
     const filePath = join(this.workspaceRoot, SCHEDULES_FILE);
+    if (!(await pathExists(filePath))) return [];
 
-    if (await pathExists(filePath)) {
-      try {
-        const raw = await readFile(filePath, 'utf-8');
-        const saved = JSON.parse(raw) as ScheduleEntry[];
-
-        // Merge saved state with defaults (add new scanners, preserve lastRun)
-        this.schedules = DEFAULT_SCHEDULES.map((defaults) => {
-          const saved_ = saved.find((s) => s.id === defaults.id);
-          return {
-            ...defaults,
-            lastRun: saved_?.lastRun,
-            nextRun: saved_?.nextRun,
-            enabled: saved_?.enabled ?? defaults.enabled,
-          };
-        });
-      } catch {
-        this.schedules = DEFAULT_SCHEDULES.map((s) => ({ ...s }));
-      }
-    } else {
-      this.schedules = DEFAULT_SCHEDULES.map((s) => ({ ...s }));
+    try {
+      const saved = JSON.parse(await readFile(filePath, 'utf-8')) as unknown;
+      return Array.isArray(saved) ? (saved as ScheduleEntry[]) : [];
+    } catch {
+      return [];
     }
   }
 
@@ -221,12 +236,13 @@ export class Scheduler {
     if (!schedule) return false;
 
     schedule.enabled = enabled;
+    schedule.enabledOverride = enabled;
 
     if (this.started) {
       if (enabled && !this.timers.has(id)) {
         this.startSchedule(schedule);
       } else if (!enabled && this.timers.has(id)) {
-        clearInterval(this.timers.get(id)!);
+        clearTimeout(this.timers.get(id)!);
         this.timers.delete(id);
       }
     }
@@ -236,6 +252,35 @@ export class Scheduler {
     return true;
   }
 
+  /**
+   * Run a schedule's scanner now, in this process's queue. Returns the task
+   * ID, or null when the schedule doesn't exist or the task is already queued.
+   */
+  async runNow(id: string): Promise<string | null> {
+    const schedule = this.schedules.find((s) => s.id === id);
+    if (!schedule) return null;
+
+    const taskId = this.triggerSchedule(schedule, TaskPriority.HIGH, 'cli');
+    if (this.started && schedule.enabled && this.timers.has(id)) {
+      clearTimeout(this.timers.get(id)!);
+      this.startSchedule(schedule);
+    }
+    await this.saveSchedules();
+    return taskId;
+  }
+
+  /**
+   * Mark a schedule to be run by the daemon on its next `reload`
+   */
+  async requestRun(id: string): Promise<boolean> {
+    const schedule = this.schedules.find((s) => s.id === id);
+    if (!schedule) return false;
+
+    schedule.runRequested = true;
+    await this.saveSchedules();
+    return true;
+  }
+
   /**
    * Check if the scheduler is running
    */
@@ -250,3 +295,81 @@ export class Scheduler {
     return this.schedules.filter((s) => s.enabled).length;
   }
 }
+
+// ── Timing ───────────────────────────────────────────────────
+
+/**
+ * When a schedule is next due, before jitter: the next cron match, or one
+ * interval after the last run (now when it never ran), moved out of quiet
+ * hours. Overdue schedules are due now, so a run missed during quiet hours
+ * happens when the window ends.
+ */
+export function nextRunTime(schedule: ScheduleEntry, now: Date): Date {
+  let due: Date;
+  if (schedule.cron) {
+    due = isOverdue(schedule, now) ? now : nextCronRun(parseCron(schedule.cron), now, schedule.timezone);
+  } else if (schedule.lastRun) {
+    due = new Date(Math.max(new Date(schedule.lastRun).getTime() + (schedule.interval ?? 0), now.getTime()));
+  } else {
+    due = now;
+  }
+  return deferQuietHours(due, (schedule.quietHours ?? []).map(parseQuietWindow), schedule.timezone);
+}
+
+/**
+ * Whether a time falls inside one of the schedule's quiet-hours windows
+ */
+function inQuietHours(schedule: ScheduleEntry, time: Date): boolean {
+  const windows = (schedule.quietHours ?? []).map(parseQuietWindow);
+  return deferQuietHours(time, windows, schedule.timezone) > time;
+}
+
+/**
+ * Whether a run came due between the last run and now
+ */
+function isOverdue(schedule: ScheduleEntry, now: Date): boolean {
+  if (!schedule.lastRun) return false;
+  const lastRun = new Date(schedule.lastRun);
+  if (schedule.cron) {
+    return nextCronRun(parseCron(schedule.cron), lastRun, schedule.timezone) <= now;
+  }
+  return now.getTime() - lastRun.getTime() > (schedule.interval ?? 0);
+}
+
+/**
+ * Built-in schedules, overridden (by ID) and extended by config. Invalid
+ * config entries are skipped; `dcyfr config validate` reports them.
+ */
+function resolveSchedules(configured: ScheduleConfig[]): ScheduleEntry[] {
+  const schedules: ScheduleEntry[] = DEFAULT_SCHEDULES.map((s) => ({ ...s }));
+
+  for (const schedule of configured) {
+    if (validateConfig({ schedules: [schedule] }).length > 0) continue;
+
+    const index = schedules.findIndex((s) => s.id === schedule.id);
+    const base = schedules[index];
+    const timing =
+      schedule.cron !== undefined
+        ? { cron: schedule.cron, interval: undefined }
+        : schedule.every !== undefined
+          ? { cron: undefined, interval: parseInterval(schedule.every) }
+          : { cron: base?.cron, interval: base?.interval };
+
+    const entry: ScheduleEntry = {
+      id: schedule.id,
+      name: schedule.name ?? base?.name ?? schedule.id,
+      scanner: schedule.scanner ?? base?.scanner ?? schedule.id,
+      ...timing,
+      timezone: schedule.timezone,
+      quietHours: schedule.quietHours,
+      enabled: schedule.enabled ?? base?.enabled ?? true,
+      options: schedule.options ?? base?.options,
+    };
+    if (base) {
+      schedules[index] = entry;
+    } else {
+      schedules.push(entry);
+    }
+  }
+  return schedules;
+}
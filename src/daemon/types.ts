@@ -17,6 +17,8 @@ export interface DaemonConfig {
   pidFile: string;
   /** Path to log file (relative to workspace root) */
   logFile: string;
+  /** Path to the control socket (relative to workspace root) */
+  socketFile: string;
   /** Health heartbeat interval in ms */
   healthInterval: number;
   /** Maximum memory usage in MB before warning */
@@ -35,6 +37,7 @@ export interface DaemonConfig {
 export const DEFAULT_DAEMON_CONFIG: DaemonConfig = {
   pidFile: '.dcyfr/daemon.pid',
   logFile: '.dcyfr/daemon.log',
+  socketFile: '.dcyfr/daemon.sock',
   healthInterval: 60_000,
   maxMemoryMB: 256,
   gracefulShutdownTimeout: 10_000,
@@ -130,16 +133,26 @@ export interface ScheduleEntry {
   name: string;
   /** Scanner ID to invoke */
   scanner: string;
-  /** Interval between runs in ms */
-  interval: number;
+  /** Interval between runs in ms (interval schedules) */
+  interval?: number | undefined;
+  /** Cron expression (cron schedules, used instead of `interval`) */
+  cron?: string | undefined;
+  /** IANA timezone for `cron` and `quietHours` (default: system timezone) */
+  timezone?: string | undefined;
+  /** Daily `HH:MM-HH:MM` windows; runs due inside one wait for its end */
+  quietHours?: string[] | undefined;
   /** Whether this schedule is active */
   enabled: boolean;
+  /** Set by `dcyfr daemon schedules enable|disable`; wins over the config */
+  enabledOverride?: boolean | undefined;
   /** ISO timestamp of last run */
   lastRun?: string | undefined;
   /** ISO timestamp of next scheduled run */
   nextRun?: string | undefined;
   /** Scanner-specific options */
   options?: Record<string, unknown> | undefined;
+  /** Run requested by `dcyfr daemon schedules run-now` for the daemon to pick up */
+  runRequested?: boolean | undefined;
 }
 
 /**
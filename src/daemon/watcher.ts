@@ -12,7 +12,9 @@
 
 import { watch } from 'chokidar';
 import type { FSWatcher } from 'chokidar';
-import { relative } from 'path';
+import { join, relative } from 'path';
+import { pathExists } from '@/lib/files.js';
+import { globToRegExp } from '@/lib/glob.js';
 import { EventBus } from './events.js';
 import { TaskQueue } from './queue.js';
 import { TaskPriority, DEFAULT_WATCHER_CONFIG } from './types.js';
@@ -58,12 +60,15 @@ export class FileWatcher {
     if (this.started) return;
     this.started = true;
 
-    const watchPaths = this.config.roots.map((root) =>
-      root === '.' ? this.workspaceRoot : `${this.workspaceRoot}/${root}`,
-    );
+    const watchPaths = await this.resolveRoots();
+    const ignored = this.config.ignored.map(globToRegExp);
 
     this.watcher = watch(watchPaths, {
-      ignored: this.config.ignored,
+      // chokidar matches paths, not globs; a directory is skipped when `dir/` matches
+      ignored: (filePath: string) => {
+        const rel = relative(this.workspaceRoot, filePath).replace(/\\/g, '/');
+        return rel !== '' && ignored.some((pattern) => pattern.test(rel) || pattern.test(`${rel}/`));
+      },
       persistent: true,
       ignoreInitial: true,
       awaitWriteFinish: {
@@ -85,6 +90,25 @@ export class FileWatcher {
     });
   }
 
+  /**
+   * Absolute paths of the configured roots that exist; the whole workspace
+   * when none do, so a layout that doesn't match the roots still triggers rules
+   */
+  private async resolveRoots(): Promise<string[]> {
+    const roots: string[] = [];
+    for (const root of this.config.roots) {
+      const path = root === '.' ? this.workspaceRoot : join(this.workspaceRoot, root);
+      if (await pathExists(path)) roots.push(path);
+    }
+    if (roots.length === 0) {
+      this.events.emit('watcher:error', {
+        error: `None of the watcher roots exist (${this.config.roots.join(', ')}); watching the workspace root`,
+      });
+      return [this.workspaceRoot];
+    }
+    return roots;
+  }
+
   /**
    * Stop watching
    */
@@ -0,0 +1,179 @@
+/**
+ * Unified diff rendering for fix previews
+ *
+ * Line-based LCS diff over the region between the common prefix and
+ * suffix — fix patches are small and local, so that region is tiny even
+ * in large files.
+ *
+ * @module @dcyfr/ai-cli/fix/diff
+ */
+
+/** Above this many LCS cells the changed region is shown as one replace */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Marks a final line without a trailing newline so it never equals one with */
+const NO_EOL = '\u0000no-eol';
+
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Options for `createUnifiedDiff`
+ */
+export interface UnifiedDiffOptions {
+  /** New path when the file is renamed */
+  renameTo?: string | undefined;
+  /** Unchanged lines shown around each change (default: 3) */
+  contextLines?: number | undefined;
+}
+
+/**
+ * Create a git-style unified diff between two versions of a file
+ *
+ * `before` of null renders as a new file, `after` of null as a deletion.
+ * Output applies with `git apply`. Returns an empty string when there is
+ * nothing to show.
+ */
+export function createUnifiedDiff(
+  file: string,
+  before: string | null,
+  after: string | null,
+  options: UnifiedDiffOptions = {},
+): string {
+  const { renameTo, contextLines = 3 } = options;
+  const target = renameTo ?? file;
+  if (before === after && target === file) return '';
+
+  const header = [`diff --git a/${file} b/${target}`];
+  if (before === null) header.push('new file mode 100644');
+  if (after === null) header.push('deleted file mode 100644');
+  if (target !== file) {
+    if (before === after) header.push('similarity index 100%');
+    header.push(`rename from ${file}`, `rename to ${target}`);
+  }
+  if (before === after) return header.join('\n') + '\n';
+
+  const ops = diffLines(splitLines(before), splitLines(after));
+  header.push(
+    `--- ${before === null ? '/dev/null' : `a/${file}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${target}`}`,
+  );
+  return [...header, ...renderHunks(ops, contextLines)].join('\n') + '\n';
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function splitLines(content: string | null): string[] {
+  if (!content) return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_EOL;
+  }
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  return [
+    ...a.slice(0, prefix).map((text): DiffLine => ({ op: ' ', text })),
+    ...diffMiddle(midA, midB),
+    ...a.slice(a.length - suffix).map((text): DiffLine => ({ op: ' ', text })),
+  ];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ op: '-', text })),
+      ...b.map((text): DiffLine => ({ op: '+', text })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const ops: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ op: ' ', text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!) {
+      ops.push({ op: '-', text: a[i++]! });
+    } else {
+      ops.push({ op: '+', text: b[j++]! });
+    }
+  }
+  while (i < a.length) ops.push({ op: '-', text: a[i++]! });
+  while (j < b.length) ops.push({ op: '+', text: b[j++]! });
+  return ops;
+}
+
+function renderHunks(ops: DiffLine[], contextLines: number): string[] {
+  const changed = ops.flatMap((line, idx) => (line.op === ' ' ? [] : [idx]));
+  const lines: string[] = [];
+  let k = 0;
+
+  while (k < changed.length) {
+    // Extend the hunk while the next change is within 2×context lines
+    const start = Math.max(0, changed[k]! - contextLines);
+    let last = changed[k]!;
+    while (k + 1 < changed.length && changed[k + 1]! - last <= contextLines * 2 + 1) {
+      last = changed[++k]!;
+    }
+    const end = Math.min(ops.length, last + contextLines + 1);
+    k++;
+
+    // Line numbers are 1-based; counts of zero use the preceding line
+    let oldLine = 1;
+    let newLine = 1;
+    for (let idx = 0; idx < start; idx++) {
+      if (ops[idx]!.op !== '+') oldLine++;
+      if (ops[idx]!.op !== '-') newLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((l) => l.op !== '+').length;
+    const newCount = hunk.filter((l) => l.op !== '-').length;
+
+    lines.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+    );
+    for (const l of hunk) {
+      if (l.text.endsWith(NO_EOL)) {
+        lines.push(`${l.op}${l.text.slice(0, -NO_EOL.length)}`, '\\ No newline at end of file');
+      } else {
+        lines.push(`${l.op}${l.text}`);
+      }
+    }
+  }
+
+  return lines;
+}
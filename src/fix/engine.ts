@@ -1,13 +1,69 @@
 /**
  * Fix Engine — orchestrates auto-fix operations
  *
- * Flow: scan → filter autoFixable → call scanner.fix() → report
+ * Flow: scan → filter autoFixable → plan patches → review → apply → verify → report
+ *
+ * Scanners that implement `plan` propose file patches that are reviewed
+ * (when a reviewer is given) and then written together; scanners with only
+ * `fix` are applied afterwards as a unit. Every write is journaled under
+ * `.dcyfr/fix-history/`, and a run that throws is rolled back. Afterwards
+ * each scanner re-scans the files it changed, so the report shows which
+ * findings were fixed, which remain and which the fix introduced.
  *
  * @module @dcyfr/ai-cli/fix/engine
  */
 
-import type { Scanner, ScanContext, ScanResult, FixResult } from '@/scanners/types.js';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { pathExists } from '@/lib/files.js';
+import type {
+  Scanner,
+  ScanContext,
+  ScanResult,
+  ScanViolation,
+  FixResult,
+  FixPlan,
+  FilePatch,
+} from '@/scanners/types.js';
 import type { ScannerRegistry } from '@/scanners/registry.js';
+import { createUnifiedDiff } from './diff.js';
+import { FixJournal, recoverInterruptedRuns } from './journal.js';
+import type { JournalEntry } from './journal.js';
+import { applyPatches, combinePatches, patchedContent, toFixResult } from './patches.js';
+import type { PatchApplyResult } from './patches.js';
+
+/**
+ * Reviewer decision for a proposed fix
+ *
+ * - `accept` — apply this fix
+ * - `skip` — leave this violation alone
+ * - `accept-rule` — apply this and every later fix for the same rule
+ * - `quit` — stop reviewing; only fixes accepted so far are applied
+ */
+export type FixReviewDecision = 'accept' | 'skip' | 'accept-rule' | 'quit';
+
+/**
+ * A proposed fix presented for review
+ */
+export interface FixReviewItem {
+  scanner: string;
+  scannerName: string;
+  /** Proposed patch (null for scanners without a plan phase) */
+  patch: FilePatch | null;
+  /** Violations the fix resolves */
+  violations: ScanViolation[];
+  /** Unified diff of the patch (empty when no preview is available) */
+  diff: string;
+  /** 1-based position among this scanner's proposed fixes */
+  position: number;
+  /** Number of fixes proposed by this scanner */
+  total: number;
+}
+
+/**
+ * Callback that decides whether each proposed fix is applied
+ */
+export type FixReviewer = (item: FixReviewItem) => Promise<FixReviewDecision>;
 
 /**
  * Options for a fix run
@@ -21,6 +77,10 @@ export interface FixRunOptions {
   scanner?: string | undefined;
   /** Specific project to target */
   project?: string | undefined;
+  /** Review each proposed fix before anything is written */
+  review?: FixReviewer | undefined;
+  /** Re-scan modified files after fixing (default: true) */
+  verify?: boolean | undefined;
 }
 
 /**
@@ -35,10 +95,18 @@ export interface FixRunReport {
   totalFilesModified: number;
   /** Total failures */
   totalFailures: number;
+  /** Findings introduced by fixes, found by the verification re-scan */
+  totalIntroduced: number;
   /** Duration in milliseconds */
   duration: number;
   /** Whether this was a dry run */
   dryRun: boolean;
+  /** Dry run only: git-style patch of every previewable fix */
+  diff?: string | undefined;
+  /** Journal ID for `dcyfr fix --undo` (undefined when nothing was written) */
+  runId?: string | undefined;
+  /** Interrupted earlier runs rolled back before this one started */
+  recovered?: string[] | undefined;
 }
 
 /**
@@ -51,10 +119,53 @@ export interface FixResultEntry {
   autoFixableCount: number;
   /** Actual fix result (null if scanner has no fix method) */
   fixResult: FixResult | null;
+  /** Proposed fixes declined during review */
+  skipped?: number | undefined;
+  /** Dry run only: files the planned fixes would change (undefined = no preview) */
+  plannedFiles?: string[] | undefined;
+  /** Re-scan of the modified files (undefined when not verified) */
+  verification?: FixVerification | undefined;
   /** Error message if fix failed */
   error?: string | undefined;
 }
 
+/**
+ * Findings in the files a fix modified, before versus after
+ */
+export interface FixVerification {
+  /** Findings the fix targeted that are gone */
+  fixed: number;
+  /** Findings the fix targeted that are still present */
+  remaining: ScanViolation[];
+  /** Findings that were not there before the fix */
+  introduced: ScanViolation[];
+}
+
+/**
+ * Scanner fix after planning and review, before anything is written
+ */
+interface PreparedFix {
+  scanner: Scanner;
+  entry: FixResultEntry;
+  /** Plan from `scanner.plan` */
+  plan?: FixPlan | undefined;
+  /** Patches accepted for writing */
+  accepted: FilePatch[];
+  /** Violations to hand to `scanner.fix` (scanners without a plan phase) */
+  viaFix: ScanViolation[];
+  /** Every finding of the initial scan, for verification */
+  findings: ScanViolation[];
+}
+
+/**
+ * Review progress shared across scanners
+ */
+interface ReviewState {
+  quit: boolean;
+  /** `<scanner>/<rule>` keys accepted for the rest of the run */
+  acceptedRules: Set<string>;
+}
+
 /**
  * Run the fix engine against a registry
  */
@@ -64,7 +175,6 @@ export async function runFixes(
   options: FixRunOptions = {},
 ): Promise<FixRunReport> {
   const start = Date.now();
-  const results: FixResultEntry[] = [];
 
   // Get scanners to run
   const scanners = options.scanner
@@ -74,76 +184,121 @@ export async function runFixes(
       })()
     : registry.all();
 
-  // Filter to only scanners that have a fix() method
-  const fixableScanners = scanners.filter((s) => typeof s.fix === 'function');
+  // Filter to only scanners that can fix
+  const fixableScanners = scanners.filter(isFixable);
 
   if (fixableScanners.length === 0 && options.scanner) {
     const scanner = registry.get(options.scanner);
     if (!scanner) {
       throw new Error(`Unknown scanner: ${options.scanner}`);
     }
-    if (!scanner.fix) {
+    if (!isFixable(scanner)) {
       throw new Error(`Scanner '${options.scanner}' does not support auto-fix`);
     }
   }
 
+  // Restore files left half-written by a run that crashed
+  const recovered = options.dryRun ? [] : await recoverInterruptedRuns(context.workspaceRoot);
+  if (recovered.length > 0) context.index?.invalidate();
+
+  // Phase 1: scan, plan and review — nothing is written yet
+  const review: ReviewState = { quit: false, acceptedRules: new Set() };
+  const prepared: PreparedFix[] = [];
   for (const scanner of fixableScanners) {
-    const entry = await runScannerFix(scanner, context, options);
-    results.push(entry);
+    if (review.quit) break;
+    prepared.push(await prepareScannerFix(registry, scanner, context, options, review));
+  }
+
+  if (options.dryRun) {
+    return buildDryRunReport(prepared, start);
+  }
+
+  // Phase 2: write accepted patches (merged per file), then plan-less
+  // fixes — all journaled, and rolled back together if anything throws
+  const journal = new FixJournal(context.workspaceRoot);
+  const results: FixResultEntry[] = [];
+  let patchResult: PatchApplyResult;
+  try {
+    patchResult = await applyPatches(
+      context.workspaceRoot,
+      prepared.flatMap((p) => p.accepted),
+      context.index,
+      journal,
+    );
+    for (const fix of prepared) {
+      results.push(await finalizeScannerFix(fix, context, patchResult, journal));
+    }
+    await journal.commit();
+  } catch (error) {
+    await journal.rollback(error);
+    context.index?.invalidate();
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Fix run failed and was rolled back: ${message}`, { cause: error });
+  }
+
+  // Phase 3: re-scan what each scanner changed
+  if (options.verify !== false) {
+    for (const [i, entry] of results.entries()) {
+      entry.verification = await verifyScannerFix(registry, prepared[i]!, entry, context, patchResult);
+    }
   }
 
   const totalFixes = results.reduce((sum, r) => sum + (r.fixResult?.fixesApplied ?? 0), 0);
   const allModified = results.flatMap((r) => r.fixResult?.filesModified ?? []);
   const uniqueFiles = new Set(allModified);
   const totalFailures = results.reduce((sum, r) => sum + (r.fixResult?.failures.length ?? 0), 0);
+  const totalIntroduced = results.reduce((sum, r) => sum + (r.verification?.introduced.length ?? 0), 0);
 
   return {
     results,
     totalFixes,
     totalFilesModified: uniqueFiles.size,
     totalFailures,
+    totalIntroduced,
     duration: Date.now() - start,
     dryRun: options.dryRun ?? false,
+    runId: journal.isEmpty ? undefined : journal.runId,
+    recovered: recovered.length > 0 ? recovered : undefined,
   };
 }
 
 /**
- * Run fix for a single scanner: scan → filter → fix
+ * Whether a scanner can fix violations
+ */
+function isFixable(scanner: Scanner): boolean {
+  return typeof scanner.fix === 'function' || typeof scanner.plan === 'function';
+}
+
+/**
+ * Prepare fixes for a single scanner: scan → filter → plan → review
  */
-async function runScannerFix(
+async function prepareScannerFix(
+  registry: ScannerRegistry,
   scanner: Scanner,
   context: ScanContext,
   options: FixRunOptions,
-): Promise<FixResultEntry> {
+  review: ReviewState,
+): Promise<PreparedFix> {
+  const entry: FixResultEntry = {
+    scanner: scanner.id,
+    scannerName: scanner.name,
+    autoFixableCount: 0,
+    fixResult: null,
+  };
+  const prepared: PreparedFix = { scanner, entry, accepted: [], viaFix: [], findings: [] };
+
   try {
-    // Step 1: Scan to find violations
-    const scanResult: ScanResult = await scanner.scan(context);
+    // Step 1: Scan to find violations (suppressed findings are never fixed)
+    const scanResult: ScanResult = await registry.run(scanner.id, context);
+    prepared.findings = [...scanResult.violations, ...scanResult.warnings];
 
-    // Step 2: Filter to auto-fixable violations
-    const autoFixable = scanResult.violations.filter((v) => v.autoFixable);
+    // Step 2: Filter to auto-fixable findings (warnings may be fixable too)
+    const autoFixable = prepared.findings.filter((v) => v.autoFixable);
+    entry.autoFixableCount = autoFixable.length;
 
     if (autoFixable.length === 0) {
-      return {
-        scanner: scanner.id,
-        scannerName: scanner.name,
-        autoFixableCount: 0,
-        fixResult: {
-          scanner: scanner.id,
-          fixesApplied: 0,
-          filesModified: [],
-          failures: [],
-        },
-      };
-    }
-
-    // Step 3: Call fix (or report dry run)
-    if (options.dryRun) {
-      return {
-        scanner: scanner.id,
-        scannerName: scanner.name,
-        autoFixableCount: autoFixable.length,
-        fixResult: null,
-      };
+      entry.fixResult = { scanner: scanner.id, fixesApplied: 0, filesModified: [], failures: [] };
+      return prepared;
     }
 
     const fixContext: ScanContext = {
@@ -151,30 +306,257 @@ async function runScannerFix(
       dryRun: false,
     };
 
-    const fixResult = await scanner.fix!(fixContext, autoFixable);
+    // Step 3: Preview dry run — plan everything, write nothing
+    if (options.dryRun) {
+      if (scanner.plan) {
+        prepared.plan = await scanner.plan(fixContext, autoFixable);
+        prepared.accepted = prepared.plan.patches;
+      }
+      return prepared;
+    }
 
-    return {
+    // Step 4: Plan and review
+    if (scanner.plan) {
+      prepared.plan = await scanner.plan(fixContext, autoFixable);
+      prepared.accepted = await reviewPatches(scanner, prepared.plan.patches, options.review, review);
+      entry.skipped = options.review ? prepared.plan.patches.length - prepared.accepted.length : undefined;
+    } else if (!options.review || (await reviewWholeScanner(scanner, autoFixable, options.review, review))) {
+      prepared.viaFix = autoFixable;
+    } else {
+      entry.skipped = autoFixable.length;
+    }
+  } catch (error) {
+    entry.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return prepared;
+}
+
+/**
+ * Ask the reviewer about each patch; everything is accepted without one
+ */
+async function reviewPatches(
+  scanner: Scanner,
+  patches: FilePatch[],
+  reviewer: FixReviewer | undefined,
+  review: ReviewState,
+): Promise<FilePatch[]> {
+  if (!reviewer) return patches;
+
+  const accepted: FilePatch[] = [];
+  for (let i = 0; i < patches.length && !review.quit; i++) {
+    const patch = patches[i]!;
+    const ruleKey = `${scanner.id}/${patch.violations[0]?.id ?? '*'}`;
+    if (review.acceptedRules.has(ruleKey)) {
+      accepted.push(patch);
+      continue;
+    }
+
+    const decision = await reviewer({
       scanner: scanner.id,
       scannerName: scanner.name,
-      autoFixableCount: autoFixable.length,
-      fixResult,
+      patch,
+      violations: patch.violations,
+      diff: createUnifiedDiff(patch.file, patch.original, patchedContent(patch), {
+        renameTo: patch.renameTo,
+      }),
+      position: i + 1,
+      total: patches.length,
+    });
+
+    if (decision === 'quit') {
+      review.quit = true;
+    } else if (decision !== 'skip') {
+      if (decision === 'accept-rule') review.acceptedRules.add(ruleKey);
+      accepted.push(patch);
+    }
+  }
+  return accepted;
+}
+
+/**
+ * Ask the reviewer about a scanner that can only fix everything at once
+ */
+async function reviewWholeScanner(
+  scanner: Scanner,
+  violations: ScanViolation[],
+  reviewer: FixReviewer,
+  review: ReviewState,
+): Promise<boolean> {
+  const ruleKey = `${scanner.id}/*`;
+  if (review.acceptedRules.has(ruleKey)) return true;
+
+  const decision = await reviewer({
+    scanner: scanner.id,
+    scannerName: scanner.name,
+    patch: null,
+    violations,
+    diff: '',
+    position: 1,
+    total: 1,
+  });
+  if (decision === 'quit') review.quit = true;
+  if (decision === 'accept-rule') review.acceptedRules.add(ruleKey);
+  return decision === 'accept' || decision === 'accept-rule';
+}
+
+/**
+ * Build the dry-run report: per-file diffs of every planned patch
+ *
+ * Patches from all scanners are merged per file first, so each file
+ * appears once with its combined change.
+ */
+function buildDryRunReport(prepared: PreparedFix[], start: number): FixRunReport {
+  const { changes, failures } = combinePatches(prepared.flatMap((p) => p.accepted));
+  const diff = changes
+    .map((change) => createUnifiedDiff(change.file, change.before, change.after, { renameTo: change.renameTo }))
+    .join('');
+
+  const results = prepared.map(({ entry, plan }): FixResultEntry => {
+    if (!plan || entry.error) return entry;
+    // Failures explain planned fixes missing from the diff
+    const conflicts = failures
+      .filter(({ patch }) => plan.patches.includes(patch))
+      .map(({ patch, reason }) => ({ file: patch.file, reason }));
+    const planned = plan.patches.filter((p) => !failures.some((f) => f.patch === p));
+    return {
+      ...entry,
+      plannedFiles: Array.from(new Set(planned.map((p) => p.file))),
+      fixResult: toFixResult(entry.scanner, [], [...plan.failures, ...conflicts]),
     };
-  } catch (error) {
+  });
+
+  return {
+    results,
+    totalFixes: 0,
+    totalFilesModified: 0,
+    totalFailures: 0,
+    totalIntroduced: 0,
+    duration: Date.now() - start,
+    dryRun: true,
+    diff,
+  };
+}
+
+/**
+ * Turn a prepared fix into its report entry, running `scanner.fix` if needed
+ *
+ * `scanner.fix` writes on its own, so the files its violations name are
+ * snapshotted first; an error from it propagates and rolls the run back.
+ */
+async function finalizeScannerFix(
+  fix: PreparedFix,
+  context: ScanContext,
+  patchResult: PatchApplyResult,
+  journal: FixJournal,
+): Promise<FixResultEntry> {
+  const { scanner, entry, plan } = fix;
+  if (entry.error || entry.fixResult) return entry;
+
+  if (plan) {
+    const accepted = new Set(fix.accepted);
     return {
-      scanner: scanner.id,
-      scannerName: scanner.name,
-      autoFixableCount: 0,
-      fixResult: null,
-      error: error instanceof Error ? error.message : String(error),
+      ...entry,
+      fixResult: toFixResult(
+        scanner.id,
+        patchResult.applied.filter((p) => accepted.has(p)),
+        [
+          ...plan.failures,
+          ...patchResult.failures
+            .filter(({ patch }) => accepted.has(patch))
+            .map(({ patch, reason }) => ({ file: patch.file, reason })),
+        ],
+      ),
     };
   }
+
+  if (fix.viaFix.length === 0 || !scanner.fix) return entry;
+
+  const snapshots: JournalEntry[] = [];
+  for (const file of new Set(fix.viaFix.flatMap((v) => (v.file ? [v.file] : [])))) {
+    const before = await readFile(join(context.workspaceRoot, file), 'utf-8').catch(() => null);
+    snapshots.push({ scanner: scanner.id, file, before });
+  }
+  await journal.snapshot(snapshots);
+
+  const fixResult = await scanner.fix({ ...context, dryRun: false }, fix.viaFix);
+  await journal.confirm(snapshots);
+  return { ...entry, fixResult };
+}
+
+/**
+ * Re-scan the files a scanner's fix touched and compare with the first scan
+ *
+ * Findings are matched by rule, file and message — not line, since fixes
+ * such as inserted headers shift lines. Scanners that ignore `context.files` do a
+ * full scan; only findings in the touched files are compared.
+ */
+async function verifyScannerFix(
+  registry: ScannerRegistry,
+  fix: PreparedFix,
+  entry: FixResultEntry,
+  context: ScanContext,
+  patchResult: PatchApplyResult,
+): Promise<FixVerification | undefined> {
+  if (entry.error || !entry.fixResult || entry.fixResult.fixesApplied === 0) return undefined;
+
+  // Violations handed to the fix, and every path it touched (moves included)
+  const applied = fix.plan ? patchResult.applied.filter((p) => fix.accepted.includes(p)) : [];
+  const targeted = fix.plan ? applied.flatMap((p) => p.violations) : fix.viaFix;
+  const touched = new Set([
+    ...entry.fixResult.filesModified,
+    ...applied.flatMap((p) => (p.renameTo ? [p.renameTo] : [])),
+    ...targeted.flatMap((v) => (v.file ? [v.file] : [])),
+  ]);
+
+  const files: string[] = [];
+  for (const file of touched) {
+    const fullPath = join(context.workspaceRoot, file);
+    if (await pathExists(fullPath)) files.push(fullPath);
+  }
+
+  const result = await registry.run(fix.scanner.id, { ...context, files, dryRun: false });
+  const after = [...result.violations, ...result.warnings].filter((v) => v.file && touched.has(v.file));
+
+  // Pre-existing findings (targeted or not) are not "introduced"
+  const beforeFindings = fix.findings.filter((v) => v.file && touched.has(v.file));
+  const before = countByKey(beforeFindings);
+  const introduced = after.filter((v) => !takeKey(before, v));
+
+  // Findings the fix didn't target account for their share of `after` first
+  const residual = countByKey(after);
+  const targetedSet = new Set(targeted);
+  beforeFindings.filter((v) => !targetedSet.has(v)).forEach((v) => takeKey(residual, v));
+  const remaining = targeted.filter((v) => takeKey(residual, v));
+
+  return { fixed: targeted.length - remaining.length, remaining, introduced };
+}
+
+function findingKey(violation: ScanViolation): string {
+  return `${violation.id}\0${violation.file ?? ''}\0${violation.message}`;
+}
+
+function countByKey(violations: ScanViolation[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const v of violations) counts.set(findingKey(v), (counts.get(findingKey(v)) ?? 0) + 1);
+  return counts;
+}
+
+/**
+ * Consume one occurrence of a finding's key; false when none is left
+ */
+function takeKey(counts: Map<string, number>, violation: ScanViolation): boolean {
+  const count = counts.get(findingKey(violation)) ?? 0;
+  if (count === 0) return false;
+  counts.set(findingKey(violation), count - 1);
+  return true;
 }
 
 /**
  * List which scanners support auto-fix
  */
 export function listFixableScanners(registry: ScannerRegistry): Scanner[] {
-  return registry.all().filter((s) => typeof s.fix === 'function');
+  return registry.all().filter(isFixable);
 }
 
 /**
@@ -222,6 +604,14 @@ function renderReportEntry(
 
   if (dryRun) {
     lines.push(`     ${entry.autoFixableCount} violations can be auto-fixed`);
+    if (entry.plannedFiles) {
+      lines.push(`     Files to change: ${entry.plannedFiles.length}`);
+    } else {
+      lines.push('     (no diff preview — scanner has no plan phase)');
+    }
+    for (const f of entry.fixResult?.failures ?? []) {
+      lines.push(`        ⚠️  ${f.file}: ${f.reason}`);
+    }
     return lines;
   }
 
@@ -236,6 +626,19 @@ function renderReportEntry(
     }
   }
 
+  if (entry.skipped) {
+    lines.push(`     Skipped: ${entry.skipped} (declined in review)`);
+  }
+
+  if (entry.verification) {
+    const { fixed, remaining, introduced } = entry.verification;
+    lines.push(`     Verified: ${fixed} fixed, ${remaining.length} still present, ${introduced.length} introduced`);
+    for (const v of [...remaining, ...introduced].slice(0, 10)) {
+      const tag = remaining.includes(v) ? 'still present' : 'introduced';
+      lines.push(`        • ${v.file}${v.line !== undefined ? `:${v.line}` : ''} ${v.message} (${tag})`);
+    }
+  }
+
   return lines;
 }
 
@@ -257,6 +660,12 @@ function renderReportFooter(
     if (report.totalFailures > 0) {
       lines.push(`  Failures: ${report.totalFailures}`);
     }
+    if (report.totalIntroduced > 0) {
+      lines.push(`  ⚠️  Introduced by fixes: ${report.totalIntroduced}`);
+    }
+    if (report.runId) {
+      lines.push(`  Run ID: ${report.runId} (undo with: dcyfr fix --undo ${report.runId})`);
+    }
   }
 
   lines.push(`  Duration: ${report.duration}ms`);
@@ -272,6 +681,10 @@ export function renderFixReport(report: FixRunReport): string {
 
   lines.push(...renderReportHeader(report.dryRun));
 
+  for (const runId of report.recovered ?? []) {
+    lines.push(`  ↩️  Rolled back interrupted fix run ${runId}`);
+  }
+
   for (const entry of report.results) {
     lines.push(...renderReportEntry(entry, report.dryRun));
   }
@@ -5,4 +5,16 @@
  */
 
 export { runFixes, listFixableScanners, renderFixReport } from './engine.js';
-export type { FixRunOptions, FixRunReport, FixResultEntry } from './engine.js';
+export type {
+  FixRunOptions,
+  FixRunReport,
+  FixResultEntry,
+  FixReviewDecision,
+  FixReviewItem,
+  FixReviewer,
+} from './engine.js';
+export { applyEdits, applyFixPlan, applyPatches, patchedContent, toFixResult } from './patches.js';
+export type { PatchApplyResult } from './patches.js';
+export { createUnifiedDiff } from './diff.js';
+export { FixJournal, FIX_HISTORY_DIR, listFixRuns, recoverInterruptedRuns, undoFixRun } from './journal.js';
+export type { FixRunRecord, FixRunStatus, JournalEntry, UndoResult } from './journal.js';
@@ -0,0 +1,292 @@
+/**
+ * Fix journal — write-ahead record of every file a fix run touches
+ *
+ * Before a fix writes, moves or creates a file, the file's previous state
+ * is saved to `.dcyfr/fix-history/<runId>.json` with status `pending`.
+ * A run that fails is rolled back from the journal; a run interrupted by
+ * a crash is still `pending` on disk and is rolled back by the next fix
+ * run. Completed runs can be restored later with `dcyfr fix --undo`.
+ *
+ * @module @dcyfr/ai-cli/fix/journal
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { pathExists } from '@/lib/files.js';
+
+/** Directory holding fix journals, relative to the workspace root */
+export const FIX_HISTORY_DIR = join('.dcyfr', 'fix-history');
+
+const JOURNAL_FORMAT = 1;
+/** Completed journals kept before the oldest are pruned */
+const MAX_HISTORY = 50;
+
+/**
+ * Lifecycle of a fix run
+ */
+export type FixRunStatus = 'pending' | 'applied' | 'rolled-back' | 'undone';
+
+/**
+ * Previous and new state of one file touched by a fix run
+ */
+export interface JournalEntry {
+  /** Scanner whose fix touched the file */
+  scanner: string;
+  /** Workspace-relative path before the fix */
+  file: string;
+  /** Workspace-relative path after the fix, when the file was moved */
+  renamedTo?: string | undefined;
+  /** Content before the fix (null = the fix created the file) */
+  before: string | null;
+  /** Content after the fix at its final path (undefined = write not confirmed) */
+  after?: string | null | undefined;
+}
+
+/**
+ * Journal of one fix run as stored on disk
+ */
+export interface FixRunRecord {
+  format: number;
+  runId: string;
+  status: FixRunStatus;
+  startedAt: string;
+  finishedAt?: string | undefined;
+  /** Error that caused a rollback */
+  error?: string | undefined;
+  entries: JournalEntry[];
+}
+
+/**
+ * Outcome of undoing a fix run
+ */
+export interface UndoResult {
+  runId: string;
+  /** Workspace-relative paths restored */
+  restored: string[];
+}
+
+/**
+ * Journal for an in-progress fix run
+ */
+export class FixJournal {
+  readonly runId: string;
+  private workspaceRoot: string;
+  private record: FixRunRecord;
+
+  constructor(workspaceRoot: string, runId: string = createRunId()) {
+    this.workspaceRoot = workspaceRoot;
+    this.runId = runId;
+    this.record = {
+      format: JOURNAL_FORMAT,
+      runId,
+      status: 'pending',
+      startedAt: new Date().toISOString(),
+      entries: [],
+    };
+  }
+
+  /**
+   * Whether the run has touched any file
+   */
+  get isEmpty(): boolean {
+    return this.record.entries.length === 0;
+  }
+
+  /**
+   * Save files' previous state before they are written (write-ahead)
+   */
+  async snapshot(entries: JournalEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    this.record.entries.push(...entries);
+    await this.save();
+  }
+
+  /**
+   * Confirm writes: record each entry's new content, dropping entries
+   * whose file did not actually change
+   */
+  async confirm(entries: JournalEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const after = await readFile(join(this.workspaceRoot, entry.renamedTo ?? entry.file), 'utf-8').catch(
+        () => null,
+      );
+      if (after === entry.before && entry.renamedTo === undefined) {
+        this.record.entries = this.record.entries.filter((e) => e !== entry);
+      } else {
+        entry.after = after;
+      }
+    }
+    await this.save();
+  }
+
+  /**
+   * Mark the run as applied (an empty run leaves no journal behind)
+   */
+  async commit(): Promise<void> {
+    if (this.isEmpty) {
+      await rm(this.path(), { force: true });
+      return;
+    }
+    this.record.status = 'applied';
+    this.record.finishedAt = new Date().toISOString();
+    await this.save();
+    await pruneHistory(this.workspaceRoot);
+  }
+
+  /**
+   * Restore every journaled file and mark the run as rolled back
+   */
+  async rollback(error: unknown): Promise<void> {
+    await restoreEntries(this.workspaceRoot, this.record.entries);
+    this.record.status = 'rolled-back';
+    this.record.finishedAt = new Date().toISOString();
+    this.record.error = error instanceof Error ? error.message : String(error);
+    if (!this.isEmpty) await this.save();
+  }
+
+  private path(): string {
+    return journalPath(this.workspaceRoot, this.runId);
+  }
+
+  private async save(): Promise<void> {
+    await mkdir(join(this.workspaceRoot, FIX_HISTORY_DIR), { recursive: true });
+    await writeFile(this.path(), JSON.stringify(this.record));
+  }
+}
+
+/**
+ * List recorded fix runs, newest first
+ */
+export async function listFixRuns(workspaceRoot: string): Promise<FixRunRecord[]> {
+  const dir = join(workspaceRoot, FIX_HISTORY_DIR);
+  if (!(await pathExists(dir))) return [];
+
+  const runs: FixRunRecord[] = [];
+  for (const name of await readdir(dir)) {
+    if (!name.endsWith('.json')) continue;
+    try {
+      const record = JSON.parse(await readFile(join(dir, name), 'utf-8')) as FixRunRecord;
+      if (record.format === JOURNAL_FORMAT) runs.push(record);
+    } catch {
+      // Unreadable journals are ignored
+    }
+  }
+  return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Roll back runs left `pending` by an interrupted fix
+ *
+ * Returns the IDs of the runs that were rolled back.
+ */
+export async function recoverInterruptedRuns(workspaceRoot: string): Promise<string[]> {
+  const recovered: string[] = [];
+  for (const run of await listFixRuns(workspaceRoot)) {
+    if (run.status !== 'pending') continue;
+    await restoreEntries(workspaceRoot, run.entries);
+    await saveRecord(workspaceRoot, {
+      ...run,
+      status: 'rolled-back',
+      finishedAt: new Date().toISOString(),
+      error: 'Interrupted before completion',
+    });
+    recovered.push(run.runId);
+  }
+  return recovered;
+}
+
+/**
+ * Undo an applied fix run (the most recent one when no ID is given)
+ *
+ * Refuses when a file has changed since the fix unless `force` is set,
+ * so later edits are not silently discarded.
+ */
+export async function undoFixRun(
+  workspaceRoot: string,
+  runId?: string,
+  options: { force?: boolean | undefined } = {},
+): Promise<UndoResult> {
+  const runs = await listFixRuns(workspaceRoot);
+  const run = runId ? runs.find((r) => r.runId === runId) : runs.find((r) => r.status === 'applied');
+  if (!run) {
+    throw new Error(runId ? `Fix run '${runId}' not found` : 'No applied fix runs to undo');
+  }
+  if (run.status !== 'applied') {
+    throw new Error(`Fix run '${run.runId}' cannot be undone (status: ${run.status})`);
+  }
+
+  if (!options.force) {
+    const changed: string[] = [];
+    for (const entry of run.entries) {
+      const path = entry.renamedTo ?? entry.file;
+      const current = await readFile(join(workspaceRoot, path), 'utf-8').catch(() => null);
+      if (current !== entry.after) changed.push(path);
+    }
+    if (changed.length > 0) {
+      throw new Error(
+        `Files changed since fix run '${run.runId}': ${changed.join(', ')} (use --force to restore anyway)`,
+      );
+    }
+  }
+
+  await restoreEntries(workspaceRoot, run.entries);
+  await saveRecord(workspaceRoot, { ...run, status: 'undone', finishedAt: new Date().toISOString() });
+
+  return { runId: run.runId, restored: run.entries.map((e) => e.file) };
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/**
+ * Sortable, unique run ID, e.g. `20260412T093015-3fa2`
+ */
+function createRunId(): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+  return `${stamp}-${randomBytes(2).toString('hex')}`;
+}
+
+function journalPath(workspaceRoot: string, runId: string): string {
+  return join(workspaceRoot, FIX_HISTORY_DIR, `${runId}.json`);
+}
+
+async function saveRecord(workspaceRoot: string, record: FixRunRecord): Promise<void> {
+  await writeFile(journalPath(workspaceRoot, record.runId), JSON.stringify(record));
+}
+
+/**
+ * Put files back to their journaled `before` state, newest entry first
+ *
+ * Safe to run on entries whose write never happened: moves are only
+ * reversed when the target exists and the source does not.
+ */
+async function restoreEntries(workspaceRoot: string, entries: JournalEntry[]): Promise<void> {
+  for (const entry of [...entries].reverse()) {
+    const source = join(workspaceRoot, entry.file);
+
+    if (entry.renamedTo) {
+      const target = join(workspaceRoot, entry.renamedTo);
+      if ((await pathExists(target)) && !(await pathExists(source))) {
+        await mkdir(dirname(source), { recursive: true });
+        await rename(target, source);
+      }
+    }
+
+    if (entry.before === null) {
+      await rm(source, { force: true });
+    } else {
+      await mkdir(dirname(source), { recursive: true });
+      await writeFile(source, entry.before, 'utf-8');
+    }
+  }
+}
+
+/**
+ * Drop the oldest finished journals beyond the history limit
+ */
+async function pruneHistory(workspaceRoot: string): Promise<void> {
+  const finished = (await listFixRuns(workspaceRoot)).filter((r) => r.status !== 'pending');
+  for (const run of finished.slice(MAX_HISTORY)) {
+    await rm(journalPath(workspaceRoot, run.runId), { force: true });
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * File patches — combine and apply planned fixes
+ *
+ * Patches carry the content they were computed against, so several
+ * accepted patches for the same file (from one scanner or several) are
+ * merged into a single change, and a file that changed since planning is
+ * reported instead of being clobbered.
+ *
+ * @module @dcyfr/ai-cli/fix/patches
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { pathExists } from '@/lib/files.js';
+import type { WorkspaceIndex } from '@/lib/workspace-index.js';
+import type { FixJournal, JournalEntry } from './journal.js';
+import type { FilePatch, FixPlan, FixResult, ScanContext, TextEdit } from '@/scanners/types.js';
+
+/**
+ * Net change to one file after merging its patches
+ */
+export interface FileChange {
+  /** Workspace-relative path */
+  file: string;
+  /** Destination when the file is moved */
+  renameTo?: string | undefined;
+  /** Content the patches were planned against (null = file is created) */
+  before: string | null;
+  /** Content after all merged edits */
+  after: string;
+  /** Patches merged into this change */
+  patches: FilePatch[];
+}
+
+/**
+ * A patch that could not be merged or applied
+ */
+export interface PatchFailure {
+  patch: FilePatch;
+  reason: string;
+}
+
+/**
+ * Outcome of applying a batch of patches
+ */
+export interface PatchApplyResult {
+  /** Patches written to disk */
+  applied: FilePatch[];
+  /** Patches that could not be applied */
+  failures: PatchFailure[];
+}
+
+/**
+ * Apply non-overlapping edits to content
+ */
+export function applyEdits(content: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+  let result = '';
+  let cursor = 0;
+
+  for (const edit of sorted) {
+    if (edit.start < cursor) {
+      throw new Error(`Overlapping edits at offset ${edit.start}`);
+    }
+    if (edit.start > edit.end || edit.end > content.length) {
+      throw new Error(`Edit range ${edit.start}-${edit.end} is outside the file`);
+    }
+    result += content.slice(cursor, edit.start) + edit.text;
+    cursor = edit.end;
+  }
+
+  return result + content.slice(cursor);
+}
+
+/**
+ * Content of a file after applying a single patch
+ */
+export function patchedContent(patch: FilePatch): string {
+  return applyEdits(patch.original ?? '', patch.edits);
+}
+
+/**
+ * Merge patches into one change per file, in order
+ *
+ * A patch is rejected when it was planned against different content than
+ * earlier patches for the same file, when its edits overlap theirs, or
+ * when it moves a file that other patches also touch.
+ */
+export function combinePatches(patches: FilePatch[]): {
+  changes: FileChange[];
+  failures: PatchFailure[];
+} {
+  const changes = new Map<string, FileChange & { edits: TextEdit[] }>();
+  const failures: PatchFailure[] = [];
+
+  for (const patch of patches) {
+    const existing = changes.get(patch.file);
+    if (!existing) {
+      try {
+        changes.set(patch.file, {
+          file: patch.file,
+          renameTo: patch.renameTo,
+          before: patch.original,
+          after: patchedContent(patch),
+          patches: [patch],
+          edits: [...patch.edits],
+        });
+      } catch (error) {
+        failures.push({ patch, reason: error instanceof Error ? error.message : String(error) });
+      }
+      continue;
+    }
+
+    if (patch.original !== existing.before) {
+      failures.push({ patch, reason: 'File changed since the fix was planned' });
+      continue;
+    }
+    if (patch.renameTo !== undefined || existing.renameTo !== undefined) {
+      failures.push({ patch, reason: 'Conflicts with a move of the same file' });
+      continue;
+    }
+    try {
+      // Validate the combined edit set before accepting the patch
+      const edits = [...existing.edits, ...patch.edits];
+      existing.after = applyEdits(existing.before ?? '', edits);
+      existing.edits = edits;
+      existing.patches.push(patch);
+    } catch {
+      failures.push({ patch, reason: 'Overlaps another fix to the same file' });
+    }
+  }
+
+  return {
+    changes: Array.from(changes.values(), ({ edits: _edits, ...change }) => change),
+    failures,
+  };
+}
+
+/**
+ * Apply patches to the workspace, one write per file
+ *
+ * Patches are merged with `combinePatches`; a change is skipped (and its
+ * patches reported) when the file on disk no longer matches the content
+ * it was planned against, or when a move target already exists.
+ *
+ * With a journal, every file is snapshotted before the first write and a
+ * write error is thrown instead of reported, so the caller can roll the
+ * whole run back.
+ */
+export async function applyPatches(
+  workspaceRoot: string,
+  patches: FilePatch[],
+  index?: WorkspaceIndex,
+  journal?: FixJournal,
+): Promise<PatchApplyResult> {
+  const { changes, failures } = combinePatches(patches);
+  const result: PatchApplyResult = { applied: [], failures };
+  const fail = (change: FileChange, reason: string): void => {
+    result.failures.push(...change.patches.map((patch) => ({ patch, reason })));
+  };
+
+  // Check every change before anything is written
+  const ready: FileChange[] = [];
+  for (const change of changes) {
+    const current = await readFile(join(workspaceRoot, change.file), 'utf-8').catch(() => null);
+    if (current !== change.before) {
+      fail(change, current === null ? 'File no longer exists' : 'File changed since the fix was planned');
+    } else if (change.renameTo && (await pathExists(join(workspaceRoot, change.renameTo)))) {
+      // Don't overwrite existing files
+      fail(change, `Target already exists: ${change.renameTo}`);
+    } else {
+      ready.push(change);
+    }
+  }
+
+  const entries = ready.map(
+    (change): JournalEntry => ({
+      scanner: change.patches[0]!.scanner,
+      file: change.file,
+      renamedTo: change.renameTo,
+      before: change.before,
+    }),
+  );
+  await journal?.snapshot(entries);
+
+  for (const change of ready) {
+    const fullPath = join(workspaceRoot, change.file);
+    const targetPath = change.renameTo ? join(workspaceRoot, change.renameTo) : fullPath;
+    try {
+      if (change.renameTo) {
+        await mkdir(dirname(targetPath), { recursive: true });
+        await rename(fullPath, targetPath);
+        index?.invalidate(fullPath);
+      } else if (change.before === null) {
+        await mkdir(dirname(fullPath), { recursive: true });
+      }
+
+      if (change.after !== change.before) {
+        await writeFile(targetPath, change.after, 'utf-8');
+      }
+      index?.invalidate(targetPath);
+      result.applied.push(...change.patches);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (journal) {
+        throw new Error(`Failed to write ${change.renameTo ?? change.file}: ${message}`, { cause: error });
+      }
+      fail(change, message);
+    }
+  }
+
+  await journal?.confirm(entries);
+  return result;
+}
+
+/**
+ * Apply every patch in a plan and report it as a `FixResult`
+ *
+ * Lets scanners that implement `plan` provide `fix` without duplicating
+ * the write logic.
+ */
+export async function applyFixPlan(context: ScanContext, plan: FixPlan): Promise<FixResult> {
+  const { applied, failures } = await applyPatches(context.workspaceRoot, plan.patches, context.index);
+  return toFixResult(plan.scanner, applied, [
+    ...plan.failures,
+    ...failures.map(({ patch, reason }) => ({ file: patch.file, reason })),
+  ]);
+}
+
+/**
+ * Summarize applied patches as a `FixResult`
+ */
+export function toFixResult(
+  scanner: string,
+  applied: FilePatch[],
+  failures: FixResult['failures'],
+): FixResult {
+  return {
+    scanner,
+    fixesApplied: applied.length,
+    filesModified: Array.from(new Set(applied.map((p) => p.file))),
+    failures,
+  };
+}
@@ -32,6 +32,7 @@ const SCANNER_NAMES: Record<string, string> = {
   'docs-structure': 'Docs Structure',
   'dependency-audit': 'Dependencies',
   'test-data-guardian': 'Test Data Guard',
+  'custom-rules': 'Custom Rules',
 };
 
 /**
@@ -158,18 +159,41 @@ export function renderScanResults(results: ScanResult[], verbose: boolean = fals
   const failed = results.filter((r) => r.status === 'fail').length;
   const errored = results.filter((r) => r.status === 'error').length;
   const total = results.length;
+  const suppressed = results.reduce((sum, r) => sum + (r.metrics['suppressed'] ?? 0), 0);
+  const baselined = results.reduce((sum, r) => sum + (r.metrics['baselined'] ?? 0), 0);
 
   lines.push(
     `  ${passed}/${total} passed` +
       (warned > 0 ? ` · ${warned} warnings` : '') +
       (failed > 0 ? ` · ${failed} failed` : '') +
-      (errored > 0 ? ` · ${errored} errors` : ''),
+      (errored > 0 ? ` · ${errored} errors` : '') +
+      (suppressed > 0 ? ` · ${suppressed} suppressed` : '') +
+      (baselined > 0 ? ` · ${baselined} baselined` : ''),
   );
   lines.push('');
 
   return lines.join('\n');
 }
 
+/**
+ * Output formats supported by `dcyfr scan` and `dcyfr validate`
+ */
+export type ScanOutputFormat = 'text' | 'json' | 'sarif';
+
+const SCAN_OUTPUT_FORMATS: ScanOutputFormat[] = ['text', 'json', 'sarif'];
+
+/**
+ * Resolve the output format from command options (`--json` is shorthand for `--format json`)
+ */
+export function resolveOutputFormat(options: { format?: string; json?: boolean }): ScanOutputFormat {
+  if (options.json) return 'json';
+  const format = (options.format ?? 'text').toLowerCase();
+  if (!SCAN_OUTPUT_FORMATS.includes(format as ScanOutputFormat)) {
+    throw new Error(`Unknown output format '${options.format}'. Expected one of: ${SCAN_OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format as ScanOutputFormat;
+}
+
 /**
  * Render results as JSON (for scripting)
  */
@@ -10,13 +10,28 @@ export {
   saveHealthSnapshot,
   loadHealthSnapshot,
   loadHealthHistory,
+  saveScanResults,
+  loadScanResults,
 } from './state.js';
 
-export { renderHealthDashboard, renderScanResults, renderScanResultsJson } from './dashboard.js';
+export {
+  renderHealthDashboard,
+  renderScanResults,
+  renderScanResultsJson,
+  resolveOutputFormat,
+} from './dashboard.js';
+export type { ScanOutputFormat } from './dashboard.js';
+
+export { buildSarifLog, renderScanResultsSarif, toSarifLevel } from './sarif.js';
+export type { SarifLog, SarifLevel, SarifOptions } from './sarif.js';
 
 export {
   sparkline,
   colorSparkline,
   calculateTrend,
   renderSparklineHistory,
+  scannerDisplayName,
 } from './sparkline.js';
+
+export { LiveDashboard, renderLiveDashboard, scannerOrder } from './live.js';
+export type { LiveDashboardOptions, LiveDashboardView, LiveQueue, TerminalSize } from './live.js';
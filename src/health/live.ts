@@ -0,0 +1,720 @@
+/**
+ * Live health dashboard — full-screen terminal UI for `dcyfr health --watch`
+ *
+ * Shows per-scanner scores with sparklines, the daemon's task queue, recent
+ * violations and the daemon log tail, and redraws as files in `.dcyfr/`
+ * change or the daemon streams events. `renderLiveDashboard` draws one
+ * frame from a view; `LiveDashboard` owns the terminal, data and keys.
+ *
+ * Keys: ↑/↓ (or k/j) select a scanner, enter/v open its violation list,
+ * esc goes back, r rescans the selected scanner, a rescans all, q quits.
+ *
+ * @module @dcyfr/ai-cli/health/live
+ */
+
+import { spawn } from 'child_process';
+import { watch } from 'fs';
+import { join } from 'path';
+import type { ChildProcess } from 'child_process';
+import type { FSWatcher } from 'fs';
+import type { ReadStream, WriteStream } from 'tty';
+import { connectDaemon } from '@/daemon/ipc.js';
+import type { DaemonClient } from '@/daemon/ipc.js';
+import { readDaemonLogs } from '@/daemon/process.js';
+import type { TaskQueue } from '@/daemon/queue.js';
+import type { DaemonEvent, Task } from '@/daemon/types.js';
+import type { HealthSnapshot, ScanResult, ScanStatus, ScanViolation } from '@/scanners/types.js';
+import { colorSparkline, scannerDisplayName } from './sparkline.js';
+import { buildHealthSnapshot, loadHealthHistory, loadHealthSnapshot, loadScanResults } from './state.js';
+
+/** Points per scanner sparkline */
+const SPARK_WIDTH = 20;
+
+/** Days of history behind the sparklines */
+const HISTORY_DAYS = 30;
+
+/** Daemon log lines kept for the tail */
+const LOG_LINES = 50;
+
+/** Files in `.dcyfr/` that trigger a reload */
+const WATCHED_FILES = new Set(['health.json', 'health-history.json', 'scan-results.json', 'daemon.log']);
+
+/** Daemon events that change what the dashboard shows */
+const EVENT_FILTER = ['task:*', 'scan:completed', 'health:updated'];
+
+const RPC_TIMEOUT_MS = 5_000;
+
+/** One key press: an escape sequence (arrows) or a single character */
+// eslint-disable-next-line no-control-regex
+const KEYS = /\x1b\[[0-9;]*[A-Za-z~]|\x1bO[A-Z]|[\s\S]/gu;
+
+const RESET = '\x1b[0m';
+const BOLD = '\x1b[1m';
+const DIM = '\x1b[90m';
+
+const STATUS_LABELS: Record<ScanStatus, string> = {
+  pass: '\x1b[32mPASS\x1b[0m',
+  warn: '\x1b[33mWARN\x1b[0m',
+  fail: '\x1b[31mFAIL\x1b[0m',
+  error: '\x1b[31mERROR\x1b[0m',
+  skipped: '\x1b[90mSKIP\x1b[0m',
+};
+
+const OVERALL_LABELS: Record<HealthSnapshot['overall']['status'], string> = {
+  healthy: '\x1b[32m● HEALTHY\x1b[0m',
+  degraded: '\x1b[33m● DEGRADED\x1b[0m',
+  critical: '\x1b[31m● CRITICAL\x1b[0m',
+};
+
+// ── View ─────────────────────────────────────────────────────
+
+/**
+ * The daemon's task queue as the dashboard shows it
+ */
+export interface LiveQueue {
+  stats: ReturnType<TaskQueue['stats']>;
+  /** Running and queued tasks, in execution order */
+  pending: Task[];
+}
+
+/**
+ * Everything one dashboard frame is drawn from
+ */
+export interface LiveDashboardView {
+  /** Latest scores per scanner */
+  snapshot: HealthSnapshot | null;
+  /** Earlier snapshots, oldest first, for the sparklines */
+  history: HealthSnapshot[];
+  /** Latest full result per scanner, for the violation lists */
+  results: ScanResult[];
+  /** Daemon queue; null when no daemon is reachable */
+  queue: LiveQueue | null;
+  /** Daemon log tail */
+  logs: string[];
+  /** Selected scanner ID */
+  selected: string | null;
+  /** Overview, or the selected scanner's violation list */
+  mode: 'overview' | 'violations';
+  /** First line shown in the violation list */
+  scroll: number;
+  /** Status line, e.g. the outcome of the last rescan */
+  message: string;
+}
+
+/**
+ * Terminal size in characters
+ */
+export interface TerminalSize {
+  columns: number;
+  rows: number;
+}
+
+/**
+ * Render one dashboard frame: exactly `size.rows` lines, none wider than
+ * the terminal
+ */
+export function renderLiveDashboard(view: LiveDashboardView, size: TerminalSize, now = new Date()): string[] {
+  const width = Math.max(size.columns - 1, 20);
+  const rows = Math.max(size.rows, 8);
+  const footer = renderFooter(view, width);
+  const bodyRows = rows - 2 - footer.length;
+
+  const body = view.mode === 'violations' ? renderViolationList(view, bodyRows) : renderOverview(view, bodyRows);
+  const lines = [renderTitle(view, now), '', ...body.slice(0, bodyRows)];
+  while (lines.length < rows - footer.length) lines.push('');
+  lines.push(...footer);
+
+  return lines.map((line) => fit(line, width));
+}
+
+/**
+ * Scanner IDs in display order
+ */
+export function scannerOrder(snapshot: HealthSnapshot | null): string[] {
+  return Object.keys(snapshot?.scanners ?? {}).sort((a, b) =>
+    scannerDisplayName(a).localeCompare(scannerDisplayName(b)),
+  );
+}
+
+function renderTitle(view: LiveDashboardView, now: Date): string {
+  const clock = now.toLocaleTimeString('en-US', { hour12: false });
+  if (!view.snapshot) {
+    return ` ${BOLD}DCYFR Live Health${RESET}  ${DIM}${clock}${RESET}`;
+  }
+
+  const { score, status } = view.snapshot.overall;
+  const age = formatAge(now.getTime() - lastScanTime(view));
+  return ` ${BOLD}DCYFR Live Health${RESET}  ${OVERALL_LABELS[status]} ${score.toFixed(1)}%  ${DIM}last scan ${age} ago · ${clock}${RESET}`;
+}
+
+function renderOverview(view: LiveDashboardView, bodyRows: number): string[] {
+  const lines: string[] = [];
+  const ids = scannerOrder(view.snapshot);
+
+  if (ids.length === 0) {
+    lines.push('  No health data yet — press r to scan, or run `dcyfr scan`.', '');
+  } else {
+    // Keep the selected scanner visible when the table doesn't fit
+    const tableRows = Math.max(3, bodyRows - 12);
+    const selectedIndex = Math.max(ids.indexOf(view.selected ?? ''), 0);
+    const first = Math.min(Math.max(selectedIndex - tableRows + 1, 0), Math.max(ids.length - tableRows, 0));
+
+    lines.push(`${DIM}   ${'Scanner'.padEnd(18)} ${'Score'.padStart(6)}  ${'Trend'.padEnd(SPARK_WIDTH)}  Status  Issues${RESET}`);
+    for (const id of ids.slice(first, first + tableRows)) {
+      lines.push(renderScannerRow(view, id));
+    }
+    if (ids.length > tableRows) {
+      lines.push(`${DIM}   ${first + 1}-${Math.min(first + tableRows, ids.length)} of ${ids.length} scanners${RESET}`);
+    }
+    lines.push('');
+  }
+
+  lines.push(...renderQueue(view.queue), '');
+  lines.push(...renderRecentViolations(view), '');
+
+  const logRows = bodyRows - lines.length - 1;
+  lines.push(`${BOLD} Daemon log${RESET}`);
+  if (view.logs.length === 0) {
+    lines.push(`${DIM}   No daemon logs${RESET}`);
+  } else if (logRows > 0) {
+    for (const line of view.logs.slice(-logRows)) {
+      lines.push(`   ${colorLogLevel(oneLine(line))}`);
+    }
+  }
+  return lines;
+}
+
+function renderScannerRow(view: LiveDashboardView, id: string): string {
+  const entry = view.snapshot!.scanners[id]!;
+  const scores = view.history.flatMap((h) => (h.scanners[id] ? [h.scanners[id].score] : []));
+  // Daemon scans newer than the history add a live point
+  const lastSaved = view.history.at(-1);
+  if (!lastSaved || lastScanTime(view) > new Date(lastSaved.timestamp).getTime()) {
+    scores.push(entry.score);
+  }
+
+  const marker = id === view.selected ? `${BOLD}▶${RESET}` : ' ';
+  const name = scannerDisplayName(id).padEnd(18);
+  const styledName = id === view.selected ? `${BOLD}${name}${RESET}` : name;
+  const spark = pad(colorSparkline(scores, SPARK_WIDTH), SPARK_WIDTH);
+  const status = pad(STATUS_LABELS[entry.status] ?? entry.status, 6);
+  const issues = `${entry.violations} errors, ${entry.warnings} warnings`;
+  return ` ${marker} ${styledName} ${`${entry.score.toFixed(1)}%`.padStart(6)}  ${spark}  ${status}  ${issues}`;
+}
+
+function renderQueue(queue: LiveQueue | null): string[] {
+  if (!queue) {
+    return [
+      `${BOLD} Queue${RESET}  ${DIM}daemon not running — rescans run locally (start it with \`dcyfr daemon start --background\`)${RESET}`,
+    ];
+  }
+
+  const { queued, running, completed, failed } = queue.stats;
+  const failedText = failed > 0 ? `\x1b[31mfailed ${failed}${RESET}` : 'failed 0';
+  const lines = [`${BOLD} Queue${RESET}  running ${running} · queued ${queued} · completed ${completed} · ${failedText}`];
+  for (const task of queue.pending.slice(0, 3)) {
+    const icon = task.status === 'running' ? '\x1b[36m▶\x1b[0m' : `${DIM}·${RESET}`;
+    const files = task.files ? `, ${task.files.length} files` : '';
+    lines.push(`   ${icon} ${scannerDisplayName(task.scanner)} ${DIM}(${task.source}${files})${RESET}`);
+  }
+  if (queue.pending.length > 3) {
+    lines.push(`${DIM}   +${queue.pending.length - 3} more${RESET}`);
+  }
+  return lines;
+}
+
+function renderRecentViolations(view: LiveDashboardView): string[] {
+  const lines = [`${BOLD} Recent violations${RESET}`];
+  const recent = [...view.results]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .flatMap((result) => [...result.violations, ...result.warnings].map((v) => ({ scanner: result.scanner, v })))
+    .slice(0, 5);
+
+  if (recent.length === 0) {
+    lines.push(`${DIM}   None${view.results.length === 0 ? ' recorded — details appear after the next scan' : ''}${RESET}`);
+  }
+  for (const { scanner, v } of recent) {
+    lines.push(`   ${severityIcon(v)} ${scannerDisplayName(scanner)}  ${DIM}${location(v)}${RESET}  ${oneLine(v.message)}`);
+  }
+  return lines;
+}
+
+function renderViolationList(view: LiveDashboardView, bodyRows: number): string[] {
+  const id = view.selected;
+  const entry = id ? view.snapshot?.scanners[id] : undefined;
+  if (!id || !entry) {
+    return ['  No scanner selected.'];
+  }
+
+  const header = `${BOLD} ${scannerDisplayName(id)}${RESET} — ${entry.violations} errors, ${entry.warnings} warnings  ${STATUS_LABELS[entry.status] ?? entry.status}`;
+  const result = view.results.find((r) => r.scanner === id);
+  if (!result) {
+    return [header, '', '  No violation details saved for this scanner — press r to rescan it.'];
+  }
+
+  const items: string[] = [];
+  for (const v of [...result.violations, ...result.warnings]) {
+    items.push(`   ${severityIcon(v)} ${DIM}${location(v)}${RESET}  ${oneLine(v.message)}`);
+    if (v.fix) items.push(`${DIM}       fix: ${oneLine(v.fix)}${RESET}`);
+  }
+  if (items.length === 0) {
+    items.push(`   \x1b[32m✓${RESET} No violations${result.summary ? ` — ${oneLine(result.summary)}` : ''}`);
+  }
+
+  const visible = bodyRows - 2;
+  const first = Math.min(view.scroll, Math.max(items.length - visible, 0));
+  const lines = [header, '', ...items.slice(first, first + visible)];
+  if (items.length > visible) {
+    lines[1] = `${DIM}   lines ${first + 1}-${Math.min(first + visible, items.length)} of ${items.length}${RESET}`;
+  }
+  return lines;
+}
+
+function renderFooter(view: LiveDashboardView, width: number): string[] {
+  const keys =
+    view.mode === 'violations'
+      ? '↑↓ scroll  esc back  r rescan  q quit'
+      : '↑↓ select  enter violations  r rescan  a rescan all  q quit';
+  return [`${DIM}${'─'.repeat(width)}${RESET}`, ` ${keys}${view.message ? `  ${DIM}│${RESET} ${view.message}` : ''}`];
+}
+
+// ── Text Helpers ─────────────────────────────────────────────
+
+// eslint-disable-next-line no-control-regex
+const TOKENS = /\x1b\[[0-9;]*m|[\s\S]/gu;
+const WIDE = /\p{Emoji_Presentation}|[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\uff00-\uff60\uffe0-\uffe6]/u;
+const ZERO_WIDTH = /[\p{Mn}\u200b-\u200f]/u;
+
+function charWidth(char: string): number {
+  if (ZERO_WIDTH.test(char)) return 0;
+  return WIDE.test(char) ? 2 : 1;
+}
+
+function visibleWidth(text: string): number {
+  let width = 0;
+  for (const [token] of text.matchAll(TOKENS)) {
+    if (!token.startsWith('\x1b[')) width += charWidth(token);
+  }
+  return width;
+}
+
+/**
+ * Cut a line to a visible width, keeping ANSI codes intact
+ */
+function fit(text: string, width: number): string {
+  let visible = 0;
+  let out = '';
+  for (const [token] of text.matchAll(TOKENS)) {
+    if (token.startsWith('\x1b[')) {
+      out += token;
+      continue;
+    }
+    visible += charWidth(token);
+    if (visible > width) return out + RESET;
+    out += token;
+  }
+  return out;
+}
+
+function pad(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(width - visibleWidth(text), 0));
+}
+
+function oneLine(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/[\x00-\x1f\x7f]+/g, ' ');
+}
+
+function severityIcon(violation: ScanViolation): string {
+  return violation.severity === 'error' ? '\x1b[31m✗\x1b[0m' : '\x1b[33m!\x1b[0m';
+}
+
+function location(violation: ScanViolation): string {
+  if (!violation.file) return '-';
+  return violation.line ? `${violation.file}:${violation.line}` : violation.file;
+}
+
+function colorLogLevel(line: string): string {
+  return line
+    .replace(/ERROR/, '\x1b[31mERROR\x1b[0m')
+    .replace(/WARN /, '\x1b[33mWARN \x1b[0m')
+    .replace(/INFO /, '\x1b[36mINFO \x1b[0m')
+    .replace(/DEBUG/, '\x1b[90mDEBUG\x1b[0m');
+}
+
+function lastScanTime(view: LiveDashboardView): number {
+  const times = view.results.map((r) => new Date(r.timestamp).getTime());
+  return times.length > 0 ? Math.max(...times) : new Date(view.snapshot!.timestamp).getTime();
+}
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(Math.floor(ms / 1000), 0);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+// ── Controller ───────────────────────────────────────────────
+
+/**
+ * Options for `LiveDashboard`
+ */
+export interface LiveDashboardOptions {
+  input: ReadStream;
+  output: WriteStream;
+  /** Redraw (and retry the daemon connection) at least this often, in ms */
+  refreshInterval?: number;
+}
+
+/**
+ * Full-screen dashboard: owns the terminal until the user quits
+ */
+export class LiveDashboard {
+  private workspaceRoot: string;
+  private input: ReadStream;
+  private output: WriteStream;
+  private refreshInterval: number;
+  private view: LiveDashboardView = {
+    snapshot: null,
+    history: [],
+    results: [],
+    queue: null,
+    logs: [],
+    selected: null,
+    mode: 'overview',
+    scroll: 0,
+    message: '',
+  };
+  private savedSnapshot: HealthSnapshot | null = null;
+  private client: DaemonClient | null = null;
+  private watcher: FSWatcher | null = null;
+  private changedFiles = new Set<string>();
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private localScan: ChildProcess | null = null;
+  private active = false;
+  private quit: (() => void) | null = null;
+
+  constructor(workspaceRoot: string, options: LiveDashboardOptions) {
+    this.workspaceRoot = workspaceRoot;
+    this.input = options.input;
+    this.output = options.output;
+    this.refreshInterval = options.refreshInterval ?? 2_000;
+  }
+
+  /**
+   * Take over the terminal and run until the user quits (q, Ctrl+C) or
+   * the process gets SIGTERM/SIGHUP
+   */
+  async run(): Promise<void> {
+    if (!this.input.isTTY || !this.output.isTTY) {
+      throw new Error('The live dashboard needs an interactive terminal');
+    }
+
+    await this.reload(WATCHED_FILES);
+    await this.connect();
+
+    const onKey = (chunk: string): void => {
+      // Fast typing and pastes arrive as one chunk
+      for (const [key] of chunk.matchAll(KEYS)) this.handleKey(key);
+    };
+    const onResize = (): void => this.draw();
+    const onSignal = (): void => this.stop();
+
+    this.active = true;
+    // Alternate screen, hidden cursor
+    this.output.write('\x1b[?1049h\x1b[?25l');
+    this.input.setRawMode(true);
+    this.input.setEncoding('utf-8');
+    this.input.on('data', onKey);
+    this.input.resume();
+    this.output.on('resize', onResize);
+    process.on('SIGTERM', onSignal);
+    process.on('SIGHUP', onSignal);
+
+    try {
+      this.watchFiles();
+      this.refreshTimer = setInterval(() => void this.tick(), this.refreshInterval);
+      this.draw();
+      await new Promise<void>((resolve) => {
+        this.quit = resolve;
+      });
+    } finally {
+      this.active = false;
+      if (this.refreshTimer) clearInterval(this.refreshTimer);
+      if (this.reloadTimer) clearTimeout(this.reloadTimer);
+      this.watcher?.close();
+      this.client?.close();
+      this.localScan?.kill();
+
+      process.off('SIGTERM', onSignal);
+      process.off('SIGHUP', onSignal);
+      this.output.off('resize', onResize);
+      this.input.off('data', onKey);
+      this.input.setRawMode(false);
+      this.input.pause();
+      this.output.write('\x1b[?25h\x1b[?1049l');
+    }
+  }
+
+  /**
+   * Leave the dashboard and restore the terminal
+   */
+  stop(): void {
+    this.quit?.();
+  }
+
+  // ── Data ───────────────────────────────────────────────────
+
+  private async reload(files: Set<string>): Promise<void> {
+    const root = this.workspaceRoot;
+    if (files.has('daemon.log')) {
+      this.view.logs = await readDaemonLogs(root, LOG_LINES);
+    }
+    if (files.has('health-history.json')) {
+      this.view.history = await loadHealthHistory(root, HISTORY_DAYS);
+    }
+    if (files.has('health.json')) {
+      this.savedSnapshot = (await loadHealthSnapshot(root)) ?? this.savedSnapshot;
+    }
+    if (files.has('scan-results.json')) {
+      const results = await loadScanResults(root);
+      // A file caught mid-write reads as empty; keep what we have
+      if (results.length > 0) this.view.results = results;
+    }
+    this.updateSnapshot();
+  }
+
+  /**
+   * Scores come from the full results when there are any (they include
+   * daemon scans not yet in health.json), otherwise from health.json
+   */
+  private updateSnapshot(): void {
+    this.view.snapshot = this.view.results.length > 0 ? buildHealthSnapshot(this.view.results) : this.savedSnapshot;
+
+    const ids = scannerOrder(this.view.snapshot);
+    if (!this.view.selected || !ids.includes(this.view.selected)) {
+      this.view.selected = ids[0] ?? null;
+    }
+  }
+
+  private mergeResults(results: ScanResult[]): void {
+    const latest = new Map(this.view.results.map((r) => [r.scanner, r]));
+    for (const result of results) {
+      latest.set(result.scanner, result);
+    }
+    this.view.results = [...latest.values()];
+    this.updateSnapshot();
+  }
+
+  private watchFiles(): void {
+    try {
+      this.watcher = watch(join(this.workspaceRoot, '.dcyfr'), (_event, file) => {
+        const name = file?.toString();
+        if (name && !WATCHED_FILES.has(name)) return;
+        for (const changed of name ? [name] : WATCHED_FILES) this.changedFiles.add(changed);
+        this.scheduleReload();
+      });
+      this.watcher.on('error', () => {
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch {
+      // No .dcyfr directory yet; retried on the next tick
+      this.watcher = null;
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) return;
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      const files = new Set(this.changedFiles);
+      this.changedFiles.clear();
+      void this.reload(files).then(() => this.draw());
+    }, 200);
+  }
+
+  private async tick(): Promise<void> {
+    if (!this.watcher) {
+      this.watchFiles();
+      await this.reload(WATCHED_FILES);
+    }
+    if (!this.client) {
+      await this.connect();
+    }
+    this.draw();
+  }
+
+  private async connect(): Promise<void> {
+    const client = await connectDaemon(this.workspaceRoot);
+    if (!client) return;
+
+    this.client = client;
+    client.onClose(() => {
+      if (this.client !== client) return;
+      this.client = null;
+      this.view.queue = null;
+      this.draw();
+    });
+    client.onNotification((method, params) => {
+      if (method === 'event') this.handleEvent(params as DaemonEvent);
+    });
+
+    try {
+      await client.call('events.subscribe', { filter: EVENT_FILTER }, RPC_TIMEOUT_MS);
+      await this.refreshQueue();
+    } catch {
+      client.close();
+    }
+  }
+
+  private async refreshQueue(): Promise<void> {
+    const client = this.client;
+    if (!client) return;
+
+    try {
+      const [stats, { pending }] = await Promise.all([
+        client.call<LiveQueue['stats']>('queue.stats', {}, RPC_TIMEOUT_MS),
+        client.call<{ pending: Task[] }>('queue.list', {}, RPC_TIMEOUT_MS),
+      ]);
+      if (this.client === client) {
+        this.view.queue = { stats, pending };
+      }
+    } catch {
+      // The daemon is going away; its close handler clears the queue
+    }
+  }
+
+  private handleEvent(event: DaemonEvent): void {
+    if (event.type === 'scan:completed') {
+      this.mergeResults([event.data['result'] as ScanResult]);
+    }
+    if (event.type.startsWith('task:')) {
+      void this.refreshQueue().then(() => this.draw());
+      return;
+    }
+    this.draw();
+  }
+
+  // ── Input ──────────────────────────────────────────────────
+
+  private handleKey(key: string): void {
+    const view = this.view;
+    switch (key) {
+      case 'q':
+      case '\x03': // Ctrl+C
+        this.stop();
+        return;
+      case '\x1b[A':
+      case '\x1bOA':
+      case 'k':
+        this.move(-1);
+        break;
+      case '\x1b[B':
+      case '\x1bOB':
+      case 'j':
+        this.move(1);
+        break;
+      case '\r':
+      case 'v':
+        if (view.selected) {
+          view.mode = 'violations';
+          view.scroll = 0;
+        }
+        break;
+      case '\x1b':
+      case '\x7f': // Backspace
+        view.mode = 'overview';
+        break;
+      case 'r':
+        this.rescan(view.selected);
+        break;
+      case 'a':
+        this.rescan(null);
+        break;
+      default:
+        return;
+    }
+    this.draw();
+  }
+
+  private move(delta: number): void {
+    const view = this.view;
+    if (view.mode === 'violations') {
+      view.scroll = Math.max(view.scroll + delta, 0);
+      return;
+    }
+    const ids = scannerOrder(view.snapshot);
+    const index = ids.indexOf(view.selected ?? '');
+    view.selected = ids[Math.min(Math.max(index + delta, 0), ids.length - 1)] ?? null;
+  }
+
+  /**
+   * Rescan one scanner (or all) in the daemon, or in a `dcyfr scan`
+   * child process when no daemon is running
+   */
+  private rescan(scanner: string | null): void {
+    const label = scanner ? scannerDisplayName(scanner) : 'all scanners';
+
+    if (this.client) {
+      this.view.message = `Rescanning ${label} in the daemon…`;
+      this.client
+        .call<{ results: ScanResult[] }>('scan.run', scanner ? { scanners: [scanner] } : {})
+        .then(({ results }) => {
+          this.mergeResults(results);
+          this.view.message = `Rescanned ${label}`;
+        })
+        .catch((error: unknown) => {
+          this.view.message = `\x1b[31mRescan failed: ${error instanceof Error ? error.message : String(error)}${RESET}`;
+        })
+        .finally(() => this.draw());
+      return;
+    }
+
+    const cli = process.argv[1];
+    if (this.localScan || !cli) {
+      this.view.message = this.localScan ? 'A local scan is already running' : 'Cannot start a local scan';
+      return;
+    }
+
+    this.view.message = `Scanning ${label} locally…`;
+    const startedAt = new Date().toISOString();
+    // Same cwd and environment, so the child resolves the same workspace
+    const child = spawn(process.execPath, [...process.execArgv, cli, 'scan', ...(scanner ? [scanner] : [])], {
+      stdio: 'ignore',
+    });
+    this.localScan = child;
+    child.on('error', (error) => {
+      this.localScan = null;
+      this.view.message = `\x1b[31mLocal scan failed: ${error.message}${RESET}`;
+      this.draw();
+    });
+    child.on('exit', () => {
+      this.localScan = null;
+      // `dcyfr scan` also exits non-zero for failing scanners, so success
+      // is judged by whether it saved fresh results
+      void this.reload(WATCHED_FILES).then(() => {
+        const saved = this.view.results.some(
+          (r) => r.timestamp >= startedAt && (!scanner || r.scanner === scanner),
+        );
+        this.view.message = saved
+          ? `Rescanned ${label}`
+          : `\x1b[31mLocal scan of ${label} saved no results — run \`dcyfr scan${scanner ? ` ${scanner}` : ''}\` to see why${RESET}`;
+        this.draw();
+      });
+    });
+  }
+
+  private draw(): void {
+    if (!this.active) return;
+    const frame = renderLiveDashboard(this.view, {
+      columns: this.output.columns || 80,
+      rows: this.output.rows || 24,
+    });
+    this.output.write(`\x1b[H${frame.map((line) => `${line}\x1b[K`).join('\n')}\x1b[J`);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * SARIF 2.1.0 renderer for scan results
+ *
+ * Converts scanner results into a Static Analysis Results Interchange
+ * Format log so code-scanning dashboards can ingest DCYFR findings
+ * alongside other analyzers.
+ *
+ * @module @dcyfr/ai-cli/health/sarif
+ */
+
+import { pathToFileURL } from 'url';
+import type {
+  Scanner,
+  ScanResult,
+  ScanViolation,
+  ViolationSeverity,
+} from '@/scanners/types.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_VERSION = '2.1.0';
+const TOOL_NAME = 'dcyfr';
+const TOOL_URI = 'https://github.com/dcyfr-labs/dcyfr-ai-cli';
+const SRCROOT = '%SRCROOT%';
+
+// ── SARIF Types (subset of the 2.1.0 schema we emit) ─────────
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  help?: { text: string } | undefined;
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    scanner: string;
+    scannerName: string;
+    category: string;
+    tags: string[];
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations?: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number; startColumn?: number | undefined } | undefined;
+    };
+  }> | undefined;
+  properties?: Record<string, unknown> | undefined;
+}
+
+export interface SarifNotification {
+  level: SarifLevel;
+  message: { text: string };
+  descriptor: { id: string };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds?: Record<string, { uri: string }> | undefined;
+    invocations: Array<{
+      executionSuccessful: boolean;
+      toolExecutionNotifications: SarifNotification[];
+    }>;
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * Options for SARIF rendering
+ */
+export interface SarifOptions {
+  /** Workspace root — emitted as the %SRCROOT% base URI when set */
+  workspaceRoot?: string | undefined;
+}
+
+// ── Conversion ───────────────────────────────────────────────
+
+/**
+ * Map a DCYFR violation severity to a SARIF level
+ */
+export function toSarifLevel(severity: ViolationSeverity): SarifLevel {
+  switch (severity) {
+    case 'error':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+/**
+ * Build a SARIF log from scan results.
+ *
+ * Rule metadata is taken from the scanner that produced each violation;
+ * rule IDs are namespaced as `<scanner>/<violation-id>`.
+ */
+export function buildSarifLog(
+  results: ScanResult[],
+  scanners: Scanner[],
+  options: SarifOptions = {},
+): SarifLog {
+  const scannerById = new Map(scanners.map((s) => [s.id, s]));
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+  const sarifResults: SarifResult[] = [];
+  const notifications: SarifNotification[] = [];
+
+  for (const result of results) {
+    const scanner = scannerById.get(result.scanner);
+
+    if (result.status === 'error') {
+      notifications.push({
+        level: 'error',
+        message: { text: result.summary ?? `Scanner '${result.scanner}' failed` },
+        descriptor: { id: result.scanner },
+      });
+    }
+
+    for (const violation of [...result.violations, ...result.warnings]) {
+      const ruleId = `${result.scanner}/${violation.id}`;
+      let index = ruleIndex.get(ruleId);
+      if (index === undefined) {
+        index = rules.length;
+        ruleIndex.set(ruleId, index);
+        rules.push(buildRule(ruleId, result.scanner, scanner, violation));
+      }
+      sarifResults.push(buildResult(ruleId, index, violation));
+    }
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_URI,
+            rules,
+          },
+        },
+        originalUriBaseIds: options.workspaceRoot
+          ? { [SRCROOT]: { uri: `${pathToFileURL(options.workspaceRoot).href}/` } }
+          : undefined,
+        invocations: [
+          {
+            executionSuccessful: notifications.length === 0,
+            toolExecutionNotifications: notifications,
+          },
+        ],
+        results: sarifResults,
+      },
+    ],
+  };
+}
+
+/**
+ * Render results as a SARIF 2.1.0 JSON document
+ */
+export function renderScanResultsSarif(
+  results: ScanResult[],
+  scanners: Scanner[],
+  options: SarifOptions = {},
+): string {
+  return JSON.stringify(buildSarifLog(results, scanners, options), null, 2);
+}
+
+function buildRule(
+  ruleId: string,
+  scannerId: string,
+  scanner: Scanner | undefined,
+  violation: ScanViolation,
+): SarifRule {
+  const scannerName = scanner?.name ?? scannerId;
+  const category = scanner?.category ?? 'compliance';
+
+  return {
+    id: ruleId,
+    name: violation.id,
+    shortDescription: { text: `${scannerName}: ${violation.id}` },
+    fullDescription: { text: scanner?.description ?? scannerName },
+    help: violation.fix ? { text: violation.fix } : undefined,
+    defaultConfiguration: { level: toSarifLevel(violation.severity) },
+    properties: {
+      scanner: scannerId,
+      scannerName,
+      category,
+      tags: [TOOL_NAME, category],
+    },
+  };
+}
+
+function buildResult(ruleId: string, ruleIndex: number, violation: ScanViolation): SarifResult {
+  const result: SarifResult = {
+    ruleId,
+    ruleIndex,
+    level: toSarifLevel(violation.severity),
+    message: { text: violation.message },
+  };
+
+  if (violation.file) {
+    result.locations = [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: toArtifactUri(violation.file), uriBaseId: SRCROOT },
+          region: violation.line
+            ? {
+                startLine: violation.line,
+                // SARIF columns are 1-based; ScanViolation columns are 0-based
+                startColumn: violation.column !== undefined ? violation.column + 1 : undefined,
+              }
+            : undefined,
+        },
+      },
+    ];
+  }
+
+  const properties: Record<string, unknown> = {};
+  if (violation.fix) properties['fix'] = violation.fix;
+  if (violation.autoFixable) properties['autoFixable'] = true;
+  if (Object.keys(properties).length > 0) {
+    result.properties = properties;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a workspace-relative path to a SARIF artifact URI
+ */
+function toArtifactUri(file: string): string {
+  return encodeURI(file.replace(/\\/g, '/'));
+}
@@ -21,6 +21,33 @@ const TREND = {
   down: '\x1b[31m↓\x1b[0m',     // red
 } as const;
 
+/** Scanner display names */
+const SCANNER_NAMES: Record<string, string> = {
+  'design-tokens': 'Design Tokens',
+  'barrel-exports': 'Barrel Exports',
+  pagelayout: 'PageLayout',
+  'license-headers': 'License Headers',
+  'tlp-headers': 'TLP Headers',
+  'docs-structure': 'Docs Structure',
+  'dependency-audit': 'Dependencies',
+  'dependency-licenses': 'Licenses',
+  'dependency-hygiene': 'Dep Hygiene',
+  'test-data-guardian': 'Test Data Guard',
+  secrets: 'Secrets',
+  'docs-generator': 'Docs Generator',
+  'code-smell': 'Code Smell',
+  'api-compliance': 'API Compliance',
+  'openapi-drift': 'OpenAPI Drift',
+  'custom-rules': 'Custom Rules',
+};
+
+/**
+ * Display name for a scanner ID (the ID itself when unknown)
+ */
+export function scannerDisplayName(scannerId: string): string {
+  return SCANNER_NAMES[scannerId] ?? scannerId;
+}
+
 /**
  * Generate a sparkline string from an array of numeric values (0-100)
  */
@@ -152,20 +179,6 @@ export function renderSparklineHistory(
     }
   }
 
-  const scannerNames: Record<string, string> = {
-    'design-tokens': 'Design Tokens',
-    'barrel-exports': 'Barrel Exports',
-    pagelayout: 'PageLayout',
-    'license-headers': 'License Headers',
-    'tlp-headers': 'TLP Headers',
-    'docs-structure': 'Docs Structure',
-    'dependency-audit': 'Dependencies',
-    'test-data-guardian': 'Test Data Guard',
-    'docs-generator': 'Docs Generator',
-    'code-smell': 'Code Smell',
-    'api-compliance': 'API Compliance',
-  };
-
   for (const scannerId of [...scannerIds].sort((a, b) => a.localeCompare(b))) {
     const scores = history.map((h) => {
       const entry = h.scanners[scannerId];
@@ -175,7 +188,7 @@ export function renderSparklineHistory(
 
     if (scores.length === 0) continue;
 
-    const name = (scannerNames[scannerId] ?? scannerId).padEnd(18);
+    const name = scannerDisplayName(scannerId).padEnd(18);
     const latest = `${scores[scores.length - 1]!.toFixed(1)}%`.padStart(6);
     const scannerTrend = calculateTrend(scores);
 
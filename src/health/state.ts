@@ -12,6 +12,7 @@ import type { ScanResult, HealthSnapshot, ScannerHealthEntry } from '@/scanners/
 const DCYFR_DIR = '.dcyfr';
 const HEALTH_FILE = 'health.json';
 const HISTORY_FILE = 'health-history.json';
+const SCAN_RESULTS_FILE = 'scan-results.json';
 
 /**
  * Ensure .dcyfr directory exists
@@ -85,10 +86,15 @@ function getScannerWeight(scanner: string): number {
     'tlp-headers': 1,
     'docs-structure': 1,
     'dependency-audit': 3,
+    'dependency-licenses': 2,
+    'dependency-hygiene': 1,
     'test-data-guardian': 3,
+    secrets: 3,
     'docs-generator': 2,
     'code-smell': 2,
     'api-compliance': 3,
+    'openapi-drift': 2,
+    'custom-rules': 2,
   };
   return weights[scanner] ?? 1;
 }
@@ -155,6 +161,32 @@ export async function loadHealthSnapshot(workspaceRoot: string): Promise<HealthS
   }
 }
 
+/**
+ * Record the latest full result of each scanner (violations included), so
+ * other processes can show more than the snapshot's counts
+ */
+export async function saveScanResults(workspaceRoot: string, results: ScanResult[]): Promise<void> {
+  const dir = await ensureDcyfrDir(workspaceRoot);
+  const latest = new Map((await loadScanResults(workspaceRoot)).map((r) => [r.scanner, r]));
+  for (const result of results) {
+    latest.set(result.scanner, result);
+  }
+  await writeFile(join(dir, SCAN_RESULTS_FILE), JSON.stringify([...latest.values()], null, 2));
+}
+
+/**
+ * Load the latest result of each scanner (empty when none were saved)
+ */
+export async function loadScanResults(workspaceRoot: string): Promise<ScanResult[]> {
+  const filePath = join(workspaceRoot, DCYFR_DIR, SCAN_RESULTS_FILE);
+  try {
+    const results = JSON.parse(await readFile(filePath, 'utf-8')) as unknown;
+    return Array.isArray(results) ? (results as ScanResult[]) : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Append snapshot to history (keep last 90 days)
  */
@@ -0,0 +1,494 @@
+/**
+ * TypeScript AST analysis — parsing, module resolution, and the functions,
+ * imports and exports of a source file
+ *
+ * Uses the TypeScript compiler API's parser (no type checking), so it is
+ * correct for strings, comments, JSX and object literals where regexes and
+ * brace counting are not. The compiler is loaded on first use.
+ *
+ * Lines are 1-based and columns 0-based, like `ScanViolation`.
+ *
+ * @module @dcyfr/ai-cli/lib/ast
+ */
+
+import { dirname, join, resolve } from 'path';
+import type ts from 'typescript';
+
+type TypeScript = typeof ts;
+
+let typescript: TypeScript | undefined;
+
+/**
+ * Load the TypeScript compiler API (cached)
+ */
+export async function loadTypeScript(): Promise<TypeScript> {
+  typescript ??= (await import('typescript')).default;
+  return typescript;
+}
+
+// ── Types ────────────────────────────────────────────────────
+
+/**
+ * Position of a node in its file
+ */
+export interface SourcePosition {
+  /** 1-based line */
+  line: number;
+  /** 0-based column */
+  column: number;
+}
+
+/**
+ * Metrics for one function, method, arrow function or accessor
+ */
+export interface FunctionMetrics extends SourcePosition {
+  /** Declared or inferred name (`<anonymous>` for unnamed callbacks) */
+  name: string;
+  /** Number of lines the function spans */
+  lines: number;
+  /** Cyclomatic complexity: 1 + decision points in its own body */
+  complexity: number;
+  /** Deepest control-flow nesting reached in its own body (nested functions count as a level) */
+  maxNesting: number;
+  /** Declared parameters (excluding `this`) */
+  parameters: number;
+}
+
+/**
+ * A binding created by an import declaration
+ */
+export interface ImportBinding extends SourcePosition {
+  /** Local name */
+  name: string;
+  /** Imported name: `default`, `*` for namespace imports, or the export name */
+  imported: string;
+  /** Module specifier */
+  module: string;
+}
+
+/**
+ * A module specifier a file depends on: an import, re-export, dynamic
+ * `import()` or `require()`
+ */
+export interface ModuleReference extends SourcePosition {
+  /** Module specifier */
+  module: string;
+  /** Only types are used (`import type`, `export type … from`) */
+  typeOnly: boolean;
+}
+
+/**
+ * A name exported from a file
+ */
+export interface ExportBinding extends SourcePosition {
+  name: string;
+}
+
+/**
+ * Analysis of one source file
+ */
+export interface SourceAnalysis {
+  functions: FunctionMetrics[];
+  imports: ImportBinding[];
+  /** Imports never referenced in the file */
+  unusedImports: ImportBinding[];
+  /** Named exports declared by the file (`export default` is excluded) */
+  exports: ExportBinding[];
+  /** Names used from other modules: specifier → imported names (`*` = all) */
+  moduleUsage: Map<string, Set<string>>;
+  /** Every module specifier with its position, in source order */
+  moduleReferences: ModuleReference[];
+  /** Numeric literals that are not named constants */
+  magicNumbers: number;
+  /** Whether the file contains JSX */
+  hasJsx: boolean;
+}
+
+// ── Analysis ─────────────────────────────────────────────────
+
+/** Numbers too common to be "magic" */
+const COMMON_NUMBERS = new Set([0, 1, 2, 10, 16, 24, 60, 100, 365, 1000, 1024]);
+
+const RESOLVE_SUFFIXES = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'];
+
+/**
+ * Parse a file into a syntax tree with parent pointers
+ */
+export async function parseSource(filePath: string, content: string): Promise<ts.SourceFile> {
+  const tsApi = await loadTypeScript();
+  return tsApi.createSourceFile(filePath, content, tsApi.ScriptTarget.Latest, true, scriptKind(tsApi, filePath));
+}
+
+/**
+ * Parse a source file and analyze its functions, imports and exports
+ */
+export async function analyzeSource(filePath: string, content: string): Promise<SourceAnalysis> {
+  const analyzer = new SourceAnalyzer(await loadTypeScript(), await parseSource(filePath, content));
+  return analyzer.run();
+}
+
+/**
+ * Files an import specifier may refer to, most likely first
+ *
+ * Handles relative specifiers (including `.js` suffixes for `.ts` sources)
+ * and the `@/` alias for an enclosing `src/` directory. Package imports
+ * return no candidates.
+ */
+export function moduleCandidates(fromFile: string, specifier: string): string[] {
+  let bases: string[];
+  if (specifier.startsWith('.')) {
+    bases = [resolve(dirname(fromFile), specifier)];
+  } else if (specifier.startsWith('@/')) {
+    bases = [];
+    for (let dir = dirname(fromFile); dir !== dirname(dir); dir = dirname(dir)) {
+      bases.push(join(dir, 'src', specifier.slice(2)));
+    }
+  } else {
+    return [];
+  }
+
+  return bases.flatMap((base) => {
+    const stripped = base.replace(/\.[cm]?jsx?$/, '');
+    return [base, ...RESOLVE_SUFFIXES.map((suffix) => stripped + suffix)];
+  });
+}
+
+function scriptKind(tsApi: TypeScript, filePath: string): ts.ScriptKind {
+  if (filePath.endsWith('.tsx')) return tsApi.ScriptKind.TSX;
+  if (filePath.endsWith('.jsx')) return tsApi.ScriptKind.JSX;
+  if (/\.[cm]?js$/.test(filePath)) return tsApi.ScriptKind.JS;
+  return tsApi.ScriptKind.TS;
+}
+
+/**
+ * Single-pass walker collecting everything in `SourceAnalysis`
+ */
+class SourceAnalyzer {
+  private functions: FunctionMetrics[] = [];
+  private imports: ImportBinding[] = [];
+  private exports: ExportBinding[] = [];
+  private moduleUsage = new Map<string, Set<string>>();
+  private moduleReferences: ModuleReference[] = [];
+  private references = new Set<string>();
+  private magicNumbers = 0;
+  private hasJsx = false;
+
+  constructor(
+    private readonly tsApi: TypeScript,
+    private readonly sourceFile: ts.SourceFile,
+  ) {}
+
+  run(): SourceAnalysis {
+    for (const statement of this.sourceFile.statements) {
+      this.collectDeclarations(statement);
+    }
+    this.tsApi.forEachChild(this.sourceFile, (child) => this.visit(child, null, 0));
+
+    const unusedImports = this.imports.filter(
+      (binding) =>
+        !this.references.has(binding.name) &&
+        // Classic JSX runtime needs React in scope
+        !(binding.name === 'React' && this.hasJsx),
+    );
+
+    return {
+      functions: this.functions,
+      imports: this.imports,
+      unusedImports,
+      exports: this.exports,
+      moduleUsage: this.moduleUsage,
+      moduleReferences: this.moduleReferences.sort((a, b) => a.line - b.line || a.column - b.column),
+      magicNumbers: this.magicNumbers,
+      hasJsx: this.hasJsx,
+    };
+  }
+
+  // ── Imports and exports (top-level statements) ──
+
+  private collectDeclarations(statement: ts.Statement): void {
+    const t = this.tsApi;
+
+    if (t.isImportDeclaration(statement) && t.isStringLiteral(statement.moduleSpecifier)) {
+      const module = statement.moduleSpecifier.text;
+      this.useModule(module);
+      const clause = statement.importClause;
+      const elements = clause?.namedBindings && t.isNamedImports(clause.namedBindings) ? clause.namedBindings.elements : [];
+      const typeOnly =
+        clause?.isTypeOnly === true ||
+        (clause !== undefined && !clause.name && elements.length > 0 && elements.every((e) => e.isTypeOnly));
+      this.addReference(statement.moduleSpecifier, typeOnly);
+      if (clause?.name) this.addImport(clause.name, 'default', module);
+      const bindings = clause?.namedBindings;
+      if (bindings && t.isNamespaceImport(bindings)) {
+        this.addImport(bindings.name, '*', module);
+      } else if (bindings) {
+        for (const element of bindings.elements) {
+          this.addImport(element.name, (element.propertyName ?? element.name).text, module);
+        }
+      }
+      return;
+    }
+
+    if (t.isExportDeclaration(statement)) {
+      const module =
+        statement.moduleSpecifier && t.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : undefined;
+      if (statement.moduleSpecifier && module) this.addReference(statement.moduleSpecifier, statement.isTypeOnly);
+      const clause = statement.exportClause;
+      if (!clause || t.isNamespaceExport(clause)) {
+        // export * from './x' / export * as ns from './x'
+        if (module) this.useModule(module, '*');
+        if (clause) this.addExport(clause.name);
+        return;
+      }
+      for (const element of clause.elements) {
+        if (module) this.useModule(module, (element.propertyName ?? element.name).text);
+        this.addExport(element.name);
+      }
+      return;
+    }
+
+    const modifiers = t.canHaveModifiers(statement) ? t.getModifiers(statement) : undefined;
+    if (!modifiers?.some((m) => m.kind === t.SyntaxKind.ExportKeyword)) return;
+    if (modifiers.some((m) => m.kind === t.SyntaxKind.DefaultKeyword)) return;
+
+    if (t.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (t.isIdentifier(declaration.name)) this.addExport(declaration.name);
+      }
+    } else if (
+      (t.isFunctionDeclaration(statement) ||
+        t.isClassDeclaration(statement) ||
+        t.isInterfaceDeclaration(statement) ||
+        t.isTypeAliasDeclaration(statement) ||
+        t.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      this.addExport(statement.name);
+    }
+  }
+
+  private addImport(name: ts.Identifier, imported: string, module: string): void {
+    this.imports.push({ name: name.text, imported, module, ...this.position(name) });
+    this.useModule(module, imported);
+  }
+
+  private addExport(name: ts.Identifier | ts.ModuleExportName): void {
+    this.exports.push({ name: name.text, ...this.position(name) });
+  }
+
+  private addReference(specifier: ts.Expression, typeOnly: boolean): void {
+    if (!this.tsApi.isStringLiteralLike(specifier)) return;
+    this.moduleReferences.push({ module: specifier.text, typeOnly, ...this.position(specifier) });
+  }
+
+  private useModule(module: string, name?: string): void {
+    const names = this.moduleUsage.get(module) ?? new Set<string>();
+    if (name) names.add(name);
+    this.moduleUsage.set(module, names);
+  }
+
+  // ── Functions, references and literals ──
+
+  /**
+   * Visit a node on behalf of `fn`; nested functions get their own metrics
+   */
+  private visit(node: ts.Node, fn: FunctionMetrics | null, depth: number): void {
+    const t = this.tsApi;
+    if (isFunctionNode(t, node)) {
+      this.analyzeFunction(node, fn ? depth + 1 : depth);
+      return;
+    }
+
+    this.inspect(node);
+
+    let childDepth = depth;
+    if (fn) {
+      if (isDecisionPoint(t, node)) fn.complexity++;
+      if (addsNesting(t, node)) {
+        childDepth++;
+        fn.maxNesting = Math.max(fn.maxNesting, childDepth);
+      }
+    }
+    t.forEachChild(node, (child) => this.visit(child, fn, childDepth));
+  }
+
+  private analyzeFunction(node: FunctionNode, depth: number): void {
+    const t = this.tsApi;
+    const start = this.position(node.name ?? node);
+    const end = this.sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+    const metrics: FunctionMetrics = {
+      name: functionName(t, node),
+      ...start,
+      lines: end - this.position(node).line + 1,
+      complexity: 1,
+      maxNesting: depth,
+      parameters: node.parameters.filter((p) => !(t.isIdentifier(p.name) && p.name.text === 'this')).length,
+    };
+    this.functions.push(metrics);
+
+    // Parameters, decorators and types are walked for references only
+    t.forEachChild(node, (child) => this.visit(child, child === node.body ? metrics : null, depth));
+  }
+
+  /**
+   * Record identifier references, JSX and magic numbers
+   */
+  private inspect(node: ts.Node): void {
+    const t = this.tsApi;
+    if (t.isIdentifier(node)) {
+      if (isReference(t, node)) this.references.add(node.text);
+    } else if (t.isJsxElement(node) || t.isJsxSelfClosingElement(node) || t.isJsxFragment(node)) {
+      this.hasJsx = true;
+    } else if (t.isNumericLiteral(node)) {
+      if (isMagicNumber(t, node)) this.magicNumbers++;
+    } else if (
+      t.isCallExpression(node) &&
+      node.arguments.length === 1 &&
+      t.isStringLiteralLike(node.arguments[0]!) &&
+      (node.expression.kind === t.SyntaxKind.ImportKeyword ||
+        (t.isIdentifier(node.expression) && node.expression.text === 'require'))
+    ) {
+      // import('./x') / require('./x') may use anything the module exports
+      this.useModule(node.arguments[0].text, '*');
+      this.addReference(node.arguments[0], false);
+    }
+  }
+
+  private position(node: ts.Node): SourcePosition {
+    const { line, character } = this.sourceFile.getLineAndCharacterOfPosition(node.getStart(this.sourceFile));
+    return { line: line + 1, column: character };
+  }
+}
+
+// ── Node Classification ──────────────────────────────────────
+
+type FunctionNode =
+  | ts.FunctionDeclaration
+  | ts.FunctionExpression
+  | ts.ArrowFunction
+  | ts.MethodDeclaration
+  | ts.ConstructorDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.SetAccessorDeclaration;
+
+function isFunctionNode(t: TypeScript, node: ts.Node): node is FunctionNode {
+  return (
+    t.isFunctionDeclaration(node) ||
+    t.isFunctionExpression(node) ||
+    t.isArrowFunction(node) ||
+    t.isMethodDeclaration(node) ||
+    t.isConstructorDeclaration(node) ||
+    t.isGetAccessorDeclaration(node) ||
+    t.isSetAccessorDeclaration(node)
+  );
+}
+
+function functionName(t: TypeScript, node: FunctionNode): string {
+  if (t.isConstructorDeclaration(node)) return 'constructor';
+  if (node.name && (t.isIdentifier(node.name) || t.isStringLiteral(node.name) || t.isPrivateIdentifier(node.name))) {
+    const owner = t.isClassLike(node.parent) && node.parent.name ? `${node.parent.name.text}.` : '';
+    return owner + node.name.text;
+  }
+  // const handler = () => {} / { onClick: () => {} }
+  const parent = node.parent;
+  if (
+    (t.isVariableDeclaration(parent) || t.isPropertyAssignment(parent) || t.isPropertyDeclaration(parent)) &&
+    t.isIdentifier(parent.name)
+  ) {
+    return parent.name.text;
+  }
+  return '<anonymous>';
+}
+
+function isDecisionPoint(t: TypeScript, node: ts.Node): boolean {
+  switch (node.kind) {
+    case t.SyntaxKind.IfStatement:
+    case t.SyntaxKind.ConditionalExpression:
+    case t.SyntaxKind.ForStatement:
+    case t.SyntaxKind.ForInStatement:
+    case t.SyntaxKind.ForOfStatement:
+    case t.SyntaxKind.WhileStatement:
+    case t.SyntaxKind.DoStatement:
+    case t.SyntaxKind.CaseClause:
+    case t.SyntaxKind.CatchClause:
+      return true;
+    case t.SyntaxKind.BinaryExpression: {
+      const operator = (node as ts.BinaryExpression).operatorToken.kind;
+      return (
+        operator === t.SyntaxKind.AmpersandAmpersandToken ||
+        operator === t.SyntaxKind.BarBarToken ||
+        operator === t.SyntaxKind.QuestionQuestionToken ||
+        operator === t.SyntaxKind.AmpersandAmpersandEqualsToken ||
+        operator === t.SyntaxKind.BarBarEqualsToken ||
+        operator === t.SyntaxKind.QuestionQuestionEqualsToken
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+function addsNesting(t: TypeScript, node: ts.Node): boolean {
+  // `else if` continues the chain rather than nesting
+  if (t.isIfStatement(node)) return !(t.isIfStatement(node.parent) && node.parent.elseStatement === node);
+  return (
+    t.isForStatement(node) ||
+    t.isForInStatement(node) ||
+    t.isForOfStatement(node) ||
+    t.isWhileStatement(node) ||
+    t.isDoStatement(node) ||
+    t.isSwitchStatement(node) ||
+    t.isTryStatement(node)
+  );
+}
+
+/**
+ * Whether an identifier refers to a binding (rather than naming a property)
+ */
+function isReference(t: TypeScript, node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (!parent) return false;
+  if (t.isPropertyAccessExpression(parent)) return parent.expression === node;
+  if (t.isQualifiedName(parent)) return parent.left === node;
+  if (t.isJsxAttribute(parent)) return false;
+  // Import bindings are declarations, not uses
+  if (t.isImportSpecifier(parent) || t.isImportClause(parent) || t.isNamespaceImport(parent)) return false;
+  if (t.isExportSpecifier(parent)) return parent.parent.parent.moduleSpecifier === undefined;
+  if (t.isBindingElement(parent)) return parent.propertyName !== node && parent.name !== node;
+  if (
+    t.isPropertyAssignment(parent) ||
+    t.isPropertyDeclaration(parent) ||
+    t.isPropertySignature(parent) ||
+    t.isMethodSignature(parent) ||
+    t.isMethodDeclaration(parent) ||
+    t.isGetAccessorDeclaration(parent) ||
+    t.isSetAccessorDeclaration(parent) ||
+    t.isEnumMember(parent) ||
+    t.isVariableDeclaration(parent) ||
+    t.isParameter(parent) ||
+    t.isFunctionDeclaration(parent) ||
+    t.isClassDeclaration(parent) ||
+    t.isInterfaceDeclaration(parent) ||
+    t.isTypeAliasDeclaration(parent)
+  ) {
+    return (parent as ts.NamedDeclaration).name !== node;
+  }
+  return true;
+}
+
+/**
+ * Numeric literals outside named constants, enums and type positions
+ */
+function isMagicNumber(t: TypeScript, node: ts.NumericLiteral): boolean {
+  if (COMMON_NUMBERS.has(Number(node.text))) return false;
+
+  let parent = node.parent;
+  if (t.isPrefixUnaryExpression(parent)) parent = parent.parent;
+  if (t.isLiteralTypeNode(parent) || t.isEnumMember(parent)) return false;
+  if (t.isVariableDeclaration(parent)) {
+    return !(parent.parent.flags & t.NodeFlags.Const);
+  }
+  return true;
+}
@@ -10,7 +10,7 @@ import { join, relative, extname } from 'path';
 /**
  * Default ignore patterns for file discovery
  */
-const DEFAULT_IGNORE = new Set([
+export const DEFAULT_IGNORE = new Set([
   'node_modules',
   '.next',
   '.git',
@@ -125,6 +125,19 @@ export async function safeReadFile(filePath: string): Promise<string | null> {
   }
 }
 
+/**
+ * Parse a `package.json`, returning null if it doesn't exist or isn't valid JSON
+ */
+export async function readPackageJson<T extends object>(filePath: string): Promise<T | null> {
+  const content = await safeReadFile(filePath);
+  if (content === null) return null;
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Check if a path exists
  */
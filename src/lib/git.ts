@@ -4,8 +4,11 @@
  * @module @dcyfr/ai-cli/lib/git
  */
 
-import { execFile } from 'child_process';
+import { execFile, spawn } from 'child_process';
+import { createInterface } from 'readline';
 import { promisify } from 'util';
+import { join } from 'path';
+import { Buffer } from 'buffer';
 
 const execFileAsync = promisify(execFile);
 
@@ -68,3 +71,244 @@ export async function isGitRepo(cwd: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Get the top-level directory of the repository containing `cwd`
+ */
+export async function getRepoRoot(cwd: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--show-toplevel'], { cwd });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the merge-base between `ref` and HEAD.
+ *
+ * Unlike the helpers above this throws, so CI fails loudly on a bad ref
+ * (e.g. a shallow clone that never fetched the target branch).
+ */
+export async function getMergeBase(cwd: string, ref: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['merge-base', ref, 'HEAD'], { cwd });
+    return stdout.trim();
+  } catch (error) {
+    throw new Error(
+      `Cannot resolve merge-base for '${ref}': ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
+}
+
+/**
+ * Get files added, copied, modified or renamed since the merge-base of `ref`
+ * and HEAD, including uncommitted changes. Returns absolute paths.
+ */
+export async function getChangedFilesSince(cwd: string, ref: string): Promise<string[]> {
+  const repoRoot = (await getRepoRoot(cwd)) ?? cwd;
+  const base = await getMergeBase(repoRoot, ref);
+  const { stdout } = await execFileAsync(
+    'git',
+    ['diff', '--name-only', '--diff-filter=ACMR', base],
+    { cwd: repoRoot, maxBuffer: 16 * 1024 * 1024 },
+  );
+
+  return stdout
+    .trim()
+    .split('\n')
+    .filter(Boolean)
+    .map((file) => join(repoRoot, file));
+}
+
+/**
+ * Inclusive range of 1-based line numbers in the new version of a file
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Changed line ranges keyed by absolute file path
+ */
+export type ChangedLines = Map<string, LineRange[]>;
+
+/**
+ * Parse zero-context unified diff output (`git diff -U0`) into the line
+ * ranges added or modified in each file. Keys are repo-relative paths of
+ * the new file; pure deletions produce no range.
+ */
+export function parseDiffHunks(diff: string): Map<string, LineRange[]> {
+  const changed = new Map<string, LineRange[]>();
+  let current: LineRange[] | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim();
+      if (target === '/dev/null') {
+        current = null;
+        continue;
+      }
+      const file = unquotePath(target).replace(/^b\//, '');
+      current = changed.get(file) ?? [];
+      changed.set(file, current);
+      continue;
+    }
+
+    if (!current || !line.startsWith('@@')) continue;
+
+    // @@ -a[,b] +c[,d] @@ — a missing count means 1
+    const match = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (!match) continue;
+    const start = Number(match[1]);
+    const count = match[2] === undefined ? 1 : Number(match[2]);
+    if (count > 0) {
+      current.push({ start, end: start + count - 1 });
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Get the lines added or modified relative to the merge-base of `ref` and
+ * HEAD (or relative to HEAD when no ref is given), including uncommitted
+ * changes. Keys are absolute paths.
+ */
+export async function getChangedLines(cwd: string, ref?: string): Promise<ChangedLines> {
+  const repoRoot = (await getRepoRoot(cwd)) ?? cwd;
+  const base = ref ? await getMergeBase(repoRoot, ref) : 'HEAD';
+  const { stdout } = await execFileAsync(
+    'git',
+    ['diff', '-U0', '--no-color', '--no-ext-diff', '--diff-filter=ACMR', base],
+    { cwd: repoRoot, maxBuffer: 64 * 1024 * 1024 },
+  );
+
+  const changed: ChangedLines = new Map();
+  for (const [file, ranges] of parseDiffHunks(stdout)) {
+    changed.set(join(repoRoot, file), ranges);
+  }
+  return changed;
+}
+
+/**
+ * Get the files tracked by git under `cwd`, as absolute paths.
+ * Returns null when `cwd` is not inside a git repository.
+ */
+export async function getTrackedFiles(cwd: string): Promise<string[] | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['ls-files', '-z', '--full-name'], {
+      cwd,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    const repoRoot = (await getRepoRoot(cwd)) ?? cwd;
+    return stdout
+      .split('\0')
+      .filter(Boolean)
+      .map((file) => join(repoRoot, file));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A line added to a file by a commit
+ */
+export interface HistoryLine {
+  /** Full commit hash */
+  commit: string;
+  /** Absolute path of the file in that commit */
+  file: string;
+  /** 1-based line number in that commit */
+  line: number;
+  text: string;
+}
+
+/**
+ * Stream the lines added by the last `maxCommits` commits reachable from
+ * HEAD that touch files under `cwd`, newest commit first.
+ *
+ * Output is read incrementally, so long histories don't have to fit in
+ * memory; `git log` is stopped when the caller stops iterating.
+ */
+export async function* getHistoryAdditions(cwd: string, maxCommits: number): AsyncGenerator<HistoryLine> {
+  const repoRoot = (await getRepoRoot(cwd)) ?? cwd;
+  const child = spawn(
+    'git',
+    [
+      'log', '-p', '-U0', '--no-color', '--no-ext-diff', '--no-renames', '--diff-filter=AM',
+      '--format=%x00%H', `--max-count=${maxCommits}`, 'HEAD', '--', '.',
+    ],
+    { cwd, stdio: ['ignore', 'pipe', 'pipe'] },
+  );
+  let stderr = '';
+  child.stderr.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+
+  let commit = '';
+  let file: string | null = null;
+  let inHeader = false;
+  let lineNo = 0;
+
+  try {
+    for await (const line of createInterface({ input: child.stdout, crlfDelay: Infinity })) {
+      if (line.startsWith('\0')) {
+        commit = line.slice(1);
+        file = null;
+      } else if (line.startsWith('diff --git ')) {
+        inHeader = true;
+        file = null;
+      } else if (inHeader && line.startsWith('+++ ')) {
+        const target = line.slice(4).trim();
+        file = target === '/dev/null' ? null : join(repoRoot, unquotePath(target).replace(/^b\//, ''));
+      } else if (line.startsWith('@@')) {
+        inHeader = false;
+        // @@ -a[,b] +c[,d] @@
+        lineNo = Number(/^@@ -\d+(?:,\d+)? \+(\d+)/.exec(line)?.[1] ?? 0);
+      } else if (!inHeader && file && line.startsWith('+')) {
+        yield { commit, file, line: lineNo, text: line.slice(1) };
+        lineNo++;
+      }
+    }
+
+    const code = await exited;
+    if (code !== 0) {
+      throw new Error(`git log failed: ${stderr.trim() || `exit code ${code}`}`);
+    }
+  } finally {
+    if (child.exitCode === null) child.kill();
+  }
+}
+
+/**
+ * Decode a C-style quoted path from git output ("a/caf\303\251.ts")
+ */
+function unquotePath(path: string): string {
+  if (!path.startsWith('"') || !path.endsWith('"')) return path;
+  const bytes: number[] = [];
+  const body = path.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i]!;
+    if (ch !== '\\') {
+      bytes.push(...Buffer.from(ch));
+      continue;
+    }
+    const next = body[i + 1] ?? '';
+    if (/[0-7]/.test(next)) {
+      bytes.push(parseInt(body.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else {
+      const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' };
+      bytes.push(...Buffer.from(escapes[next] ?? next));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
@@ -0,0 +1,82 @@
+/**
+ * Minimal glob matching for workspace-relative paths
+ *
+ * Supports `**` (any number of directories), `*` (anything but `/`),
+ * `?` (one character other than `/`) and `{a,b}` alternation. Paths are
+ * matched with forward slashes; a pattern without `/` matches the file
+ * name at any depth, like `.gitignore`. Names such as package names and
+ * license IDs are matched with `*` wildcards only.
+ *
+ * @module @dcyfr/ai-cli/lib/glob
+ */
+
+/**
+ * Compile a glob pattern into an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.includes('/') ? glob.replace(/^\.?\//, '') : `**/${glob}`;
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    switch (char) {
+      case '*':
+        if (pattern[i + 1] === '*') {
+          // `**/` matches zero or more directories; a trailing `**` matches anything
+          if (pattern[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+        break;
+      case '?':
+        source += '[^/]';
+        break;
+      case '{':
+        braceDepth++;
+        source += '(?:';
+        break;
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--;
+          source += ')';
+        } else {
+          source += '\\}';
+        }
+        break;
+      case ',':
+        source += braceDepth > 0 ? '|' : ',';
+        break;
+      default:
+        source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a name matches any of the patterns, where `*` matches any
+ * run of characters (`@types/*`, `GPL-*`). Case-insensitive, as SPDX
+ * license IDs are.
+ */
+export function matchesWildcard(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const source = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${source}$`, 'i').test(name);
+  });
+}
+
+/**
+ * Check whether a relative path matches any of the glob patterns
+ */
+export function matchesGlob(path: string, patterns: string[]): boolean {
+  const normalized = path.replace(/\\/g, '/');
+  return patterns.some((pattern) => globToRegExp(pattern).test(normalized));
+}
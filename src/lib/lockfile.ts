@@ -0,0 +1,597 @@
+/**
+ * Lockfile reading — installed packages and how they are reached
+ *
+ * Reads `package-lock.json` / `npm-shrinkwrap.json` (lockfile v1–v3),
+ * `pnpm-lock.yaml` (v5–v9) and `yarn.lock` (classic and berry) into one
+ * shape: every installed package with the shortest dependency chain that
+ * pulls it in from the project. A project without a lockfile of its own is
+ * read from its workspace's lockfile, starting at the project's entry.
+ *
+ * @module @dcyfr/ai-cli/lib/lockfile
+ */
+
+import { readFile } from 'fs/promises';
+import { basename, dirname, join, posix, relative, sep } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { listProjects, pathExists, readPackageJson } from './files.js';
+
+/** Lockfile names, in the order they are preferred */
+export const LOCKFILE_NAMES = ['package-lock.json', 'npm-shrinkwrap.json', 'pnpm-lock.yaml', 'yarn.lock'];
+
+/**
+ * Package manager that wrote a lockfile
+ */
+export type LockfileType = 'npm' | 'pnpm' | 'yarn';
+
+/**
+ * One installed package version
+ */
+export interface LockedPackage {
+  name: string;
+  version: string;
+  /**
+   * Shortest chain of package names from the project to this package,
+   * ending with it (`['next', 'postcss']`; a direct dependency is just
+   * `['postcss']`)
+   */
+  path: string[];
+  /** Only reachable through devDependencies */
+  dev: boolean;
+  /** Install directory relative to the lockfile (npm lockfiles only) */
+  location?: string | undefined;
+  /** License recorded in the lockfile (npm lockfiles only) */
+  license?: string | undefined;
+}
+
+/**
+ * Packages read from a lockfile
+ */
+export interface Lockfile {
+  type: LockfileType;
+  /** Absolute path of the lockfile */
+  file: string;
+  /** Project the packages were read for, relative to the lockfile (workspace lockfiles only) */
+  importer?: string | undefined;
+  /** One entry per name@version */
+  packages: LockedPackage[];
+}
+
+/**
+ * A lockfile to read, and the project to read it for
+ */
+export interface WorkspaceLockfile {
+  /** Absolute path of the lockfile */
+  file: string;
+  /**
+   * Project directory relative to the lockfile (`apps/web`) when the
+   * lockfile belongs to a workspace above the project
+   */
+  importer?: string | undefined;
+}
+
+/**
+ * Find the lockfiles in a directory
+ */
+export async function findLockfiles(dir: string): Promise<string[]> {
+  const found: string[] = [];
+  for (const name of LOCKFILE_NAMES) {
+    if (await pathExists(join(dir, name))) found.push(join(dir, name));
+  }
+  return found;
+}
+
+/**
+ * The lockfile of the workspace root and of each project, one per
+ * directory in package-manager preference order. For one project: its own
+ * lockfile, or else the nearest one up to the workspace root, read for
+ * that project.
+ */
+export async function findWorkspaceLockfiles(workspaceRoot: string, project?: string): Promise<WorkspaceLockfile[]> {
+  if (project) return (await findProjectLockfile(workspaceRoot, join(workspaceRoot, project))) ?? [];
+
+  const dirs = [workspaceRoot, ...(await listProjects(workspaceRoot)).map((p) => join(workspaceRoot, p))];
+  const lockfiles: WorkspaceLockfile[] = [];
+  for (const dir of dirs) {
+    const [file] = await findLockfiles(dir);
+    if (file) lockfiles.push({ file });
+  }
+  return lockfiles;
+}
+
+async function findProjectLockfile(workspaceRoot: string, projectDir: string): Promise<WorkspaceLockfile[] | null> {
+  for (let dir = projectDir; ; dir = dirname(dir)) {
+    const [file] = await findLockfiles(dir);
+    if (file) {
+      return [dir === projectDir ? { file } : { file, importer: relative(dir, projectDir).split(sep).join('/') }];
+    }
+    if (dir === workspaceRoot || dirname(dir) === dir || relative(workspaceRoot, dir).startsWith('..')) return null;
+  }
+}
+
+/**
+ * Read a lockfile and the project's `package.json`: the one next to the
+ * lockfile, or the importer's when reading a workspace lockfile for one of
+ * its projects. Only the packages that project reaches are listed then.
+ *
+ * Throws when the file cannot be read, is not a lockfile format this
+ * module understands or has no entry for the importer.
+ */
+export async function readLockfile(file: string, importer?: string): Promise<Lockfile> {
+  const content = await readFile(file, 'utf-8');
+  const manifest = await readManifest(join(dirname(file), importer ?? '', 'package.json'));
+
+  let type: LockfileType;
+  let graph: LockGraph;
+  try {
+    switch (basename(file)) {
+      case 'package-lock.json':
+      case 'npm-shrinkwrap.json':
+        type = 'npm';
+        graph = npmGraph(JSON.parse(content) as NpmLockfile, manifest, importer);
+        break;
+      case 'pnpm-lock.yaml':
+        type = 'pnpm';
+        graph = pnpmGraph(parseYaml(content) as PnpmLockfile, importer);
+        break;
+      case 'yarn.lock':
+        type = 'yarn';
+        graph = yarnGraph(content, manifest, importer);
+        break;
+      default:
+        throw new Error('not a known lockfile name');
+    }
+  } catch (error) {
+    throw new Error(`Cannot read lockfile ${file}: ${error instanceof Error ? error.message : String(error)}`, {
+      cause: error,
+    });
+  }
+
+  return { type, file, importer, packages: walkGraph(graph) };
+}
+
+// ── Dependency graph ─────────────────────────────────────────
+
+/**
+ * Package in the dependency graph, with dependencies resolved to node keys
+ */
+interface LockNode {
+  name: string;
+  version: string;
+  dependencies: string[];
+  /** Part of the project itself (workspace package), not an installed dependency */
+  internal?: boolean | undefined;
+  location?: string | undefined;
+  license?: string | undefined;
+}
+
+interface LockGraph {
+  nodes: Map<string, LockNode>;
+  /** Node keys of direct dependencies */
+  roots: { prod: string[]; dev: string[] };
+  /** Roots are one workspace project's: list only what they reach */
+  scoped?: boolean | undefined;
+}
+
+interface Manifest {
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+/**
+ * Breadth-first walk from the direct dependencies: production roots first,
+ * so a package reachable from both is not marked dev. Unless the graph is
+ * scoped to one project, packages the walk never reaches are still listed,
+ * as if they were direct dependencies.
+ */
+function walkGraph(graph: LockGraph): LockedPackage[] {
+  const packages = new Map<string, LockedPackage>();
+  const visited = new Set<string>();
+
+  const visit = (roots: string[], dev: boolean): void => {
+    const queue: Array<{ key: string; path: string[] }> = roots.map((key) => ({ key, path: [] }));
+    while (queue.length > 0) {
+      const { key, path } = queue.shift()!;
+      const node = graph.nodes.get(key);
+      if (!node || visited.has(key)) continue;
+      visited.add(key);
+
+      const chain = [...path, node.name];
+      if (!node.internal) addPackage(packages, node, chain, dev);
+      for (const dependency of node.dependencies) queue.push({ key: dependency, path: chain });
+    }
+  };
+
+  if (graph.scoped) {
+    visit(graph.roots.prod, false);
+    visit(graph.roots.dev, true);
+    return Array.from(packages.values());
+  }
+
+  // Workspace packages are part of the project: what they depend on is installed for it
+  const workspaces = Array.from(graph.nodes.entries())
+    .filter(([, node]) => node.internal)
+    .map(([key]) => key);
+  visit([...graph.roots.prod, ...workspaces], false);
+  visit(graph.roots.dev, true);
+  for (const [key, node] of graph.nodes) {
+    if (!visited.has(key) && !node.internal) addPackage(packages, node, [node.name], false);
+  }
+  return Array.from(packages.values());
+}
+
+function addPackage(packages: Map<string, LockedPackage>, node: LockNode, path: string[], dev: boolean): void {
+  const id = `${node.name}@${node.version}`;
+  if (packages.has(id)) return;
+  packages.set(id, { name: node.name, version: node.version, path, dev, location: node.location, license: node.license });
+}
+
+// ── npm ──────────────────────────────────────────────────────
+
+interface NpmPackageEntry {
+  name?: string;
+  version?: string;
+  link?: boolean;
+  resolved?: string;
+  dev?: boolean | undefined;
+  license?: string | undefined;
+  dependencies?: Record<string, string> | undefined;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+/** lockfile v1 nested dependency tree */
+interface NpmV1Entry {
+  version: string;
+  dev?: boolean;
+  requires?: Record<string, string>;
+  dependencies?: Record<string, NpmV1Entry>;
+}
+
+interface NpmLockfile {
+  lockfileVersion?: number;
+  packages?: Record<string, NpmPackageEntry>;
+  dependencies?: Record<string, NpmV1Entry>;
+}
+
+function npmGraph(lock: NpmLockfile, manifest: Manifest | null, importer?: string): LockGraph {
+  // v2/v3 list every install location; v1 nests them, so flatten it into the same shape
+  const entries = lock.packages ?? flattenNpmV1(lock.dependencies ?? {}, manifest);
+  // A workspace project's entry is keyed by its directory
+  const base = importer ?? '';
+  const root = entries[base] ?? (importer === undefined ? {} : missingImporter(importer));
+
+  const resolve = (from: string, name: string): string | null => {
+    let base = from;
+    for (;;) {
+      const key = `${base ? `${base}/` : ''}node_modules/${name}`;
+      const entry = entries[key];
+      if (entry) return entry.link && entry.resolved !== undefined ? entry.resolved : key;
+      if (base === '') return null;
+      // Up one install level: node_modules/a/node_modules/b → node_modules/a
+      const index = base.lastIndexOf('/node_modules/');
+      base = index === -1 ? '' : base.slice(0, index);
+    }
+  };
+
+  const nodes = new Map<string, LockNode>();
+  for (const [key, entry] of Object.entries(entries)) {
+    if (key === '' || entry.link) continue;
+    const installed = key.includes('node_modules/');
+    const requires = {
+      ...entry.dependencies,
+      ...entry.optionalDependencies,
+      ...entry.peerDependencies,
+      // A workspace package's devDependencies are installed too
+      ...(installed ? {} : entry.devDependencies),
+    };
+    nodes.set(key, {
+      name: entry.name ?? key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length),
+      version: entry.version ?? '0.0.0',
+      dependencies: Object.keys(requires)
+        .map((name) => resolve(key, name))
+        .filter((dep): dep is string => dep !== null),
+      internal: !installed,
+      location: installed ? key : undefined,
+      license: entry.license,
+    });
+  }
+
+  const direct = (deps: Record<string, string> | undefined): string[] =>
+    Object.keys(deps ?? {})
+      .map((name) => resolve(base, name))
+      .filter((dep): dep is string => dep !== null);
+
+  return {
+    nodes,
+    roots: {
+      prod: direct({ ...root.dependencies, ...root.optionalDependencies, ...root.peerDependencies }),
+      dev: direct(root.devDependencies),
+    },
+    scoped: importer !== undefined,
+  };
+}
+
+/**
+ * Convert a v1 `dependencies` tree into v2-style `packages` entries
+ */
+function flattenNpmV1(
+  tree: Record<string, NpmV1Entry>,
+  manifest: Manifest | null,
+): Record<string, NpmPackageEntry> {
+  const entries: Record<string, NpmPackageEntry> = {};
+  const visit = (deps: Record<string, NpmV1Entry>, parent: string): void => {
+    for (const [name, entry] of Object.entries(deps)) {
+      const key = `${parent ? `${parent}/` : ''}node_modules/${name}`;
+      entries[key] = { name, version: entry.version, dev: entry.dev, dependencies: entry.requires };
+      visit(entry.dependencies ?? {}, key);
+    }
+  };
+  visit(tree, '');
+
+  // v1 does not record the project's own dependencies: use package.json,
+  // or else the top-level entries and their dev flags
+  const topLevel = Object.entries(tree);
+  entries[''] = manifest ?? {
+    dependencies: Object.fromEntries(topLevel.filter(([, e]) => !e.dev).map(([name, e]) => [name, e.version])),
+    devDependencies: Object.fromEntries(topLevel.filter(([, e]) => e.dev).map(([name, e]) => [name, e.version])),
+  };
+  return entries;
+}
+
+// ── pnpm ─────────────────────────────────────────────────────
+
+interface PnpmImporter {
+  dependencies?: Record<string, PnpmReference>;
+  devDependencies?: Record<string, PnpmReference>;
+  optionalDependencies?: Record<string, PnpmReference>;
+}
+
+/** `1.2.3`, `1.2.3(peer@1.0.0)`, or `{ specifier, version }` in importers (v6+) */
+type PnpmReference = string | { specifier?: string; version: string };
+
+interface PnpmSnapshot {
+  version?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+interface PnpmLockfile extends PnpmImporter {
+  lockfileVersion?: string | number;
+  importers?: Record<string, PnpmImporter>;
+  packages?: Record<string, PnpmSnapshot>;
+  snapshots?: Record<string, PnpmSnapshot>;
+}
+
+function pnpmGraph(lock: PnpmLockfile, importer?: string): LockGraph {
+  const major = Math.floor(Number(lock.lockfileVersion ?? 5));
+  // v9 keeps dependencies in `snapshots`; earlier versions in `packages`
+  const entries = (major >= 9 ? lock.snapshots : lock.packages) ?? {};
+
+  /** Node key a dependency reference points to */
+  const keyOf = (name: string, reference: string): string | null => {
+    if (reference.startsWith('link:') || reference.startsWith('file:')) return null;
+    if (reference.startsWith('/')) return reference; // alias (v5/v6)
+    if (major >= 9) return /^\d/.test(reference) ? `${name}@${reference}` : reference;
+    return major >= 6 ? `/${name}@${reference}` : `/${name}/${reference}`;
+  };
+
+  const nodes = new Map<string, LockNode>();
+  for (const [key, snapshot] of Object.entries(entries)) {
+    const { name, version } = parsePnpmKey(key, major);
+    nodes.set(key, {
+      name,
+      version: snapshot.version ?? version,
+      dependencies: Object.entries({ ...snapshot.dependencies, ...snapshot.optionalDependencies })
+        .map(([dep, reference]) => keyOf(dep, reference))
+        .filter((dep): dep is string => dep !== null),
+    });
+  }
+
+  const importers = lock.importers ?? { '.': lock };
+  const direct = (deps: Record<string, PnpmReference> | undefined): string[] =>
+    Object.entries(deps ?? {})
+      .map(([dep, reference]) => keyOf(dep, referenceVersion(reference)))
+      .filter((dep): dep is string => dep !== null);
+
+  if (importer !== undefined) {
+    const own = importers[importer] ?? missingImporter(importer);
+    return {
+      nodes,
+      roots: {
+        prod: linkedImporters(importers, importer).flatMap((i) => [
+          ...direct(i.dependencies),
+          ...direct(i.optionalDependencies),
+        ]),
+        dev: direct(own.devDependencies),
+      },
+      scoped: true,
+    };
+  }
+
+  return {
+    nodes,
+    roots: {
+      prod: Object.values(importers).flatMap((i) => [...direct(i.dependencies), ...direct(i.optionalDependencies)]),
+      dev: Object.values(importers).flatMap((i) => direct(i.devDependencies)),
+    },
+  };
+}
+
+function referenceVersion(reference: PnpmReference): string {
+  return typeof reference === 'string' ? reference : reference.version;
+}
+
+/**
+ * An importer and the workspace packages its dependencies link to
+ * (`link:../lib`), whose own dependencies are installed for it too
+ */
+function linkedImporters(importers: Record<string, PnpmImporter>, path: string): PnpmImporter[] {
+  const found = new Map<string, PnpmImporter>();
+  const visit = (dir: string): void => {
+    const importer = importers[dir];
+    if (!importer || found.has(dir)) return;
+    found.set(dir, importer);
+    for (const reference of Object.values({ ...importer.dependencies, ...importer.optionalDependencies })) {
+      const version = referenceVersion(reference);
+      if (version.startsWith('link:')) visit(posix.join(dir, version.slice('link:'.length)));
+    }
+  };
+  visit(path);
+  return Array.from(found.values());
+}
+
+/**
+ * Name and version from a pnpm package key, without the peer suffix:
+ * `/a/1.0.0_b@2.0.0` (v5), `/@s/a@1.0.0(b@2.0.0)` (v6), `a@1.0.0(b@2.0.0)` (v9)
+ */
+function parsePnpmKey(key: string, major: number): { name: string; version: string } {
+  const id = key.replace(/^\//, '').replace(/\(.*$/, '');
+  if (major < 6) {
+    const slash = id.lastIndexOf('/');
+    return { name: id.slice(0, slash), version: id.slice(slash + 1).replace(/_.*$/, '') };
+  }
+  const at = id.lastIndexOf('@');
+  return at > 0 ? { name: id.slice(0, at), version: id.slice(at + 1) } : { name: id, version: '0.0.0' };
+}
+
+// ── yarn ─────────────────────────────────────────────────────
+
+interface YarnEntry {
+  version: string;
+  resolution?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+function yarnGraph(content: string, manifest: Manifest | null, importer?: string): LockGraph {
+  // Berry lockfiles are YAML; classic ones use yarn's own format
+  const berry = /^__metadata:/m.test(content);
+  const raw = berry
+    ? (parseYaml(content) as Record<string, YarnEntry>)
+    : parseYarnClassic(content);
+
+  /** Descriptor (`a@^1.0.0`) → node key (the entry's first descriptor) */
+  const descriptors = new Map<string, string>();
+  const nodes = new Map<string, LockNode>();
+  for (const [key, entry] of Object.entries(raw)) {
+    if (key === '__metadata' || typeof entry !== 'object' || entry === null) continue;
+    const list = key.split(',').map((d) => d.trim().replace(/^"|"$/g, ''));
+    for (const descriptor of list) descriptors.set(descriptor, key);
+    nodes.set(key, {
+      name: descriptorName(list[0]!),
+      version: String(entry.version),
+      dependencies: Object.entries({ ...entry.dependencies, ...entry.optionalDependencies }).map(
+        ([dep, range]) => `${dep}@${range}`,
+      ),
+      internal: entry.resolution?.includes('@workspace:') ?? false,
+    });
+  }
+
+  const resolve = (descriptor: string): string | null => {
+    if (descriptors.has(descriptor)) return descriptors.get(descriptor)!;
+    // Berry records plain ranges with the default npm: protocol
+    const name = descriptorName(descriptor);
+    return descriptors.get(`${name}@npm:${descriptor.slice(name.length + 1)}`) ?? null;
+  };
+  for (const node of nodes.values()) {
+    node.dependencies = node.dependencies.map(resolve).filter((dep): dep is string => dep !== null);
+  }
+
+  const direct = (deps: Record<string, string> | undefined): string[] =>
+    Object.entries(deps ?? {})
+      .map(([dep, range]) => resolve(`${dep}@${range}`))
+      .filter((dep): dep is string => dep !== null);
+
+  if (importer !== undefined) {
+    // Berry records each workspace as a `name@workspace:<dir>` entry; classic
+    // lockfiles don't, so its package.json is the only record of its dependencies
+    const entry = Array.from(nodes.keys()).find((key) =>
+      key.split(',').some((descriptor) => descriptor.trim().endsWith(`@workspace:${importer}`)),
+    );
+    if (entry) {
+      const devNames = new Set(Object.keys(manifest?.devDependencies ?? {}));
+      const dependencies = nodes.get(entry)!.dependencies;
+      const isDev = (key: string): boolean => devNames.has(nodes.get(key)!.name);
+      return {
+        nodes,
+        roots: { prod: dependencies.filter((key) => !isDev(key)), dev: dependencies.filter(isDev) },
+        scoped: true,
+      };
+    }
+    if (!manifest) missingImporter(importer);
+  }
+
+  return {
+    nodes,
+    roots: manifest
+      ? { prod: direct(manifest.dependencies), dev: direct(manifest.devDependencies) }
+      : { prod: [], dev: [] },
+    scoped: importer !== undefined,
+  };
+}
+
+/**
+ * Parse the classic (v1) yarn.lock format:
+ *
+ *     "a@^1.0.0", a@^1.1.0:
+ *       version "1.2.0"
+ *       dependencies:
+ *         b "^2.0.0"
+ */
+function parseYarnClassic(content: string): Record<string, YarnEntry> {
+  const entries: Record<string, YarnEntry> = {};
+  let current: YarnEntry | null = null;
+  let section: Record<string, string> | null = null;
+
+  for (const line of content.split('\n')) {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) continue;
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (indent === 0) {
+      current = { version: '' };
+      section = null;
+      entries[text.replace(/:$/, '')] = current;
+    } else if (current && indent === 2) {
+      section = null;
+      if (text === 'dependencies:' || text === 'optionalDependencies:') {
+        section = {};
+        current[text.slice(0, -1) as 'dependencies' | 'optionalDependencies'] = section;
+      } else if (text.startsWith('version ')) {
+        current.version = unquote(text.slice('version '.length));
+      }
+    } else if (section && indent >= 4) {
+      const space = text.search(/\s/);
+      if (space > 0) section[unquote(text.slice(0, space))] = unquote(text.slice(space + 1).trim());
+    }
+  }
+  return entries;
+}
+
+/**
+ * Package name of a descriptor (`@scope/a@npm:^1.0.0` → `@scope/a`)
+ */
+function descriptorName(descriptor: string): string {
+  const at = descriptor.indexOf('@', 1);
+  return at === -1 ? descriptor : descriptor.slice(0, at);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"|"$/g, '');
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function missingImporter(importer: string): never {
+  throw new Error(`no entry for the workspace project ${importer}`);
+}
+
+async function readManifest(file: string): Promise<Manifest | null> {
+  const pkg = await readPackageJson<Partial<Manifest> & { optionalDependencies?: Record<string, string> }>(file);
+  if (!pkg) return null;
+  return {
+    dependencies: { ...pkg.dependencies, ...pkg.optionalDependencies },
+    devDependencies: { ...pkg.devDependencies },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Commander option parsers shared across commands
+ *
+ * @module @dcyfr/ai-cli/lib/options
+ */
+
+import { InvalidArgumentError } from 'commander';
+
+/**
+ * Parse a positive integer option value (e.g. `--concurrency 8`)
+ */
+export function parsePositiveInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
+
+/**
+ * Collect a repeatable, comma-separated list option (e.g. `--filter a,b --filter c`)
+ */
+export function collectList(value: string, previous: string[] = []): string[] {
+  return [
+    ...previous,
+    ...value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean),
+  ];
+}
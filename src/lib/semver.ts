@@ -0,0 +1,86 @@
+/**
+ * Minimal semantic version parsing and comparison
+ *
+ * Covers what lockfiles and advisory ranges need: `major.minor.patch`
+ * with optional prerelease and build metadata, ordered per semver 2.0.
+ *
+ * @module @dcyfr/ai-cli/lib/semver
+ */
+
+/**
+ * Parsed semantic version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Dot-separated prerelease identifiers (`1.0.0-beta.2` → ['beta', 2]) */
+  prerelease: Array<string | number>;
+}
+
+const VERSION = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a version string; returns null when it is not valid semver
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION.exec(version.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.').map((id) => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+  };
+}
+
+/**
+ * Compare two versions: negative when `a` < `b`, 0 when equal, positive
+ * when `a` > `b`. Strings that aren't semver compare numerically by
+ * segment, so odd versions still sort sensibly.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return compareLoose(a, b);
+
+  return (
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    comparePrerelease(left.prerelease, right.prerelease)
+  );
+}
+
+/**
+ * A version without prerelease sorts after its prereleases
+ */
+function comparePrerelease(a: Array<string | number>, b: Array<string | number>): number {
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    if (x === y) continue;
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof x === 'number' && typeof y === 'number') return x - y;
+    if (typeof x === 'number') return -1;
+    if (typeof y === 'number') return 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+function compareLoose(a: string, b: string): number {
+  const left = a.split(/[.+-]/);
+  const right = b.split(/[.+-]/);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i] ?? '';
+    const y = right[i] ?? '';
+    const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
@@ -0,0 +1,146 @@
+/**
+ * SPDX license expressions — parsing and policy evaluation
+ *
+ * Understands `MIT`, `Apache-2.0+`, `(MIT OR Apache-2.0)`,
+ * `GPL-2.0-only WITH Classpath-exception-2.0` and nested combinations;
+ * `AND` binds tighter than `OR`.
+ *
+ * @module @dcyfr/ai-cli/lib/spdx
+ */
+
+import { matchesWildcard } from './glob.js';
+
+/**
+ * Parsed license expression
+ */
+export type LicenseExpression =
+  | { type: 'license'; id: string; exception?: string | undefined }
+  | { type: 'and' | 'or'; left: LicenseExpression; right: LicenseExpression };
+
+/**
+ * License allow/deny lists; entries are SPDX IDs, optionally with `*`
+ * wildcards (`GPL-*`), matched case-insensitively
+ */
+export interface LicensePolicy {
+  /** When non-empty, only these licenses are allowed */
+  allow: string[];
+  /** Licenses that are never allowed (checked before `allow`) */
+  deny: string[];
+}
+
+/**
+ * Outcome of checking an expression against a policy
+ */
+export interface LicenseVerdict {
+  status: 'allowed' | 'denied' | 'unlisted';
+  /**
+   * Licenses that keep the expression from being allowed: the denied
+   * ones when denied, otherwise the ones missing from the allow list
+   */
+  licenses: string[];
+}
+
+/**
+ * Parse an SPDX expression; throws on malformed input
+ */
+export function parseLicenseExpression(expression: string): LicenseExpression {
+  const tokens = expression.match(/\(|\)|[^\s()]+/g) ?? [];
+  let position = 0;
+
+  const peek = (): string | undefined => tokens[position];
+  const next = (): string => {
+    const token = tokens[position++];
+    if (token === undefined) throw new Error(`Unexpected end of license expression '${expression}'`);
+    return token;
+  };
+
+  const parseOr = (): LicenseExpression => {
+    let left = parseAnd();
+    while (peek()?.toUpperCase() === 'OR') {
+      next();
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+  const parseAnd = (): LicenseExpression => {
+    let left = parseAtom();
+    while (peek()?.toUpperCase() === 'AND') {
+      next();
+      left = { type: 'and', left, right: parseAtom() };
+    }
+    return left;
+  };
+  const parseAtom = (): LicenseExpression => {
+    const token = next();
+    if (token === '(') {
+      const inner = parseOr();
+      if (next() !== ')') throw new Error(`Missing ')' in license expression '${expression}'`);
+      return inner;
+    }
+    if (token === ')' || /^(?:AND|OR|WITH)$/i.test(token)) {
+      throw new Error(`Unexpected '${token}' in license expression '${expression}'`);
+    }
+    if (peek()?.toUpperCase() === 'WITH') {
+      next();
+      return { type: 'license', id: token, exception: next() };
+    }
+    return { type: 'license', id: token };
+  };
+
+  const result = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected '${tokens[position]}' in license expression '${expression}'`);
+  }
+  return result;
+}
+
+/**
+ * Check an expression against a policy
+ *
+ * `OR` needs one acceptable branch (the licensee picks), `AND` needs
+ * every branch. A license with an exception is allowed when either the
+ * full `X WITH Y` or the bare license is allowed, and denied only when
+ * the bare license is denied and the full form isn't explicitly allowed.
+ */
+export function evaluateLicense(expression: LicenseExpression, policy: LicensePolicy): LicenseVerdict {
+  switch (expression.type) {
+    case 'license': {
+      const full = expression.exception ? `${expression.id} WITH ${expression.exception}` : expression.id;
+      const explicitlyAllowed = matchesWildcard(full, policy.allow) || matchesWildcard(expression.id, policy.allow);
+      if (matchesWildcard(expression.id, policy.deny) && !(expression.exception && matchesWildcard(full, policy.allow))) {
+        return { status: 'denied', licenses: [full] };
+      }
+      if (policy.allow.length > 0 && !explicitlyAllowed) return { status: 'unlisted', licenses: [full] };
+      return { status: 'allowed', licenses: [] };
+    }
+    case 'or': {
+      const left = evaluateLicense(expression.left, policy);
+      const right = evaluateLicense(expression.right, policy);
+      if (left.status === 'allowed' || right.status === 'allowed') return { status: 'allowed', licenses: [] };
+      const unlisted = [left, right].filter((v) => v.status === 'unlisted');
+      if (unlisted.length > 0) return { status: 'unlisted', licenses: unlisted.flatMap((v) => v.licenses) };
+      return { status: 'denied', licenses: [...left.licenses, ...right.licenses] };
+    }
+    case 'and': {
+      const left = evaluateLicense(expression.left, policy);
+      const right = evaluateLicense(expression.right, policy);
+      for (const status of ['denied', 'unlisted'] as const) {
+        const failing = [left, right].filter((v) => v.status === status);
+        if (failing.length > 0) return { status, licenses: failing.flatMap((v) => v.licenses) };
+      }
+      return { status: 'allowed', licenses: [] };
+    }
+  }
+}
+
+/**
+ * Render a parsed expression back to SPDX syntax
+ */
+export function formatLicenseExpression(expression: LicenseExpression): string {
+  if (expression.type === 'license') {
+    return expression.exception ? `${expression.id} WITH ${expression.exception}` : expression.id;
+  }
+  const side = (e: LicenseExpression): string =>
+    e.type !== 'license' && e.type !== expression.type ? `(${formatLicenseExpression(e)})` : formatLicenseExpression(e);
+  return `${side(expression.left)} ${expression.type.toUpperCase()} ${side(expression.right)}`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Workspace index — per-run file discovery and content cache
+ *
+ * A full scan runs many scanners over the same source files. The index
+ * walks the workspace once and memoizes file contents and line splits so
+ * each file is read from disk at most once per run, however many scanners
+ * look at it.
+ *
+ * `discover()` mirrors `discoverFiles()` semantics (ignore names, dot
+ * entries, extensions, path pattern, max depth) against the cached walk.
+ *
+ * @module @dcyfr/ai-cli/lib/workspace-index
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { extname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { DEFAULT_IGNORE, discoverFiles } from './files.js';
+import type { DiscoverOptions } from './files.js';
+
+/** Depth limit for the shared walk (discoverFiles defaults to 20 per root) */
+const INDEX_MAX_DEPTH = 40;
+
+/**
+ * Shared, memoizing view of the workspace for a single scan run
+ */
+export class WorkspaceIndex {
+  readonly root: string;
+  private walk: Promise<string[]> | null = null;
+  private contents = new Map<string, Promise<string | null>>();
+  private lineCache = new Map<string, Promise<string[] | null>>();
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  /**
+   * Discover files under `root`, equivalent to `discoverFiles(root, options)`
+   *
+   * Falls back to a real directory walk when `root` lies outside the
+   * indexed tree (e.g. inside an ignored or dot directory).
+   */
+  async discover(root: string, options: DiscoverOptions = {}): Promise<string[]> {
+    const base = resolve(root);
+    const prefix = relative(this.root, base);
+    if (prefix.startsWith('..') || isAbsolute(prefix) || !isIndexedPath(prefix)) {
+      return discoverFiles(root, options);
+    }
+
+    const { extensions, ignore = [], pathPattern, maxDepth = 20 } = options;
+    const ignoreSet = new Set([...DEFAULT_IGNORE, ...ignore]);
+    const files = await this.allFiles();
+    const matches: string[] = [];
+
+    for (const file of files) {
+      if (prefix && !file.startsWith(base + sep)) continue;
+
+      const segments = relative(base, file).split(sep);
+      // Directories between root and the file: walkDir stops at depth > maxDepth
+      if (segments.length - 1 > maxDepth) continue;
+      if (segments.some((s) => ignoreSet.has(s))) continue;
+
+      const name = segments[segments.length - 1]!;
+      if (extensions && !extensions.includes(extname(name))) continue;
+      if (pathPattern && !pathPattern.test(file)) continue;
+      matches.push(file);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Read a file's content (memoized; null if unreadable)
+   */
+  read(filePath: string): Promise<string | null> {
+    const key = resolve(filePath);
+    let content = this.contents.get(key);
+    if (!content) {
+      content = readFile(key, 'utf-8').catch(() => null);
+      this.contents.set(key, content);
+    }
+    return content;
+  }
+
+  /**
+   * Get a file's lines (memoized; null if unreadable)
+   */
+  lines(filePath: string): Promise<string[] | null> {
+    const key = resolve(filePath);
+    let lines = this.lineCache.get(key);
+    if (!lines) {
+      lines = this.read(key).then((content) => (content === null ? null : content.split('\n')));
+      this.lineCache.set(key, lines);
+    }
+    return lines;
+  }
+
+  /**
+   * Drop cached content (for one file, or everything when omitted)
+   */
+  invalidate(filePath?: string): void {
+    if (filePath === undefined) {
+      this.walk = null;
+      this.contents.clear();
+      this.lineCache.clear();
+      return;
+    }
+    const key = resolve(filePath);
+    this.contents.delete(key);
+    this.lineCache.delete(key);
+  }
+
+  /**
+   * Walk the workspace once (memoized)
+   */
+  private allFiles(): Promise<string[]> {
+    if (!this.walk) {
+      this.walk = walkAll(this.root);
+    }
+    return this.walk;
+  }
+}
+
+/**
+ * Whether a workspace-relative directory is covered by the shared walk
+ */
+function isIndexedPath(prefix: string): boolean {
+  if (prefix === '') return true;
+  return prefix
+    .split(sep)
+    .every((segment) => !DEFAULT_IGNORE.has(segment) && !segment.startsWith('.'));
+}
+
+/**
+ * Collect every non-ignored file under `root`
+ */
+async function walkAll(root: string): Promise<string[]> {
+  const files: string[] = [];
+  const visit = async (dir: string, depth: number): Promise<void> => {
+    if (depth > INDEX_MAX_DEPTH) return;
+
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (DEFAULT_IGNORE.has(entry.name) || entry.name.startsWith('.')) continue;
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await visit(fullPath, depth + 1);
+      } else if (entry.isFile()) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  await visit(root, 0);
+  return files;
+}
@@ -0,0 +1,114 @@
+/**
+ * Custom rule engine — matching, replacement and rule self-tests
+ *
+ * Patterns are applied line by line, like the built-in token and
+ * sensitive-data scanners, so every match has a line and column.
+ *
+ * @module @dcyfr/ai-cli/rules/engine
+ */
+
+import type { CompiledRule, RuleMatch, RuleTestResult } from './types.js';
+
+/**
+ * Check whether a rule applies to a workspace-relative path
+ */
+export function ruleAppliesTo(rule: CompiledRule, relPath: string): boolean {
+  const path = relPath.replace(/\\/g, '/');
+  if (rule.include.length > 0 && !rule.include.some((re) => re.test(path))) return false;
+  return !rule.exclude.some((re) => re.test(path));
+}
+
+/**
+ * Find every match of a rule in file content
+ */
+export function findRuleMatches(rule: CompiledRule, content: string): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    // Fresh regex per line to avoid lastIndex carry-over
+    const lineRegex = new RegExp(rule.pattern.source, rule.pattern.flags);
+    let match;
+    while ((match = lineRegex.exec(lines[i]!)) !== null) {
+      matches.push({ rule, line: i + 1, column: match.index, text: match[0] });
+      if (match[0] === '') lineRegex.lastIndex++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Apply a rule's replacement to content
+ *
+ * When `lines` is given only those 1-based lines are rewritten, so a fix
+ * touches exactly the reported findings.
+ */
+export function applyRuleReplacement(
+  rule: CompiledRule,
+  content: string,
+  lines?: ReadonlySet<number>,
+): string {
+  if (rule.replacement === undefined) return content;
+  const replacement = rule.replacement;
+
+  return content
+    .split('\n')
+    .map((line, i) => {
+      if (lines && !lines.has(i + 1)) return line;
+      return line.replace(new RegExp(rule.pattern.source, rule.pattern.flags), replacement);
+    })
+    .join('\n');
+}
+
+/**
+ * Format the violation message for a match
+ */
+export function formatRuleMessage(match: RuleMatch): string {
+  return match.rule.message ?? `${match.rule.name}: '${match.text}'`;
+}
+
+/**
+ * Run the test cases declared on each rule
+ */
+export function runRuleTests(rules: CompiledRule[]): RuleTestResult[] {
+  const results: RuleTestResult[] = [];
+
+  for (const rule of rules) {
+    rule.tests.forEach((test, i) => {
+      const name = test.name ?? `case ${i + 1}`;
+      const found = findRuleMatches(rule, test.input).length;
+
+      if (found !== test.matches) {
+        results.push({
+          rule: rule.id,
+          name,
+          passed: false,
+          reason: `expected ${test.matches} match(es), found ${found}`,
+        });
+        return;
+      }
+
+      if (test.output !== undefined) {
+        if (rule.replacement === undefined) {
+          results.push({ rule: rule.id, name, passed: false, reason: "'output' given but rule has no replacement" });
+          return;
+        }
+        const actual = applyRuleReplacement(rule, test.input);
+        if (actual !== test.output) {
+          results.push({
+            rule: rule.id,
+            name,
+            passed: false,
+            reason: `expected output ${JSON.stringify(test.output)}, got ${JSON.stringify(actual)}`,
+          });
+          return;
+        }
+      }
+
+      results.push({ rule: rule.id, name, passed: true });
+    });
+  }
+
+  return results;
+}
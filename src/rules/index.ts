@@ -0,0 +1,25 @@
+/**
+ * Custom rules module barrel export
+ *
+ * @module @dcyfr/ai-cli/rules
+ */
+
+export { RULES_DIR, loadRules, compileRule } from './loader.js';
+export {
+  ruleAppliesTo,
+  findRuleMatches,
+  applyRuleReplacement,
+  formatRuleMessage,
+  runRuleTests,
+} from './engine.js';
+
+export type {
+  RuleSeverity,
+  RuleTestCase,
+  RuleDefinition,
+  CompiledRule,
+  RuleLoadError,
+  LoadedRules,
+  RuleMatch,
+  RuleTestResult,
+} from './types.js';
@@ -0,0 +1,173 @@
+/**
+ * Custom rule loader — reads and validates `.dcyfr/rules/*`
+ *
+ * A rules file holds either an array of rule definitions or an object
+ * with a `rules` array, in JSON (`.json`) or YAML (`.yaml`/`.yml`).
+ * Invalid rules are reported per file and skipped; valid rules in the
+ * same file still load.
+ *
+ * @module @dcyfr/ai-cli/rules/loader
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { pathExists } from '@/lib/files.js';
+import { globToRegExp } from '@/lib/glob.js';
+import type {
+  CompiledRule,
+  LoadedRules,
+  RuleDefinition,
+  RuleLoadError,
+  RuleSeverity,
+  RuleTestCase,
+} from './types.js';
+
+/** Directory holding rule files, relative to the workspace root */
+export const RULES_DIR = join('.dcyfr', 'rules');
+
+const RULE_FILE_EXTENSIONS = new Set(['.json', '.yaml', '.yml']);
+const SEVERITIES: readonly RuleSeverity[] = ['error', 'warning', 'info'];
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+/**
+ * Load and compile every rule under `.dcyfr/rules/`
+ */
+export async function loadRules(workspaceRoot: string): Promise<LoadedRules> {
+  const dir = join(workspaceRoot, RULES_DIR);
+  if (!(await pathExists(dir))) return { rules: [], errors: [] };
+
+  const names = (await readdir(dir)).filter((n) => RULE_FILE_EXTENSIONS.has(extname(n))).sort();
+  const rules: CompiledRule[] = [];
+  const errors: RuleLoadError[] = [];
+  const seen = new Map<string, string>();
+
+  for (const name of names) {
+    const file = `${RULES_DIR.replace(/\\/g, '/')}/${name}`;
+    let definitions: unknown[];
+    try {
+      definitions = extractDefinitions(parseRulesFile(name, await readFile(join(dir, name), 'utf-8')));
+    } catch (error) {
+      errors.push({ file, message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    definitions.forEach((definition, i) => {
+      try {
+        const rule = compileRule(definition, file);
+        const existing = seen.get(rule.id);
+        if (existing) {
+          throw new Error(`Rule '${rule.id}' is already defined in ${existing}`);
+        }
+        seen.set(rule.id, file);
+        rules.push(rule);
+      } catch (error) {
+        errors.push({
+          file,
+          message: `rules[${i}]: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    });
+  }
+
+  return { rules, errors };
+}
+
+/**
+ * Validate a rule definition and compile its pattern and globs
+ */
+export function compileRule(value: unknown, source: string): CompiledRule {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Rule must be an object');
+  }
+  const def = value as Record<string, unknown>;
+
+  if (typeof def.id !== 'string' || def.id.trim() === '') {
+    throw new Error("'id' must be a non-empty string");
+  }
+  const id = def.id;
+  const fail = (message: string): never => {
+    throw new Error(`Rule '${id}': ${message}`);
+  };
+
+  if (typeof def.pattern !== 'string' || def.pattern === '') fail("'pattern' must be a non-empty string");
+  const flags = def.flags ?? '';
+  if (typeof flags !== 'string' || !ALLOWED_FLAGS.test(flags)) fail("'flags' may only contain i, m, s, u");
+  const severity = def.severity ?? 'warning';
+  if (!SEVERITIES.includes(severity as RuleSeverity)) fail(`'severity' must be one of: ${SEVERITIES.join(', ')}`);
+  for (const key of ['name', 'message', 'fix', 'replacement'] as const) {
+    if (def[key] !== undefined && typeof def[key] !== 'string') fail(`'${key}' must be a string`);
+  }
+  for (const key of ['include', 'exclude'] as const) {
+    const globs = def[key];
+    if (globs !== undefined && (!Array.isArray(globs) || globs.some((g) => typeof g !== 'string'))) {
+      fail(`'${key}' must be an array of glob strings`);
+    }
+  }
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(def.pattern as string, `g${flags as string}`);
+  } catch (error) {
+    throw new Error(
+      `Rule '${id}': invalid pattern — ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
+  // A pattern that matches the empty string would report every column
+  if (new RegExp(pattern.source, pattern.flags.replace('g', '')).test('')) {
+    fail("'pattern' must not match the empty string");
+  }
+
+  const rule = def as unknown as RuleDefinition;
+  return {
+    id,
+    name: rule.name ?? id,
+    pattern,
+    severity: severity as RuleSeverity,
+    message: rule.message,
+    fix: rule.fix,
+    replacement: rule.replacement,
+    include: (rule.include ?? []).map(globToRegExp),
+    exclude: (rule.exclude ?? []).map(globToRegExp),
+    tests: validateTests(def.tests, fail),
+    source,
+  };
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function parseRulesFile(name: string, content: string): unknown {
+  try {
+    return extname(name) === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Failed to parse: ${error instanceof Error ? error.message : String(error)}`, {
+      cause: error,
+    });
+  }
+}
+
+function extractDefinitions(parsed: unknown): unknown[] {
+  if (Array.isArray(parsed)) return parsed;
+  if (typeof parsed === 'object' && parsed !== null) {
+    const rules = (parsed as Record<string, unknown>).rules;
+    if (Array.isArray(rules)) return rules;
+  }
+  throw new Error("Expected an array of rules or an object with a 'rules' array");
+}
+
+function validateTests(value: unknown, fail: (message: string) => never): RuleTestCase[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return fail("'tests' must be an array");
+
+  return value.map((test: unknown, i) => {
+    const tc = (typeof test === 'object' && test !== null ? test : {}) as Record<string, unknown>;
+    if (typeof tc.input !== 'string') fail(`tests[${i}]: 'input' must be a string`);
+    if (typeof tc.matches !== 'number' || !Number.isInteger(tc.matches) || tc.matches < 0) {
+      fail(`tests[${i}]: 'matches' must be a non-negative integer`);
+    }
+    if (tc.output !== undefined && typeof tc.output !== 'string') fail(`tests[${i}]: 'output' must be a string`);
+    if (tc.name !== undefined && typeof tc.name !== 'string') fail(`tests[${i}]: 'name' must be a string`);
+    return tc as unknown as RuleTestCase;
+  });
+}
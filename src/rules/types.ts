@@ -0,0 +1,113 @@
+/**
+ * Custom rule types
+ *
+ * Rules are declared in `.dcyfr/rules/*.json` or `*.yaml` files and
+ * compiled once per run.
+ *
+ * @module @dcyfr/ai-cli/rules/types
+ */
+
+/**
+ * Severity of a custom rule finding
+ */
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Example input with its expected matches, run by `dcyfr rules test`
+ */
+export interface RuleTestCase {
+  /** Optional label shown in test output */
+  name?: string | undefined;
+  /** Source text the rule is applied to */
+  input: string;
+  /** Expected number of matches */
+  matches: number;
+  /** Expected text after applying the rule's replacement */
+  output?: string | undefined;
+}
+
+/**
+ * Rule as written in a rules file
+ */
+export interface RuleDefinition {
+  /** Unique rule identifier (used as the violation ID) */
+  id: string;
+  /** Human-readable name (default: the ID) */
+  name?: string | undefined;
+  /** Regular expression source, matched line by line */
+  pattern: string;
+  /** Extra regex flags (`i`, `m`, `s`, `u`); `g` is always added */
+  flags?: string | undefined;
+  /** Finding severity (default: `warning`) */
+  severity?: RuleSeverity | undefined;
+  /** Violation message (default: `<name>: '<match>'`) */
+  message?: string | undefined;
+  /** Fix hint shown with the violation */
+  fix?: string | undefined;
+  /** Replacement string for auto-fix (`$1`, `$&`, … supported) */
+  replacement?: string | undefined;
+  /** Globs of workspace-relative files to check (default: all files) */
+  include?: string[] | undefined;
+  /** Globs of workspace-relative files to skip */
+  exclude?: string[] | undefined;
+  /** Example inputs verified by `dcyfr rules test` */
+  tests?: RuleTestCase[] | undefined;
+}
+
+/**
+ * Rule ready to run — regex and globs compiled
+ */
+export interface CompiledRule {
+  id: string;
+  name: string;
+  pattern: RegExp;
+  severity: RuleSeverity;
+  message?: string | undefined;
+  fix?: string | undefined;
+  replacement?: string | undefined;
+  include: RegExp[];
+  exclude: RegExp[];
+  tests: RuleTestCase[];
+  /** Workspace-relative rules file the rule was declared in */
+  source: string;
+}
+
+/**
+ * Problem found while loading a rules file
+ */
+export interface RuleLoadError {
+  /** Workspace-relative rules file */
+  file: string;
+  message: string;
+}
+
+/**
+ * Result of loading every rules file in the workspace
+ */
+export interface LoadedRules {
+  rules: CompiledRule[];
+  errors: RuleLoadError[];
+}
+
+/**
+ * A rule match within a file
+ */
+export interface RuleMatch {
+  rule: CompiledRule;
+  /** 1-based line number */
+  line: number;
+  /** 0-based column */
+  column: number;
+  text: string;
+}
+
+/**
+ * Outcome of one rule test case
+ */
+export interface RuleTestResult {
+  rule: string;
+  name: string;
+  passed: boolean;
+  /** Why the case failed */
+  reason?: string | undefined;
+}
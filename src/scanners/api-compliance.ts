@@ -8,13 +8,17 @@
  * - Input validation before processing
  * - No direct database calls in route handlers (use service layer)
  *
- * Falls back to static pattern matching when no LLM is available.
+ * Falls back to static analysis when no LLM is available: each exported
+ * GET/POST/PUT/PATCH/DELETE handler is checked on its own, together with
+ * its wrappers and the helpers it calls (followed one level deep).
  *
  * @module @dcyfr/ai-cli/scanners/api-compliance
  */
 
-import { readFile } from 'fs/promises';
-import { discoverFiles, relativePath } from '@/lib/files.js';
+import type ts from 'typescript';
+import { loadTypeScript, moduleCandidates, parseSource } from '@/lib/ast.js';
+import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
 import {
   runAIAnalysis,
   buildAIScanResult,
@@ -23,108 +27,291 @@ import {
 import type { AnalysisFile, AIAnalysisResult } from '@/ai/index.js';
 import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
 
+/** Bump when prompts or parsing change to invalidate cached results */
+const SCANNER_VERSION = '1.1.0';
+
 // ---------------------------------------------------------------------------
 // Static analysis (offline fallback)
 // ---------------------------------------------------------------------------
 
+/** Exported functions Next.js treats as route handlers */
+const ROUTE_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']);
+
 /**
- * Patterns for detecting API compliance issues statically
+ * Call patterns recognized by the per-handler checks (matched against the callee)
  */
 const PATTERNS = {
-  /** Route handler exports */
-  routeHandler: /export\s+(?:async\s+)?function\s+(GET|POST|PUT|PATCH|DELETE)\b/g,
-  /** Inngest usage (async pattern compliance) */
-  inngestSend: /inngest\.send\(/,
-  /** Direct response with data (sync pattern) */
-  jsonResponse: /NextResponse\.json\(/,
   /** Input validation */
-  inputValidation: /(?:z\.object|zod\.object|schema\.parse|validate|isValid|safeParse)/i,
-  /** Error handling */
-  tryCatch: /try\s*{/,
-  /** Status codes */
-  statusCode: /status:\s*(\d{3})/g,
-  /** Direct DB calls in route handlers */
-  directDb: /(?:prisma|drizzle|db|pool|knex)\./,
-  /** Security headers */
-  securityHeaders: /(?:CORS|security.headers|x-frame-options|content-security-policy)/i,
+  inputValidation: /(?:^|\.)(?:parse|safeParse|parseAsync|safeParseAsync|validate\w*|isValid\w*)$|^(?:z|zod)\.object$/i,
+  /** Inngest usage (async pattern compliance) */
+  inngestSend: /^inngest\.send$/,
+  /** Direct DB clients, accessed as `<client>.` */
+  directDb: /^(?:prisma|drizzle|db|pool|knex)$/,
 };
 
 /**
- * Check route handler method for validation compliance
+ * An exported route handler and the code its checks run against
  */
-function checkMethodValidation(
-  method: string,
-  content: string,
-  relPath: string,
-  lineNum: number,
-  violations: ScanViolation[],
-): void {
-  if (!['POST', 'PUT', 'PATCH'].includes(method)) return;
+interface RouteHandler {
+  method: string;
+  line: number;
+  column: number;
+  /** The handler's own code (for wrappers: the whole wrapped expression) */
+  body: ts.Node[];
+  /** Wrappers and helpers it calls, resolved one level deep */
+  helpers: ts.Node[];
+}
 
-  // Check for input validation
-  if (!PATTERNS.inputValidation.test(content)) {
-    violations.push({
-      id: 'missing-input-validation',
-      severity: 'warning',
-      message: `${method} handler missing input validation: ${relPath}`,
-      file: relPath,
-      line: lineNum,
-      fix: 'Add request body validation (Zod schema recommended)',
-    });
+/**
+ * Resolves helper names to their definitions, parsing imported files once
+ */
+class HelperResolver {
+  private parsed = new Map<string, ts.SourceFile | null>();
+
+  constructor(
+    private readonly t: typeof ts,
+    private readonly index: WorkspaceIndex,
+  ) {}
+
+  /**
+   * Definition of `name` as seen from `sourceFile`: a local declaration,
+   * or the export it is imported as
+   */
+  async resolve(sourceFile: ts.SourceFile, name: string): Promise<ts.Node | null> {
+    const local = findDeclaration(this.t, sourceFile, name, false);
+    if (local) return local;
+
+    const binding = findImport(this.t, sourceFile, name);
+    if (!binding) return null;
+    for (const candidate of moduleCandidates(sourceFile.fileName, binding.module)) {
+      const target = await this.parse(candidate);
+      if (target) return findDeclaration(this.t, target, binding.imported, true);
+    }
+    return null;
   }
 
-  // Check for async work without Inngest
-  if (!PATTERNS.inngestSend.test(content) && content.length > 500) {
-    violations.push({
-      id: 'missing-async-pattern',
-      severity: 'info',
-      message: `${method} handler may need Validate→Queue→Respond pattern: ${relPath}`,
-      file: relPath,
-      line: lineNum,
-      fix: 'Consider using inngest.send() for async processing',
-    });
+  private async parse(filePath: string): Promise<ts.SourceFile | null> {
+    if (!this.parsed.has(filePath)) {
+      const content = await this.index.read(filePath).catch(() => null);
+      this.parsed.set(filePath, content === null ? null : await parseSource(filePath, content));
+    }
+    return this.parsed.get(filePath)!;
   }
 }
 
 /**
- * Check route handler for error handling
+ * Top-level function or variable initializer named `name`
+ *
+ * With `exported`, only exported declarations match and `default` finds
+ * the default export.
  */
-function checkErrorHandling(
-  method: string,
-  content: string,
+function findDeclaration(t: typeof ts, sourceFile: ts.SourceFile, name: string, exported: boolean): ts.Node | null {
+  for (const statement of sourceFile.statements) {
+    const modifiers = t.canHaveModifiers(statement) ? (t.getModifiers(statement) ?? []) : [];
+    const isExported = modifiers.some((m) => m.kind === t.SyntaxKind.ExportKeyword);
+    const isDefault = modifiers.some((m) => m.kind === t.SyntaxKind.DefaultKeyword);
+    if (exported && !isExported) continue;
+
+    if (t.isFunctionDeclaration(statement) && (name === 'default' ? isDefault : statement.name?.text === name)) {
+      return statement;
+    }
+    if (t.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (t.isIdentifier(declaration.name) && declaration.name.text === name && declaration.initializer) {
+          return declaration.initializer;
+        }
+      }
+    }
+    if (exported && name === 'default' && t.isExportAssignment(statement)) return statement.expression;
+  }
+  return null;
+}
+
+function findImport(
+  t: typeof ts,
+  sourceFile: ts.SourceFile,
+  name: string,
+): { module: string; imported: string } | null {
+  for (const statement of sourceFile.statements) {
+    if (!t.isImportDeclaration(statement) || !t.isStringLiteral(statement.moduleSpecifier)) continue;
+    const module = statement.moduleSpecifier.text;
+    const clause = statement.importClause;
+    if (clause?.name?.text === name) return { module, imported: 'default' };
+    const bindings = clause?.namedBindings;
+    if (bindings && t.isNamedImports(bindings)) {
+      const element = bindings.elements.find((e) => e.name.text === name);
+      if (element) return { module, imported: (element.propertyName ?? element.name).text };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find exported route handlers and what each one reaches
+ *
+ * Understands `export async function POST`, `export const POST = …`,
+ * wrappers such as `export const POST = withAuth(withRateLimit(handler))`
+ * and `export { handler as POST }`.
+ */
+async function findRouteHandlers(
+  t: typeof ts,
+  sourceFile: ts.SourceFile,
+  resolver: HelperResolver,
+): Promise<RouteHandler[]> {
+  const found: Array<{ method: string; nameNode: ts.Node; code: ts.Node }> = [];
+
+  for (const statement of sourceFile.statements) {
+    const modifiers = t.canHaveModifiers(statement) ? (t.getModifiers(statement) ?? []) : [];
+    const isExported = modifiers.some((m) => m.kind === t.SyntaxKind.ExportKeyword);
+
+    if (isExported && t.isFunctionDeclaration(statement) && statement.name && ROUTE_METHODS.has(statement.name.text)) {
+      found.push({ method: statement.name.text, nameNode: statement.name, code: statement });
+    } else if (isExported && t.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (t.isIdentifier(declaration.name) && ROUTE_METHODS.has(declaration.name.text) && declaration.initializer) {
+          found.push({ method: declaration.name.text, nameNode: declaration.name, code: declaration.initializer });
+        }
+      }
+    } else if (t.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && t.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        if (!ROUTE_METHODS.has(element.name.text)) continue;
+        const local = findDeclaration(t, sourceFile, (element.propertyName ?? element.name).text, false);
+        if (local) found.push({ method: element.name.text, nameNode: element.name, code: local });
+      }
+    }
+  }
+
+  const handlers: RouteHandler[] = [];
+  for (const { method, nameNode, code } of found) {
+    const body: ts.Node[] = [code];
+    const helperNames = new Set<string>();
+
+    // withAuth(withRateLimit(handler)): wrappers are helpers, identifiers they wrap are the handler
+    let expression: ts.Node = code;
+    while (t.isCallExpression(expression)) {
+      if (t.isIdentifier(expression.expression)) helperNames.add(expression.expression.text);
+      for (const arg of expression.arguments) {
+        if (t.isIdentifier(arg)) {
+          const wrapped = findDeclaration(t, sourceFile, arg.text, false);
+          if (wrapped) body.push(wrapped);
+          else helperNames.add(arg.text);
+        }
+      }
+      expression = expression.arguments.find((arg) => t.isCallExpression(arg)) ?? expression.expression;
+    }
+
+    // Helpers called directly from the handler's own code
+    for (const node of body) {
+      walk(t, node, (child) => {
+        if (t.isCallExpression(child) && t.isIdentifier(child.expression)) helperNames.add(child.expression.text);
+      });
+    }
+
+    const helpers: ts.Node[] = [];
+    for (const name of helperNames) {
+      const definition = await resolver.resolve(sourceFile, name);
+      if (definition && !body.includes(definition)) helpers.push(definition);
+    }
+
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(nameNode.getStart(sourceFile));
+    handlers.push({ method, line: line + 1, column: character, body, helpers });
+  }
+  return handlers;
+}
+
+/**
+ * Depth-first walk over a node and its descendants
+ */
+function walk(t: typeof ts, node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  t.forEachChild(node, (child) => walk(t, child, visit));
+}
+
+function containsCall(t: typeof ts, nodes: ts.Node[], callee: RegExp): boolean {
+  return nodes.some((root) => {
+    let found = false;
+    walk(t, root, (node) => {
+      if (!found && t.isCallExpression(node)) found = callee.test(node.expression.getText());
+    });
+    return found;
+  });
+}
+
+function containsNode(t: typeof ts, nodes: ts.Node[], test: (node: ts.Node) => boolean): boolean {
+  return nodes.some((root) => {
+    let found = false;
+    walk(t, root, (node) => {
+      found ||= test(node);
+    });
+    return found;
+  });
+}
+
+/**
+ * Run the compliance checks for one handler; returns whether it passed
+ */
+function checkRouteHandler(
+  t: typeof ts,
+  handler: RouteHandler,
   relPath: string,
-  lineNum: number,
   violations: ScanViolation[],
-): void {
-  if (!PATTERNS.tryCatch.test(content)) {
+): boolean {
+  const { method, line, column } = handler;
+  const scope = [...handler.body, ...handler.helpers];
+  const before = violations.length;
+  const at = { file: relPath, line, column };
+
+  if (['POST', 'PUT', 'PATCH'].includes(method)) {
+    // Check for input validation
+    if (!containsCall(t, scope, PATTERNS.inputValidation)) {
+      violations.push({
+        id: 'missing-input-validation',
+        severity: 'warning',
+        message: `${method} handler missing input validation: ${relPath}`,
+        ...at,
+        fix: 'Add request body validation (Zod schema recommended)',
+      });
+    }
+
+    // Check for sizeable work without Inngest
+    const size = handler.body.reduce((sum, node) => sum + node.getWidth(), 0);
+    if (!containsCall(t, scope, PATTERNS.inngestSend) && size > 500) {
+      violations.push({
+        id: 'missing-async-pattern',
+        severity: 'info',
+        message: `${method} handler may need Validate→Queue→Respond pattern: ${relPath}`,
+        ...at,
+        fix: 'Consider using inngest.send() for async processing',
+      });
+    }
+  }
+
+  if (!containsNode(t, scope, (node) => t.isTryStatement(node))) {
     violations.push({
       id: 'missing-error-handling',
       severity: 'warning',
       message: `${method} handler missing try/catch error handling: ${relPath}`,
-      file: relPath,
-      line: lineNum,
+      ...at,
       fix: 'Wrap handler logic in try/catch with proper error responses',
     });
   }
-}
 
-function processHandlers(
-  handlers: string[],
-  content: string,
-  relPath: string,
-  violations: ScanViolation[],
-): number {
-  let compliantCount = 0;
-  for (const method of handlers) {
-    const lineNum = content.slice(0, content.indexOf(`function ${method}`)).split('\n').length;
-    const violationsBefore = violations.length;
-    checkMethodValidation(method, content, relPath, lineNum, violations);
-    checkErrorHandling(method, content, relPath, lineNum, violations);
-    if (violations.length === violationsBefore) {
-      compliantCount++;
-    }
+  // Helpers are the service layer: only the handler's own code is checked
+  const dbAccess = (node: ts.Node): boolean =>
+    t.isPropertyAccessExpression(node) &&
+    t.isIdentifier(node.expression) &&
+    PATTERNS.directDb.test(node.expression.text);
+  if (containsNode(t, handler.body, dbAccess)) {
+    violations.push({
+      id: 'direct-db-access',
+      severity: 'warning',
+      message: `${method} handler queries the database directly: ${relPath}`,
+      ...at,
+      fix: 'Move database access into a service-layer function',
+    });
   }
-  return compliantCount;
+
+  return violations.length === before;
 }
 
 async function staticApiScan(
@@ -135,30 +322,22 @@ async function staticApiScan(
   const violations: ScanViolation[] = [];
   let routesChecked = 0;
   let compliant = 0;
+  const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
+  const t = await loadTypeScript();
+  const resolver = new HelperResolver(t, index);
 
   for (const filePath of files) {
-    let content: string;
-    try {
-      content = await readFile(filePath, 'utf-8');
-    } catch {
-      continue;
-    }
+    context.signal?.throwIfAborted();
+    const content = await index.read(filePath);
+    if (content === null) continue;
 
     const relPath = relativePath(context.workspaceRoot, filePath);
-
-    // Find route handlers in this file
-    PATTERNS.routeHandler.lastIndex = 0;
-    let match: RegExpExecArray | null;
-    const handlers: string[] = [];
-
-    while ((match = PATTERNS.routeHandler.exec(content)) !== null) {
-      handlers.push(match[1]!);
-    }
-
-    if (handlers.length === 0) continue;
+    const handlers = await findRouteHandlers(t, await parseSource(filePath, content), resolver);
 
     routesChecked += handlers.length;
-    compliant += processHandlers(handlers, content, relPath, violations);
+    for (const handler of handlers) {
+      if (checkRouteHandler(t, handler, relPath, violations)) compliant++;
+    }
   }
 
   const compliance = routesChecked > 0 ? compliant / routesChecked : 1;
@@ -264,15 +443,17 @@ export const apiComplianceScanner: Scanner = {
   name: 'API Pattern Compliance (AI)',
   description: 'Validates API routes follow Validate→Queue→Respond and DCYFR patterns',
   category: 'compliance',
+  version: SCANNER_VERSION,
   projects: ['dcyfr-labs'],
 
   async scan(context: ScanContext): Promise<ScanResult> {
     const start = Date.now();
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
     // Find API route files
     const files =
       context.files ??
-      (await discoverFiles(context.workspaceRoot, {
+      (await index.discover(context.workspaceRoot, {
         extensions: ['.ts', '.tsx'],
         pathPattern: /\/api\//,
         ignore: ['node_modules', 'dist', '.next', '__tests__'],
@@ -295,16 +476,18 @@ export const apiComplianceScanner: Scanner = {
     }
 
     // Try AI analysis
-    const aiResult = await runAIAnalysis(context, routeFiles, {
+    const aiResult = await runAIAnalysis({ ...context, index }, routeFiles, {
       systemPrompt: SYSTEM_PROMPT,
       buildUserPrompt,
       parseResponse,
       maxFileChars: 6000,
       batchSize: 3,
+      scannerId: 'api-compliance',
+      scannerVersion: SCANNER_VERSION,
     });
 
     if (aiResult.offline) {
-      return staticApiScan(context, routeFiles);
+      return staticApiScan({ ...context, index }, routeFiles);
     }
 
     return buildAIScanResult(
@@ -7,10 +7,20 @@
  * @module @dcyfr/ai-cli/scanners/barrel-exports
  */
 
-import { readFile, readdir, writeFile } from 'fs/promises';
+import { readFile, readdir } from 'fs/promises';
 import { join, basename } from 'path';
 import { pathExists, relativePath } from '@/lib/files.js';
-import type { Scanner, ScanContext, ScanResult, ScanViolation, FixResult } from './types.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
+import { applyFixPlan } from '@/fix/patches.js';
+import type {
+  Scanner,
+  ScanContext,
+  ScanResult,
+  ScanViolation,
+  FixResult,
+  FixPlan,
+  FilePatch,
+} from './types.js';
 
 /**
  * Directories that should have barrel exports
@@ -67,18 +77,15 @@ async function validateBarrelExportContent(
   fullDir: string,
   dir: string,
   workspaceRoot: string,
+  index: WorkspaceIndex,
   warnings: ScanViolation[],
 ): Promise<void> {
   const indexPath = (await pathExists(join(fullDir, 'index.ts')))
     ? join(fullDir, 'index.ts')
     : join(fullDir, 'index.tsx');
 
-  let content: string;
-  try {
-    content = await readFile(indexPath, 'utf-8');
-  } catch {
-    return;
-  }
+  const content = await index.read(indexPath);
+  if (content === null) return;
 
   // Check for empty barrel files
   const exportCount = (content.match(/export\s/g) || []).length;
@@ -160,8 +167,10 @@ export const barrelExportsScanner: Scanner = {
     const warnings: ScanViolation[] = [];
     let dirsChecked = 0;
     let dirsWithBarrel = 0;
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
     for (const dir of BARREL_DIRS) {
+      context.signal?.throwIfAborted();
       const fullDir = join(projectRoot, dir);
       if (!(await pathExists(fullDir))) continue;
 
@@ -176,7 +185,7 @@ export const barrelExportsScanner: Scanner = {
         await checkMissingBarrel(fullDir, dir, violations);
       } else {
         dirsWithBarrel++;
-        await validateBarrelExportContent(fullDir, dir, context.workspaceRoot, warnings);
+        await validateBarrelExportContent(fullDir, dir, context.workspaceRoot, index, warnings);
       }
     }
 
@@ -200,12 +209,12 @@ export const barrelExportsScanner: Scanner = {
     };
   },
 
-  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
+  async plan(context: ScanContext, violations: ScanViolation[]): Promise<FixPlan> {
     const projectRoot = context.project
       ? join(context.workspaceRoot, context.project)
       : join(context.workspaceRoot, 'dcyfr-labs');
 
-    const filesModified: string[] = [];
+    const patches: FilePatch[] = [];
     const failures: Array<{ file: string; reason: string }> = [];
 
     for (const violation of violations) {
@@ -231,8 +240,14 @@ export const barrelExportsScanner: Scanner = {
         const barrelContent = await generateBarrelContent(fullDir, dir);
         if (!barrelContent) continue;
 
-        await writeFile(join(fullDir, 'index.ts'), barrelContent, 'utf-8');
-        filesModified.push(`${dir}/index.ts`);
+        patches.push({
+          scanner: 'barrel-exports',
+          file: relativePath(context.workspaceRoot, join(fullDir, 'index.ts')),
+          original: null,
+          edits: [{ start: 0, end: 0, text: barrelContent }],
+          violations: [violation],
+          description: `Create barrel export for ${dir}`,
+        });
       } catch (error) {
         failures.push({
           file: dir,
@@ -241,12 +256,11 @@ export const barrelExportsScanner: Scanner = {
       }
     }
 
-    return {
-      scanner: 'barrel-exports',
-      fixesApplied: filesModified.length,
-      filesModified,
-      failures,
-    };
+    return { scanner: 'barrel-exports', patches, failures };
+  },
+
+  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
+    return applyFixPlan(context, await barrelExportsScanner.plan!(context, violations));
   },
 };
 
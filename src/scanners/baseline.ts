@@ -0,0 +1,200 @@
+/**
+ * Violation baseline — accept existing findings so only new ones fail
+ *
+ * `dcyfr scan --update-baseline` records every current finding in
+ * `.dcyfr/baseline.json`. Later scans drop findings that match a baseline
+ * entry, so `scan`/`validate` only fail on violations introduced since.
+ *
+ * Fingerprints ignore line numbers so unrelated edits above a finding
+ * don't resurrect it; duplicate findings are matched by count.
+ *
+ * @module @dcyfr/ai-cli/scanners/baseline
+ */
+
+import { createHash } from 'crypto';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname, isAbsolute, join, relative } from 'path';
+import { pathExists } from '@/lib/files.js';
+import { filterResult } from './filters.js';
+import type { ScanResult, ScanViolation } from './types.js';
+
+/** Baseline location, relative to the workspace root */
+export const BASELINE_FILE = join('.dcyfr', 'baseline.json');
+
+const BASELINE_VERSION = 1;
+
+/**
+ * A single accepted finding
+ */
+export interface BaselineEntry {
+  fingerprint: string;
+  scanner: string;
+  id: string;
+  file?: string | undefined;
+  message: string;
+  /** Number of identical findings accepted */
+  count: number;
+}
+
+/**
+ * Baseline file contents
+ */
+export interface Baseline {
+  version: number;
+  generatedAt: string;
+  entries: BaselineEntry[];
+}
+
+/**
+ * Compute the line-independent fingerprint of a finding
+ */
+export function fingerprintViolation(
+  scanner: string,
+  violation: ScanViolation,
+  workspaceRoot: string,
+): string {
+  const file = normalizeFile(violation.file, workspaceRoot) ?? '';
+  return createHash('sha256')
+    .update([scanner, violation.id, file, violation.message].join('\0'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Build a baseline from scan results
+ */
+export function createBaseline(results: ScanResult[], workspaceRoot: string): Baseline {
+  const entries = new Map<string, BaselineEntry>();
+
+  for (const result of results) {
+    for (const violation of [...result.violations, ...result.warnings]) {
+      const fingerprint = fingerprintViolation(result.scanner, violation, workspaceRoot);
+      const existing = entries.get(fingerprint);
+      if (existing) {
+        existing.count++;
+        continue;
+      }
+      entries.set(fingerprint, {
+        fingerprint,
+        scanner: result.scanner,
+        id: violation.id,
+        file: normalizeFile(violation.file, workspaceRoot),
+        message: violation.message,
+        count: 1,
+      });
+    }
+  }
+
+  return {
+    version: BASELINE_VERSION,
+    generatedAt: new Date().toISOString(),
+    entries: Array.from(entries.values()).sort(
+      (a, b) =>
+        a.scanner.localeCompare(b.scanner) ||
+        (a.file ?? '').localeCompare(b.file ?? '') ||
+        a.id.localeCompare(b.id),
+    ),
+  };
+}
+
+/**
+ * Load the workspace baseline (null if none exists)
+ */
+export async function loadBaseline(workspaceRoot: string): Promise<Baseline | null> {
+  const path = join(workspaceRoot, BASELINE_FILE);
+  if (!(await pathExists(path))) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid baseline file ${BASELINE_FILE}: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
+
+  if (
+    !parsed ||
+    typeof parsed !== 'object' ||
+    !Array.isArray((parsed as Baseline).entries)
+  ) {
+    throw new Error(`Invalid baseline file ${BASELINE_FILE}: missing "entries" array`);
+  }
+  return parsed as Baseline;
+}
+
+/**
+ * Write scan results to the workspace baseline.
+ *
+ * Entries for scanners that are not part of `results` are carried over
+ * from the existing baseline, so `dcyfr scan <scanner> --update-baseline`
+ * only rewrites that scanner's findings.
+ */
+export async function saveBaseline(
+  workspaceRoot: string,
+  results: ScanResult[],
+): Promise<Baseline> {
+  const baseline = createBaseline(results, workspaceRoot);
+  const previous = await loadBaseline(workspaceRoot);
+  if (previous) {
+    const scanned = new Set(results.map((r) => r.scanner));
+    const kept = previous.entries.filter((e) => !scanned.has(e.scanner));
+    baseline.entries = [...kept, ...baseline.entries];
+  }
+
+  const path = join(workspaceRoot, BASELINE_FILE);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(baseline, null, 2) + '\n');
+  return baseline;
+}
+
+/**
+ * Remove baselined findings from scan results.
+ *
+ * Removed findings are counted in `metrics.baselined`.
+ */
+export function applyBaseline(
+  results: ScanResult[],
+  baseline: Baseline,
+  workspaceRoot: string,
+): ScanResult[] {
+  const remaining = new Map<string, number>();
+  for (const entry of baseline.entries) {
+    remaining.set(entry.fingerprint, (remaining.get(entry.fingerprint) ?? 0) + entry.count);
+  }
+
+  return results.map((result) =>
+    filterResult(
+      result,
+      (violation) => {
+        const fingerprint = fingerprintViolation(result.scanner, violation, workspaceRoot);
+        const count = remaining.get(fingerprint) ?? 0;
+        if (count === 0) return true;
+        remaining.set(fingerprint, count - 1);
+        return false;
+      },
+      'baselined',
+    ),
+  );
+}
+
+/**
+ * Apply the workspace baseline if one exists
+ */
+export async function applyWorkspaceBaseline(
+  results: ScanResult[],
+  workspaceRoot: string,
+): Promise<ScanResult[]> {
+  const baseline = await loadBaseline(workspaceRoot);
+  return baseline ? applyBaseline(results, baseline, workspaceRoot) : results;
+}
+
+/**
+ * Normalize a violation path to a workspace-relative POSIX path
+ */
+function normalizeFile(file: string | undefined, workspaceRoot: string): string | undefined {
+  if (!file) return undefined;
+  const rel = isAbsolute(file) ? relative(workspaceRoot, file) : file;
+  return rel.replace(/\\/g, '/');
+}
@@ -0,0 +1,145 @@
+/**
+ * Scan Cache — per-file result cache keyed by content hash
+ *
+ * Stores each scanner's per-file findings in `.dcyfr/cache/<scanner>.json`
+ * so unchanged files can reuse previous results instead of being analyzed
+ * again. An entry only hits when the scanner key (scanner version, plus
+ * provider/model for AI scanners) and the file's SHA-256 both match.
+ *
+ * @module @dcyfr/ai-cli/scanners/cache
+ */
+
+import { createHash } from 'crypto';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { join, relative, resolve } from 'path';
+import { pathExists } from '@/lib/files.js';
+
+const CACHE_DIR = join('.dcyfr', 'cache');
+const CACHE_FORMAT = 1;
+
+interface CacheEntry {
+  /** Scanner key the entry was produced under */
+  key: string;
+  /** SHA-256 of the file content */
+  hash: string;
+  /** Scanner-defined cached payload */
+  data: unknown;
+}
+
+interface ScannerCacheFile {
+  format: number;
+  scanner: string;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Hit/miss counters for a cache instance
+ */
+export interface ScanCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Hash file content for cache lookups
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Per-file scan result cache backed by `.dcyfr/cache/`
+ */
+export class ScanCache {
+  private workspaceRoot: string;
+  private files = new Map<string, Promise<ScannerCacheFile>>();
+  private dirty = new Set<string>();
+  private stats: ScanCacheStats = { hits: 0, misses: 0 };
+
+  constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
+  }
+
+  /**
+   * Look up cached data for a file (undefined on miss)
+   */
+  async get<T>(scanner: string, key: string, filePath: string, content: string): Promise<T | undefined> {
+    const file = await this.load(scanner);
+    const entry = file.entries[this.entryPath(filePath)];
+    if (entry && entry.key === key && entry.hash === hashContent(content)) {
+      this.stats.hits++;
+      return entry.data as T;
+    }
+    this.stats.misses++;
+    return undefined;
+  }
+
+  /**
+   * Store data for a file
+   */
+  async set<T>(scanner: string, key: string, filePath: string, content: string, data: T): Promise<void> {
+    const file = await this.load(scanner);
+    file.entries[this.entryPath(filePath)] = { key, hash: hashContent(content), data };
+    this.dirty.add(scanner);
+  }
+
+  /**
+   * Write modified scanner caches to disk.
+   *
+   * Best-effort: a failed write only costs a re-analysis on the next run,
+   * so errors are swallowed rather than failing the scan.
+   */
+  async flush(): Promise<void> {
+    if (this.dirty.size === 0) return;
+
+    const scanners = Array.from(this.dirty);
+    this.dirty.clear();
+    try {
+      const dir = join(this.workspaceRoot, CACHE_DIR);
+      await mkdir(dir, { recursive: true });
+      for (const scanner of scanners) {
+        const file = await this.load(scanner);
+        await writeFile(join(dir, `${scanner}.json`), JSON.stringify(file));
+      }
+    } catch {
+      // Cache is an optimization only
+    }
+  }
+
+  /**
+   * Get hit/miss counters since construction
+   */
+  getStats(): ScanCacheStats {
+    return { ...this.stats };
+  }
+
+  private load(scanner: string): Promise<ScannerCacheFile> {
+    let file = this.files.get(scanner);
+    if (!file) {
+      file = this.readCacheFile(scanner);
+      this.files.set(scanner, file);
+    }
+    return file;
+  }
+
+  private async readCacheFile(scanner: string): Promise<ScannerCacheFile> {
+    const empty: ScannerCacheFile = { format: CACHE_FORMAT, scanner, entries: {} };
+    const path = join(this.workspaceRoot, CACHE_DIR, `${scanner}.json`);
+    if (!(await pathExists(path))) return empty;
+
+    try {
+      const parsed = JSON.parse(await readFile(path, 'utf-8')) as ScannerCacheFile;
+      // Unknown formats or corrupt files are discarded, not fatal
+      if (parsed.format !== CACHE_FORMAT || typeof parsed.entries !== 'object' || !parsed.entries) {
+        return empty;
+      }
+      return parsed;
+    } catch {
+      return empty;
+    }
+  }
+
+  private entryPath(filePath: string): string {
+    return relative(this.workspaceRoot, resolve(this.workspaceRoot, filePath)).replace(/\\/g, '/');
+  }
+}
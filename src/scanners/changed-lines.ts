@@ -0,0 +1,49 @@
+/**
+ * Changed-lines filter — restrict findings to lines touched by a diff
+ *
+ * Backs `dcyfr scan --changed-lines-only`: a finding is kept when its line
+ * falls inside an added/modified hunk. Findings with a file but no line are
+ * kept when the file changed; findings without a file (workspace-level,
+ * e.g. dependency-audit) are always kept.
+ *
+ * @module @dcyfr/ai-cli/scanners/changed-lines
+ */
+
+import { isAbsolute, join } from 'path';
+import type { ChangedLines } from '@/lib/git.js';
+import { filterResult } from './filters.js';
+import type { ScanResult, ScanViolation } from './types.js';
+
+/**
+ * Check whether a violation falls on a changed line
+ */
+export function isOnChangedLine(
+  violation: ScanViolation,
+  changed: ChangedLines,
+  workspaceRoot: string,
+): boolean {
+  if (!violation.file) return true;
+
+  const absolute = isAbsolute(violation.file) ? violation.file : join(workspaceRoot, violation.file);
+  const ranges = changed.get(absolute);
+  if (!ranges) return false;
+  if (violation.line === undefined) return true;
+
+  const line = violation.line;
+  return ranges.some((range) => line >= range.start && line <= range.end);
+}
+
+/**
+ * Drop findings outside the changed lines.
+ *
+ * Removed findings are counted in `metrics.outsideDiff`.
+ */
+export function filterToChangedLines(
+  results: ScanResult[],
+  changed: ChangedLines,
+  workspaceRoot: string,
+): ScanResult[] {
+  return results.map((result) =>
+    filterResult(result, (v) => isOnChangedLine(v, changed, workspaceRoot), 'outsideDiff'),
+  );
+}
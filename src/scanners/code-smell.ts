@@ -9,13 +9,18 @@
  * - Magic numbers and unclear naming
  * - Dead code and unused imports
  *
- * Falls back to static heuristics when no LLM is available.
+ * Falls back to static analysis when no LLM is available: per-function
+ * cyclomatic complexity, nesting depth, length and parameter counts, plus
+ * unused imports and exports, from the TypeScript AST.
  *
  * @module @dcyfr/ai-cli/scanners/code-smell
  */
 
-import { readFile, stat } from 'fs/promises';
-import { discoverFiles, relativePath } from '@/lib/files.js';
+import { stat } from 'fs/promises';
+import { analyzeSource, moduleCandidates } from '@/lib/ast.js';
+import type { SourceAnalysis } from '@/lib/ast.js';
+import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
 import {
   runAIAnalysis,
   buildAIScanResult,
@@ -24,146 +29,121 @@ import {
 import type { AnalysisFile, AIAnalysisResult } from '@/ai/index.js';
 import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
 
+/** Bump when prompts or parsing change to invalidate cached results */
+const SCANNER_VERSION = '1.0.0';
+
 // ---------------------------------------------------------------------------
-// Static heuristics (offline fallback)
+// Static analysis (offline fallback)
 // ---------------------------------------------------------------------------
 
-interface FileMetrics {
-  lineCount: number;
-  functionCount: number;
-  maxNestingDepth: number;
-  longestFunction: number;
-  magicNumbers: number;
-}
-
-const MAGIC_SKIP = new Set(['10', '16', '100', '1000', '1024', '60', '24', '365']);
-
-function countMagicNumbersInLine(trimmed: string): number {
-  const magicMatch = trimmed.match(/(?<![.\w])(?<!['"`])(\d{2,})(?![.\w])/g);
-  if (!magicMatch) return 0;
-  return magicMatch.filter((m) => !MAGIC_SKIP.has(m) && !/^\d{4}$/.test(m)).length;
-}
-
-function analyzeFileMetrics(content: string): FileMetrics {
-  const lines = content.split('\n');
-  let functionCount = 0;
-  let maxNestingDepth = 0;
-  let currentNesting = 0;
-  let longestFunction = 0;
-  let currentFunctionLength = 0;
-  let inFunction = false;
-  let magicNumbers = 0;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    // Track nesting
-    const opens = (trimmed.match(/{/g) || []).length;
-    const closes = (trimmed.match(/}/g) || []).length;
-    currentNesting += opens - closes;
-    maxNestingDepth = Math.max(maxNestingDepth, currentNesting);
-
-    // Count functions
-    if (/(?:function\s+\w+|=>\s*{|(?:async\s+)?(?:function|method))/.test(trimmed)) {
-      functionCount++;
-      inFunction = true;
-      currentFunctionLength = 0;
-    }
-
-    if (inFunction) {
-      currentFunctionLength++;
-      if (closes > opens && currentNesting <= 1) {
-        longestFunction = Math.max(longestFunction, currentFunctionLength);
-        inFunction = false;
-      }
-    }
-
-    // Detect magic numbers (excluding 0, 1, -1, common array indices, and common sizes)
-    magicNumbers += countMagicNumbersInLine(trimmed);
-  }
-
-  return {
-    lineCount: lines.length,
-    functionCount,
-    maxNestingDepth,
-    longestFunction,
-    magicNumbers,
-  };
+/** Thresholds as [warning, error] — a value above either is reported */
+const LIMITS = {
+  fileLines: [500, 1000],
+  functionLines: [80, 150],
+  complexity: [15, 30],
+  nesting: [5, 8],
+  parameters: [5, 8],
+} as const;
+
+/** Files whose exports are consumed by frameworks or outside the workspace */
+const ENTRY_FILE = /(^|\/)(index|page|layout|route|loading|error|not-found|template|default|middleware|instrumentation)\.[cm]?[jt]sx?$/;
+
+function severityFor(value: number, [warn, error]: readonly [number, number]): 'error' | 'warning' | null {
+  if (value > error) return 'error';
+  if (value > warn) return 'warning';
+  return null;
 }
 
 /**
- * Check file for code smells and add violations
+ * Report function, import and file-size smells for one analyzed file
  */
-async function checkFileForSmells(
-  filePath: string,
-  workspaceRoot: string,
+function checkFileForSmells(
+  relPath: string,
+  content: string,
+  analysis: SourceAnalysis,
   violations: ScanViolation[],
-): Promise<number> {
-  let content: string;
-  try {
-    content = await readFile(filePath, 'utf-8');
-  } catch {
-    return 0;
-  }
-
-  const relPath = relativePath(workspaceRoot, filePath);
-  const metrics = analyzeFileMetrics(content);
-  let smellsFound = 0;
-
-  // God file: >500 lines
-  if (metrics.lineCount > 500) {
-    smellsFound++;
+): void {
+  const lineCount = content.split('\n').length;
+  const fileSeverity = severityFor(lineCount, LIMITS.fileLines);
+  if (fileSeverity) {
     violations.push({
       id: 'god-file',
-      severity: metrics.lineCount > 1000 ? 'error' : 'warning',
-      message: `Large file (${metrics.lineCount} lines): ${relPath}`,
+      severity: fileSeverity,
+      message: `Large file (${lineCount} lines): ${relPath}`,
       file: relPath,
       fix: 'Consider splitting into smaller, focused modules',
     });
   }
 
-  // Long function: >80 lines
-  if (metrics.longestFunction > 80) {
-    smellsFound++;
-    violations.push({
-      id: 'long-function',
-      severity: metrics.longestFunction > 150 ? 'error' : 'warning',
-      message: `Function with ${metrics.longestFunction} lines in ${relPath}`,
-      file: relPath,
-      fix: 'Extract sub-operations into helper functions',
-    });
+  for (const fn of analysis.functions) {
+    const at = { file: relPath, line: fn.line, column: fn.column };
+    const checks: Array<[string, number, readonly [number, number], string, string]> = [
+      ['long-function', fn.lines, LIMITS.functionLines, `${fn.lines} lines`, 'Extract sub-operations into helper functions'],
+      ['high-complexity', fn.complexity, LIMITS.complexity, `cyclomatic complexity ${fn.complexity}`, 'Split branches into smaller functions or use lookup tables'],
+      ['deep-nesting', fn.maxNesting, LIMITS.nesting, `nesting depth ${fn.maxNesting}`, 'Use early returns, extract conditions, or flatten with Promise.all'],
+      ['too-many-parameters', fn.parameters, LIMITS.parameters, `${fn.parameters} parameters`, 'Group related parameters into an options object'],
+    ];
+    for (const [id, value, limits, detail, fix] of checks) {
+      const severity = severityFor(value, limits);
+      if (severity) {
+        violations.push({ id, severity, message: `${fn.name}() has ${detail}`, ...at, fix });
+      }
+    }
   }
 
-  // Deep nesting: >5 levels
-  if (metrics.maxNestingDepth > 5) {
-    smellsFound++;
+  for (const binding of analysis.unusedImports) {
     violations.push({
-      id: 'deep-nesting',
-      severity: metrics.maxNestingDepth > 8 ? 'error' : 'warning',
-      message: `Nesting depth of ${metrics.maxNestingDepth} in ${relPath}`,
+      id: 'unused-import',
+      severity: 'warning',
+      message: `'${binding.name}' is imported from '${binding.module}' but never used`,
       file: relPath,
-      fix: 'Use early returns, extract conditions, or flatten with Promise.all',
+      line: binding.line,
+      column: binding.column,
+      fix: 'Remove the unused import',
     });
   }
+}
+
+/**
+ * Exports no other analyzed file imports (full scans only)
+ */
+function findUnusedExports(
+  workspaceRoot: string,
+  analyses: Map<string, SourceAnalysis>,
+  violations: ScanViolation[],
+): void {
+  const known = new Set(analyses.keys());
+  const used = new Map<string, Set<string>>();
+
+  for (const [filePath, analysis] of analyses) {
+    for (const [specifier, names] of analysis.moduleUsage) {
+      const target = moduleCandidates(filePath, specifier).find((candidate) => known.has(candidate));
+      if (!target) continue;
+      const set = used.get(target) ?? new Set<string>();
+      names.forEach((name) => set.add(name));
+      used.set(target, set);
+    }
+  }
 
-  // Excessive file size (>50KB)
-  try {
-    const fileStat = await stat(filePath);
-    if (fileStat.size > 50_000) {
-      smellsFound++;
+  for (const [filePath, analysis] of analyses) {
+    const relPath = relativePath(workspaceRoot, filePath);
+    if (ENTRY_FILE.test(relPath) || relPath.endsWith('.d.ts')) continue;
+    const names = used.get(filePath);
+    if (names?.has('*')) continue;
+
+    for (const binding of analysis.exports) {
+      if (names?.has(binding.name)) continue;
       violations.push({
-        id: 'oversized-file',
-        severity: 'warning',
-        message: `File is ${Math.round(fileStat.size / 1024)}KB: ${relPath}`,
+        id: 'unused-export',
+        severity: 'info',
+        message: `'${binding.name}' is exported but not imported anywhere in the workspace`,
         file: relPath,
-        fix: 'Large files are harder to maintain — consider splitting',
+        line: binding.line,
+        column: binding.column,
+        fix: 'Remove the export (or the code) if nothing outside the workspace uses it',
       });
     }
-  } catch {
-    // stat failed, skip
   }
-
-  return smellsFound;
 }
 
 async function staticCodeSmellScan(
@@ -172,15 +152,47 @@ async function staticCodeSmellScan(
 ): Promise<ScanResult> {
   const start = Date.now();
   const violations: ScanViolation[] = [];
+  const analyses = new Map<string, SourceAnalysis>();
   let filesChecked = 0;
-  let smellsFound = 0;
+  let magicNumbers = 0;
+  const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
   for (const filePath of files) {
+    context.signal?.throwIfAborted();
+    const content = await index.read(filePath);
+    if (content === null) continue;
     filesChecked++;
-    const fileSmells = await checkFileForSmells(filePath, context.workspaceRoot, violations);
-    smellsFound += fileSmells;
+
+    const relPath = relativePath(context.workspaceRoot, filePath);
+    const analysis = await analyzeSource(filePath, content);
+    analyses.set(filePath, analysis);
+    magicNumbers += analysis.magicNumbers;
+    checkFileForSmells(relPath, content, analysis, violations);
+
+    // Excessive file size (>50KB)
+    try {
+      const fileStat = await stat(filePath);
+      if (fileStat.size > 50_000) {
+        violations.push({
+          id: 'oversized-file',
+          severity: 'warning',
+          message: `File is ${Math.round(fileStat.size / 1024)}KB: ${relPath}`,
+          file: relPath,
+          fix: 'Large files are harder to maintain — consider splitting',
+        });
+      }
+    } catch {
+      // stat failed, skip
+    }
+  }
+
+  // Importers of a file may be outside a partial file list
+  if (!context.files) {
+    findUnusedExports(context.workspaceRoot, analyses, violations);
   }
 
+  // Informational findings (unused exports) don't count toward the smell rate
+  const smellsFound = violations.filter((v) => v.severity !== 'info').length;
   const smellRate = filesChecked > 0 ? smellsFound / filesChecked : 0;
   const status = smellRate <= 0.05 ? 'pass' : smellRate <= 0.15 ? 'warn' : 'fail';
 
@@ -193,6 +205,9 @@ async function staticCodeSmellScan(
       filesChecked,
       smellsFound,
       smellRate: Math.round(smellRate * 1000) / 10,
+      unusedImports: violations.filter((v) => v.id === 'unused-import').length,
+      unusedExports: violations.filter((v) => v.id === 'unused-export').length,
+      magicNumbers,
       aiPowered: 0,
     },
     duration: Date.now() - start,
@@ -274,13 +289,15 @@ export const codeSmellScanner: Scanner = {
   name: 'Code Smell Detection (AI)',
   description: 'AI-enhanced code smell and quality issue detection',
   category: 'compliance',
+  version: SCANNER_VERSION,
 
   async scan(context: ScanContext): Promise<ScanResult> {
     const start = Date.now();
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
     const files =
       context.files ??
-      (await discoverFiles(context.workspaceRoot, {
+      (await index.discover(context.workspaceRoot, {
         extensions: ['.ts', '.tsx'],
         ignore: [
           '__tests__', '*.test.*', '*.spec.*', 'node_modules',
@@ -289,16 +306,18 @@ export const codeSmellScanner: Scanner = {
       }));
 
     // Try AI analysis first
-    const aiResult = await runAIAnalysis(context, files, {
+    const aiResult = await runAIAnalysis({ ...context, index }, files, {
       systemPrompt: SYSTEM_PROMPT,
       buildUserPrompt,
       parseResponse,
       maxFileChars: 5000,
       batchSize: 5,
+      scannerId: 'code-smell',
+      scannerVersion: SCANNER_VERSION,
     });
 
     if (aiResult.offline) {
-      return staticCodeSmellScan(context, files);
+      return staticCodeSmellScan({ ...context, index }, files);
     }
 
     return buildAIScanResult(
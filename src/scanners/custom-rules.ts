@@ -0,0 +1,172 @@
+/**
+ * Custom Rules Scanner
+ *
+ * Runs declarative regex rules from `.dcyfr/rules/*.json|yaml` — the
+ * same shape as the built-in token and sensitive-data patterns, without
+ * writing a scanner. Rules with a `replacement` are auto-fixable.
+ *
+ * @module @dcyfr/ai-cli/scanners/custom-rules
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
+import {
+  applyRuleReplacement,
+  findRuleMatches,
+  formatRuleMessage,
+  loadRules,
+  ruleAppliesTo,
+} from '@/rules/index.js';
+import { applyFixPlan } from '@/fix/patches.js';
+import type {
+  Scanner,
+  ScanContext,
+  ScanResult,
+  ScanViolation,
+  FixResult,
+  FixPlan,
+  FilePatch,
+} from './types.js';
+
+export const customRulesScanner: Scanner = {
+  id: 'custom-rules',
+  name: 'Custom Rules',
+  description: 'Runs workspace-defined regex rules from .dcyfr/rules/',
+  category: 'governance',
+
+  async scan(context: ScanContext): Promise<ScanResult> {
+    const start = Date.now();
+    const { rules, errors } = await loadRules(context.workspaceRoot);
+
+    const violations: ScanViolation[] = errors.map((error) => ({
+      id: 'invalid-rule-file',
+      severity: 'error',
+      message: `Invalid custom rule in ${error.file}: ${error.message}`,
+      file: error.file,
+      fix: 'Fix the rule definition (see dcyfr rules list)',
+      autoFixable: false,
+    }));
+    const warnings: ScanViolation[] = [];
+
+    if (rules.length === 0 && violations.length === 0) {
+      return {
+        scanner: 'custom-rules',
+        status: 'skipped',
+        violations,
+        warnings,
+        metrics: { rules: 0, filesScanned: 0 },
+        duration: Date.now() - start,
+        timestamp: new Date().toISOString(),
+        summary: 'No custom rules defined in .dcyfr/rules/',
+      };
+    }
+
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
+    const files = context.files ?? (await index.discover(context.workspaceRoot));
+    let filesScanned = 0;
+
+    for (const filePath of files) {
+      context.signal?.throwIfAborted();
+      const relPath = relativePath(context.workspaceRoot, filePath);
+      const applicable = rules.filter((rule) => ruleAppliesTo(rule, relPath));
+      if (applicable.length === 0) continue;
+
+      const content = await index.read(filePath);
+      // Skip unreadable and binary files
+      if (content === null || content.includes('\0')) continue;
+      filesScanned++;
+
+      for (const rule of applicable) {
+        for (const match of findRuleMatches(rule, content)) {
+          const violation: ScanViolation = {
+            id: rule.id,
+            severity: rule.severity,
+            message: formatRuleMessage(match),
+            file: relPath,
+            line: match.line,
+            column: match.column,
+            fix: rule.fix,
+            autoFixable: rule.replacement !== undefined,
+          };
+          if (rule.severity === 'error') {
+            violations.push(violation);
+          } else {
+            warnings.push(violation);
+          }
+        }
+      }
+    }
+
+    const status = violations.length > 0 ? 'fail' : warnings.length > 0 ? 'warn' : 'pass';
+
+    return {
+      scanner: 'custom-rules',
+      status,
+      violations,
+      warnings,
+      metrics: {
+        rules: rules.length,
+        invalidRules: errors.length,
+        filesScanned,
+        totalViolations: violations.length,
+        totalWarnings: warnings.length,
+      },
+      duration: Date.now() - start,
+      timestamp: new Date().toISOString(),
+      summary: `${rules.length} rules over ${filesScanned} files: ${violations.length} errors, ${warnings.length} warnings`,
+    };
+  },
+
+  async plan(context: ScanContext, violations: ScanViolation[]): Promise<FixPlan> {
+    const { rules } = await loadRules(context.workspaceRoot);
+    const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+    const patches: FilePatch[] = [];
+    const failures: Array<{ file: string; reason: string }> = [];
+
+    // One patch per rule per line: the replacement is applied to the whole line
+    const groups = new Map<string, ScanViolation[]>();
+    for (const violation of violations) {
+      if (!violation.file || violation.line === undefined) continue;
+      if (rulesById.get(violation.id)?.replacement === undefined) continue;
+      const key = `${violation.file}\0${violation.id}\0${violation.line}`;
+      groups.set(key, [...(groups.get(key) ?? []), violation]);
+    }
+
+    const contents = new Map<string, string | null>();
+    for (const group of groups.values()) {
+      const { file, id, line } = group[0]! as ScanViolation & { file: string; line: number };
+      if (!contents.has(file)) {
+        contents.set(file, await readFile(join(context.workspaceRoot, file), 'utf-8').catch(() => null));
+      }
+      const content = contents.get(file);
+      if (content === null || content === undefined) {
+        failures.push({ file, reason: 'File could not be read' });
+        continue;
+      }
+
+      const lines = content.split('\n');
+      const text = lines[line - 1];
+      if (text === undefined) continue;
+      const replaced = applyRuleReplacement(rulesById.get(id)!, text);
+      if (replaced === text) continue;
+
+      const start = lines.slice(0, line - 1).reduce((offset, l) => offset + l.length + 1, 0);
+      patches.push({
+        scanner: 'custom-rules',
+        file,
+        original: content,
+        edits: [{ start, end: start + text.length, text: replaced }],
+        violations: group,
+        description: `Apply ${id} replacement`,
+      });
+    }
+
+    return { scanner: 'custom-rules', patches, failures };
+  },
+
+  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
+    return applyFixPlan(context, await customRulesScanner.plan!(context, violations));
+  },
+};
@@ -1,18 +1,30 @@
 /**
  * Dependency Audit Scanner
  *
- * Runs `npm audit` across workspace packages to detect
- * known vulnerabilities in dependencies.
+ * Detects known vulnerabilities in dependencies. With an advisory snapshot
+ * imported by `dcyfr advisories import`, the lockfiles of the workspace
+ * and of each project are matched against it offline, and findings name
+ * the dependency chain that pulls the package in. Without one, it falls
+ * back to `npm audit` at the workspace root.
  *
  * @module @dcyfr/ai-cli/scanners/dependency-audit
  */
 
 import { execFile } from 'child_process';
 import { promisify } from 'util';
+import { AdvisoryDatabase, findVulnerabilities } from '@/advisories/index.js';
+import { relativePath } from '@/lib/files.js';
+import { findWorkspaceLockfiles, readLockfile } from '@/lib/lockfile.js';
+import { loadConfig } from '@/config/schema.js';
+import type { AdvisorySeverity } from '@/advisories/index.js';
 import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
 
 const execFileAsync = promisify(execFile);
 
+/** `auto` uses the advisory snapshot when one has been imported */
+const AUDIT_SOURCES = ['auto', 'npm', 'offline'] as const;
+type AuditSource = (typeof AUDIT_SOURCES)[number];
+
 interface NpmAuditResult {
   vulnerabilities?: Record<
     string,
@@ -70,69 +82,42 @@ export const dependencyAuditScanner: Scanner = {
   category: 'security',
 
   async scan(context: ScanContext): Promise<ScanResult> {
-    const start = Date.now();
-    const violations: ScanViolation[] = [];
-    const warnings: ScanViolation[] = [];
-
-    try {
-      // Run npm audit at workspace root (covers all workspaces)
-      const { stdout } = await execFileAsync('npm', ['audit', '--json', '--audit-level=low'], {
-        cwd: context.workspaceRoot,
-        timeout: 30000,
-      }).catch((err) => {
-        // npm audit exits non-zero when vulnerabilities are found
-        if (err.stdout) return { stdout: err.stdout as string };
-        throw err;
-      });
-
-      let audit: NpmAuditResult;
-      try {
-        audit = JSON.parse(stdout) as NpmAuditResult;
-      } catch {
-        return {
-          scanner: 'dependency-audit',
-          status: 'error',
-          violations: [],
-          warnings: [],
-          metrics: {},
-          duration: Date.now() - start,
-          timestamp: new Date().toISOString(),
-          summary: 'Failed to parse npm audit output',
-        };
+    const source = await loadAuditSource(context.workspaceRoot);
+    if (source !== 'npm') {
+      const db = await AdvisoryDatabase.open(context.workspaceRoot);
+      if (db) return offlineAudit(context, db, source);
+      if (source === 'offline') {
+        throw new Error('No advisory snapshot found. Import one with: dcyfr advisories import <osv-dir>');
       }
+    }
+    return npmAudit(context);
+  },
+};
 
-      const meta = audit.metadata?.vulnerabilities;
-      const totalVulns = meta?.total ?? 0;
-
-      processVulnerabilities(audit, violations, warnings);
+/**
+ * Run `npm audit` at the workspace root (needs the network)
+ */
+async function npmAudit(context: ScanContext): Promise<ScanResult> {
+  const start = Date.now();
+  const violations: ScanViolation[] = [];
+  const warnings: ScanViolation[] = [];
 
-      const status =
-        (meta?.critical ?? 0) > 0 || (meta?.high ?? 0) > 0
-          ? 'fail'
-          : totalVulns > 0
-            ? 'warn'
-            : 'pass';
+  try {
+    // Run npm audit at workspace root (covers all workspaces)
+    const { stdout } = await execFileAsync('npm', ['audit', '--json', '--audit-level=low'], {
+      cwd: context.workspaceRoot,
+      timeout: 30000,
+      signal: context.signal,
+    }).catch((err) => {
+      // npm audit exits non-zero when vulnerabilities are found
+      if (err.stdout) return { stdout: err.stdout as string };
+      throw err;
+    });
 
-      return {
-        scanner: 'dependency-audit',
-        status,
-        violations,
-        warnings,
-        metrics: {
-          critical: meta?.critical ?? 0,
-          high: meta?.high ?? 0,
-          moderate: meta?.moderate ?? 0,
-          low: meta?.low ?? 0,
-          total: totalVulns,
-        },
-        duration: Date.now() - start,
-        timestamp: new Date().toISOString(),
-        summary:
-          totalVulns === 0
-            ? 'No known vulnerabilities found'
-            : `${totalVulns} vulnerabilities (${meta?.critical ?? 0} critical, ${meta?.high ?? 0} high, ${meta?.moderate ?? 0} moderate, ${meta?.low ?? 0} low)`,
-      };
-    } catch (error) {
+    let audit: NpmAuditResult;
+    try {
+      audit = JSON.parse(stdout) as NpmAuditResult;
+    } catch {
       return {
         scanner: 'dependency-audit',
         status: 'error',
@@ -141,8 +126,128 @@ export const dependencyAuditScanner: Scanner = {
         metrics: {},
         duration: Date.now() - start,
         timestamp: new Date().toISOString(),
-        summary: `npm audit failed: ${error instanceof Error ? error.message : String(error)}`,
+        summary: 'Failed to parse npm audit output',
       };
     }
-  },
-};
+
+    const meta = audit.metadata?.vulnerabilities;
+    const totalVulns = meta?.total ?? 0;
+
+    processVulnerabilities(audit, violations, warnings);
+
+    const status =
+      (meta?.critical ?? 0) > 0 || (meta?.high ?? 0) > 0
+        ? 'fail'
+        : totalVulns > 0
+          ? 'warn'
+          : 'pass';
+
+    return {
+      scanner: 'dependency-audit',
+      status,
+      violations,
+      warnings,
+      metrics: {
+        critical: meta?.critical ?? 0,
+        high: meta?.high ?? 0,
+        moderate: meta?.moderate ?? 0,
+        low: meta?.low ?? 0,
+        total: totalVulns,
+      },
+      duration: Date.now() - start,
+      timestamp: new Date().toISOString(),
+      summary:
+        totalVulns === 0
+          ? 'No known vulnerabilities found'
+          : `${totalVulns} vulnerabilities (${meta?.critical ?? 0} critical, ${meta?.high ?? 0} high, ${meta?.moderate ?? 0} moderate, ${meta?.low ?? 0} low)`,
+    };
+  } catch (error) {
+    return {
+      scanner: 'dependency-audit',
+      status: 'error',
+      violations: [],
+      warnings: [],
+      metrics: {},
+      duration: Date.now() - start,
+      timestamp: new Date().toISOString(),
+      summary: `npm audit failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Match the lockfiles of the workspace and its projects against the
+ * imported advisory snapshot. Without a lockfile there is nothing to
+ * match: the scan is skipped, or fails when the offline source is required.
+ */
+async function offlineAudit(context: ScanContext, db: AdvisoryDatabase, source: AuditSource): Promise<ScanResult> {
+  const start = Date.now();
+  const violations: ScanViolation[] = [];
+  const warnings: ScanViolation[] = [];
+  const counts: Record<AdvisorySeverity, number> = { critical: 0, high: 0, moderate: 0, low: 0 };
+  let lockfiles = 0;
+  let packages = 0;
+
+  const found = await findWorkspaceLockfiles(context.workspaceRoot, context.project);
+  if (found.length === 0) {
+    const where = context.project ? ` for ${context.project} or the workspace above it` : '';
+    return {
+      scanner: 'dependency-audit',
+      status: source === 'offline' ? 'error' : 'skipped',
+      violations,
+      warnings,
+      metrics: {},
+      duration: Date.now() - start,
+      timestamp: new Date().toISOString(),
+      summary: `No lockfiles found${where}; nothing to audit offline`,
+    };
+  }
+
+  for (const { file, importer } of found) {
+    context.signal?.throwIfAborted();
+    const lockfile = await readLockfile(file, importer);
+    const relPath = relativePath(context.workspaceRoot, file);
+    lockfiles++;
+    packages += lockfile.packages.length;
+
+    for (const match of await findVulnerabilities(db, lockfile.packages)) {
+      counts[match.severity]++;
+      const blocking = match.severity === 'critical' || match.severity === 'high';
+      const summary = match.advisory.summary ? `: ${match.advisory.summary}` : '';
+      (blocking ? violations : warnings).push({
+        id: `vuln-${match.name}`,
+        severity: blocking ? 'error' : 'warning',
+        message: `${match.severity} ${match.advisory.id} in ${match.name}@${match.version} (via ${match.path.join(' > ')})${match.dev ? ' [dev]' : ''}${summary}`,
+        file: relPath,
+        fix: match.fixedIn ? `Upgrade ${match.name} to ${match.fixedIn} or later` : 'No fixed version available — manual review required',
+        autoFixable: false,
+      });
+    }
+  }
+
+  const total = counts.critical + counts.high + counts.moderate + counts.low;
+  const snapshotDate = db.index.importedAt.slice(0, 10);
+
+  return {
+    scanner: 'dependency-audit',
+    status: violations.length > 0 ? 'fail' : total > 0 ? 'warn' : 'pass',
+    violations,
+    warnings,
+    metrics: { ...counts, total, lockfiles, packages, offline: 1 },
+    duration: Date.now() - start,
+    timestamp: new Date().toISOString(),
+    summary:
+      total === 0
+        ? `No known vulnerabilities in ${packages} packages (${lockfiles} lockfiles, advisories from ${snapshotDate})`
+        : `${total} vulnerabilities (${counts.critical} critical, ${counts.high} high, ${counts.moderate} moderate, ${counts.low} low) in ${lockfiles} lockfiles [offline, advisories from ${snapshotDate}]`,
+  };
+}
+
+async function loadAuditSource(workspaceRoot: string): Promise<AuditSource> {
+  const { config } = await loadConfig(workspaceRoot);
+  const source = config.scanners['dependency-audit']?.options?.['source'] ?? 'auto';
+  if (!AUDIT_SOURCES.includes(source as AuditSource)) {
+    throw new Error(`dependency-audit option source must be one of: ${AUDIT_SOURCES.join(', ')}`);
+  }
+  return source as AuditSource;
+}
@@ -0,0 +1,615 @@
+/**
+ * Dependency Hygiene Scanner
+ *
+ * Compares each project's `package.json` with the packages its sources
+ * import: dependencies that are never imported, imports of packages that
+ * aren't declared, devDependencies imported by runtime code, and packages
+ * declared with different version ranges across workspace projects.
+ * Misplaced devDependencies are fixed by editing `package.json`; unused
+ * dependencies are only removed with the `removeUnused` option, since
+ * packages can be needed without being imported.
+ *
+ * @module @dcyfr/ai-cli/scanners/dependency-hygiene
+ */
+
+import { builtinModules } from 'module';
+import { readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { listProjects, pathExists, readPackageJson, relativePath } from '@/lib/files.js';
+import { matchesWildcard } from '@/lib/glob.js';
+import { analyzeSource } from '@/lib/ast.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
+import { loadConfig } from '@/config/schema.js';
+import { applyEdits, applyFixPlan } from '@/fix/patches.js';
+import type { ModuleReference } from '@/lib/ast.js';
+import type {
+  Scanner,
+  ScanContext,
+  ScanResult,
+  ScanViolation,
+  FixPlan,
+  FixResult,
+  FilePatch,
+  TextEdit,
+} from './types.js';
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** Project-relative paths of code that only runs during development */
+const DEV_FILE =
+  /(^|\/)(__tests__|__mocks__|tests?|e2e|scripts)\/|\.(test|spec|stories)\.[cm]?[jt]sx?$|^[^/]+\.(config|setup)\.[cm]?[jt]s$/;
+
+/** Local specifiers that aren't packages: `@/` and `~/` aliases, `#` subpath imports */
+const LOCAL_SPECIFIER = /^(\.|\/|@\/|~\/|#)/;
+
+const BUILTINS = new Set(builtinModules);
+
+const DEPENDENCY_FIELDS = ['dependencies', 'peerDependencies', 'optionalDependencies', 'devDependencies'] as const;
+
+type DependencyField = (typeof DEPENDENCY_FIELDS)[number];
+
+interface PackageManifest extends Partial<Record<DependencyField, Record<string, string>>> {
+  name?: string;
+  scripts?: Record<string, string>;
+}
+
+/** `scanners["dependency-hygiene"].options` */
+interface HygieneOptions {
+  /** Package names (`*` wildcards) never reported */
+  ignore: string[];
+  /** Let `dcyfr fix` remove unused dependencies */
+  removeUnused: boolean;
+}
+
+interface Project {
+  /** Absolute project directory */
+  dir: string;
+  /** Workspace-relative `package.json` path */
+  manifestFile: string;
+  content: string;
+  manifest: PackageManifest;
+}
+
+/** Where a package is imported from */
+interface PackageUse {
+  file: string;
+  reference: ModuleReference;
+  runtime: boolean;
+}
+
+export const dependencyHygieneScanner: Scanner = {
+  id: 'dependency-hygiene',
+  name: 'Dependency Hygiene',
+  description: 'Unused, undeclared, misplaced and version-skewed package dependencies',
+  category: 'cleanup',
+
+  async scan(context: ScanContext): Promise<ScanResult> {
+    const start = Date.now();
+    const options = await loadOptions(context.workspaceRoot);
+    const isIgnored = (name: string): boolean => matchesWildcard(name, options.ignore);
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
+    const violations: ScanViolation[] = [];
+    const warnings: ScanViolation[] = [];
+
+    const projects = await loadProjects(context.workspaceRoot, context.project);
+    const analyzed = projects.filter((project) => isAffected(project, projects, context.files));
+    let declared = 0;
+
+    for (const project of analyzed) {
+      context.signal?.throwIfAborted();
+      const uses = await collectPackageUses(context.workspaceRoot, project, projects, index, context.signal);
+      const fields = declaredFields(project.manifest);
+      declared += fields.size;
+      let peers: Set<string> | undefined;
+
+      // Imports of packages the project doesn't declare
+      for (const [name, packageUses] of uses) {
+        if (isIgnored(name) || fields.has(name) || fields.has(typesPackage(name))) continue;
+        const reported = new Set<string>();
+        for (const use of packageUses) {
+          if (reported.has(use.file)) continue;
+          reported.add(use.file);
+          violations.push({
+            id: 'undeclared-dependency',
+            severity: 'error',
+            message: `${name} is imported but not declared in ${project.manifestFile}`,
+            file: use.file,
+            line: use.reference.line,
+            column: use.reference.column,
+            fix: `Add ${name} to ${use.runtime ? 'dependencies' : 'devDependencies'}`,
+          });
+        }
+      }
+
+      for (const [name, field] of fields) {
+        if (isIgnored(name)) continue;
+        const location = { file: project.manifestFile, line: declarationLine(project.content, field, name) };
+
+        // devDependencies aren't installed in production
+        const runtimeUses = (uses.get(name) ?? []).filter((use) => use.runtime && !use.reference.typeOnly);
+        if (field === 'devDependencies' && runtimeUses.length > 0) {
+          // Import locations stay out of the message, which the baseline fingerprints
+          const first = runtimeUses[0]!;
+          const more = runtimeUses.length > 1 ? ` and ${runtimeUses.length - 1} more` : '';
+          violations.push({
+            id: 'dev-dependency-in-runtime',
+            severity: 'error',
+            message: `${name} is a devDependency but runtime code imports it`,
+            ...location,
+            fix: `Move ${name} to dependencies (imported by ${first.file}:${first.reference.line}${more})`,
+            autoFixable: true,
+            data: { package: name },
+          });
+        }
+
+        if (field === 'dependencies' && !isUsed(name, project, uses)) {
+          peers ??= await peerRequirements(context.workspaceRoot, project);
+          if (peers.has(name)) continue;
+          warnings.push({
+            id: 'unused-dependency',
+            severity: 'warning',
+            message: `${name} is declared in dependencies but never imported`,
+            ...location,
+            fix: `Remove ${name} from ${project.manifestFile}, or add it to the ignore option if it is used outside the sources`,
+            autoFixable: options.removeUnused,
+            data: { package: name },
+          });
+        }
+      }
+    }
+
+    // Same package, different ranges across projects
+    let skewed = 0;
+    for (const [name, ranges] of versionRanges(projects)) {
+      if (isIgnored(name) || new Set(ranges.map((r) => r.range)).size < 2) continue;
+      skewed++;
+      for (const { project, field, range } of ranges) {
+        if (!analyzed.includes(project)) continue;
+        const others = ranges
+          .filter((r) => r.project !== project && r.range !== range)
+          .map((r) => `${r.range} in ${r.project.manifestFile}`);
+        warnings.push({
+          id: 'version-skew',
+          severity: 'warning',
+          message: `${name} is declared as ${range} here but ${others.join(', ')}`,
+          file: project.manifestFile,
+          line: declarationLine(project.content, field, name),
+          fix: `Use the same version range of ${name} in every project`,
+        });
+      }
+    }
+
+    const count = (id: string): number => [...violations, ...warnings].filter((v) => v.id === id).length;
+
+    return {
+      scanner: 'dependency-hygiene',
+      status: violations.length > 0 ? 'fail' : warnings.length > 0 ? 'warn' : 'pass',
+      violations,
+      warnings,
+      metrics: {
+        projects: analyzed.length,
+        dependencies: declared,
+        unused: count('unused-dependency'),
+        undeclared: count('undeclared-dependency'),
+        devInRuntime: count('dev-dependency-in-runtime'),
+        skewed,
+      },
+      duration: Date.now() - start,
+      timestamp: new Date().toISOString(),
+      summary:
+        analyzed.length === 0
+          ? 'No package.json changes or sources to check'
+          : `${analyzed.length} projects: ${count('unused-dependency')} unused, ${count('undeclared-dependency')} undeclared imports, ${count('dev-dependency-in-runtime')} devDependencies in runtime code, ${skewed} packages with version skew`,
+    };
+  },
+
+  async plan(context: ScanContext, violations: ScanViolation[]): Promise<FixPlan> {
+    const { removeUnused } = await loadOptions(context.workspaceRoot);
+    const patches: FilePatch[] = [];
+    const failures: Array<{ file: string; reason: string }> = [];
+
+    const byManifest = new Map<string, ScanViolation[]>();
+    for (const violation of violations) {
+      const fixable =
+        violation.id === 'dev-dependency-in-runtime' || (violation.id === 'unused-dependency' && removeUnused);
+      if (!fixable || !violation.file || !violation.data?.['package']) continue;
+      byManifest.set(violation.file, [...(byManifest.get(violation.file) ?? []), violation]);
+    }
+
+    for (const [file, fixable] of byManifest) {
+      try {
+        const original = await readFile(join(context.workspaceRoot, file), 'utf-8');
+        const manifest = JSON.parse(original) as PackageManifest;
+        const planned: ScanViolation[] = [];
+        const removed = new Set<string>();
+        const moved = new Map<string, string>();
+
+        for (const violation of fixable) {
+          const name = violation.data!['package']!;
+          if (violation.id === 'unused-dependency' && manifest.dependencies?.[name] !== undefined) {
+            removed.add(name);
+          } else if (violation.id === 'dev-dependency-in-runtime' && manifest.devDependencies?.[name] !== undefined) {
+            moved.set(name, manifest.devDependencies[name]!);
+          } else {
+            continue;
+          }
+          planned.push(violation);
+        }
+        if (planned.length === 0) continue;
+
+        const edits = manifestEdits(original, removed, moved);
+        // Guard against layouts the entry edits don't understand
+        JSON.parse(applyEdits(original, edits));
+        const changes = [
+          removed.size > 0 ? `remove ${removed.size} unused` : '',
+          moved.size > 0 ? `move ${moved.size} to dependencies` : '',
+        ]
+          .filter(Boolean)
+          .join(', ');
+
+        patches.push({
+          scanner: 'dependency-hygiene',
+          file,
+          original,
+          edits,
+          violations: planned,
+          description: `${file}: ${changes}`,
+        });
+      } catch (error) {
+        failures.push({ file, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return { scanner: 'dependency-hygiene', patches, failures };
+  },
+
+  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
+    return applyFixPlan(context, await dependencyHygieneScanner.plan!(context, violations));
+  },
+};
+
+// ── Projects ─────────────────────────────────────────────────
+
+/**
+ * The workspace root (when it has a `package.json`) and each project, or
+ * only the requested project
+ */
+async function loadProjects(workspaceRoot: string, only?: string): Promise<Project[]> {
+  const dirs = only
+    ? [join(workspaceRoot, only)]
+    : [workspaceRoot, ...(await listProjects(workspaceRoot)).map((p) => join(workspaceRoot, p))];
+  const projects: Project[] = [];
+
+  for (const dir of dirs) {
+    const path = join(dir, 'package.json');
+    if (!(await pathExists(path))) continue;
+    const manifestFile = relativePath(workspaceRoot, path);
+    const content = await readFile(path, 'utf-8');
+    try {
+      projects.push({ dir, manifestFile, content, manifest: JSON.parse(content) as PackageManifest });
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${manifestFile}`, { cause: error });
+    }
+  }
+  return projects;
+}
+
+/**
+ * Whether any changed file belongs to the project (undefined = full scan)
+ */
+function isAffected(project: Project, projects: Project[], files: string[] | undefined): boolean {
+  if (!files) return true;
+  return files.some((file) => ownerOf(file, projects) === project);
+}
+
+/**
+ * The innermost project containing a file
+ */
+function ownerOf(file: string, projects: Project[]): Project | undefined {
+  return projects
+    .filter((p) => file.startsWith(p.dir + '/'))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+}
+
+/**
+ * Packages imported by a project's sources (excluding nested projects)
+ */
+async function collectPackageUses(
+  workspaceRoot: string,
+  project: Project,
+  projects: Project[],
+  index: WorkspaceIndex,
+  signal: AbortSignal | undefined,
+): Promise<Map<string, PackageUse[]>> {
+  const uses = new Map<string, PackageUse[]>();
+  const files = await index.discover(project.dir, { extensions: SOURCE_EXTENSIONS });
+
+  for (const filePath of files) {
+    signal?.throwIfAborted();
+    if (ownerOf(filePath, projects) !== project) continue;
+    const content = await index.read(filePath);
+    if (content === null) continue;
+
+    const file = relativePath(workspaceRoot, filePath);
+    const runtime = !DEV_FILE.test(relativePath(project.dir, filePath));
+    const { moduleReferences } = await analyzeSource(filePath, content);
+
+    for (const reference of moduleReferences) {
+      const name = packageName(reference.module);
+      if (!name || name === project.manifest.name) continue;
+      uses.set(name, [...(uses.get(name) ?? []), { file, reference, runtime }]);
+    }
+  }
+  return uses;
+}
+
+/**
+ * Package a specifier imports from, or null for local files and builtins
+ */
+function packageName(specifier: string): string | null {
+  if (LOCAL_SPECIFIER.test(specifier) || specifier.startsWith('node:')) return null;
+  const segments = specifier.split('/');
+  const name = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0]!;
+  return BUILTINS.has(name) ? null : name;
+}
+
+/**
+ * `@types` package that provides types for a package
+ */
+function typesPackage(name: string): string {
+  return `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+}
+
+/**
+ * Declared packages and the field each is declared in (runtime fields win)
+ */
+function declaredFields(manifest: PackageManifest): Map<string, DependencyField> {
+  const fields = new Map<string, DependencyField>();
+  for (const field of DEPENDENCY_FIELDS) {
+    for (const name of Object.keys(manifest[field] ?? {})) {
+      if (!fields.has(name)) fields.set(name, field);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Whether a declared dependency is imported, provides types for an
+ * imported package or a builtin, or is run by an npm script (peers of
+ * installed packages are checked separately)
+ */
+function isUsed(name: string, project: Project, uses: Map<string, PackageUse[]>): boolean {
+  if (uses.has(name)) return true;
+  if (name === '@types/node') return true;
+  if (name.startsWith('@types/') && [...uses.keys()].some((used) => typesPackage(used) === name)) return true;
+
+  const command = name.split('/').pop()!;
+  return Object.values(project.manifest.scripts ?? {}).some((script) =>
+    script.split(/[\s;&|()]+/).some((word) => word === command || word === name),
+  );
+}
+
+/**
+ * Packages the project's installed dependencies require as peers (e.g.
+ * `react-dom` for `next`): declared for them, not imported
+ */
+async function peerRequirements(workspaceRoot: string, project: Project): Promise<Set<string>> {
+  const peers = new Set<string>();
+  for (const name of declaredFields(project.manifest).keys()) {
+    const manifest = await readInstalledManifest(workspaceRoot, project.dir, name);
+    for (const peer of Object.keys(manifest?.peerDependencies ?? {})) {
+      peers.add(peer);
+    }
+  }
+  return peers;
+}
+
+/**
+ * `package.json` of an installed package, found in `node_modules` of the
+ * project or a parent directory up to the workspace root
+ */
+async function readInstalledManifest(workspaceRoot: string, dir: string, name: string): Promise<PackageManifest | null> {
+  for (let current = dir; ; current = dirname(current)) {
+    const path = join(current, 'node_modules', name, 'package.json');
+    if (await pathExists(path)) return readPackageJson<PackageManifest>(path);
+    if (current === workspaceRoot || dirname(current) === current) return null;
+  }
+}
+
+/**
+ * Version ranges per package across projects (peer ranges are
+ * intentionally broad, local protocols aren't versions)
+ */
+function versionRanges(
+  projects: Project[],
+): Map<string, Array<{ project: Project; field: DependencyField; range: string }>> {
+  const ranges = new Map<string, Array<{ project: Project; field: DependencyField; range: string }>>();
+  for (const project of projects) {
+    for (const field of ['dependencies', 'optionalDependencies', 'devDependencies'] as const) {
+      for (const [name, range] of Object.entries(project.manifest[field] ?? {})) {
+        if (/^(workspace|file|link|portal):/.test(range)) continue;
+        if (ranges.get(name)?.some((r) => r.project === project)) continue;
+        ranges.set(name, [...(ranges.get(name) ?? []), { project, field, range }]);
+      }
+    }
+  }
+  return ranges;
+}
+
+/**
+ * 1-based line of `"name":` inside the `field` object of a package.json
+ */
+function declarationLine(content: string, field: DependencyField, name: string): number | undefined {
+  const section = new RegExp(`"${field}"\\s*:\\s*\\{`).exec(content);
+  if (!section) return undefined;
+  const end = content.indexOf('}', section.index);
+  const key = content.indexOf(JSON.stringify(name), section.index);
+  if (key === -1 || (end !== -1 && key > end)) return undefined;
+  return content.slice(0, key).split('\n').length;
+}
+
+// ── Fixes ──────────────────────────────────────────────────
+
+/** A `"name": "range"` entry of a dependency object in package.json text */
+interface ManifestEntry {
+  name: string;
+  /** Offset of the key's opening quote */
+  start: number;
+  /** Offset just after the value */
+  end: number;
+  /** Start of the entry's line when only indentation precedes it */
+  lineStart: number | null;
+  indent: string;
+}
+
+interface ManifestObject {
+  /** Offset of `{` */
+  open: number;
+  /** Offset of `}` */
+  close: number;
+  entries: ManifestEntry[];
+}
+
+/**
+ * Edits that remove unused dependencies and move devDependencies to
+ * `dependencies`, touching only those entries (and neighbouring commas)
+ */
+function manifestEdits(content: string, removed: Set<string>, moved: Map<string, string>): TextEdit[] {
+  const unit = /^[ \t]+(?=")/m.exec(content)?.[0] ?? '  ';
+  const added = [...moved].sort(([a], [b]) => a.localeCompare(b));
+  const edits = objectEdits(content, findObject(content, 'devDependencies'), new Set(moved.keys()), [], unit);
+
+  const dependencies = findObject(content, 'dependencies');
+  if (dependencies) {
+    return [...edits, ...objectEdits(content, dependencies, removed, added, unit)];
+  }
+
+  // No dependencies field yet: add one before devDependencies
+  const key = /"devDependencies"\s*:/.exec(content)!;
+  const lineStart = content.lastIndexOf('\n', key.index - 1) + 1;
+  const indent = content.slice(lineStart, key.index);
+  const lines = added.map(([name, range]) => `${indent}${unit}${entryText(name, range)}`);
+  edits.push(
+    /^[ \t]*$/.test(indent)
+      ? { start: lineStart, end: lineStart, text: `${indent}"dependencies": {\n${lines.join(',\n')}\n${indent}},\n` }
+      : { start: key.index, end: key.index, text: `"dependencies": { ${added.map(([n, r]) => entryText(n, r)).join(', ')} }, ` },
+  );
+  return edits;
+}
+
+/**
+ * Edits to one dependency object: drop `remove`, insert `add` before the
+ * first remaining entry that sorts after it (or at the end)
+ */
+function objectEdits(
+  content: string,
+  object: ManifestObject | null,
+  remove: Set<string>,
+  add: Array<[string, string]>,
+  unit: string,
+): TextEdit[] {
+  if (!object) return [];
+  const { entries } = object;
+  const kept = entries.filter((entry) => !remove.has(entry.name));
+  if (kept.length === entries.length && add.length === 0) return [];
+
+  if (kept.length === 0) {
+    const closeIndent = /[ \t]*$/.exec(content.slice(0, object.close))![0];
+    const indent = entries[0]?.indent || closeIndent + unit;
+    const text = add.map(([name, range]) => `\n${indent}${entryText(name, range)}`).join(',');
+    return [{ start: object.open + 1, end: object.close, text: text ? `${text}\n${closeIndent}` : '' }];
+  }
+
+  const edits: TextEdit[] = [];
+  const last = kept[kept.length - 1]!;
+  const lastIndex = entries.indexOf(last);
+  entries.forEach((entry, i) => {
+    if (!remove.has(entry.name) || i > lastIndex) return;
+    const next = entries[i + 1]!;
+    edits.push(
+      entry.lineStart !== null && next.lineStart !== null
+        ? { start: entry.lineStart, end: next.lineStart, text: '' }
+        : { start: entry.start, end: next.start, text: '' },
+    );
+  });
+  if (lastIndex < entries.length - 1) {
+    // Removing trailing entries also removes the comma after the last kept one
+    edits.push({ start: last.end, end: entries[entries.length - 1]!.end, text: '' });
+  }
+
+  for (const [name, range] of add) {
+    const before = kept.find((entry) => entry.name.localeCompare(name) > 0);
+    if (before) {
+      edits.push(
+        before.lineStart !== null
+          ? { start: before.lineStart, end: before.lineStart, text: `${before.indent}${entryText(name, range)},\n` }
+          : { start: before.start, end: before.start, text: `${entryText(name, range)}, ` },
+      );
+    } else {
+      const separator = last.lineStart !== null ? `,\n${last.indent}` : ', ';
+      edits.push({ start: last.end, end: last.end, text: `${separator}${entryText(name, range)}` });
+    }
+  }
+  return edits;
+}
+
+/**
+ * Locate a dependency object and its entries; throws on values that
+ * aren't version strings
+ */
+function findObject(content: string, field: DependencyField): ManifestObject | null {
+  const section = new RegExp(`"${field}"\\s*:\\s*\\{`).exec(content);
+  if (!section) return null;
+
+  const open = section.index + section[0].length - 1;
+  const entry = /\s*("(?:[^"\\]|\\.)*")\s*:\s*("(?:[^"\\]|\\.)*")\s*(,?)/dy;
+  const entries: ManifestEntry[] = [];
+  let cursor = open + 1;
+
+  for (;;) {
+    entry.lastIndex = cursor;
+    const match = entry.exec(content);
+    if (!match) break;
+    const start = match.indices![1]![0];
+    const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+    const prefix = content.slice(lineStart, start);
+    const ownLine = /^[ \t]*$/.test(prefix);
+    entries.push({
+      name: JSON.parse(match[1]!) as string,
+      start,
+      end: match.indices![2]![1],
+      lineStart: ownLine ? lineStart : null,
+      indent: ownLine ? prefix : '',
+    });
+    cursor = match.index + match[0].length;
+    if (!match[3]) break;
+  }
+
+  const close = /\s*\}/y;
+  close.lastIndex = cursor;
+  const end = close.exec(content);
+  if (!end) {
+    throw new Error(`Could not edit "${field}" in package.json (unexpected content)`);
+  }
+  return { open, close: end.index + end[0].length - 1, entries };
+}
+
+function entryText(name: string, range: string): string {
+  return `${JSON.stringify(name)}: ${JSON.stringify(range)}`;
+}
+
+// ── Options ──────────────────────────────────────────────────
+
+async function loadOptions(workspaceRoot: string): Promise<HygieneOptions> {
+  const { config } = await loadConfig(workspaceRoot);
+  const options = config.scanners['dependency-hygiene']?.options ?? {};
+  const ignore = options['ignore'] ?? [];
+  if (!Array.isArray(ignore) || ignore.some((v) => typeof v !== 'string')) {
+    throw new Error('dependency-hygiene option ignore must be an array of package names');
+  }
+  const removeUnused = options['removeUnused'] ?? false;
+  if (typeof removeUnused !== 'boolean') {
+    throw new Error('dependency-hygiene option removeUnused must be true or false');
+  }
+  return { ignore: ignore as string[], removeUnused };
+}
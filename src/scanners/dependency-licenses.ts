@@ -0,0 +1,247 @@
+/**
+ * Dependency Licenses Scanner
+ *
+ * Checks the license of every installed dependency against the allow and
+ * deny lists in `scanners["dependency-licenses"].options`. Packages come
+ * from the lockfiles of the workspace and its projects (for one project
+ * without a lockfile, from its entry in the workspace's); each license is
+ * read from the package's installed `package.json`, falling back to the
+ * lockfile. By default only packages that ship (not dev-only ones) are
+ * checked, and GPL/AGPL licenses are denied.
+ *
+ * @module @dcyfr/ai-cli/scanners/dependency-licenses
+ */
+
+import { readdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { readPackageJson, relativePath } from '@/lib/files.js';
+import { findWorkspaceLockfiles, readLockfile } from '@/lib/lockfile.js';
+import { evaluateLicense, formatLicenseExpression, parseLicenseExpression } from '@/lib/spdx.js';
+import { loadConfig } from '@/config/schema.js';
+import type { LockedPackage, Lockfile } from '@/lib/lockfile.js';
+import type { LicensePolicy } from '@/lib/spdx.js';
+import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
+
+/** Denied when no `deny` option is configured */
+const DEFAULT_DENY = ['GPL-*', 'AGPL-*'];
+
+interface LicenseOptions extends LicensePolicy {
+  /** Also check packages only reachable through devDependencies */
+  includeDev: boolean;
+  /** `name` or `name@version` → license expression to use instead */
+  overrides: Record<string, string>;
+}
+
+export const dependencyLicensesScanner: Scanner = {
+  id: 'dependency-licenses',
+  name: 'Dependency Licenses',
+  description: 'Checks installed dependency licenses against an allow/deny list',
+  category: 'governance',
+
+  async scan(context: ScanContext): Promise<ScanResult> {
+    const start = Date.now();
+    const options = await loadLicenseOptions(context.workspaceRoot);
+    const violations: ScanViolation[] = [];
+    const warnings: ScanViolation[] = [];
+    let packages = 0;
+    let allowed = 0;
+    let unknown = 0;
+
+    const lockfiles = await findWorkspaceLockfiles(context.workspaceRoot, context.project);
+    for (const { file, importer } of lockfiles) {
+      context.signal?.throwIfAborted();
+      const lockfile = await readLockfile(file, importer);
+      const relPath = relativePath(context.workspaceRoot, file);
+      const locate = installLocator(lockfile);
+
+      for (const pkg of lockfile.packages) {
+        if (pkg.dev && !options.includeDev) continue;
+        packages++;
+
+        const id = `${pkg.name}@${pkg.version}`;
+        const via = pkg.path.length > 1 ? ` (via ${pkg.path.join(' > ')})` : '';
+        const declared =
+          options.overrides[id] ??
+          options.overrides[pkg.name] ??
+          (await installedLicense(await locate(pkg))) ??
+          pkg.license;
+
+        const unknownLicense = (reason: string): void => {
+          unknown++;
+          warnings.push({
+            id: 'unknown-license',
+            severity: 'warning',
+            message: `${id} ${reason}${via}`,
+            file: relPath,
+            fix: `Check the package's license and record it in scanners["dependency-licenses"].options.overrides`,
+          });
+        };
+
+        if (!declared || declared === 'UNLICENSED' || /^SEE LICEN[CS]E IN/i.test(declared)) {
+          unknownLicense(declared ? `has a custom license (${declared})` : 'declares no license');
+          continue;
+        }
+        let expression;
+        try {
+          expression = parseLicenseExpression(declared);
+        } catch {
+          unknownLicense(`has a license that is not an SPDX expression (${declared})`);
+          continue;
+        }
+
+        const verdict = evaluateLicense(expression, options);
+        const license = formatLicenseExpression(expression);
+        if (verdict.status === 'allowed') {
+          allowed++;
+        } else if (verdict.status === 'denied') {
+          violations.push({
+            id: 'denied-license',
+            severity: 'error',
+            message: `${id} is licensed ${license}, which is denied (${verdict.licenses.join(', ')})${via}`,
+            file: relPath,
+            fix: 'Replace the dependency, or record a reviewed exception in the overrides option',
+          });
+        } else {
+          warnings.push({
+            id: 'unlisted-license',
+            severity: 'warning',
+            message: `${id} is licensed ${license}, which is not in the allow list (${verdict.licenses.join(', ')})${via}`,
+            file: relPath,
+            fix: 'Review the license and add it to the allow option, or replace the dependency',
+          });
+        }
+      }
+    }
+
+    if (lockfiles.length === 0) {
+      return {
+        scanner: 'dependency-licenses',
+        status: 'skipped',
+        violations,
+        warnings,
+        metrics: {},
+        duration: Date.now() - start,
+        timestamp: new Date().toISOString(),
+        summary: 'No lockfiles found',
+      };
+    }
+
+    const compliance = packages > 0 ? allowed / packages : 1;
+
+    return {
+      scanner: 'dependency-licenses',
+      status: violations.length > 0 ? 'fail' : warnings.length > 0 ? 'warn' : 'pass',
+      violations,
+      warnings,
+      metrics: {
+        packages,
+        allowed,
+        denied: violations.length,
+        unlisted: warnings.length - unknown,
+        unknown,
+        compliance: Math.round(compliance * 1000) / 10,
+      },
+      duration: Date.now() - start,
+      timestamp: new Date().toISOString(),
+      summary: `${allowed}/${packages} packages with allowed licenses (${violations.length} denied, ${warnings.length - unknown} unlisted, ${unknown} unknown)`,
+    };
+  },
+};
+
+// ── Installed packages ───────────────────────────────────────
+
+/**
+ * Finds the installed `package.json` of a locked package, or null when it
+ * isn't installed (or a different version is)
+ */
+function installLocator(lockfile: Lockfile): (pkg: LockedPackage) => Promise<string | null> {
+  const root = dirname(lockfile.file);
+  let pnpmStore: Promise<string[]> | undefined;
+
+  return async (pkg) => {
+    const candidates: string[] = [];
+    if (pkg.location) {
+      candidates.push(join(root, pkg.location));
+    } else if (lockfile.type === 'pnpm') {
+      // node_modules/.pnpm/<name with + for />@<version>[peer suffix]/node_modules/<name>
+      pnpmStore ??= readdir(join(root, 'node_modules', '.pnpm')).catch(() => []);
+      const prefix = `${pkg.name.replace('/', '+')}@${pkg.version}`;
+      for (const entry of await pnpmStore) {
+        if (entry === prefix || entry.startsWith(`${prefix}_`) || entry.startsWith(`${prefix}(`)) {
+          candidates.push(join(root, 'node_modules', '.pnpm', entry, 'node_modules', pkg.name));
+        }
+      }
+    } else {
+      // In the workspace project's own node_modules, hoisted, or nested under the package that depends on it
+      if (lockfile.importer) candidates.push(join(root, lockfile.importer, 'node_modules', pkg.name));
+      candidates.push(join(root, 'node_modules', pkg.name));
+      const parent = pkg.path[pkg.path.length - 2];
+      if (parent) candidates.push(join(root, 'node_modules', parent, 'node_modules', pkg.name));
+    }
+
+    for (const dir of candidates) {
+      const manifest = await readPackageJson<PackageManifest>(join(dir, 'package.json'));
+      if (manifest?.version === pkg.version) return join(dir, 'package.json');
+    }
+    return null;
+  };
+}
+
+interface PackageManifest {
+  version?: string;
+  license?: string | { type?: string };
+  /** Deprecated array form */
+  licenses?: Array<string | { type?: string }>;
+}
+
+/**
+ * License expression declared by an installed package
+ */
+async function installedLicense(manifestPath: string | null): Promise<string | undefined> {
+  if (!manifestPath) return undefined;
+  const manifest = await readPackageJson<PackageManifest>(manifestPath);
+  if (!manifest) return undefined;
+
+  const license = typeof manifest.license === 'object' ? manifest.license.type : manifest.license;
+  if (license) return license;
+
+  // Old packages list several licenses the user may choose from
+  const licenses = (manifest.licenses ?? [])
+    .map((l) => (typeof l === 'string' ? l : l.type))
+    .filter((l): l is string => Boolean(l));
+  return licenses.length > 0 ? licenses.join(' OR ') : undefined;
+}
+
+async function loadLicenseOptions(workspaceRoot: string): Promise<LicenseOptions> {
+  const { config } = await loadConfig(workspaceRoot);
+  const options = config.scanners['dependency-licenses']?.options ?? {};
+
+  const list = (key: string, fallback: string[]): string[] => {
+    const value = options[key] ?? fallback;
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+      throw new Error(`dependency-licenses option ${key} must be an array of SPDX license IDs`);
+    }
+    return value as string[];
+  };
+
+  const includeDev = options['includeDev'] ?? false;
+  if (typeof includeDev !== 'boolean') {
+    throw new Error('dependency-licenses option includeDev must be a boolean');
+  }
+  const overrides = options['overrides'] ?? {};
+  if (
+    typeof overrides !== 'object' ||
+    overrides === null ||
+    Array.isArray(overrides) ||
+    Object.values(overrides).some((v) => typeof v !== 'string')
+  ) {
+    throw new Error('dependency-licenses option overrides must map package names to license expressions');
+  }
+
+  return {
+    allow: list('allow', []),
+    deny: list('deny', DEFAULT_DENY),
+    includeDev,
+    overrides: overrides as Record<string, string>,
+  };
+}
@@ -4,13 +4,57 @@
  * Validates SPACING, TYPOGRAPHY, and COLOR token usage in dcyfr-labs.
  * Wraps the enforcement rules from @dcyfr/workspace-agents.
  *
+ * Classes listed in the `tokenMap` option are auto-fixable: the fix
+ * rewrites the className string or template literal to use the token and
+ * imports the token when the file doesn't already.
+ *
  * @module @dcyfr/ai-cli/scanners/design-tokens
  */
 
+import { createHash } from 'crypto';
 import { readFile } from 'fs/promises';
 import { join } from 'path';
-import { discoverFiles, relativePath } from '@/lib/files.js';
-import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
+import { loadConfig } from '@/config/schema.js';
+import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
+import { applyFixPlan } from '@/fix/patches.js';
+import type {
+  Scanner,
+  ScanContext,
+  ScanResult,
+  ScanViolation,
+  FixResult,
+  FixPlan,
+  FilePatch,
+  TextEdit,
+} from './types.js';
+
+/** Bump when token rules change to invalidate cached results */
+const SCANNER_VERSION = '1.1.0';
+
+/** Module the tokens are imported from unless `tokenImport` is set */
+const DEFAULT_TOKEN_IMPORT = '@/lib/design-tokens';
+
+/** Token expression: an identifier path such as `SPACING.section` */
+const TOKEN_EXPRESSION = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+
+/**
+ * Options from `scanners["design-tokens"].options` in `.dcyfr/config.json`
+ */
+interface TokenFixOptions {
+  /** Hardcoded class → token expression, e.g. `space-y-8` → `SPACING.section` */
+  tokenMap: Map<string, string>;
+  /** Module to import token namespaces from */
+  tokenImport: string;
+}
+
+/**
+ * Per-file findings stored in the scan cache
+ */
+interface FileFindings {
+  violations: ScanViolation[];
+  warnings: ScanViolation[];
+}
 
 /**
  * Design token enforcement rules (inlined from @dcyfr/workspace-agents)
@@ -101,6 +145,7 @@ function checkLineForTokenViolations(
   lineIdx: number,
   relPath: string,
   rule: TokenRule,
+  tokenMap: Map<string, string>,
   violations: ScanViolation[],
   warnings: ScanViolation[],
 ): void {
@@ -118,8 +163,8 @@ function checkLineForTokenViolations(
       file: relPath,
       line: lineIdx + 1,
       column: match.index,
-      fix: rule.fix,
-      autoFixable: false,
+      fix: tokenMap.has(match[0]) ? `Replace with ${tokenMap.get(match[0])}` : rule.fix,
+      autoFixable: tokenMap.has(match[0]) && isWholeClass(line, match.index, match[0].length),
     };
 
     if (rule.severity === 'error') {
@@ -139,6 +184,7 @@ export const designTokensScanner: Scanner = {
   description: 'Validates SPACING, TYPOGRAPHY, and COLOR token usage across components',
   category: 'compliance',
   projects: ['dcyfr-labs'],
+  version: SCANNER_VERSION,
 
   async scan(context: ScanContext): Promise<ScanResult> {
     const start = Date.now();
@@ -146,10 +192,15 @@ export const designTokensScanner: Scanner = {
       ? join(context.workspaceRoot, context.project)
       : join(context.workspaceRoot, 'dcyfr-labs');
 
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
+    const { tokenMap } = await loadTokenOptions(context.workspaceRoot);
+    // Fixability depends on the token map, so it is part of the cache key
+    const cacheVersion = `${SCANNER_VERSION}+${fingerprint(tokenMap)}`;
+
     // Discover component/page files
     const files =
       context.files ??
-      (await discoverFiles(join(projectRoot, 'src'), {
+      (await index.discover(join(projectRoot, 'src'), {
         extensions: ['.tsx', '.ts', '.jsx'],
         ignore: ['__tests__', 'tests', '*.test.*', '*.spec.*'],
       }));
@@ -159,29 +210,53 @@ export const designTokensScanner: Scanner = {
     let filesScanned = 0;
 
     for (const filePath of files) {
-      let content: string;
-      try {
-        content = await readFile(filePath, 'utf-8');
-      } catch {
-        continue;
-      }
+      context.signal?.throwIfAborted();
+      const content = await index.read(filePath);
+      if (content === null) continue;
 
       filesScanned++;
-      const lines = content.split('\n');
 
       // Skip design token definition files
       const relPath = relativePath(context.workspaceRoot, filePath);
       if (relPath.includes('design-tokens') || relPath.includes('tailwind.config')) continue;
 
+      // Reuse findings for files unchanged since the last run
+      const cached = await context.cache?.get<FileFindings>(
+        'design-tokens',
+        cacheVersion,
+        filePath,
+        content,
+      );
+      if (cached) {
+        violations.push(...cached.violations);
+        warnings.push(...cached.warnings);
+        continue;
+      }
+
+      const lines = (await index.lines(filePath)) ?? [];
+      const findings: FileFindings = { violations: [], warnings: [] };
+
       for (const rule of ALL_TOKEN_RULES) {
         // Reset regex lastIndex for each file
         rule.pattern.lastIndex = 0;
 
         for (let lineIdx = 0; lineIdx < lines.length; lineIdx++) {
           const line = lines[lineIdx]!;
-          checkLineForTokenViolations(line, lineIdx, relPath, rule, violations, warnings);
+          checkLineForTokenViolations(
+            line,
+            lineIdx,
+            relPath,
+            rule,
+            tokenMap,
+            findings.violations,
+            findings.warnings,
+          );
         }
       }
+
+      violations.push(...findings.violations);
+      warnings.push(...findings.warnings);
+      await context.cache?.set('design-tokens', cacheVersion, filePath, content, findings);
     }
 
     // Calculate compliance: ratio of clean files
@@ -206,4 +281,310 @@ export const designTokensScanner: Scanner = {
       summary: `${(compliance * 100).toFixed(1)}% compliance (${violations.length} errors, ${warnings.length} warnings in ${filesScanned} files)`,
     };
   },
+
+  async plan(context: ScanContext, violations: ScanViolation[]): Promise<FixPlan> {
+    const options = await loadTokenOptions(context.workspaceRoot);
+    const patches: FilePatch[] = [];
+    const failures: Array<{ file: string; reason: string }> = [];
+
+    const byFile = new Map<string, ScanViolation[]>();
+    for (const violation of violations) {
+      if (!violation.file || violation.line === undefined || violation.column === undefined) continue;
+      byFile.set(violation.file, [...(byFile.get(violation.file) ?? []), violation]);
+    }
+
+    // One patch per file: class rewrites plus the token import they need
+    for (const [file, fileViolations] of byFile) {
+      const content = await readFile(join(context.workspaceRoot, file), 'utf-8').catch(() => null);
+      if (content === null) {
+        failures.push({ file, reason: 'File could not be read' });
+        continue;
+      }
+
+      const lines = content.split('\n');
+      const edits: TextEdit[] = [];
+      const fixed: ScanViolation[] = [];
+      const tokens = new Set<string>();
+
+      const byLine = new Map<number, ScanViolation[]>();
+      for (const v of fileViolations) byLine.set(v.line!, [...(byLine.get(v.line!) ?? []), v]);
+
+      for (const [lineNo, lineViolations] of byLine) {
+        const text = lines[lineNo - 1];
+        if (text === undefined) continue;
+        const rewrite = rewriteLine(text, lineViolations, options.tokenMap);
+        for (const { violation, reason } of rewrite.failures) {
+          failures.push({ file, reason: `Line ${violation.line}: ${reason}` });
+        }
+        if (rewrite.fixed.length === 0) continue;
+
+        const start = lines.slice(0, lineNo - 1).reduce((offset, l) => offset + l.length + 1, 0);
+        edits.push({ start, end: start + text.length, text: rewrite.text });
+        fixed.push(...rewrite.fixed);
+        rewrite.tokens.forEach((t) => tokens.add(t));
+      }
+      if (edits.length === 0) continue;
+
+      const importEdit = planTokenImport(content, tokens, options.tokenImport);
+      if (importEdit) {
+        if (edits.some((e) => importEdit.start < e.end && importEdit.end > e.start)) {
+          failures.push({ file, reason: 'Token import would overlap a rewritten line' });
+          continue;
+        }
+        edits.push(importEdit);
+      }
+
+      patches.push({
+        scanner: 'design-tokens',
+        file,
+        original: content,
+        edits,
+        violations: fixed,
+        description: `Replace ${fixed.length} hardcoded classes with design tokens`,
+      });
+    }
+
+    return { scanner: 'design-tokens', patches, failures };
+  },
+
+  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
+    return applyFixPlan(context, await designTokensScanner.plan!(context, violations));
+  },
 };
+
+// ── Token Fixes ──────────────────────────────────────────────
+
+/**
+ * Read the token map and import module from the workspace config
+ */
+async function loadTokenOptions(workspaceRoot: string): Promise<TokenFixOptions> {
+  const { config } = await loadConfig(workspaceRoot);
+  const options = config.scanners['design-tokens']?.options ?? {};
+  const tokenMap = new Map<string, string>();
+
+  const rawMap = options['tokenMap'] ?? {};
+  if (typeof rawMap !== 'object' || rawMap === null || Array.isArray(rawMap)) {
+    throw new Error('design-tokens option tokenMap must be an object of class → token');
+  }
+  for (const [cls, token] of Object.entries(rawMap)) {
+    if (typeof token !== 'string' || !TOKEN_EXPRESSION.test(token)) {
+      throw new Error(`design-tokens option tokenMap['${cls}'] must be a token such as SPACING.section`);
+    }
+    tokenMap.set(cls, token);
+  }
+
+  const tokenImport = options['tokenImport'] ?? DEFAULT_TOKEN_IMPORT;
+  if (typeof tokenImport !== 'string' || tokenImport === '') {
+    throw new Error('design-tokens option tokenImport must be a module specifier');
+  }
+  return { tokenMap, tokenImport };
+}
+
+/**
+ * Hash of the token map; cached fix hints name the tokens, so both the
+ * classes and their tokens are part of the cache key
+ */
+function fingerprint(tokenMap: Map<string, string>): string {
+  const entries = Array.from(tokenMap, ([cls, token]) => `${cls}\0${token}`).sort().join('\n');
+  return createHash('sha256').update(entries).digest('hex').slice(0, 8);
+}
+
+/**
+ * Whether a match is a complete class (not part of `md:space-y-8` or `gap-4x`)
+ */
+function isWholeClass(line: string, start: number, length: number): boolean {
+  const before = line[start - 1];
+  const after = line[start + length];
+  return (before === undefined || /[\s'"`]/.test(before)) && (after === undefined || /[\s'"`]/.test(after));
+}
+
+interface StringLiteral {
+  /** Offset of the opening quote */
+  start: number;
+  /** Offset just past the closing quote */
+  end: number;
+  quote: string;
+}
+
+/**
+ * Find the string and template literals on a single line
+ */
+function findStringLiterals(line: string): StringLiteral[] {
+  const literals: StringLiteral[] = [];
+  let i = 0;
+  while (i < line.length) {
+    const quote = line[i]!;
+    if (quote !== '"' && quote !== "'" && quote !== '`') {
+      i++;
+      continue;
+    }
+    let j = i + 1;
+    while (j < line.length && line[j] !== quote) j += line[j] === '\\' ? 2 : 1;
+    // Unterminated literals (multi-line templates) can't be rewritten safely
+    if (j >= line.length) break;
+    literals.push({ start: i, end: j + 1, quote });
+    i = j + 1;
+  }
+  return literals;
+}
+
+/**
+ * Rewrite the hardcoded classes on one line to tokens
+ *
+ * - Template literal: `space-y-8 px-4` → `${SPACING.section} px-4`
+ * - JSX attribute: className="space-y-8 px-4" → className={`${SPACING.section} px-4`}
+ * - Plain string holding only the class: 'space-y-8' → SPACING.section
+ * - Other plain strings become template literals
+ */
+function rewriteLine(
+  line: string,
+  violations: ScanViolation[],
+  tokenMap: Map<string, string>,
+): {
+  text: string;
+  fixed: ScanViolation[];
+  failures: Array<{ violation: ScanViolation; reason: string }>;
+  tokens: string[];
+} {
+  const failures: Array<{ violation: ScanViolation; reason: string }> = [];
+  const literals = findStringLiterals(line);
+  // Classes to replace per literal, keyed by column (several rules can flag one class)
+  const grouped = new Map<StringLiteral, Map<number, ClassReplacement>>();
+
+  for (const violation of violations) {
+    const column = violation.column!;
+    const cls = Array.from(tokenMap.keys())
+      .filter((c) => line.startsWith(c, column) && isWholeClass(line, column, c.length))
+      .sort((a, b) => b.length - a.length)[0];
+    const literal = cls && literals.find((l) => column > l.start && column + cls.length < l.end);
+    if (!cls) {
+      failures.push({ violation, reason: 'No token mapped for this class' });
+    } else if (!literal) {
+      failures.push({ violation, reason: `'${cls}' is not inside a string on this line` });
+    } else if (literal.quote === '`' && insideExpression(line.slice(literal.start + 1, column))) {
+      failures.push({ violation, reason: `'${cls}' is inside a template expression` });
+    } else {
+      const group = grouped.get(literal) ?? new Map<number, ClassReplacement>();
+      const entry = group.get(column) ?? { column, cls, token: tokenMap.get(cls)!, violations: [] };
+      entry.violations.push(violation);
+      group.set(column, entry);
+      grouped.set(literal, group);
+    }
+  }
+
+  const fixed: ScanViolation[] = [];
+  const tokens: string[] = [];
+  let text = line;
+  // Right to left so earlier offsets stay valid
+  for (const literal of Array.from(grouped.keys()).sort((a, b) => b.start - a.start)) {
+    const group = Array.from(grouped.get(literal)!.values()).sort((a, b) => a.column - b.column);
+    const inner = line.slice(literal.start + 1, literal.end - 1);
+    const attribute = /\bclass(Name)?\s*=\s*$/.test(line.slice(0, literal.start));
+
+    let replaced: string;
+    if (literal.quote !== '`' && group.length === 1 && inner.trim() === group[0]!.cls) {
+      replaced = attribute ? `{${group[0]!.token}}` : group[0]!.token;
+    } else if (literal.quote !== '`' && (inner.includes('`') || inner.includes('${'))) {
+      for (const { violations: vs } of group) {
+        vs.forEach((violation) => failures.push({ violation, reason: 'String cannot become a template literal' }));
+      }
+      continue;
+    } else {
+      let body = '';
+      let cursor = 0;
+      for (const { column, cls, token } of group) {
+        const offset = column - literal.start - 1;
+        body += inner.slice(cursor, offset) + `\${${token}}`;
+        cursor = offset + cls.length;
+      }
+      body += inner.slice(cursor);
+      replaced = attribute ? `{\`${body}\`}` : `\`${body}\``;
+    }
+
+    text = text.slice(0, literal.start) + replaced + text.slice(literal.end);
+    for (const { token, violations: vs } of group) {
+      fixed.push(...vs);
+      tokens.push(token.split('.')[0]!);
+    }
+  }
+
+  return { text, fixed, failures, tokens };
+}
+
+interface ClassReplacement {
+  column: number;
+  cls: string;
+  token: string;
+  violations: ScanViolation[];
+}
+
+/**
+ * Whether the end of a template literal prefix is inside a `${…}` expression
+ */
+function insideExpression(prefix: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < prefix.length; i++) {
+    if (prefix[i] === '$' && prefix[i + 1] === '{') {
+      depth++;
+      i++;
+    } else if (prefix[i] === '}' && depth > 0) {
+      depth--;
+    }
+  }
+  return depth > 0;
+}
+
+/**
+ * Edit that imports the token namespaces a file is missing
+ *
+ * Extends an existing import from the token module, otherwise inserts a
+ * new import after the last top-level import (or any leading directive).
+ * Names the file already imports from elsewhere are left alone.
+ */
+function planTokenImport(content: string, tokens: Set<string>, module: string): TextEdit | null {
+  const imported = new Set<string>();
+  for (const match of content.matchAll(/import\s*(?:type\s+)?\{([^}]*)\}\s*from/g)) {
+    for (const name of match[1]!.split(',')) {
+      const local = name.trim().split(/\s+as\s+/).pop()?.trim();
+      if (local) imported.add(local);
+    }
+  }
+  const missing = Array.from(tokens).filter((t) => !imported.has(t)).sort();
+  if (missing.length === 0) return null;
+
+  const escaped = module.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const existing = new RegExp(`import\\s*\\{([^}]*)\\}\\s*from\\s*['"]${escaped}['"]`).exec(content);
+  if (existing) {
+    const braceEnd = existing.index + existing[0].indexOf('}');
+    const names = existing[1]!.trim();
+    const insert = names === '' ? ` ${missing.join(', ')} ` : `${names.endsWith(',') ? '' : ','} ${missing.join(', ')} `;
+    const at = existing.index + existing[0].indexOf('{') + 1 + existing[1]!.trimEnd().length;
+    return { start: at, end: braceEnd, text: insert };
+  }
+
+  const statement = `import { ${missing.join(', ')} } from '${module}';\n`;
+  const lines = content.split('\n');
+
+  // Below a leading header comment (license, TLP), directives and imports
+  let insertLine = 0;
+  if (lines[0]?.trimStart().startsWith('/*')) {
+    insertLine = lines.findIndex((l) => l.includes('*/')) + 1;
+  } else {
+    while (lines[insertLine]?.startsWith('//')) insertLine++;
+  }
+  for (let i = insertLine; i < lines.length; i++) {
+    const line = lines[i]!;
+    const directive = /^\s*['"]use (client|server)['"];?\s*$/.test(line);
+    // Single-line imports and the closing line of multi-line ones
+    const importEnd = (/^import\s/.test(line) || /^\}\s*from\s*['"]/.test(line)) && /['"];?\s*$/.test(line);
+    if (directive || importEnd) insertLine = i + 1;
+  }
+
+  const start = Math.min(
+    lines.slice(0, insertLine).reduce((offset, l) => offset + l.length + 1, 0),
+    content.length,
+  );
+  const afterImport = /^import\s|^\}\s*from/.test(lines[insertLine - 1] ?? '');
+  const text = insertLine === 0 ? `${statement}\n` : afterImport ? statement : `\n${statement}`;
+  return { start, end: start, text };
+}
@@ -12,8 +12,8 @@
  * @module @dcyfr/ai-cli/scanners/docs-generator
  */
 
-import { readFile } from 'fs/promises';
-import { discoverFiles, relativePath } from '@/lib/files.js';
+import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
 import {
   runAIAnalysis,
   buildAIScanResult,
@@ -22,6 +22,9 @@ import {
 import type { AnalysisFile, AIAnalysisResult } from '@/ai/index.js';
 import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
 
+/** Bump when prompts or parsing change to invalidate cached results */
+const SCANNER_VERSION = '1.0.0';
+
 // ---------------------------------------------------------------------------
 // Static analysis (offline fallback)
 // ---------------------------------------------------------------------------
@@ -44,18 +47,16 @@ async function staticDocsScan(
   let filesChecked = 0;
   let exportsChecked = 0;
   let undocumentedExports = 0;
+  const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
   for (const filePath of files) {
-    let content: string;
-    try {
-      content = await readFile(filePath, 'utf-8');
-    } catch {
-      continue;
-    }
+    context.signal?.throwIfAborted();
+    const content = await index.read(filePath);
+    if (content === null) continue;
 
     filesChecked++;
     const relPath = relativePath(context.workspaceRoot, filePath);
-    const lines = content.split('\n');
+    const lines = (await index.lines(filePath)) ?? [];
 
     // Find exported symbols without preceding JSDoc
     let match: RegExpExecArray | null;
@@ -187,13 +188,15 @@ export const docsGeneratorScanner: Scanner = {
   name: 'Documentation Quality (AI)',
   description: 'AI-enhanced detection of missing or inadequate documentation',
   category: 'documentation',
+  version: SCANNER_VERSION,
 
   async scan(context: ScanContext): Promise<ScanResult> {
     const start = Date.now();
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
     const files =
       context.files ??
-      (await discoverFiles(context.workspaceRoot, {
+      (await index.discover(context.workspaceRoot, {
         extensions: ['.ts', '.tsx'],
         ignore: [
           '__tests__', '*.test.*', '*.spec.*', 'node_modules',
@@ -202,17 +205,19 @@ export const docsGeneratorScanner: Scanner = {
       }));
 
     // Try AI analysis first
-    const aiResult = await runAIAnalysis(context, files, {
+    const aiResult = await runAIAnalysis({ ...context, index }, files, {
       systemPrompt: SYSTEM_PROMPT,
       buildUserPrompt,
       parseResponse,
       maxFileChars: 4000,
       batchSize: 8,
+      scannerId: 'docs-generator',
+      scannerVersion: SCANNER_VERSION,
     });
 
     if (aiResult.offline) {
       // Fall back to static analysis
-      return staticDocsScan(context, files);
+      return staticDocsScan({ ...context, index }, files);
     }
 
     return buildAIScanResult(
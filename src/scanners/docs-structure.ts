@@ -9,10 +9,19 @@
  * @module @dcyfr/ai-cli/scanners/docs-structure
  */
 
-import { mkdir, readdir, rename } from 'fs/promises';
+import { readdir, readFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { pathExists, listProjects } from '@/lib/files.js';
-import type { Scanner, ScanContext, ScanResult, ScanViolation, FixResult } from './types.js';
+import { applyFixPlan } from '@/fix/patches.js';
+import type {
+  Scanner,
+  ScanContext,
+  ScanResult,
+  ScanViolation,
+  FixResult,
+  FixPlan,
+  FilePatch,
+} from './types.js';
 
 /**
  * Markdown files allowed in repository roots
@@ -47,6 +56,7 @@ export const docsStructureScanner: Scanner = {
     // Check each project root
     const projects = await listProjects(context.workspaceRoot);
     for (const project of projects) {
+      context.signal?.throwIfAborted();
       await checkRoot(join(context.workspaceRoot, project), project, violations, warnings);
     }
 
@@ -82,38 +92,39 @@ export const docsStructureScanner: Scanner = {
     };
   },
 
-  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
-    const filesModified: string[] = [];
+  async plan(context: ScanContext, violations: ScanViolation[]): Promise<FixPlan> {
+    const patches: FilePatch[] = [];
     const failures: Array<{ file: string; reason: string }> = [];
 
     for (const violation of violations) {
       if (violation.id !== 'stray-root-doc' || !violation.file) continue;
 
-      const sourcePath = join(context.workspaceRoot, violation.file);
       const targetDir = categorizeDoc(violation.file);
       const fileName = violation.file.split('/').pop() ?? violation.file;
 
-      // Determine full target path
+      // Determine target path
       const prefix = violation.file.includes('/') ? dirname(violation.file) : '';
-      const docsDir = prefix ? join(context.workspaceRoot, prefix, 'docs', targetDir) : join(context.workspaceRoot, 'docs', targetDir);
-      const targetPath = join(docsDir, fileName);
+      const target = [prefix, 'docs', targetDir, fileName].filter(Boolean).join('/');
 
       try {
-        // Create target directory
-        await mkdir(docsDir, { recursive: true });
-
         // Don't overwrite existing files
-        if (await pathExists(targetPath)) {
+        if (await pathExists(join(context.workspaceRoot, target))) {
           failures.push({
             file: violation.file,
-            reason: `Target already exists: ${targetPath}`,
+            reason: `Target already exists: ${target}`,
           });
           continue;
         }
 
-        // Move the file
-        await rename(sourcePath, targetPath);
-        filesModified.push(violation.file);
+        patches.push({
+          scanner: 'docs-structure',
+          file: violation.file,
+          original: await readFile(join(context.workspaceRoot, violation.file), 'utf-8'),
+          edits: [],
+          renameTo: target,
+          violations: [violation],
+          description: `Move to ${target}`,
+        });
       } catch (error) {
         failures.push({
           file: violation.file,
@@ -122,12 +133,11 @@ export const docsStructureScanner: Scanner = {
       }
     }
 
-    return {
-      scanner: 'docs-structure',
-      fixesApplied: filesModified.length,
-      filesModified,
-      failures,
-    };
+    return { scanner: 'docs-structure', patches, failures };
+  },
+
+  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
+    return applyFixPlan(context, await docsStructureScanner.plan!(context, violations));
   },
 };
 
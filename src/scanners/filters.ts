@@ -0,0 +1,55 @@
+/**
+ * Result filters — shared helpers for dropping violations from a scan result
+ *
+ * Used by suppression directives and the baseline to remove findings after
+ * a scanner has run, keeping counts and status consistent.
+ *
+ * @module @dcyfr/ai-cli/scanners/filters
+ */
+
+import type { ScanResult, ScanStatus, ScanViolation } from './types.js';
+
+/**
+ * Predicate deciding whether a violation is kept
+ */
+export type ViolationPredicate = (violation: ScanViolation) => boolean;
+
+/**
+ * Filter a scan result's violations and warnings.
+ *
+ * The number of removed findings is added to `metrics[metric]`, and the
+ * status is relaxed when no errors (or no findings at all) remain.
+ */
+export function filterResult(
+  result: ScanResult,
+  keep: ViolationPredicate,
+  metric: string,
+): ScanResult {
+  const violations = result.violations.filter(keep);
+  const warnings = result.warnings.filter(keep);
+  const removed =
+    result.violations.length - violations.length + (result.warnings.length - warnings.length);
+
+  if (removed === 0) return result;
+
+  return {
+    ...result,
+    violations,
+    warnings,
+    status: relaxStatus(result.status, violations.length, warnings.length),
+    metrics: {
+      ...result.metrics,
+      [metric]: (result.metrics[metric] ?? 0) + removed,
+    },
+  };
+}
+
+/**
+ * Downgrade a status once the findings that caused it are gone
+ */
+function relaxStatus(status: ScanStatus, errors: number, warnings: number): ScanStatus {
+  if (status !== 'fail' && status !== 'warn') return status;
+  if (errors > 0) return status;
+  if (warnings > 0) return 'warn';
+  return 'pass';
+}
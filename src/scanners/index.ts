@@ -10,6 +10,9 @@ export type {
   ScanResult,
   ScanViolation,
   FixResult,
+  FixPlan,
+  FilePatch,
+  TextEdit,
   ScannerCategory,
   ScanStatus,
   ViolationSeverity,
@@ -17,7 +20,27 @@ export type {
   HealthSnapshot,
 } from './types.js';
 
-export { ScannerRegistry, createDefaultRegistry } from './registry.js';
+export { ScannerRegistry, createDefaultRegistry, DEFAULT_CONCURRENCY } from './registry.js';
+export type { RunOptions, RunAllOptions } from './registry.js';
+export { loadPluginScanners, validateScanner } from './plugins.js';
+export type { PluginScanner } from './plugins.js';
+export { ScanCache, hashContent } from './cache.js';
+export type { ScanCacheStats } from './cache.js';
+export { filterResult } from './filters.js';
+export type { ViolationPredicate } from './filters.js';
+export { filterToChangedLines, isOnChangedLine } from './changed-lines.js';
+export { parseSuppressions, isSuppressed, applySuppressions } from './suppressions.js';
+export type { FileSuppressions, SuppressedRules } from './suppressions.js';
+export {
+  BASELINE_FILE,
+  applyBaseline,
+  applyWorkspaceBaseline,
+  createBaseline,
+  fingerprintViolation,
+  loadBaseline,
+  saveBaseline,
+} from './baseline.js';
+export type { Baseline, BaselineEntry } from './baseline.js';
 export { designTokensScanner } from './design-tokens.js';
 export { barrelExportsScanner } from './barrel-exports.js';
 export { pageLayoutScanner } from './pagelayout.js';
@@ -25,7 +48,12 @@ export { licenseHeadersScanner } from './license-headers.js';
 export { tlpHeadersScanner } from './tlp-headers.js';
 export { docsStructureScanner } from './docs-structure.js';
 export { dependencyAuditScanner } from './dependency-audit.js';
+export { dependencyLicensesScanner } from './dependency-licenses.js';
+export { dependencyHygieneScanner } from './dependency-hygiene.js';
 export { testDataGuardianScanner } from './test-data-guardian.js';
+export { secretsScanner } from './secrets.js';
 export { docsGeneratorScanner } from './docs-generator.js';
 export { codeSmellScanner } from './code-smell.js';
 export { apiComplianceScanner } from './api-compliance.js';
+export { openApiDriftScanner } from './openapi-drift.js';
+export { customRulesScanner } from './custom-rules.js';
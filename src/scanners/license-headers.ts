@@ -6,10 +6,20 @@
  * @module @dcyfr/ai-cli/scanners/license-headers
  */
 
-import { readFile, writeFile } from 'fs/promises';
+import { readFile } from 'fs/promises';
 import { join } from 'path';
-import { discoverFiles, relativePath } from '@/lib/files.js';
-import type { Scanner, ScanContext, ScanResult, ScanViolation, FixResult } from './types.js';
+import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
+import { applyFixPlan } from '@/fix/patches.js';
+import type {
+  Scanner,
+  ScanContext,
+  ScanResult,
+  ScanViolation,
+  FixResult,
+  FixPlan,
+  FilePatch,
+} from './types.js';
 
 /**
  * MIT license header to prepend to source files
@@ -31,11 +41,12 @@ export const licenseHeadersScanner: Scanner = {
 
   async scan(context: ScanContext): Promise<ScanResult> {
     const start = Date.now();
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
     // Discover all source files across all projects
     const files =
       context.files ??
-      (await discoverFiles(context.workspaceRoot, {
+      (await index.discover(context.workspaceRoot, {
         extensions: ['.ts', '.tsx', '.js', '.mjs', '.cjs'],
         ignore: ['__tests__', '*.test.*', '*.spec.*', 'node_modules', 'dist', '.next'],
       }));
@@ -45,12 +56,9 @@ export const licenseHeadersScanner: Scanner = {
     let filesWithHeader = 0;
 
     for (const filePath of files) {
-      let content: string;
-      try {
-        content = await readFile(filePath, 'utf-8');
-      } catch {
-        continue;
-      }
+      context.signal?.throwIfAborted();
+      const content = await index.read(filePath);
+      if (content === null) continue;
 
       filesChecked++;
       const relPath = relativePath(context.workspaceRoot, filePath);
@@ -108,8 +116,8 @@ export const licenseHeadersScanner: Scanner = {
     };
   },
 
-  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
-    const filesModified: string[] = [];
+  async plan(context: ScanContext, violations: ScanViolation[]): Promise<FixPlan> {
+    const patches: FilePatch[] = [];
     const failures: Array<{ file: string; reason: string }> = [];
 
     for (const violation of violations) {
@@ -127,18 +135,20 @@ export const licenseHeadersScanner: Scanner = {
         }
 
         // Handle shebang lines — insert after shebang
-        let newContent: string;
-        if (content.startsWith('#!')) {
-          const firstNewline = content.indexOf('\n');
-          const shebang = content.slice(0, firstNewline + 1);
-          const rest = content.slice(firstNewline + 1);
-          newContent = shebang + '\n' + LICENSE_HEADER + rest;
-        } else {
-          newContent = LICENSE_HEADER + content;
-        }
-
-        await writeFile(fullPath, newContent, 'utf-8');
-        filesModified.push(violation.file);
+        const shebangEnd = content.startsWith('#!') ? content.indexOf('\n') + 1 : 0;
+        const edit =
+          shebangEnd > 0
+            ? { start: shebangEnd, end: shebangEnd, text: '\n' + LICENSE_HEADER }
+            : { start: 0, end: 0, text: LICENSE_HEADER };
+
+        patches.push({
+          scanner: 'license-headers',
+          file: violation.file,
+          original: content,
+          edits: [edit],
+          violations: [violation],
+          description: 'Add MIT license header',
+        });
       } catch (error) {
         failures.push({
           file: violation.file,
@@ -147,11 +157,10 @@ export const licenseHeadersScanner: Scanner = {
       }
     }
 
-    return {
-      scanner: 'license-headers',
-      fixesApplied: filesModified.length,
-      filesModified,
-      failures,
-    };
+    return { scanner: 'license-headers', patches, failures };
+  },
+
+  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
+    return applyFixPlan(context, await licenseHeadersScanner.plan!(context, violations));
   },
 };
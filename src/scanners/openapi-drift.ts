@@ -0,0 +1,348 @@
+/**
+ * OpenAPI Drift Scanner
+ *
+ * Compares an OpenAPI 3.x document with the Next.js route handlers under
+ * `app/api/**\/route.ts`:
+ * - Routes the spec does not document
+ * - Documented paths with no route file
+ * - Methods documented but not exported, or exported but not documented
+ *
+ * The spec is read from `scanners["openapi-drift"].options.spec` in
+ * `.dcyfr/config.json`, or from `openapi.{yaml,yml,json}` at the project
+ * root or in its `docs/` directory.
+ *
+ * @module @dcyfr/ai-cli/scanners/openapi-drift
+ */
+
+import { join, resolve } from 'path';
+import { URL } from 'url';
+import { LineCounter, isMap, isScalar, parseDocument } from 'yaml';
+import type { Pair, YAMLMap } from 'yaml';
+import { analyzeSource } from '@/lib/ast.js';
+import { pathExists, relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
+import { loadConfig } from '@/config/schema.js';
+import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
+
+/** Spec locations tried when no `spec` option is configured */
+const DEFAULT_SPEC_PATHS = [
+  'openapi.yaml',
+  'openapi.yml',
+  'openapi.json',
+  'docs/openapi.yaml',
+  'docs/openapi.yml',
+  'docs/openapi.json',
+];
+
+/** Methods both Next.js route handlers and OpenAPI operations can declare */
+const HTTP_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+
+/** `app/<segments>/route.ts` — captures the segments */
+const ROUTE_FILE = /(?:^|\/)app((?:\/[^/]+)*)\/route\.[jt]sx?$/;
+
+/**
+ * Where an operation or route is declared
+ */
+interface Location {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * A path and the methods declared for it, keyed by normalized path
+ */
+interface Endpoint {
+  /** Path as written (`/api/users/{id}`) */
+  path: string;
+  /** Location of the path itself */
+  location: Location;
+  /** Method → where it is declared */
+  methods: Map<string, Location>;
+}
+
+interface DriftOptions {
+  /** Configured spec path (undefined = try the defaults) */
+  spec: string | undefined;
+  /** Prefix for spec paths (undefined = path of the first server URL) */
+  basePath: string | undefined;
+}
+
+export const openApiDriftScanner: Scanner = {
+  id: 'openapi-drift',
+  name: 'OpenAPI Contract Drift',
+  description: 'Compares the OpenAPI spec with Next.js API route handlers',
+  category: 'compliance',
+
+  async scan(context: ScanContext): Promise<ScanResult> {
+    const start = Date.now();
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
+    const projectRoot = context.project
+      ? join(context.workspaceRoot, context.project)
+      : context.workspaceRoot;
+
+    const options = await loadDriftOptions(context.workspaceRoot);
+    const specPath = await findSpec(context.workspaceRoot, projectRoot, options.spec);
+    if (!specPath) {
+      return skipped(start, 'No OpenAPI document found (set scanners["openapi-drift"].options.spec)');
+    }
+
+    // Drift is a property of the whole route set: an incremental scan
+    // re-runs the full comparison, but only when a route or the spec changed
+    const routeFiles = await index.discover(projectRoot, {
+      extensions: ['.ts', '.tsx', '.js', '.jsx'],
+      pathPattern: /\/app\/api(?:\/.*)?\/route\.[jt]sx?$/,
+      ignore: ['dist', '.next', '__tests__'],
+    });
+    if (context.files && !context.files.some((f) => f === specPath || routeFiles.includes(f))) {
+      return skipped(start, 'No API route or OpenAPI changes');
+    }
+
+    const specContent = await index.read(specPath);
+    if (specContent === null) {
+      throw new Error(`Cannot read OpenAPI document: ${relativePath(context.workspaceRoot, specPath)}`);
+    }
+    const documented = parseSpec(specContent, relativePath(context.workspaceRoot, specPath), options.basePath);
+
+    const implemented = new Map<string, Endpoint>();
+    for (const filePath of routeFiles) {
+      context.signal?.throwIfAborted();
+      const content = await index.read(filePath);
+      if (content === null) continue;
+      const endpoint = await routeEndpoint(relativePath(context.workspaceRoot, filePath), filePath, content);
+      if (endpoint) implemented.set(normalizePath(endpoint.path), endpoint);
+    }
+
+    // ── Compare ──
+    const violations: ScanViolation[] = [];
+    const warnings: ScanViolation[] = [];
+    let matched = 0;
+    let implementedOperations = 0;
+    let documentedOperations = 0;
+
+    for (const [key, route] of implemented) {
+      implementedOperations += route.methods.size;
+      const spec = documented.get(key);
+      if (!spec) {
+        warnings.push({
+          id: 'undocumented-route',
+          severity: 'warning',
+          message: `${route.path} (${[...route.methods.keys()].join(', ')}) is not documented in the OpenAPI spec`,
+          ...route.location,
+          fix: `Add ${route.path} to the OpenAPI paths`,
+        });
+        continue;
+      }
+      for (const [method, location] of route.methods) {
+        if (spec.methods.has(method)) {
+          matched++;
+        } else {
+          warnings.push({
+            id: 'method-mismatch',
+            severity: 'warning',
+            message: `${method} ${route.path} is implemented but not documented`,
+            ...location,
+            fix: `Document the ${method.toLowerCase()} operation under ${spec.path}`,
+          });
+        }
+      }
+    }
+
+    for (const [key, spec] of documented) {
+      documentedOperations += spec.methods.size;
+      const route = implemented.get(key);
+      if (!route) {
+        violations.push({
+          id: 'missing-route',
+          severity: 'error',
+          message: `${spec.path} is documented but has no route handler`,
+          ...spec.location,
+          fix: 'Implement the route or remove it from the spec',
+        });
+        continue;
+      }
+      for (const [method, location] of spec.methods) {
+        if (!route.methods.has(method)) {
+          violations.push({
+            id: 'method-mismatch',
+            severity: 'error',
+            message: `${method} ${spec.path} is documented but ${route.location.file} does not export ${method}`,
+            ...location,
+            fix: `Export a ${method} handler or remove the operation from the spec`,
+          });
+        }
+      }
+    }
+
+    const coverage = implementedOperations > 0 ? matched / implementedOperations : 1;
+    const operations = implementedOperations + documentedOperations - matched;
+    const compliance = operations > 0 ? matched / operations : 1;
+    const status = violations.length > 0 ? 'fail' : warnings.length > 0 ? 'warn' : 'pass';
+
+    return {
+      scanner: 'openapi-drift',
+      status,
+      violations,
+      warnings,
+      metrics: {
+        routes: implemented.size,
+        implementedOperations,
+        documentedOperations,
+        matchedOperations: matched,
+        coverage: Math.round(coverage * 1000) / 10,
+        compliance: Math.round(compliance * 1000) / 10,
+      },
+      duration: Date.now() - start,
+      timestamp: new Date().toISOString(),
+      summary: `${matched}/${implementedOperations} operations documented, ${violations.length} missing from code`,
+    };
+  },
+};
+
+// ── Spec ─────────────────────────────────────────────────────
+
+/**
+ * Documented endpoints keyed by normalized path
+ *
+ * Throws when the document is not OpenAPI 3.x.
+ */
+function parseSpec(content: string, relPath: string, basePath: string | undefined): Map<string, Endpoint> {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid OpenAPI document ${relPath}: ${doc.errors[0]!.message}`);
+  }
+
+  const root: unknown = doc.toJS();
+  if (!isObject(root) || typeof root['openapi'] !== 'string' || !root['openapi'].startsWith('3.')) {
+    throw new Error(`${relPath} is not an OpenAPI 3.x document (missing "openapi: 3.x" field)`);
+  }
+
+  const prefix = trimSlash(basePath ?? serverPath(root));
+  const locate = (offset: number | undefined): Location => {
+    const { line, col } = lineCounter.linePos(offset ?? 0);
+    return { file: relPath, line, column: col - 1 };
+  };
+
+  const endpoints = new Map<string, Endpoint>();
+  const paths = doc.get('paths');
+  if (!isMap(paths)) return endpoints;
+
+  for (const pathItem of (paths as YAMLMap).items as Pair[]) {
+    if (!isScalar(pathItem.key) || typeof pathItem.key.value !== 'string') continue;
+    const path = prefix + pathItem.key.value;
+    const methods = new Map<string, Location>();
+    if (isMap(pathItem.value)) {
+      for (const operation of pathItem.value.items as Pair[]) {
+        if (!isScalar(operation.key)) continue;
+        const method = String(operation.key.value).toUpperCase();
+        if (HTTP_METHODS.has(method)) methods.set(method, locate(operation.key.range?.[0]));
+      }
+    }
+    endpoints.set(normalizePath(path), { path, location: locate(pathItem.key.range?.[0]), methods });
+  }
+  return endpoints;
+}
+
+/**
+ * Path of the first `servers` URL (`https://x.dev/api` → `/api`)
+ */
+function serverPath(root: Record<string, unknown>): string {
+  const servers = root['servers'];
+  const url = Array.isArray(servers) && isObject(servers[0]) ? servers[0]['url'] : undefined;
+  if (typeof url !== 'string') return '';
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return '';
+  }
+}
+
+async function findSpec(
+  workspaceRoot: string,
+  projectRoot: string,
+  configured: string | undefined,
+): Promise<string | null> {
+  if (configured) {
+    const specPath = resolve(workspaceRoot, configured);
+    if (!(await pathExists(specPath))) {
+      throw new Error(`OpenAPI document not found: ${configured}`);
+    }
+    return specPath;
+  }
+  for (const candidate of DEFAULT_SPEC_PATHS) {
+    const specPath = join(projectRoot, candidate);
+    if (await pathExists(specPath)) return specPath;
+  }
+  return null;
+}
+
+async function loadDriftOptions(workspaceRoot: string): Promise<DriftOptions> {
+  const { config } = await loadConfig(workspaceRoot);
+  const options = config.scanners['openapi-drift']?.options ?? {};
+
+  const spec = options['spec'];
+  if (spec !== undefined && (typeof spec !== 'string' || spec === '')) {
+    throw new Error('openapi-drift option spec must be a path to an OpenAPI document');
+  }
+  const basePath = options['basePath'];
+  if (basePath !== undefined && (typeof basePath !== 'string' || !/^(?:\/.*)?$/.test(basePath))) {
+    throw new Error("openapi-drift option basePath must be a path such as '/api' (or '' for none)");
+  }
+  return { spec, basePath };
+}
+
+// ── Routes ───────────────────────────────────────────────────
+
+/**
+ * URL path and exported methods of a route file
+ */
+async function routeEndpoint(relPath: string, filePath: string, content: string): Promise<Endpoint | null> {
+  const match = ROUTE_FILE.exec(relPath);
+  if (!match) return null;
+
+  const segments = (match[1] ?? '')
+    .split('/')
+    .filter((s) => s !== '' && !/^\(.*\)$/.test(s) && !s.startsWith('@'))
+    .map((s) => s.replace(/^\[{1,2}(?:\.\.\.)?([^\]]+)\]{1,2}$/, '{$1}'));
+  const path = `/${segments.join('/')}`;
+
+  const { exports } = await analyzeSource(filePath, content);
+  const methods = new Map<string, Location>();
+  for (const { name, line, column } of exports) {
+    if (HTTP_METHODS.has(name)) methods.set(name, { file: relPath, line, column });
+  }
+
+  const first = [...methods.values()][0];
+  return { path, location: first ?? { file: relPath, line: 1, column: 0 }, methods };
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/**
+ * Comparison key: parameter names and trailing slashes don't matter
+ */
+function normalizePath(path: string): string {
+  return trimSlash(path.replace(/\{[^}]*\}/g, '{}')) || '/';
+}
+
+function trimSlash(path: string): string {
+  return path.replace(/\/+$/, '');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function skipped(start: number, summary: string): ScanResult {
+  return {
+    scanner: 'openapi-drift',
+    status: 'skipped',
+    violations: [],
+    warnings: [],
+    metrics: {},
+    duration: Date.now() - start,
+    timestamp: new Date().toISOString(),
+    summary,
+  };
+}
@@ -6,9 +6,9 @@
  * @module @dcyfr/ai-cli/scanners/pagelayout
  */
 
-import { readFile } from 'fs/promises';
 import { join } from 'path';
-import { discoverFiles, relativePath } from '@/lib/files.js';
+import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
 import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
 
 /**
@@ -28,9 +28,10 @@ export const pageLayoutScanner: Scanner = {
     const projectRoot = context.project
       ? join(context.workspaceRoot, context.project)
       : join(context.workspaceRoot, 'dcyfr-labs');
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
     // Find all page.tsx files
-    const pageFiles = await discoverFiles(join(projectRoot, 'src', 'app'), {
+    const pageFiles = await index.discover(join(projectRoot, 'src', 'app'), {
       pathPattern: /page\.(tsx|jsx)$/,
     });
 
@@ -39,12 +40,9 @@ export const pageLayoutScanner: Scanner = {
     let pagesWithLayout = 0;
 
     for (const filePath of pageFiles) {
-      let content: string;
-      try {
-        content = await readFile(filePath, 'utf-8');
-      } catch {
-        continue;
-      }
+      context.signal?.throwIfAborted();
+      const content = await index.read(filePath);
+      if (content === null) continue;
 
       pagesChecked++;
       const relPath = relativePath(context.workspaceRoot, filePath);
@@ -0,0 +1,167 @@
+/**
+ * Scanner plugins — third-party scanners listed in `.dcyfr/config.json`
+ *
+ * Each entry in the config's `plugins` array is either a local path
+ * (resolved against the workspace root) or a package name (resolved from
+ * the workspace's `node_modules`). A plugin module may export a `Scanner`
+ * as its default export, an array of scanners as its default export, or
+ * any number of named scanner exports.
+ *
+ * @module @dcyfr/ai-cli/scanners/plugins
+ */
+
+import { createRequire } from 'module';
+import { isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { Scanner, ScannerCategory } from './types.js';
+
+const SCANNER_CATEGORIES: readonly ScannerCategory[] = [
+  'compliance',
+  'security',
+  'documentation',
+  'cleanup',
+  'testing',
+  'governance',
+];
+
+/**
+ * A scanner loaded from a plugin module
+ */
+export interface PluginScanner {
+  /** Config entry the scanner was loaded from */
+  source: string;
+  scanner: Scanner;
+}
+
+/**
+ * Validate that a value implements the `Scanner` interface.
+ *
+ * Throws an error naming the plugin source and every problem found.
+ */
+export function validateScanner(value: unknown, source: string): Scanner {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Plugin '${source}' exported a non-object scanner`);
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  for (const key of ['id', 'name', 'description'] as const) {
+    if (typeof candidate[key] !== 'string' || candidate[key] === '') {
+      problems.push(`'${key}' must be a non-empty string`);
+    }
+  }
+  if (typeof candidate.id === 'string' && !/^[a-z0-9][a-z0-9._-]*$/.test(candidate.id)) {
+    problems.push(`'id' must be lowercase letters, digits, '.', '_' or '-'`);
+  }
+  if (!SCANNER_CATEGORIES.includes(candidate.category as ScannerCategory)) {
+    problems.push(`'category' must be one of: ${SCANNER_CATEGORIES.join(', ')}`);
+  }
+  if (typeof candidate.scan !== 'function') {
+    problems.push(`'scan' must be a function`);
+  }
+  for (const key of ['fix', 'plan'] as const) {
+    if (candidate[key] !== undefined && typeof candidate[key] !== 'function') {
+      problems.push(`'${key}' must be a function when present`);
+    }
+  }
+  if (candidate.version !== undefined && typeof candidate.version !== 'string') {
+    problems.push(`'version' must be a string when present`);
+  }
+  if (
+    candidate.projects !== undefined &&
+    (!Array.isArray(candidate.projects) || candidate.projects.some((p) => typeof p !== 'string'))
+  ) {
+    problems.push(`'projects' must be an array of strings when present`);
+  }
+
+  if (problems.length > 0) {
+    const label = typeof candidate.id === 'string' ? ` scanner '${candidate.id}'` : ' scanner';
+    throw new Error(`Plugin '${source}'${label} is invalid: ${problems.join('; ')}`);
+  }
+
+  return value as Scanner;
+}
+
+/**
+ * Load and validate scanners from plugin specifiers, in config order
+ */
+export async function loadPluginScanners(
+  workspaceRoot: string,
+  specs: string[],
+): Promise<PluginScanner[]> {
+  const loaded: PluginScanner[] = [];
+
+  for (const spec of specs) {
+    let mod: Record<string, unknown>;
+    try {
+      mod = (await import(resolvePluginSpecifier(workspaceRoot, spec))) as Record<string, unknown>;
+    } catch (error) {
+      throw new Error(
+        `Failed to load scanner plugin '${spec}': ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
+    }
+
+    const exported = collectScannerExports(mod);
+    if (exported.length === 0) {
+      throw new Error(
+        `Scanner plugin '${spec}' exports no scanners (expected a default or named export with a scan() function)`,
+      );
+    }
+    for (const value of exported) {
+      loaded.push({ source: spec, scanner: validateScanner(value, spec) });
+    }
+  }
+
+  return loaded;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/**
+ * Whether a plugin entry refers to a file rather than a package
+ */
+function isLocalSpecifier(spec: string): boolean {
+  return spec.startsWith('.') || isAbsolute(spec);
+}
+
+/**
+ * Turn a config entry into an importable specifier
+ *
+ * Package names are resolved from the workspace first so plugins installed
+ * in the project work regardless of where the CLI itself is installed.
+ */
+function resolvePluginSpecifier(workspaceRoot: string, spec: string): string {
+  if (isLocalSpecifier(spec)) {
+    return pathToFileURL(resolve(workspaceRoot, spec)).href;
+  }
+  try {
+    const require = createRequire(join(workspaceRoot, 'package.json'));
+    return pathToFileURL(require.resolve(spec)).href;
+  } catch {
+    // ESM-only exports maps are invisible to require.resolve — let import() try
+    return spec;
+  }
+}
+
+/**
+ * Pick scanner-like exports out of a plugin module
+ *
+ * The default export wins when present; otherwise every named export that
+ * looks like a scanner (an object with a `scan` method) is collected.
+ * Scanner-like values are returned unvalidated so the caller can report
+ * precise problems.
+ */
+function collectScannerExports(mod: Record<string, unknown>): unknown[] {
+  const defaultExport = mod.default;
+  if (Array.isArray(defaultExport)) return defaultExport;
+  if (defaultExport !== undefined && defaultExport !== null) return [defaultExport];
+
+  return Object.values(mod).filter(
+    (value) =>
+      typeof value === 'object' &&
+      value !== null &&
+      typeof (value as Record<string, unknown>).scan === 'function',
+  );
+}
@@ -5,21 +5,66 @@
  */
 
 import type { Scanner, ScanContext, ScanResult, ScannerCategory } from './types.js';
+import { applySuppressions } from './suppressions.js';
+import { loadPluginScanners } from './plugins.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
+import { loadConfig } from '@/config/schema.js';
+
+/** Source recorded for scanners registered without one */
+const BUILT_IN_SOURCE = 'built-in';
+
+/** Scanners run at once by `runAll` when no concurrency is given */
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Options for running a single scanner
+ */
+export interface RunOptions {
+  /** Abort the scanner after this many milliseconds */
+  timeoutMs?: number | undefined;
+}
+
+/**
+ * Options for running all scanners
+ */
+export interface RunAllOptions extends RunOptions {
+  /** Maximum number of scanners running at once (default: 4) */
+  concurrency?: number | undefined;
+  /** Per-scanner timeout overrides in milliseconds, keyed by scanner ID */
+  scannerTimeouts?: Record<string, number> | undefined;
+  /** Run only these scanner IDs (default: every applicable scanner) */
+  scanners?: string[] | undefined;
+}
 
 /**
  * Central scanner registry
  */
 export class ScannerRegistry {
   private scanners = new Map<string, Scanner>();
+  private sources = new Map<string, string>();
 
   /**
    * Register a scanner
+   *
+   * `source` names where the scanner came from (a plugin specifier, or
+   * `built-in`) so ID conflicts can say which two registrations collided.
    */
-  register(scanner: Scanner): void {
-    if (this.scanners.has(scanner.id)) {
-      throw new Error(`Scanner '${scanner.id}' is already registered`);
+  register(scanner: Scanner, source: string = BUILT_IN_SOURCE): void {
+    const existing = this.sources.get(scanner.id);
+    if (existing !== undefined) {
+      throw new Error(
+        `Scanner '${scanner.id}' from ${describeSource(source)} conflicts with the scanner already registered from ${describeSource(existing)}`,
+      );
     }
     this.scanners.set(scanner.id, scanner);
+    this.sources.set(scanner.id, source);
+  }
+
+  /**
+   * Get where a scanner was registered from (`built-in` or a plugin specifier)
+   */
+  sourceOf(id: string): string | undefined {
+    return this.sources.get(id);
   }
 
   /**
@@ -59,47 +104,155 @@ export class ScannerRegistry {
 
   /**
    * Run a single scanner
+   *
+   * Errors propagate unless a timeout is given, in which case a timeout or
+   * failure is reported as an `error` result like in `runAll`.
    */
-  async run(id: string, context: ScanContext): Promise<ScanResult> {
+  async run(id: string, context: ScanContext, options: RunOptions = {}): Promise<ScanResult> {
     const scanner = this.scanners.get(id);
     if (!scanner) {
       throw new Error(`Scanner '${id}' not found. Available: ${this.ids().join(', ')}`);
     }
-    return scanner.scan(context);
+    const indexed = withIndex(context);
+    if (options.timeoutMs) {
+      return this.runGuarded(scanner, indexed, options.timeoutMs);
+    }
+    return this.execute(scanner, indexed);
   }
 
   /**
-   * Run all applicable scanners
+   * Run all applicable scanners through a bounded worker pool.
+   *
+   * Results keep registration order regardless of completion order. A
+   * scanner that throws, times out, or is cancelled via `context.signal`
+   * yields an `error` result instead of failing the whole run.
    */
-  async runAll(context: ScanContext): Promise<ScanResult[]> {
-    const scanners = context.project ? this.forProject(context.project) : this.all();
-
-    const results: ScanResult[] = [];
-    for (const scanner of scanners) {
-      try {
-        const result = await scanner.scan(context);
-        results.push(result);
-      } catch (error) {
-        results.push({
-          scanner: scanner.id,
-          status: 'error',
-          violations: [],
-          warnings: [],
-          metrics: {},
-          duration: 0,
-          timestamp: new Date().toISOString(),
-          summary: `Scanner error: ${error instanceof Error ? error.message : String(error)}`,
-        });
+  async runAll(context: ScanContext, options: RunAllOptions = {}): Promise<ScanResult[]> {
+    const applicable = context.project ? this.forProject(context.project) : this.all();
+    const only = options.scanners;
+    const scanners = only ? applicable.filter((s) => only.includes(s.id)) : applicable;
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, scanners.length));
+
+    // One shared index so files are walked and read once per run
+    const shared = withIndex(context);
+    const results: ScanResult[] = new Array<ScanResult>(scanners.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < scanners.length) {
+        const index = next++;
+        const scanner = scanners[index]!;
+        const timeoutMs = options.scannerTimeouts?.[scanner.id] ?? options.timeoutMs;
+        results[index] = await this.runGuarded(scanner, shared, timeoutMs);
       }
-    }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
     return results;
   }
+
+  /**
+   * Run a scanner with its own abort signal, converting errors, timeouts
+   * and cancellation into an `error` result.
+   *
+   * The scanner's signal is aborted on timeout or when the parent signal
+   * aborts; the result is returned immediately even if the scanner ignores
+   * the signal and keeps running.
+   */
+  private async runGuarded(
+    scanner: Scanner,
+    context: ScanContext,
+    timeoutMs: number | undefined,
+  ): Promise<ScanResult> {
+    const start = Date.now();
+    const controller = new AbortController();
+    const parent = context.signal;
+    const onParentAbort = (): void => controller.abort(parent?.reason);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      if (parent?.aborted) {
+        throw new Error('Scan cancelled');
+      }
+      parent?.addEventListener('abort', onParentAbort, { once: true });
+
+      const cancelled = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener(
+          'abort',
+          () => reject(toAbortError(controller.signal.reason)),
+          { once: true },
+        );
+      });
+      if (timeoutMs && timeoutMs > 0) {
+        timer = setTimeout(() => {
+          controller.abort(new Error(`Timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+
+      const scan = this.execute(scanner, { ...context, signal: controller.signal });
+      // The losing promise of the race must not surface as an unhandled rejection
+      scan.catch(() => undefined);
+      cancelled.catch(() => undefined);
+
+      return await Promise.race([scan, cancelled]);
+    } catch (error) {
+      return {
+        scanner: scanner.id,
+        status: 'error',
+        violations: [],
+        warnings: [],
+        metrics: {},
+        duration: Date.now() - start,
+        timestamp: new Date().toISOString(),
+        summary: `Scanner error: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    } finally {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  }
+
+  /**
+   * Run a scanner and drop findings silenced by inline directives
+   */
+  private async execute(scanner: Scanner, context: ScanContext): Promise<ScanResult> {
+    const result = await scanner.scan(context);
+    const [filtered] = await applySuppressions([result], context.workspaceRoot, context.index);
+    return filtered ?? result;
+  }
+}
+
+/**
+ * Attach a fresh workspace index unless the caller supplied one
+ */
+function withIndex(context: ScanContext): ScanContext {
+  return context.index ? context : { ...context, index: new WorkspaceIndex(context.workspaceRoot) };
+}
+
+/**
+ * Describe a registration source for error messages
+ */
+function describeSource(source: string): string {
+  return source === BUILT_IN_SOURCE ? 'the built-in scanners' : `plugin '${source}'`;
+}
+
+/**
+ * Normalize an abort reason into an Error
+ */
+function toAbortError(reason: unknown): Error {
+  if (reason instanceof Error) return reason;
+  return new Error(reason === undefined ? 'Scan cancelled' : String(reason));
 }
 
 /**
  * Create the default registry with all built-in scanners
+ *
+ * When a workspace root is given, scanner plugins listed in its
+ * `.dcyfr/config.json` are loaded and registered after the built-ins.
+ * Plugins that fail to load, export invalid scanners, or reuse an existing
+ * scanner ID throw.
  */
-export async function createDefaultRegistry(): Promise<ScannerRegistry> {
+export async function createDefaultRegistry(workspaceRoot?: string): Promise<ScannerRegistry> {
   const registry = new ScannerRegistry();
 
   // Import and register all scanners
@@ -110,10 +263,15 @@ export async function createDefaultRegistry(): Promise<ScannerRegistry> {
   const { tlpHeadersScanner } = await import('./tlp-headers.js');
   const { docsStructureScanner } = await import('./docs-structure.js');
   const { dependencyAuditScanner } = await import('./dependency-audit.js');
+  const { dependencyLicensesScanner } = await import('./dependency-licenses.js');
+  const { dependencyHygieneScanner } = await import('./dependency-hygiene.js');
   const { testDataGuardianScanner } = await import('./test-data-guardian.js');
+  const { secretsScanner } = await import('./secrets.js');
   const { docsGeneratorScanner } = await import('./docs-generator.js');
   const { codeSmellScanner } = await import('./code-smell.js');
   const { apiComplianceScanner } = await import('./api-compliance.js');
+  const { openApiDriftScanner } = await import('./openapi-drift.js');
+  const { customRulesScanner } = await import('./custom-rules.js');
 
   registry.register(designTokensScanner);
   registry.register(barrelExportsScanner);
@@ -122,10 +280,28 @@ export async function createDefaultRegistry(): Promise<ScannerRegistry> {
   registry.register(tlpHeadersScanner);
   registry.register(docsStructureScanner);
   registry.register(dependencyAuditScanner);
+  registry.register(dependencyLicensesScanner);
+  registry.register(dependencyHygieneScanner);
   registry.register(testDataGuardianScanner);
+  registry.register(secretsScanner);
   registry.register(docsGeneratorScanner);
   registry.register(codeSmellScanner);
   registry.register(apiComplianceScanner);
+  registry.register(openApiDriftScanner);
+  registry.register(customRulesScanner);
+
+  if (workspaceRoot) {
+    const { config, errors } = await loadConfig(workspaceRoot);
+    const pluginErrors = errors.filter((e) => e.path === 'plugins' || e.path.startsWith('plugins.'));
+    if (pluginErrors.length > 0) {
+      throw new Error(
+        `Invalid scanner plugins in config: ${pluginErrors.map((e) => `${e.path}: ${e.message}`).join('; ')}`,
+      );
+    }
+    for (const { source, scanner } of await loadPluginScanners(workspaceRoot, config.plugins)) {
+      registry.register(scanner, source);
+    }
+  }
 
   return registry;
 }
@@ -0,0 +1,347 @@
+/**
+ * Secrets Scanner
+ *
+ * Detects committed credentials across the workspace — every tracked
+ * source, config and `.env*` file, not just tests:
+ * - Provider key formats (AWS, GitHub, Stripe, Slack, OpenAI, …)
+ * - Generic high-entropy strings, with a lower bar when the line names a
+ *   secret (`token`, `password`, `apiKey`, …)
+ * - Optionally, secrets added in past commits and since deleted
+ *
+ * Findings are reported with the secret masked and a fingerprint derived
+ * from its value. Known false positives are allowlisted by listing their
+ * fingerprints in `scanners.secrets.options.allowlist`.
+ *
+ * @module @dcyfr/ai-cli/scanners/secrets
+ */
+
+import { createHash } from 'crypto';
+import { basename, extname } from 'path';
+import { relativePath } from '@/lib/files.js';
+import { getHistoryAdditions, getTrackedFiles } from '@/lib/git.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
+import { loadConfig } from '@/config/schema.js';
+import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
+
+/** Extensions of source and config files that are scanned */
+const SCANNED_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.json', '.yaml', '.yml', '.toml', '.ini',
+  '.env', '.properties', '.xml', '.md', '.mdx', '.sh', '.py', '.rb', '.go', '.java', '.tf', '.tfvars',
+]);
+
+/** Extension-less or dot files that are scanned */
+const SCANNED_NAMES = /^(?:\.env(?:\..+)?|\.npmrc|\.pypirc|\.netrc|Dockerfile)$/;
+
+/** Generated files full of hashes that are never scanned */
+const SKIPPED_NAMES = new Set(['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'bun.lock']);
+
+/** Files larger than this are skipped (bundles, fixtures) */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const DEFAULT_HISTORY_DEPTH = 500;
+
+/**
+ * A provider-specific secret format
+ */
+interface SecretRule {
+  id: string;
+  name: string;
+  pattern: RegExp;
+  /** Capture group holding the secret (default: the whole match) */
+  group?: number;
+}
+
+/**
+ * Provider key formats; every match is a finding
+ */
+const SECRET_RULES: SecretRule[] = [
+  { id: 'aws-access-key', name: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    id: 'aws-secret-key',
+    name: 'AWS secret key',
+    pattern: /aws_?secret_?access_?key['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})\b/gi,
+    group: 1,
+  },
+  { id: 'github-token', name: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{82})\b/g },
+  { id: 'gitlab-token', name: 'GitLab token', pattern: /\bglpat-[A-Za-z0-9_-]{20}\b/g },
+  { id: 'slack-token', name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  {
+    id: 'slack-webhook',
+    name: 'Slack webhook URL',
+    pattern: /https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]+\/B[A-Z0-9]+\/[A-Za-z0-9]{20,}/g,
+  },
+  { id: 'stripe-key', name: 'Stripe live key', pattern: /\b(?:sk|rk)_live_[A-Za-z0-9]{24,}\b/g },
+  { id: 'google-api-key', name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { id: 'anthropic-key', name: 'Anthropic API key', pattern: /\bsk-ant-[a-z]+\d{2}-[A-Za-z0-9_-]{80,}/g },
+  {
+    id: 'openai-key',
+    name: 'OpenAI API key',
+    pattern: /\bsk-(?:(?:proj|svcacct|admin)-[A-Za-z0-9_-]{40,}|[A-Za-z0-9]{20}T3BlbkFJ[A-Za-z0-9]{20})\b/g,
+  },
+  { id: 'npm-token', name: 'npm token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  { id: 'sendgrid-key', name: 'SendGrid API key', pattern: /\bSG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}\b/g },
+  {
+    id: 'private-key',
+    name: 'Private key',
+    pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  { id: 'jwt', name: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    id: 'connection-string',
+    name: 'Connection string password',
+    pattern: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|redis|rediss|amqps?):\/\/[^\s:@/'"]+:([^\s@/'"]+)@/g,
+    group: 1,
+  },
+];
+
+/** Names that mark a value as a secret */
+const SECRET_CONTEXT = /(?:secret|token|passw(?:or)?d|\bpwd\b|api[_-]?key|apikey|auth|credential|private[_-]?key|access[_-]?key)/i;
+
+/** Quoted strings, and unquoted `KEY=value` / `key: value` assignments */
+const CANDIDATE_STRINGS = [
+  /(['"`])([A-Za-z0-9+/=_.~-]{20,})\1/g,
+  /^\s*(?:export\s+)?[A-Za-z_][\w.-]*\s*[=:]\s*([A-Za-z0-9+/=_.~-]{20,})\s*(?:#.*)?$/g,
+];
+
+/** Values that are obviously not real secrets */
+const PLACEHOLDER = /example|placeholder|changeme|dummy|sample|your[_-]|xxxx|\*{4}|^(?:test|fake|mock)[_-]|<[^>]+>|\$\{/i;
+
+/**
+ * Entropy (bits per character) a string must reach to be reported
+ */
+const ENTROPY_THRESHOLDS = {
+  /** Base64-like string on a line that names a secret */
+  named: 3.5,
+  /** Base64-like string anywhere */
+  anywhere: 4.5,
+  /** Hex string on a line that names a secret (hex is never flagged on its own) */
+  namedHex: 3.0,
+};
+
+interface SecretsOptions {
+  allowlist: Set<string>;
+  entropy: boolean;
+  history: boolean;
+  historyDepth: number;
+}
+
+/**
+ * A secret found on one line
+ */
+interface SecretMatch {
+  ruleId: string;
+  name: string;
+  secret: string;
+  column: number;
+  /** Found by entropy rather than a provider format */
+  generic: boolean;
+}
+
+export const secretsScanner: Scanner = {
+  id: 'secrets',
+  name: 'Secrets',
+  description: 'Detects committed credentials in tracked files (provider formats + entropy)',
+  category: 'security',
+
+  async scan(context: ScanContext): Promise<ScanResult> {
+    const start = Date.now();
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
+    const options = await loadSecretsOptions(context.workspaceRoot);
+
+    // Tracked files include dot files (.env, .npmrc) the index walk skips
+    const candidates =
+      context.files ??
+      (await getTrackedFiles(context.workspaceRoot)) ??
+      (await index.discover(context.workspaceRoot, { extensions: [...SCANNED_EXTENSIONS] }));
+    const files = candidates.filter(isScannedFile);
+
+    const violations: ScanViolation[] = [];
+    const warnings: ScanViolation[] = [];
+    const seen = new Set<string>();
+    let filesScanned = 0;
+    let allowlisted = 0;
+
+    for (const filePath of files) {
+      context.signal?.throwIfAborted();
+      const content = await index.read(filePath);
+      if (content === null || content.length > MAX_FILE_BYTES || content.includes('\0')) continue;
+
+      filesScanned++;
+      const relPath = relativePath(context.workspaceRoot, filePath);
+      const lines = content.split('\n');
+
+      for (let i = 0; i < lines.length; i++) {
+        for (const match of findSecrets(lines[i]!, options.entropy)) {
+          const fingerprint = fingerprintSecret(match.secret);
+          seen.add(fingerprint);
+          if (options.allowlist.has(fingerprint)) {
+            allowlisted++;
+            continue;
+          }
+          (match.generic ? warnings : violations).push({
+            id: `secret-${match.ruleId}`,
+            severity: match.generic ? 'warning' : 'error',
+            message: `${match.name} ${maskSecret(match.secret)} [fingerprint ${fingerprint}]`,
+            file: relPath,
+            line: i + 1,
+            column: match.column,
+            fix: 'Move it to an untracked .env file or a secret manager, and rotate it',
+            autoFixable: false,
+          });
+        }
+      }
+    }
+
+    // History: only on full scans, secrets no longer present in the tree
+    let historyFindings = 0;
+    if (options.history && !context.files) {
+      const reported = new Set<string>();
+      for await (const added of getHistoryAdditions(context.workspaceRoot, options.historyDepth)) {
+        context.signal?.throwIfAborted();
+        if (!isScannedFile(added.file)) continue;
+        for (const match of findSecrets(added.text, options.entropy)) {
+          if (match.generic) continue;
+          const fingerprint = fingerprintSecret(match.secret);
+          if (seen.has(fingerprint) || reported.has(fingerprint) || options.allowlist.has(fingerprint)) continue;
+          reported.add(fingerprint);
+
+          const relPath = relativePath(context.workspaceRoot, added.file);
+          violations.push({
+            id: 'secret-in-history',
+            severity: 'error',
+            message: `${match.name} ${maskSecret(match.secret)} was committed in ${added.commit.slice(0, 10)} and later removed [fingerprint ${fingerprint}]`,
+            file: relPath,
+            line: added.line,
+            column: match.column,
+            fix: 'Rotate the credential; removing it from the tree does not remove it from git history',
+            autoFixable: false,
+          });
+          historyFindings++;
+        }
+      }
+    }
+
+    const status = violations.length > 0 ? 'fail' : warnings.length > 0 ? 'warn' : 'pass';
+
+    return {
+      scanner: 'secrets',
+      status,
+      violations,
+      warnings,
+      metrics: {
+        filesScanned,
+        secretsFound: violations.length + warnings.length,
+        highEntropyStrings: warnings.length,
+        historyFindings,
+        allowlisted,
+      },
+      duration: Date.now() - start,
+      timestamp: new Date().toISOString(),
+      summary:
+        violations.length + warnings.length === 0
+          ? `${filesScanned} files clean — no secrets found`
+          : `${violations.length} secrets and ${warnings.length} high-entropy strings in ${filesScanned} files`,
+    };
+  },
+};
+
+// ── Detection ────────────────────────────────────────────────
+
+/**
+ * Find secrets on a line: provider formats first, then high-entropy
+ * strings that no provider rule already covers
+ */
+function findSecrets(line: string, entropy: boolean): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+
+  for (const rule of SECRET_RULES) {
+    for (const match of line.matchAll(rule.pattern)) {
+      const secret = match[rule.group ?? 0] ?? match[0];
+      if (PLACEHOLDER.test(secret)) continue;
+      const column = match.index + match[0].indexOf(secret);
+      matches.push({ ruleId: rule.id, name: rule.name, secret, column, generic: false });
+    }
+  }
+
+  if (!entropy) return matches;
+
+  const named = SECRET_CONTEXT.test(line);
+  for (const pattern of CANDIDATE_STRINGS) {
+    for (const match of line.matchAll(pattern)) {
+      const secret = match[match.length - 1]!;
+      const column = match.index + match[0].lastIndexOf(secret);
+      if (matches.some((m) => column < m.column + m.secret.length && m.column < column + secret.length)) continue;
+      if (!isHighEntropy(secret, named)) continue;
+      matches.push({ ruleId: 'high-entropy', name: 'High-entropy string', secret, column, generic: true });
+    }
+  }
+  return matches;
+}
+
+function isHighEntropy(value: string, named: boolean): boolean {
+  if (PLACEHOLDER.test(value) || !/\d/.test(value) || !/[A-Za-z]/.test(value)) return false;
+  // Paths, versions and dotted identifiers rather than tokens
+  if (/^[./@~]|\/\/|\.[a-z]{2,4}$/i.test(value)) return false;
+
+  if (/^[0-9a-f]+$/i.test(value)) {
+    return named && value.length >= 32 && shannonEntropy(value) >= ENTROPY_THRESHOLDS.namedHex;
+  }
+  return shannonEntropy(value) >= (named ? ENTROPY_THRESHOLDS.named : ENTROPY_THRESHOLDS.anywhere);
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/**
+ * Stable ID of a secret value, used to allowlist it wherever it appears
+ */
+function fingerprintSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 16);
+}
+
+/**
+ * Show just enough of a secret to recognize it (`AKIA…MPLE`)
+ */
+function maskSecret(secret: string): string {
+  if (secret.length <= 8) return '*'.repeat(secret.length);
+  return `${secret.slice(0, 4)}…${secret.slice(-4)}`;
+}
+
+function isScannedFile(filePath: string): boolean {
+  const name = basename(filePath);
+  if (SKIPPED_NAMES.has(name) || /\.min\.[cm]?js$/.test(name)) return false;
+  return SCANNED_NAMES.test(name) || SCANNED_EXTENSIONS.has(extname(name));
+}
+
+async function loadSecretsOptions(workspaceRoot: string): Promise<SecretsOptions> {
+  const { config } = await loadConfig(workspaceRoot);
+  const options = config.scanners['secrets']?.options ?? {};
+
+  const allowlist = options['allowlist'] ?? [];
+  if (!Array.isArray(allowlist) || allowlist.some((f) => typeof f !== 'string')) {
+    throw new Error('secrets option allowlist must be an array of fingerprints');
+  }
+  const entropy = options['entropy'] ?? true;
+  const history = options['history'] ?? false;
+  if (typeof entropy !== 'boolean' || typeof history !== 'boolean') {
+    throw new Error('secrets options entropy and history must be booleans');
+  }
+  const historyDepth = options['historyDepth'] ?? DEFAULT_HISTORY_DEPTH;
+  if (typeof historyDepth !== 'number' || !Number.isInteger(historyDepth) || historyDepth < 1) {
+    throw new Error('secrets option historyDepth must be a positive integer');
+  }
+  return { allowlist: new Set(allowlist as string[]), entropy, history, historyDepth };
+}
@@ -0,0 +1,155 @@
+/**
+ * Inline suppression directives
+ *
+ * Lets source files silence individual scanner findings with comments:
+ *
+ *   // dcyfr-ignore-next-line spacing-hardcoded-gap
+ *   const x = 'gap-4'; // dcyfr-ignore-line
+ *   <!-- dcyfr-ignore-file tlp-headers -->
+ *
+ * Rule lists are optional (omitted = all rules) and may name a violation ID,
+ * a scanner ID, or `<scanner>/<violation-id>`. Anything after `--` is treated
+ * as a free-form reason.
+ *
+ * @module @dcyfr/ai-cli/scanners/suppressions
+ */
+
+import { isAbsolute, join } from 'path';
+import { safeReadFile } from '@/lib/files.js';
+import type { WorkspaceIndex } from '@/lib/workspace-index.js';
+import { filterResult } from './filters.js';
+import type { ScanResult, ScanViolation } from './types.js';
+
+const DIRECTIVE_PATTERN = /dcyfr-ignore-(next-line|line|file)\b([^\n]*)/g;
+
+/**
+ * Rules matched by a directive — `'*'` means every rule
+ */
+export type SuppressedRules = Set<string> | '*';
+
+/**
+ * Suppressions parsed from a single file
+ */
+export interface FileSuppressions {
+  /** Rules suppressed for the whole file */
+  file: SuppressedRules | null;
+  /** Rules suppressed per 1-based line number */
+  lines: Map<number, SuppressedRules>;
+}
+
+/**
+ * Parse suppression directives from file content
+ */
+export function parseSuppressions(content: string): FileSuppressions {
+  const suppressions: FileSuppressions = { file: null, lines: new Map() };
+  if (!content.includes('dcyfr-ignore-')) return suppressions;
+
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    DIRECTIVE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = DIRECTIVE_PATTERN.exec(line)) !== null) {
+      const rules = parseRuleList(match[2] ?? '');
+      switch (match[1]) {
+        case 'file':
+          suppressions.file = mergeRules(suppressions.file, rules);
+          break;
+        case 'line':
+          addLineRules(suppressions.lines, i + 1, rules);
+          break;
+        case 'next-line':
+          addLineRules(suppressions.lines, i + 2, rules);
+          break;
+      }
+    }
+  }
+
+  return suppressions;
+}
+
+/**
+ * Check whether a violation is silenced by the parsed suppressions
+ */
+export function isSuppressed(
+  violation: ScanViolation,
+  scannerId: string,
+  suppressions: FileSuppressions,
+): boolean {
+  if (matchesRules(suppressions.file, violation, scannerId)) return true;
+  if (violation.line === undefined) return false;
+  return matchesRules(suppressions.lines.get(violation.line) ?? null, violation, scannerId);
+}
+
+/**
+ * Remove suppressed violations from scan results.
+ *
+ * Files referenced by violations are read once per call (through the
+ * run's workspace index when given); violations in unreadable files are
+ * kept. Removed findings are counted in `metrics.suppressed`.
+ */
+export async function applySuppressions(
+  results: ScanResult[],
+  workspaceRoot: string,
+  index?: WorkspaceIndex,
+): Promise<ScanResult[]> {
+  const cache = new Map<string, FileSuppressions>();
+
+  const load = async (file: string): Promise<FileSuppressions> => {
+    const absolute = isAbsolute(file) ? file : join(workspaceRoot, file);
+    let suppressions = cache.get(absolute);
+    if (!suppressions) {
+      const content = index ? await index.read(absolute) : await safeReadFile(absolute);
+      suppressions = content ? parseSuppressions(content) : { file: null, lines: new Map() };
+      cache.set(absolute, suppressions);
+    }
+    return suppressions;
+  };
+
+  const filtered: ScanResult[] = [];
+  for (const result of results) {
+    const suppressed = new Set<ScanViolation>();
+    for (const violation of [...result.violations, ...result.warnings]) {
+      if (!violation.file) continue;
+      if (isSuppressed(violation, result.scanner, await load(violation.file))) {
+        suppressed.add(violation);
+      }
+    }
+    filtered.push(filterResult(result, (v) => !suppressed.has(v), 'suppressed'));
+  }
+  return filtered;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function parseRuleList(text: string): SuppressedRules {
+  // Strip comment terminators and trailing reason
+  const body = text.split('--')[0]!.replace(/\*\/|-->|\}/g, ' ');
+  const rules = body
+    .split(/[\s,]+/)
+    .map((r) => r.trim())
+    .filter(Boolean);
+  return rules.length > 0 ? new Set(rules) : '*';
+}
+
+function mergeRules(existing: SuppressedRules | null, rules: SuppressedRules): SuppressedRules {
+  if (existing === null) return rules;
+  if (existing === '*' || rules === '*') return '*';
+  return new Set([...existing, ...rules]);
+}
+
+function addLineRules(lines: Map<number, SuppressedRules>, line: number, rules: SuppressedRules): void {
+  lines.set(line, mergeRules(lines.get(line) ?? null, rules));
+}
+
+function matchesRules(
+  rules: SuppressedRules | null,
+  violation: ScanViolation,
+  scannerId: string,
+): boolean {
+  if (rules === null) return false;
+  if (rules === '*') return true;
+  return (
+    rules.has(violation.id) || rules.has(scannerId) || rules.has(`${scannerId}/${violation.id}`)
+  );
+}
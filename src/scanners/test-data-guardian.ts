@@ -8,8 +8,8 @@
  * @module @dcyfr/ai-cli/scanners/test-data-guardian
  */
 
-import { readFile } from 'fs/promises';
-import { discoverFiles, relativePath } from '@/lib/files.js';
+import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
 import type { Scanner, ScanContext, ScanResult, ScanViolation } from './types.js';
 
 /**
@@ -82,11 +82,12 @@ export const testDataGuardianScanner: Scanner = {
 
   async scan(context: ScanContext): Promise<ScanResult> {
     const start = Date.now();
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
     // Find all test files
     const files =
       context.files ??
-      (await discoverFiles(context.workspaceRoot, {
+      (await index.discover(context.workspaceRoot, {
         extensions: ['.ts', '.tsx', '.js', '.mjs'],
         pathPattern: /\.(test|spec)\.(ts|tsx|js|mjs)$/,
       }));
@@ -95,16 +96,12 @@ export const testDataGuardianScanner: Scanner = {
     let filesChecked = 0;
 
     for (const filePath of files) {
-      let content: string;
-      try {
-        content = await readFile(filePath, 'utf-8');
-      } catch {
-        continue;
-      }
+      context.signal?.throwIfAborted();
+      const lines = await index.lines(filePath);
+      if (lines === null) continue;
 
       filesChecked++;
       const relPath = relativePath(context.workspaceRoot, filePath);
-      const lines = content.split('\n');
 
       for (const { name, pattern } of SENSITIVE_PATTERNS) {
         for (let lineIdx = 0; lineIdx < lines.length; lineIdx++) {
@@ -7,10 +7,20 @@
  * @module @dcyfr/ai-cli/scanners/tlp-headers
  */
 
-import { readFile, writeFile } from 'fs/promises';
+import { readFile } from 'fs/promises';
 import { join } from 'path';
-import { discoverFiles, relativePath } from '@/lib/files.js';
-import type { Scanner, ScanContext, ScanResult, ScanViolation, FixResult } from './types.js';
+import { relativePath } from '@/lib/files.js';
+import { WorkspaceIndex } from '@/lib/workspace-index.js';
+import { applyFixPlan } from '@/fix/patches.js';
+import type {
+  Scanner,
+  ScanContext,
+  ScanResult,
+  ScanViolation,
+  FixResult,
+  FixPlan,
+  FilePatch,
+} from './types.js';
 
 const TLP_PATTERN = /<!--\s*TLP:(CLEAR|GREEN|AMBER|RED)/;
 /**
@@ -76,11 +86,12 @@ export const tlpHeadersScanner: Scanner = {
 
   async scan(context: ScanContext): Promise<ScanResult> {
     const start = Date.now();
+    const index = context.index ?? new WorkspaceIndex(context.workspaceRoot);
 
     // Find all markdown files in docs/ directories
     const files =
       context.files ??
-      (await discoverFiles(context.workspaceRoot, {
+      (await index.discover(context.workspaceRoot, {
         extensions: ['.md'],
         pathPattern: /\/docs\//,
       }));
@@ -91,18 +102,15 @@ export const tlpHeadersScanner: Scanner = {
     let filesWithTlp = 0;
 
     for (const filePath of files) {
+      context.signal?.throwIfAborted();
       const relPath = relativePath(context.workspaceRoot, filePath);
 
       // Skip exempt files
       const fileName = relPath.split('/').pop() || '';
       if (EXEMPT_FILES.has(fileName)) continue;
 
-      let content: string;
-      try {
-        content = await readFile(filePath, 'utf-8');
-      } catch {
-        continue;
-      }
+      const content = await index.read(filePath);
+      if (content === null) continue;
 
       filesChecked++;
 
@@ -131,8 +139,8 @@ export const tlpHeadersScanner: Scanner = {
     };
   },
 
-  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
-    const filesModified: string[] = [];
+  async plan(context: ScanContext, violations: ScanViolation[]): Promise<FixPlan> {
+    const patches: FilePatch[] = [];
     const failures: Array<{ file: string; reason: string }> = [];
 
     /** Default TLP classification for auto-fix */
@@ -151,9 +159,14 @@ export const tlpHeadersScanner: Scanner = {
         if (TLP_PATTERN.test(head)) continue;
 
         // Prepend TLP header
-        const newContent = DEFAULT_TLP + content;
-        await writeFile(fullPath, newContent, 'utf-8');
-        filesModified.push(violation.file);
+        patches.push({
+          scanner: 'tlp-headers',
+          file: violation.file,
+          original: content,
+          edits: [{ start: 0, end: 0, text: DEFAULT_TLP }],
+          violations: [violation],
+          description: 'Add TLP:CLEAR classification header',
+        });
       } catch (error) {
         failures.push({
           file: violation.file,
@@ -162,11 +175,10 @@ export const tlpHeadersScanner: Scanner = {
       }
     }
 
-    return {
-      scanner: 'tlp-headers',
-      fixesApplied: filesModified.length,
-      filesModified,
-      failures,
-    };
+    return { scanner: 'tlp-headers', patches, failures };
+  },
+
+  async fix(context: ScanContext, violations: ScanViolation[]): Promise<FixResult> {
+    return applyFixPlan(context, await tlpHeadersScanner.plan!(context, violations));
   },
 };
@@ -7,6 +7,9 @@
  * @module @dcyfr/ai-cli/scanners/types
  */
 
+import type { WorkspaceIndex } from '@/lib/workspace-index.js';
+import type { ScanCache } from './cache.js';
+
 /**
  * Scanner category classification
  */
@@ -44,6 +47,12 @@ export interface ScanContext {
   dryRun?: boolean | undefined;
   /** Verbose output */
   verbose?: boolean | undefined;
+  /** Aborted when the scan is cancelled or exceeds its timeout */
+  signal?: AbortSignal | undefined;
+  /** Shared file index for this run (discovery + memoized reads) */
+  index?: WorkspaceIndex | undefined;
+  /** Per-file result cache (undefined = always analyze every file) */
+  cache?: ScanCache | undefined;
 }
 
 /**
@@ -66,6 +75,8 @@ export interface ScanViolation {
   fix?: string | undefined;
   /** Whether this violation can be auto-fixed */
   autoFixable?: boolean | undefined;
+  /** Structured details a fix relies on (e.g. the package a finding is about) */
+  data?: Record<string, string> | undefined;
 }
 
 /**
@@ -107,6 +118,53 @@ export interface FixResult {
   }>;
 }
 
+/**
+ * Replacement of a character range in a file
+ */
+export interface TextEdit {
+  /** Start offset (inclusive) in the original content */
+  start: number;
+  /** End offset (exclusive) in the original content */
+  end: number;
+  /** Replacement text */
+  text: string;
+}
+
+/**
+ * Proposed edit to one file, produced by `Scanner.plan` without writing
+ */
+export interface FilePatch {
+  /** Scanner that proposed the patch */
+  scanner: string;
+  /** Workspace-relative path */
+  file: string;
+  /** File content the edits were computed against (null = file is created) */
+  original: string | null;
+  /** Edits against `original`; must not overlap */
+  edits: TextEdit[];
+  /** Move the file to this workspace-relative path (after applying edits) */
+  renameTo?: string | undefined;
+  /** Violations this patch resolves */
+  violations: ScanViolation[];
+  /** Short human-readable summary of the change */
+  description: string;
+}
+
+/**
+ * Proposed fixes for a set of violations
+ */
+export interface FixPlan {
+  /** Scanner that produced the plan */
+  scanner: string;
+  /** One patch per independently reviewable change */
+  patches: FilePatch[];
+  /** Violations that could not be planned */
+  failures: Array<{
+    file: string;
+    reason: string;
+  }>;
+}
+
 /**
  * Scanner interface — all scanners implement this
  */
@@ -121,12 +179,20 @@ export interface Scanner {
   category: ScannerCategory;
   /** Projects this scanner applies to (undefined = all) */
   projects?: string[] | undefined;
+  /** Scanner version — bump to invalidate cached per-file results */
+  version?: string | undefined;
 
   /** Execute the scan */
   scan(context: ScanContext): Promise<ScanResult>;
 
   /** Optional: auto-fix detected violations */
   fix?(context: ScanContext, violations: ScanViolation[]): Promise<FixResult>;
+
+  /**
+   * Optional: propose fixes as file patches without writing anything.
+   * Scanners implementing `plan` support interactive review.
+   */
+  plan?(context: ScanContext, violations: ScanViolation[]): Promise<FixPlan>;
 }
 
 /**
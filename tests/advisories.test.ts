@@ -0,0 +1,252 @@
+/**
+ * Lockfile reading, advisory matching and offline dependency audit tests
+ */
+
+import { rm } from 'fs/promises';
+import { join } from 'path';
+import { describe, it, expect } from 'vitest';
+import { readLockfile } from '../src/lib/lockfile.js';
+import { importAdvisories, isAffected } from '../src/advisories/index.js';
+import { dependencyAuditScanner } from '../src/scanners/dependency-audit.js';
+import { useTempWorkspace } from './workspace.js';
+
+const workspace = useTempWorkspace('advisories');
+const { write } = workspace;
+
+const MANIFEST = { name: 'app', dependencies: { next: '^14.0.0' }, devDependencies: { vitest: '^1.0.0' } };
+
+describe('readLockfile', () => {
+  it('reads npm, pnpm and yarn lockfiles into packages with dependency chains', async () => {
+    await write('npm/package.json', MANIFEST);
+    await write('npm/package-lock.json', {
+      lockfileVersion: 3,
+      packages: {
+        '': MANIFEST,
+        'node_modules/next': { version: '14.0.1', dependencies: { postcss: '8.4.31' } },
+        'node_modules/next/node_modules/postcss': { version: '8.4.31' },
+        'node_modules/postcss': { version: '8.4.20', dev: true },
+        'node_modules/vitest': { version: '1.2.0', dev: true, dependencies: { postcss: '^8.4.0' } },
+      },
+    });
+    await write('pnpm/pnpm-lock.yaml', [
+      "lockfileVersion: '9.0'",
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      next: { specifier: ^14.0.0, version: 14.0.1(react@18.2.0) }',
+      'snapshots:',
+      '  next@14.0.1(react@18.2.0):',
+      '    dependencies:',
+      '      postcss: 8.4.31',
+      '  postcss@8.4.31: {}',
+    ].join('\n'));
+    await write('yarn/package.json', MANIFEST);
+    await write('yarn/yarn.lock', [
+      '# yarn lockfile v1',
+      '',
+      'next@^14.0.0:',
+      '  version "14.0.1"',
+      '  dependencies:',
+      '    postcss "^8.4.0"',
+      '',
+      '"postcss@^8.4.0":',
+      '  version "8.4.31"',
+    ].join('\n'));
+
+    const summarize = async (file: string): Promise<string[]> =>
+      (await readLockfile(join(workspace.root, file))).packages.map(
+        (p) => `${p.name}@${p.version} ${p.path.join('>')}${p.dev ? ' dev' : ''}`,
+      );
+
+    expect(await summarize('npm/package-lock.json')).toEqual([
+      'next@14.0.1 next',
+      'postcss@8.4.31 next>postcss',
+      'vitest@1.2.0 vitest dev',
+      'postcss@8.4.20 vitest>postcss dev',
+    ]);
+    expect(await summarize('pnpm/pnpm-lock.yaml')).toEqual(['next@14.0.1 next', 'postcss@8.4.31 next>postcss']);
+    expect(await summarize('yarn/yarn.lock')).toEqual(['next@14.0.1 next', 'postcss@8.4.31 next>postcss']);
+  });
+
+  it('reads a workspace lockfile for one project from its entry', async () => {
+    await write('pnpm/pnpm-lock.yaml', [
+      "lockfileVersion: '9.0'",
+      'importers:',
+      '  .:',
+      '    devDependencies:',
+      '      typescript: { specifier: ^5.4.0, version: 5.4.0 }',
+      '  web:',
+      '    dependencies:',
+      "      lib: { specifier: 'workspace:*', version: 'link:../lib' }",
+      '      next: { specifier: ^14.0.0, version: 14.0.1 }',
+      '    devDependencies:',
+      '      vitest: { specifier: ^1.0.0, version: 1.2.0 }',
+      '  lib:',
+      '    dependencies:',
+      '      postcss: { specifier: ^8.4.0, version: 8.4.31 }',
+      '  api:',
+      '    dependencies:',
+      '      express: { specifier: ^4.0.0, version: 4.0.0 }',
+      'snapshots:',
+      '  express@4.0.0: {}',
+      '  next@14.0.1: {}',
+      '  postcss@8.4.31: {}',
+      '  typescript@5.4.0: {}',
+      '  vitest@1.2.0: {}',
+    ].join('\n'));
+    await write('yarn/web/package.json', { name: 'web', ...MANIFEST });
+    await write('yarn/yarn.lock', [
+      '__metadata:',
+      '  version: 8',
+      '',
+      '"api@workspace:api":',
+      '  version: 0.0.0-use.local',
+      '  resolution: "api@workspace:api"',
+      '  dependencies:',
+      '    express: "npm:^4.0.0"',
+      '',
+      '"web@workspace:web":',
+      '  version: 0.0.0-use.local',
+      '  resolution: "web@workspace:web"',
+      '  dependencies:',
+      '    next: "npm:^14.0.0"',
+      '    vitest: "npm:^1.0.0"',
+      '',
+      '"express@npm:^4.0.0":',
+      '  version: 4.0.0',
+      '',
+      '"next@npm:^14.0.0":',
+      '  version: 14.0.1',
+      '  dependencies:',
+      '    postcss: "npm:^8.4.0"',
+      '',
+      '"postcss@npm:^8.4.0":',
+      '  version: 8.4.31',
+      '',
+      '"vitest@npm:^1.0.0":',
+      '  version: 1.2.0',
+    ].join('\n'));
+
+    const summarize = async (file: string, importer: string): Promise<string[]> =>
+      (await readLockfile(join(workspace.root, file), importer)).packages.map(
+        (p) => `${p.name}@${p.version} ${p.path.join('>')}${p.dev ? ' dev' : ''}`,
+      );
+
+    // Dependencies of linked workspace packages are installed for the project too
+    expect(await summarize('pnpm/pnpm-lock.yaml', 'web')).toEqual([
+      'next@14.0.1 next',
+      'postcss@8.4.31 postcss',
+      'vitest@1.2.0 vitest dev',
+    ]);
+    expect(await summarize('yarn/yarn.lock', 'web')).toEqual([
+      'next@14.0.1 next',
+      'postcss@8.4.31 next>postcss',
+      'vitest@1.2.0 vitest dev',
+    ]);
+    await expect(readLockfile(join(workspace.root, 'pnpm/pnpm-lock.yaml'), 'docs')).rejects.toThrow(
+      'no entry for the workspace project docs',
+    );
+  });
+});
+
+describe('advisories', () => {
+  it('applies OSV range events in version order', () => {
+    const affected = {
+      package: { ecosystem: 'npm', name: 'postcss' },
+      ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '8.4.31' }, { introduced: '9.0.0' }, { last_affected: '9.1.0' }] }],
+    };
+    expect(['8.4.20', '8.4.31', '9.0.0-beta.1', '9.1.0', '9.1.1'].map((v) => isAffected(v, affected))).toEqual([
+      true,
+      false,
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it('audits lockfiles offline against an imported snapshot', async () => {
+    await write('package.json', MANIFEST);
+    await write('package-lock.json', {
+      lockfileVersion: 3,
+      packages: {
+        '': MANIFEST,
+        'node_modules/next': { version: '14.0.1', dependencies: { postcss: '8.4.20' } },
+        'node_modules/postcss': { version: '8.4.20' },
+      },
+    });
+    await write('osv/GHSA-7fh5-64p2-3v2j.json', {
+      id: 'GHSA-7fh5-64p2-3v2j',
+      modified: '2023-10-01T00:00:00Z',
+      summary: 'PostCSS line return parsing error',
+      affected: [
+        {
+          package: { ecosystem: 'npm', name: 'postcss' },
+          ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '8.4.31' }] }],
+        },
+      ],
+      database_specific: { severity: 'MODERATE' },
+    });
+    await write('osv/PYSEC-1.json', { id: 'PYSEC-1', modified: '', affected: [{ package: { ecosystem: 'PyPI', name: 'x' } }] });
+
+    expect(await importAdvisories(workspace.root, join(workspace.root, 'osv'))).toEqual({ imported: 1, skipped: 1, packages: 1 });
+
+    const result = await dependencyAuditScanner.scan({ workspaceRoot: workspace.root });
+    expect(result.status).toBe('warn');
+    expect(result.metrics).toMatchObject({ moderate: 1, total: 1, lockfiles: 1, packages: 2, offline: 1 });
+    expect(result.warnings[0]).toMatchObject({
+      id: 'vuln-postcss',
+      file: 'package-lock.json',
+      message: 'moderate GHSA-7fh5-64p2-3v2j in postcss@8.4.20 (via next > postcss): PostCSS line return parsing error',
+      fix: 'Upgrade postcss to 8.4.31 or later',
+    });
+  });
+
+  it('audits a workspace project from the root lockfile, and never passes without one', async () => {
+    const manifest = { name: 'monorepo', workspaces: ['web', 'api'] };
+    await write('package.json', manifest);
+    await write('web/package.json', { name: 'web', dependencies: { next: '^14.0.0' } });
+    await write('api/package.json', { name: 'api', dependencies: { postcss: '^8.4.0' } });
+    await write('package-lock.json', {
+      lockfileVersion: 3,
+      packages: {
+        '': manifest,
+        web: { name: 'web', dependencies: { next: '^14.0.0' } },
+        api: { name: 'api', dependencies: { postcss: '^8.4.0' } },
+        'node_modules/web': { link: true, resolved: 'web' },
+        'node_modules/api': { link: true, resolved: 'api' },
+        'node_modules/next': { version: '14.0.1', dependencies: { postcss: '8.4.31' } },
+        'node_modules/next/node_modules/postcss': { version: '8.4.31' },
+        'node_modules/postcss': { version: '8.4.20' },
+      },
+    });
+    await write('osv/GHSA-7fh5-64p2-3v2j.json', {
+      id: 'GHSA-7fh5-64p2-3v2j',
+      modified: '2023-10-01T00:00:00Z',
+      affected: [
+        {
+          package: { ecosystem: 'npm', name: 'postcss' },
+          ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '8.4.31' }] }],
+        },
+      ],
+      database_specific: { severity: 'HIGH' },
+    });
+    await importAdvisories(workspace.root, join(workspace.root, 'osv'));
+
+    const web = await dependencyAuditScanner.scan({ workspaceRoot: workspace.root, project: 'web' });
+    expect(web.status).toBe('pass');
+    expect(web.metrics).toMatchObject({ lockfiles: 1, packages: 2 });
+
+    const api = await dependencyAuditScanner.scan({ workspaceRoot: workspace.root, project: 'api' });
+    expect(api.status).toBe('fail');
+    expect(api.violations.map((v) => [v.message, v.file])).toEqual([
+      ['high GHSA-7fh5-64p2-3v2j in postcss@8.4.20 (via postcss)', 'package-lock.json'],
+    ]);
+
+    await rm(join(workspace.root, 'package-lock.json'));
+    expect((await dependencyAuditScanner.scan({ workspaceRoot: workspace.root, project: 'web' })).status).toBe('skipped');
+    await write('.dcyfr/config.json', { scanners: { 'dependency-audit': { options: { source: 'offline' } } } });
+    const offline = await dependencyAuditScanner.scan({ workspaceRoot: workspace.root, project: 'web' });
+    expect(offline.status).toBe('error');
+    expect(offline.summary).toBe('No lockfiles found for web or the workspace above it; nothing to audit offline');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * AST analysis tests — function metrics, imports and exports, route handlers
+ */
+
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi } from 'vitest';
+import { analyzeSource } from '../src/lib/ast.js';
+import { apiComplianceScanner } from '../src/scanners/api-compliance.js';
+
+vi.mock('../src/ai/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/ai/index.js')>()),
+  runAIAnalysis: vi.fn(async () => ({ results: [], providerUsed: null, totalTokens: 0, offline: true, cachedFiles: 0 })),
+}));
+
+describe('analyzeSource', () => {
+  it('measures complexity and nesting per function, ignoring braces in strings', async () => {
+    const source = [
+      'export function pick(a: number, b: number[], c?: boolean) {',
+      '  const braces = "{ { { {";',
+      '  if (a) {',
+      '    for (const x of b) {',
+      '      if (x && c) return x;',
+      '    }',
+      '  } else if (c ?? false) {',
+      '    return b.map((y) => { while (y) { try { y--; } catch { break; } } return y; });',
+      '  }',
+      '  return a > 0 ? a : braces.length;',
+      '}',
+    ].join('\n');
+
+    const { functions } = await analyzeSource('pick.ts', source);
+
+    expect(functions).toEqual([
+      { name: 'pick', line: 1, column: 16, lines: 11, complexity: 8, maxNesting: 3, parameters: 3 },
+      // The callback nests one level inside the else-if branch
+      { name: '<anonymous>', line: 8, column: 17, lines: 1, complexity: 3, maxNesting: 4, parameters: 1 },
+    ]);
+  });
+
+  it('finds unused imports and what each module uses', async () => {
+    const source = [
+      "import React from 'react';",
+      "import { used, unused, type Shape } from './shapes';",
+      "import * as utils from '../utils';",
+      "export { helper } from './helper';",
+      'const s: Shape = used({ unused: 1 });',
+      'export const view = <div>{utils.format(s)}</div>;',
+    ].join('\n');
+
+    const analysis = await analyzeSource('view.tsx', source);
+
+    expect(analysis.unusedImports.map((b) => b.name)).toEqual(['unused']);
+    expect(analysis.exports.map((e) => e.name)).toEqual(['helper', 'view']);
+    expect(Object.fromEntries([...analysis.moduleUsage].map(([m, names]) => [m, [...names]]))).toEqual({
+      react: ['default'],
+      './shapes': ['used', 'unused', 'Shape'],
+      '../utils': ['*'],
+      './helper': ['helper'],
+    });
+  });
+});
+
+describe('api-compliance static analysis', () => {
+  it('checks each exported handler through wrappers and imported helpers', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'dcyfr-api-'));
+    try {
+      await mkdir(join(root, 'src/lib'), { recursive: true });
+      await mkdir(join(root, 'src/app/api/users'), { recursive: true });
+      await writeFile(
+        join(root, 'src/lib/guard.ts'),
+        [
+          'export function withAuth(handler) {',
+          '  return async (req) => { try { return await handler(req); } catch { return new Response(null, { status: 500 }); } };',
+          '}',
+          'export async function readBody(req) { return schema.parse(await req.json()); }',
+        ].join('\n'),
+      );
+      const route = join(root, 'src/app/api/users/route.ts');
+      await writeFile(
+        route,
+        [
+          "import { withAuth, readBody } from '@/lib/guard';",
+          'async function create(req: Request) {',
+          '  return Response.json(await readBody(req));',
+          '}',
+          'export const POST = withAuth(create);',
+          'export async function GET() {',
+          '  return Response.json(await prisma.user.findMany());',
+          '}',
+        ].join('\n'),
+      );
+
+      const result = await apiComplianceScanner.scan({
+        workspaceRoot: root,
+        files: [route],
+        project: 'dcyfr-labs',
+        options: {},
+        dryRun: false,
+        verbose: false,
+      });
+
+      expect(result.metrics).toMatchObject({ routesChecked: 2, compliant: 1 });
+      expect(result.warnings.map((w) => [w.id, w.line, w.column])).toEqual([
+        ['missing-error-handling', 6, 22],
+        ['direct-db-access', 6, 22],
+      ]);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
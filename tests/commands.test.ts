@@ -20,6 +20,17 @@ vi.mock('../src/scanners/registry.js', () => ({
   }),
 }));
 
+vi.mock('../src/scanners/baseline.js', () => ({
+  BASELINE_FILE: '.dcyfr/baseline.json',
+  saveBaseline: async () => ({ entries: [] }),
+  applyWorkspaceBaseline: async (results: unknown[]) => results,
+}));
+
+vi.mock('../src/config/index.js', () => ({
+  loadConfig: async () => ({ config: {}, errors: [] }),
+  resolveRunOptions: () => ({ concurrency: 4 }),
+}));
+
 vi.mock('../src/lib/workspace.js', () => ({
   findWorkspaceRoot: async () => '/tmp/dcyfr-test-workspace',
 }));
@@ -37,6 +48,7 @@ vi.mock('../src/health/index.js', () => ({
   }),
   saveHealthSnapshot: async () => undefined,
   renderScanResults: () => 'Mock validation results',
+  resolveOutputFormat: () => 'text',
 }));
 
 describe('CLI Commands', () => {
@@ -0,0 +1,377 @@
+/**
+ * Fix engine tests — patches, diffs, interactive review and the fix journal
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, readFile, rm, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScannerRegistry } from '../src/scanners/registry.js';
+import { designTokensScanner } from '../src/scanners/design-tokens.js';
+import { ScanCache } from '../src/scanners/cache.js';
+import { applyPatches, createUnifiedDiff, listFixRuns, runFixes, undoFixRun } from '../src/fix/index.js';
+import type { FixReviewDecision, FixReviewItem } from '../src/fix/index.js';
+import type { FilePatch, Scanner, ScanViolation } from '../src/scanners/types.js';
+
+describe('createUnifiedDiff', () => {
+  it('renders hunks with context and line numbers', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n') + '\n';
+    const after = ['a', 'b', 'c', 'D', 'e', 'f', 'g', 'h'].join('\n') + '\n';
+
+    expect(createUnifiedDiff('x.txt', before, after)).toBe(
+      ['diff --git a/x.txt b/x.txt', '--- a/x.txt', '+++ b/x.txt', '@@ -1,7 +1,7 @@', ' a', ' b', ' c', '-d', '+D', ' e', ' f', ' g', ''].join('\n'),
+    );
+  });
+
+  it('renders new files against /dev/null', () => {
+    expect(createUnifiedDiff('new.ts', null, 'x\n')).toBe(
+      'diff --git a/new.ts b/new.ts\nnew file mode 100644\n--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,1 @@\n+x\n',
+    );
+  });
+
+  it('renders renames and missing trailing newlines', () => {
+    expect(createUnifiedDiff('A.md', 'a', 'a', { renameTo: 'docs/A.md' })).toBe(
+      'diff --git a/A.md b/docs/A.md\nsimilarity index 100%\nrename from A.md\nrename to docs/A.md\n',
+    );
+    expect(createUnifiedDiff('a.ts', 'x', 'y\nx')).toContain('+y\n x\n\\ No newline at end of file\n');
+  });
+});
+
+describe('applyPatches', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'dcyfr-fix-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const patch = (original: string | null, start: number, end: number, text: string): FilePatch => ({
+    scanner: 'test',
+    file: 'a.txt',
+    original,
+    edits: [{ start, end, text }],
+    violations: [],
+    description: 'test',
+  });
+
+  it('merges patches per file and rejects overlaps and stale content', async () => {
+    await writeFile(join(root, 'a.txt'), 'hello world');
+
+    const result = await applyPatches(root, [
+      patch('hello world', 0, 5, 'HELLO'),
+      patch('hello world', 6, 11, 'WORLD'),
+      patch('hello world', 3, 8, 'overlap'),
+      patch('stale', 0, 0, 'x'),
+    ]);
+
+    expect(await readFile(join(root, 'a.txt'), 'utf-8')).toBe('HELLO WORLD');
+    expect(result.applied).toHaveLength(2);
+    expect(result.failures.map((f) => f.reason)).toEqual([
+      'Overlaps another fix to the same file',
+      'File changed since the fix was planned',
+    ]);
+  });
+});
+
+describe('runFixes review', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'dcyfr-fix-'));
+    await writeFile(join(root, 'a.txt'), 'one\ntwo\nthree\n');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  /** Scanner flagging every line and proposing to upper-case it */
+  const upperScanner: Scanner = {
+    id: 'upper',
+    name: 'Upper',
+    description: 'Upper-cases lines',
+    category: 'testing',
+    async scan(context) {
+      const content = await readFile(join(context.workspaceRoot, 'a.txt'), 'utf-8');
+      const violations: ScanViolation[] = content
+        .split('\n')
+        .flatMap((line, i) =>
+          line && line !== line.toUpperCase()
+            ? [{ id: i === 0 ? 'first' : 'rest', severity: 'error' as const, message: line, file: 'a.txt', line: i + 1, autoFixable: true }]
+            : [],
+        );
+      return { scanner: 'upper', status: 'fail', violations, warnings: [], metrics: {}, duration: 0, timestamp: '' };
+    },
+    async plan(context, violations) {
+      const content = await readFile(join(context.workspaceRoot, 'a.txt'), 'utf-8');
+      const lines = content.split('\n');
+      const patches = violations.map((v): FilePatch => {
+        const start = lines.slice(0, v.line! - 1).reduce((n, l) => n + l.length + 1, 0);
+        const text = lines[v.line! - 1]!;
+        return {
+          scanner: 'upper',
+          file: 'a.txt',
+          original: content,
+          edits: [{ start, end: start + text.length, text: text.toUpperCase() }],
+          violations: [v],
+          description: 'upper-case',
+        };
+      });
+      return { scanner: 'upper', patches, failures: [] };
+    },
+  };
+
+  async function runWith(decisions: FixReviewDecision[]): Promise<FixReviewItem[]> {
+    const registry = new ScannerRegistry();
+    registry.register(upperScanner);
+    const seen: FixReviewItem[] = [];
+    await runFixes(registry, { workspaceRoot: root }, {
+      review: async (item) => {
+        seen.push(item);
+        return decisions.shift() ?? 'skip';
+      },
+    });
+    return seen;
+  }
+
+  it('applies only accepted patches, with a diff per violation', async () => {
+    const seen = await runWith(['skip', 'accept', 'skip']);
+
+    expect(seen).toHaveLength(3);
+    expect(seen[1]!.diff).toContain('-two\n+TWO');
+    expect(await readFile(join(root, 'a.txt'), 'utf-8')).toBe('one\nTWO\nthree\n');
+  });
+
+  it('previews every planned fix as a diff on dry run without writing', async () => {
+    const registry = new ScannerRegistry();
+    registry.register(upperScanner);
+
+    const report = await runFixes(registry, { workspaceRoot: root }, { dryRun: true });
+
+    expect(report.diff).toBe(
+      ['diff --git a/a.txt b/a.txt', '--- a/a.txt', '+++ b/a.txt', '@@ -1,3 +1,3 @@', '-one', '-two', '-three', '+ONE', '+TWO', '+THREE', ''].join('\n'),
+    );
+    expect(report.results[0]!.plannedFiles).toEqual(['a.txt']);
+    expect(await readFile(join(root, 'a.txt'), 'utf-8')).toBe('one\ntwo\nthree\n');
+  });
+
+  it('re-scans modified files and reports fixed and introduced findings', async () => {
+    const sloppy: Scanner = {
+      ...upperScanner,
+      async plan(context, violations) {
+        const plan = await upperScanner.plan!(context, violations);
+        plan.patches[0]!.edits[0]!.text += '\nzzz';
+        return plan;
+      },
+    };
+    const registry = new ScannerRegistry();
+    registry.register(sloppy);
+
+    const report = await runFixes(registry, { workspaceRoot: root });
+
+    expect(report.results[0]!.verification).toMatchObject({ fixed: 3, remaining: [] });
+    expect(report.results[0]!.verification!.introduced.map((v) => v.message)).toEqual(['zzz']);
+    expect(report.totalIntroduced).toBe(1);
+
+    await writeFile(join(root, 'a.txt'), 'one\ntwo\nthree\n');
+    const unverified = await runFixes(registry, { workspaceRoot: root }, { verify: false });
+    expect(unverified.results[0]!.verification).toBeUndefined();
+  });
+
+  it('accepts the rest of a rule and stops on quit', async () => {
+    const seen = await runWith(['skip', 'accept-rule']);
+    expect(seen).toHaveLength(2);
+    expect(await readFile(join(root, 'a.txt'), 'utf-8')).toBe('one\nTWO\nTHREE\n');
+
+    await writeFile(join(root, 'a.txt'), 'one\ntwo\nthree\n');
+    const quit = await runWith(['accept', 'quit']);
+    expect(quit).toHaveLength(2);
+    expect(await readFile(join(root, 'a.txt'), 'utf-8')).toBe('ONE\ntwo\nthree\n');
+  });
+});
+
+describe('fix journal', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'dcyfr-fix-'));
+    await writeFile(join(root, 'a.txt'), 'one\n');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  /** Scanner proposing to upper-case a.txt and move it under docs/ */
+  const moveScanner: Scanner = {
+    id: 'move',
+    name: 'Move',
+    description: 'Moves a.txt',
+    category: 'documentation',
+    async scan() {
+      const violations: ScanViolation[] = [{ id: 'move', severity: 'error', message: 'move', file: 'a.txt', autoFixable: true }];
+      return { scanner: 'move', status: 'fail', violations, warnings: [], metrics: {}, duration: 0, timestamp: '' };
+    },
+    async plan(context, violations) {
+      const original = await readFile(join(context.workspaceRoot, 'a.txt'), 'utf-8');
+      return {
+        scanner: 'move',
+        patches: [{ scanner: 'move', file: 'a.txt', original, edits: [{ start: 0, end: 3, text: 'ONE' }], renameTo: 'docs/a.txt', violations, description: 'move' }],
+        failures: [],
+      };
+    },
+  };
+
+  /** Plan-less scanner that writes b.txt and then dies */
+  const crashingScanner: Scanner = {
+    id: 'crash',
+    name: 'Crash',
+    description: 'Fails halfway',
+    category: 'testing',
+    async scan() {
+      const violations: ScanViolation[] = [{ id: 'crash', severity: 'error', message: 'crash', file: 'b.txt', autoFixable: true }];
+      return { scanner: 'crash', status: 'fail', violations, warnings: [], metrics: {}, duration: 0, timestamp: '' };
+    },
+    async fix(context) {
+      await writeFile(join(context.workspaceRoot, 'b.txt'), 'partial');
+      throw new Error('disk full');
+    },
+  };
+
+  it('undoes a run, moving files back', async () => {
+    const registry = new ScannerRegistry();
+    registry.register(moveScanner);
+
+    const report = await runFixes(registry, { workspaceRoot: root });
+    expect(await readFile(join(root, 'docs/a.txt'), 'utf-8')).toBe('ONE\n');
+
+    const result = await undoFixRun(root);
+    expect(result).toEqual({ runId: report.runId, restored: ['a.txt'] });
+    expect(await readFile(join(root, 'a.txt'), 'utf-8')).toBe('one\n');
+    await expect(access(join(root, 'docs/a.txt'))).rejects.toThrow();
+    expect((await listFixRuns(root))[0]!.status).toBe('undone');
+  });
+
+  it('refuses to undo over later edits unless forced', async () => {
+    const registry = new ScannerRegistry();
+    registry.register(moveScanner);
+    await runFixes(registry, { workspaceRoot: root });
+    await writeFile(join(root, 'docs/a.txt'), 'edited\n');
+
+    await expect(undoFixRun(root)).rejects.toThrow(/Files changed since fix run .*docs\/a\.txt/);
+    await undoFixRun(root, undefined, { force: true });
+    expect(await readFile(join(root, 'a.txt'), 'utf-8')).toBe('one\n');
+  });
+
+  it('rolls the whole run back when a fix throws', async () => {
+    const registry = new ScannerRegistry();
+    registry.register(moveScanner);
+    registry.register(crashingScanner);
+
+    await expect(runFixes(registry, { workspaceRoot: root })).rejects.toThrow(
+      'Fix run failed and was rolled back: disk full',
+    );
+    expect(await readFile(join(root, 'a.txt'), 'utf-8')).toBe('one\n');
+    await expect(access(join(root, 'docs/a.txt'))).rejects.toThrow();
+    await expect(access(join(root, 'b.txt'))).rejects.toThrow();
+    expect((await listFixRuns(root))[0]).toMatchObject({ status: 'rolled-back', error: 'disk full' });
+  });
+});
+
+describe('design-tokens fix', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'dcyfr-fix-'));
+    await mkdir(join(root, '.dcyfr'));
+    await mkdir(join(root, 'dcyfr-labs/src'), { recursive: true });
+    await writeFile(
+      join(root, '.dcyfr/config.json'),
+      JSON.stringify({
+        scanners: {
+          'design-tokens': {
+            enabled: true,
+            options: { tokenMap: { 'space-y-8': 'SPACING.section', 'text-3xl': 'TYPOGRAPHY.h1' } },
+          },
+        },
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('rewrites mapped classes to tokens and adds the import', async () => {
+    await writeFile(
+      join(root, 'dcyfr-labs/src/page.tsx'),
+      [
+        "'use client';",
+        "import { cn } from '@/lib/utils';",
+        '',
+        'export function Page({ wide }: { wide: boolean }) {',
+        '  return (',
+        '    <div className="space-y-8 px-4">',
+        "      <h1 className={cn('text-3xl', wide && 'md:space-y-8')}>Title</h1>",
+        '      <p className={`text-3xl ${wide ? "gap-4" : ""}`}>Body</p>',
+        '      <p className="text-lg">Unmapped</p>',
+        '    </div>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    );
+    const registry = new ScannerRegistry();
+    registry.register(designTokensScanner);
+
+    const report = await runFixes(registry, { workspaceRoot: root });
+
+    expect(await readFile(join(root, 'dcyfr-labs/src/page.tsx'), 'utf-8')).toBe(
+      [
+        "'use client';",
+        "import { cn } from '@/lib/utils';",
+        "import { SPACING, TYPOGRAPHY } from '@/lib/design-tokens';",
+        '',
+        'export function Page({ wide }: { wide: boolean }) {',
+        '  return (',
+        '    <div className={`${SPACING.section} px-4`}>',
+        "      <h1 className={cn(TYPOGRAPHY.h1, wide && 'md:space-y-8')}>Title</h1>",
+        '      <p className={`${TYPOGRAPHY.h1} ${wide ? "gap-4" : ""}`}>Body</p>',
+        '      <p className="text-lg">Unmapped</p>',
+        '    </div>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    );
+    expect(report.results[0]!.fixResult).toMatchObject({ fixesApplied: 1, failures: [] });
+    expect(report.results[0]!.verification).toMatchObject({ fixed: 3, remaining: [], introduced: [] });
+  });
+
+  it('re-analyzes cached files when a mapped token changes', async () => {
+    await writeFile(join(root, 'dcyfr-labs/src/page.tsx'), 'export const Page = () => <div className="space-y-8" />;\n');
+    const scan = async (): Promise<string | undefined> => {
+      const cache = new ScanCache(root);
+      const result = await designTokensScanner.scan({ workspaceRoot: root, cache });
+      await cache.flush();
+      return result.violations[0]?.fix;
+    };
+
+    expect(await scan()).toBe('Replace with SPACING.section');
+    await writeFile(
+      join(root, '.dcyfr/config.json'),
+      JSON.stringify({
+        scanners: {
+          'design-tokens': {
+            enabled: true,
+            options: { tokenMap: { 'space-y-8': 'SPACING.stack', 'text-3xl': 'TYPOGRAPHY.h1' } },
+          },
+        },
+      }),
+    );
+    expect(await scan()).toBe('Replace with SPACING.stack');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Diff hunk parsing and changed-line filtering tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDiffHunks } from '../src/lib/git.js';
+import { filterToChangedLines } from '../src/scanners/changed-lines.js';
+import type { ScanResult } from '../src/scanners/types.js';
+
+const DIFF = [
+  'diff --git a/src/app/page.tsx b/src/app/page.tsx',
+  'index 1111111..2222222 100644',
+  '--- a/src/app/page.tsx',
+  '+++ b/src/app/page.tsx',
+  '@@ -3 +3 @@ export default function Page() {',
+  "-  return <div className='gap-2' />;",
+  "+  return <div className='gap-4' />;",
+  '@@ -10,0 +11,3 @@',
+  '+one',
+  '+two',
+  '+three',
+  '@@ -20,2 +23,0 @@',
+  '-removed',
+  '-removed',
+  'diff --git a/old.ts b/old.ts',
+  'deleted file mode 100644',
+  '--- a/old.ts',
+  '+++ /dev/null',
+  '@@ -1,2 +0,0 @@',
+  '-gone',
+  '-gone',
+  'diff --git "a/caf\\303\\251.md" "b/caf\\303\\251.md"',
+  '--- "a/caf\\303\\251.md"',
+  '+++ "b/caf\\303\\251.md"',
+  '@@ -1 +1,2 @@',
+  '+# Café',
+].join('\n');
+
+describe('parseDiffHunks', () => {
+  it('collects added/modified ranges and skips pure deletions', () => {
+    const hunks = parseDiffHunks(DIFF);
+
+    expect(hunks.get('src/app/page.tsx')).toEqual([
+      { start: 3, end: 3 },
+      { start: 11, end: 13 },
+    ]);
+    expect(hunks.has('old.ts')).toBe(false);
+  });
+
+  it('decodes quoted non-ASCII paths', () => {
+    expect(parseDiffHunks(DIFF).get('café.md')).toEqual([{ start: 1, end: 2 }]);
+  });
+});
+
+describe('filterToChangedLines', () => {
+  const changed = new Map([['/repo/src/app/page.tsx', [{ start: 11, end: 13 }]]]);
+
+  const result: ScanResult = {
+    scanner: 'design-tokens',
+    status: 'fail',
+    violations: [
+      { id: 'a', severity: 'error', message: 'in hunk', file: 'src/app/page.tsx', line: 12 },
+      { id: 'b', severity: 'error', message: 'outside hunk', file: 'src/app/page.tsx', line: 2 },
+      { id: 'c', severity: 'error', message: 'untouched file', file: 'src/other.tsx', line: 12 },
+      { id: 'd', severity: 'error', message: 'workspace level' },
+    ],
+    warnings: [],
+    metrics: {},
+    duration: 1,
+    timestamp: new Date().toISOString(),
+  };
+
+  it('keeps findings on changed lines and workspace-level findings', () => {
+    const [filtered] = filterToChangedLines([result], changed, '/repo');
+
+    expect(filtered!.violations.map((v) => v.id)).toEqual(['a', 'd']);
+    expect(filtered!.metrics['outsideDiff']).toBe(2);
+  });
+});
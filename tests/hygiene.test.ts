@@ -0,0 +1,115 @@
+/**
+ * Dependency hygiene scanner tests
+ */
+
+import { beforeEach, describe, it, expect } from 'vitest';
+import { patchedContent } from '../src/fix/patches.js';
+import { dependencyHygieneScanner } from '../src/scanners/dependency-hygiene.js';
+import { useTempWorkspace } from './workspace.js';
+
+const workspace = useTempWorkspace('hygiene');
+const { write } = workspace;
+
+beforeEach(async () => {
+  await write('web/package.json', {
+    name: 'web',
+    scripts: { build: 'next build' },
+    dependencies: { next: '^14.0.0', react: '^18.2.0', lodash: '^4.17.21' },
+    devDependencies: { zod: '^3.22.0', vitest: '^1.0.0', '@types/react': '^18.2.0' },
+  });
+  await write(
+    'web/src/app.tsx',
+    [
+      "import React from 'react';",
+      "import { z } from 'zod';",
+      "import type { Metadata } from 'next';",
+      "import { readFile } from 'node:fs/promises';",
+      "import { api } from '@/lib/api';",
+      "import 'dayjs/locale/en';",
+    ].join('\n'),
+  );
+  await write('web/tests/app.test.ts', "import { it } from 'vitest';\nimport { render } from '@testing-library/react';");
+  await write('docs/package.json', { name: 'docs', dependencies: { react: '^18.3.1' } });
+  await write('docs/index.ts', "export * from 'react';");
+});
+
+describe('dependencyHygieneScanner', () => {
+  it('reports unused, undeclared, misplaced and version-skewed dependencies', async () => {
+    const result = await dependencyHygieneScanner.scan({ workspaceRoot: workspace.root });
+    const findings = [...result.violations, ...result.warnings].map((v) => `${v.id} ${v.file}:${v.line} ${v.message}`);
+
+    // Projects are listed in directory order
+    expect(findings.sort()).toEqual([
+      'undeclared-dependency web/src/app.tsx:6 dayjs is imported but not declared in web/package.json',
+      'undeclared-dependency web/tests/app.test.ts:2 @testing-library/react is imported but not declared in web/package.json',
+      'dev-dependency-in-runtime web/package.json:12 zod is a devDependency but runtime code imports it',
+      'unused-dependency web/package.json:9 lodash is declared in dependencies but never imported',
+      'version-skew docs/package.json:4 react is declared as ^18.3.1 here but ^18.2.0 in web/package.json',
+      'version-skew web/package.json:8 react is declared as ^18.2.0 here but ^18.3.1 in docs/package.json',
+    ].sort());
+    expect(result.metrics).toMatchObject({ projects: 2, unused: 1, undeclared: 2, devInRuntime: 1, skewed: 1 });
+  });
+
+  it('moves misplaced devDependencies with entry-level edits', async () => {
+    const context = { workspaceRoot: workspace.root };
+    const result = await dependencyHygieneScanner.scan(context);
+    const findings = [...result.violations, ...result.warnings];
+    expect(findings.find((v) => v.id === 'dev-dependency-in-runtime')).toMatchObject({
+      fix: 'Move zod to dependencies (imported by web/src/app.tsx:2)',
+      data: { package: 'zod' },
+    });
+    // Removing dependencies is opt-in
+    expect(findings.find((v) => v.id === 'unused-dependency')?.autoFixable).toBe(false);
+
+    const plan = await dependencyHygieneScanner.plan!(context, findings);
+    expect(plan.patches).toHaveLength(1);
+    expect(plan.patches[0]?.description).toBe('web/package.json: move 1 to dependencies');
+    expect(patchedContent(plan.patches[0]!)).toContain(
+      [
+        '  "dependencies": {',
+        '    "next": "^14.0.0",',
+        '    "react": "^18.2.0",',
+        '    "lodash": "^4.17.21",',
+        '    "zod": "^3.22.0"',
+        '  },',
+        '  "devDependencies": {',
+        '    "vitest": "^1.0.0",',
+        '    "@types/react": "^18.2.0"',
+        '  }',
+      ].join('\n'),
+    );
+  });
+
+  it('removes unused dependencies only with removeUnused, keeping peers of installed packages', async () => {
+    await write('.dcyfr/config.json', { scanners: { 'dependency-hygiene': { options: { removeUnused: true } } } });
+    await write('web/package.json', {
+      name: 'web',
+      dependencies: { lodash: '^4.17.21', next: '^14.0.0', 'react-dom': '^18.2.0' },
+      devDependencies: { zod: '^3.22.0' },
+    });
+    await write('web/node_modules/next/package.json', { name: 'next', peerDependencies: { 'react-dom': '*' } });
+    await write('web/src/app.tsx', "import { z } from 'zod';\nimport Link from 'next/link';");
+
+    const context = { workspaceRoot: workspace.root, project: 'web' };
+    const result = await dependencyHygieneScanner.scan(context);
+    const unused = result.warnings.filter((v) => v.id === 'unused-dependency');
+    expect(unused.map((v) => [v.data?.['package'], v.autoFixable])).toEqual([['lodash', true]]);
+
+    const plan = await dependencyHygieneScanner.plan!(context, [...result.violations, ...result.warnings]);
+    expect(plan.patches[0]?.description).toBe('web/package.json: remove 1 unused, move 1 to dependencies');
+    expect(patchedContent(plan.patches[0]!)).toBe(
+      [
+        '{',
+        '  "name": "web",',
+        '  "dependencies": {',
+        '    "next": "^14.0.0",',
+        '    "react-dom": "^18.2.0",',
+        '    "zod": "^3.22.0"',
+        '  },',
+        '  "devDependencies": {}',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Daemon control API tests
+ */
+
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { createConnection } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { DaemonProcess } from '../src/daemon/process.js';
+import { IpcServer, RpcError, RPC_ERRORS, connectDaemon, resolveSocketPath } from '../src/daemon/ipc.js';
+import type { DaemonEvent, DaemonState } from '../src/daemon/types.js';
+import type { ScanResult } from '../src/scanners/types.js';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'dcyfr-ipc-'));
+  await mkdir(join(root, '.dcyfr'));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('IpcServer', () => {
+  it('answers JSON-RPC calls and reports errors with codes', async () => {
+    const server = new IpcServer(resolveSocketPath(root));
+    server.register('math.add', (params) => (params['a'] as number) + (params['b'] as number));
+    server.register('math.fail', () => {
+      throw new RpcError(RPC_ERRORS.INVALID_PARAMS, 'b must be a number');
+    });
+    await server.listen();
+
+    try {
+      const client = await connectDaemon(root);
+      expect(client).not.toBeNull();
+      const results = await Promise.all([
+        client!.call('math.add', { a: 2, b: 3 }),
+        client!.call('math.add', { a: 4, b: 5 }),
+      ]);
+      expect(results).toEqual([5, 9]);
+
+      await expect(client!.call('math.fail')).rejects.toMatchObject({
+        code: RPC_ERRORS.INVALID_PARAMS,
+        message: 'b must be a number',
+      });
+      await expect(client!.call('math.nope')).rejects.toMatchObject({ code: RPC_ERRORS.METHOD_NOT_FOUND });
+      client!.close();
+
+      // Malformed input gets an error response instead of a dropped connection
+      const raw = await new Promise<string>((resolve) => {
+        const socket = createConnection(resolveSocketPath(root), () => socket.write('{oops\n'));
+        socket.setEncoding('utf-8');
+        socket.on('data', (data: string) => {
+          resolve(data);
+          socket.end();
+        });
+      });
+      expect(JSON.parse(raw)).toMatchObject({ id: null, error: { code: RPC_ERRORS.PARSE_ERROR } });
+    } finally {
+      await server.close();
+    }
+
+    expect(await connectDaemon(root)).toBeNull();
+  });
+
+  it.skipIf(process.platform === 'win32')('uses a short socket path for deep workspaces', () => {
+    const deep = join(root, 'x'.repeat(120));
+    expect(resolveSocketPath(root)).toBe(join(root, '.dcyfr', 'daemon.sock'));
+    expect(resolveSocketPath(deep).startsWith(tmpdir())).toBe(true);
+    expect(resolveSocketPath(deep)).toBe(resolveSocketPath(deep));
+  });
+});
+
+describe('daemon control methods', () => {
+  it('queues scans, toggles schedules and reports state', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    await writeFile(join(root, 'package.json'), JSON.stringify({ name: 'fixture', version: '1.0.0' }));
+
+    const daemon = new DaemonProcess(root, {
+      watcherEnabled: false,
+      schedulerEnabled: false,
+      healthInterval: 600_000,
+    });
+    await daemon.start();
+
+    try {
+      const client = await connectDaemon(root);
+      expect(client).not.toBeNull();
+
+      const { results } = await client!.call<{ results: ScanResult[] }>('scan.run', {
+        scanners: ['dependency-hygiene'],
+      });
+      expect(results.map((r) => [r.scanner, r.status])).toEqual([['dependency-hygiene', 'pass']]);
+
+      await expect(client!.call('queue.enqueue', { scanner: 'missing' })).rejects.toMatchObject({
+        code: RPC_ERRORS.INVALID_PARAMS,
+      });
+      await expect(
+        client!.call('queue.enqueue', { scanner: 'dependency-hygiene', priority: 'urgent' }),
+      ).rejects.toThrow('priority must be one of');
+
+      expect(await client!.call('schedules.setEnabled', { id: 'tlp-headers', enabled: false })).toEqual({
+        id: 'tlp-headers',
+        enabled: false,
+      });
+      const state = await client!.call<DaemonState>('daemon.state');
+      expect(state.pid).toBe(process.pid);
+      // Hand-offs run outside the queue
+      expect(state.tasksCompleted).toBe(0);
+
+      client!.close();
+    } finally {
+      await daemon.stop();
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('streams subscribed events', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    await writeFile(join(root, 'package.json'), JSON.stringify({ name: 'fixture', version: '1.0.0' }));
+
+    const daemon = new DaemonProcess(root, {
+      watcherEnabled: false,
+      schedulerEnabled: false,
+      healthInterval: 600_000,
+    });
+    await daemon.start();
+
+    try {
+      const subscriber = (await connectDaemon(root))!;
+      const events: DaemonEvent[] = [];
+      const received = new Promise<void>((resolve) => {
+        subscriber.onNotification((method, params) => {
+          const event = params as DaemonEvent;
+          events.push(event);
+          if (event.type === 'health:updated') resolve();
+        });
+      });
+      expect(await subscriber.call('events.subscribe', { filter: ['task:*', 'health:updated'] })).toEqual({
+        filter: ['task:*', 'health:updated'],
+      });
+      await expect(subscriber.call('events.subscribe', { filter: ['no spaces'] })).rejects.toMatchObject({
+        code: RPC_ERRORS.INVALID_PARAMS,
+      });
+
+      const client = (await connectDaemon(root))!;
+      await client.call('queue.enqueue', { scanner: 'dependency-hygiene' });
+      await received;
+
+      expect(events.map((e) => e.type)).toEqual(['task:queued', 'task:started', 'task:completed', 'health:updated']);
+      expect(events[3]?.data).toMatchObject({ score: 100, status: 'healthy', scanner: 'dependency-hygiene' });
+
+      const closed = new Promise<void>((resolve) => subscriber.onClose(resolve));
+      client.close();
+      await daemon.stop();
+      await closed;
+    } finally {
+      await daemon.stop();
+      vi.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * SPDX expression and dependency license scanner tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateLicense, formatLicenseExpression, parseLicenseExpression } from '../src/lib/spdx.js';
+import { dependencyLicensesScanner } from '../src/scanners/dependency-licenses.js';
+import { useTempWorkspace } from './workspace.js';
+
+const workspace = useTempWorkspace('licenses');
+const { write } = workspace;
+
+describe('SPDX expressions', () => {
+  const policy = { allow: ['MIT', 'Apache-2.0', 'GPL-2.0-only WITH Classpath-exception-2.0'], deny: ['GPL-*', 'AGPL-*'] };
+  const verdict = (expression: string): string => {
+    const result = evaluateLicense(parseLicenseExpression(expression), policy);
+    return [result.status, ...result.licenses].join(' ');
+  };
+
+  it('parses with AND binding tighter than OR', () => {
+    expect(formatLicenseExpression(parseLicenseExpression('MIT OR Apache-2.0 AND BSD-3-Clause'))).toBe(
+      'MIT OR (Apache-2.0 AND BSD-3-Clause)',
+    );
+    expect(() => parseLicenseExpression('(MIT OR')).toThrow();
+    expect(() => parseLicenseExpression('MIT Apache-2.0')).toThrow();
+  });
+
+  it('evaluates expressions against allow and deny lists', () => {
+    expect(verdict('(MIT OR GPL-3.0-only)')).toBe('allowed');
+    expect(verdict('MIT AND AGPL-3.0-or-later')).toBe('denied AGPL-3.0-or-later');
+    expect(verdict('GPL-2.0-only OR ISC')).toBe('unlisted ISC');
+    expect(verdict('GPL-2.0-only WITH Classpath-exception-2.0')).toBe('allowed');
+    expect(verdict('gpl-3.0')).toBe('denied gpl-3.0');
+  });
+});
+
+describe('dependencyLicensesScanner', () => {
+  it('reports denied, unlisted and unknown licenses with their dependency chain', async () => {
+    const manifest = { name: 'app', dependencies: { ui: '^1.0.0' }, devDependencies: { tool: '^1.0.0' } };
+    await write('package.json', manifest);
+    await write('package-lock.json', {
+      lockfileVersion: 3,
+      packages: {
+        '': manifest,
+        'node_modules/ui': { version: '1.0.0', license: 'MIT', dependencies: { chart: '2.0.0', fmt: '1.0.0' } },
+        'node_modules/chart': { version: '2.0.0', license: 'MIT' },
+        'node_modules/fmt': { version: '1.0.0' },
+        'node_modules/legacy': { version: '0.1.0' },
+        'node_modules/tool': { version: '1.0.0', dev: true, license: 'GPL-3.0-only' },
+      },
+    });
+    // The installed manifest wins over the lockfile
+    await write('node_modules/chart/package.json', { name: 'chart', version: '2.0.0', license: '(MIT AND GPL-2.0-or-later)' });
+    await write('node_modules/fmt/package.json', { name: 'fmt', version: '1.0.0', licenses: [{ type: 'MPL-2.0' }] });
+    await write('.dcyfr/config.json', {
+      scanners: { 'dependency-licenses': { options: { allow: ['MIT'], overrides: { 'legacy@0.1.0': 'MIT' } } } },
+    });
+
+    const result = await dependencyLicensesScanner.scan({ workspaceRoot: workspace.root });
+    expect(result.status).toBe('fail');
+    expect(result.metrics).toMatchObject({ packages: 4, allowed: 2, denied: 1, unlisted: 1, unknown: 0 });
+    expect(result.violations[0]).toMatchObject({
+      id: 'denied-license',
+      file: 'package-lock.json',
+      message: 'chart@2.0.0 is licensed MIT AND GPL-2.0-or-later, which is denied (GPL-2.0-or-later) (via ui > chart)',
+    });
+    expect(result.warnings[0]?.message).toBe(
+      'fmt@1.0.0 is licensed MPL-2.0, which is not in the allow list (MPL-2.0) (via ui > fmt)',
+    );
+  });
+
+  it('checks a workspace project from the root lockfile', async () => {
+    await write('package.json', { name: 'monorepo', private: true, workspaces: ['web', 'api'] });
+    await write('web/package.json', { name: 'web', dependencies: { editor: '^1.0.0' } });
+    await write('api/package.json', { name: 'api', dependencies: { server: '^1.0.0' } });
+    await write('yarn.lock', [
+      '# yarn lockfile v1',
+      '',
+      'editor@^1.0.0:',
+      '  version "1.0.0"',
+      '',
+      'server@^1.0.0:',
+      '  version "1.0.0"',
+    ].join('\n'));
+    await write('web/node_modules/editor/package.json', { name: 'editor', version: '1.0.0', license: 'AGPL-3.0-only' });
+    await write('node_modules/server/package.json', { name: 'server', version: '1.0.0', license: 'MIT' });
+
+    const result = await dependencyLicensesScanner.scan({ workspaceRoot: workspace.root, project: 'web' });
+    expect(result.status).toBe('fail');
+    expect(result.metrics).toMatchObject({ packages: 1, denied: 1 });
+    expect(result.violations.map((v) => [v.message, v.file])).toEqual([
+      ['editor@1.0.0 is licensed AGPL-3.0-only, which is denied (AGPL-3.0-only)', 'yarn.lock'],
+    ]);
+  });
+});
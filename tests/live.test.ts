@@ -0,0 +1,117 @@
+/**
+ * Live health dashboard tests
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect } from 'vitest';
+import { renderLiveDashboard } from '../src/health/live.js';
+import { buildHealthSnapshot, loadScanResults, saveScanResults } from '../src/health/state.js';
+import type { LiveDashboardView } from '../src/health/live.js';
+import type { ScanResult } from '../src/scanners/types.js';
+
+function makeResult(scanner: string, overrides: Partial<ScanResult> = {}): ScanResult {
+  return {
+    scanner,
+    status: 'pass',
+    violations: [],
+    warnings: [],
+    metrics: {},
+    duration: 10,
+    timestamp: '2026-03-06T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeView(overrides: Partial<LiveDashboardView> = {}): LiveDashboardView {
+  const results = [
+    makeResult('secrets', {
+      status: 'fail',
+      violations: [
+        { id: 'aws-key', severity: 'error', message: 'AWS access key\nin source', file: 'src/config.ts', line: 12, fix: 'Move it to the environment' },
+      ],
+    }),
+    makeResult('design-tokens'),
+  ];
+  return {
+    snapshot: buildHealthSnapshot(results),
+    history: [],
+    results,
+    queue: null,
+    logs: [],
+    selected: 'secrets',
+    mode: 'overview',
+    scroll: 0,
+    message: '',
+    ...overrides,
+  };
+}
+
+// eslint-disable-next-line no-control-regex
+const strip = (lines: string[]): string[] => lines.map((line) => line.replace(/\x1b\[[0-9;]*m/g, ''));
+
+describe('renderLiveDashboard', () => {
+  const now = new Date('2026-03-06T12:05:00.000Z');
+
+  it('fills the terminal with scores, queue, violations and logs', () => {
+    const view = makeView({
+      queue: {
+        stats: { queued: 1, running: 1, completed: 4, failed: 2 },
+        pending: [
+          { id: 't1', scanner: 'secrets', priority: 1, source: 'watcher', createdAt: '', status: 'running', files: ['a.ts'] },
+          { id: 't2', scanner: 'design-tokens', priority: 2, source: 'scheduler', createdAt: '', status: 'queued' },
+        ],
+      },
+      logs: ['[2026-03-06T12:04:00.000Z] INFO  Task completed: secrets (12ms)'],
+    });
+    const lines = strip(renderLiveDashboard(view, { columns: 100, rows: 30 }, now));
+
+    expect(lines).toHaveLength(30);
+    expect(lines.every((line) => line.length <= 99)).toBe(true);
+    expect(lines[0]).toContain('last scan 5m ago');
+    expect(lines.find((l) => l.includes('Secrets') && l.includes('FAIL'))).toMatch(/^ ▶ Secrets/);
+    expect(lines).toContain(' Queue  running 1 · queued 1 · completed 4 · failed 2');
+    expect(lines).toContain('   ▶ Secrets (watcher, 1 files)');
+    // Newlines in messages don't break the layout
+    expect(lines).toContain('   ✗ Secrets  src/config.ts:12  AWS access key in source');
+    expect(lines.some((l) => l.includes('Task completed: secrets'))).toBe(true);
+  });
+
+  it('shows the selected scanner’s violation list and truncates wide lines', () => {
+    const lines = strip(renderLiveDashboard(makeView({ mode: 'violations' }), { columns: 40, rows: 12 }, now));
+
+    expect(lines).toHaveLength(12);
+    expect(lines[2]).toBe(' Secrets — 1 errors, 0 warnings  FAIL');
+    expect(lines[4]).toBe('   ✗ src/config.ts:12  AWS access key i');
+    expect(lines[5]).toBe('       fix: Move it to the environment');
+    expect(lines[11]).toContain('esc back');
+  });
+
+  it('explains what is missing without data or a daemon', () => {
+    const view = makeView({ snapshot: null, results: [], selected: null, message: 'Scanning all scanners locally…' });
+    const lines = strip(renderLiveDashboard(view, { columns: 120, rows: 20 }, now));
+
+    expect(lines.some((l) => l.includes('No health data yet'))).toBe(true);
+    expect(lines.some((l) => l.includes('daemon not running'))).toBe(true);
+    expect(lines[19]).toContain('│ Scanning all scanners locally…');
+  });
+});
+
+describe('saveScanResults', () => {
+  it('keeps the latest result of each scanner', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'dcyfr-live-'));
+    try {
+      await saveScanResults(root, [makeResult('secrets'), makeResult('design-tokens')]);
+      await saveScanResults(root, [makeResult('secrets', { status: 'fail' })]);
+
+      const results = await loadScanResults(root);
+      expect(results.map((r) => [r.scanner, r.status])).toEqual([
+        ['secrets', 'fail'],
+        ['design-tokens', 'pass'],
+      ]);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
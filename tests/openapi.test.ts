@@ -0,0 +1,62 @@
+/**
+ * OpenAPI drift scanner tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { openApiDriftScanner } from '../src/scanners/openapi-drift.js';
+import { useTempWorkspace } from './workspace.js';
+
+const SPEC = [
+  'openapi: 3.0.3',
+  'info: { title: Test, version: "1" }',
+  'servers:',
+  '  - url: https://example.com/api',
+  'paths:',
+  '  /users:',
+  '    get: {}',
+  '    post: {}',
+  '  /users/{userId}:',
+  '    get: {}',
+  '    delete: {}',
+  '  /orders:',
+  '    get: {}',
+].join('\n');
+
+const workspace = useTempWorkspace('openapi');
+const { write } = workspace;
+
+describe('openapi-drift scanner', () => {
+  it('reports undocumented routes, missing routes and method mismatches', async () => {
+    await write('docs/openapi.yaml', SPEC);
+    await write('src/app/api/users/route.ts', 'export async function GET() {}\nexport async function POST() {}\n');
+    await write('src/app/api/users/[id]/route.ts', 'export async function GET() {}\nexport const PATCH = withAuth(update);\n');
+    await write('src/app/api/(admin)/stats/route.ts', 'export async function GET() {}\n');
+
+    const result = await openApiDriftScanner.scan({ workspaceRoot: workspace.root });
+
+    expect(result.status).toBe('fail');
+    expect(result.violations.map((v) => [v.id, v.file, v.line])).toEqual([
+      ['method-mismatch', 'docs/openapi.yaml', 11],
+      ['missing-route', 'docs/openapi.yaml', 12],
+    ]);
+    expect(result.warnings.map((v) => [v.id, v.file, v.line])).toEqual([
+      ['undocumented-route', 'src/app/api/(admin)/stats/route.ts', 1],
+      ['method-mismatch', 'src/app/api/users/[id]/route.ts', 2],
+    ]);
+    expect(result.metrics).toMatchObject({
+      routes: 3,
+      implementedOperations: 5,
+      documentedOperations: 5,
+      matchedOperations: 3,
+      coverage: 60,
+    });
+  });
+
+  it('is skipped without a spec and rejects documents that are not OpenAPI 3', async () => {
+    await write('src/app/api/users/route.ts', 'export async function GET() {}\n');
+    expect((await openApiDriftScanner.scan({ workspaceRoot: workspace.root })).status).toBe('skipped');
+
+    await write('openapi.json', JSON.stringify({ swagger: '2.0', paths: {} }));
+    await expect(openApiDriftScanner.scan({ workspaceRoot: workspace.root })).rejects.toThrow(/not an OpenAPI 3\.x document/);
+  });
+});
@@ -3,23 +3,18 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { mkdtemp, rm } from 'fs/promises';
-import { tmpdir } from 'os';
-import { join } from 'path';
+import { rm } from 'fs/promises';
 import { checkProviderStatus, chatCompletion, resolveProvider } from '../src/ai/provider.js';
+import { createTempWorkspace } from './workspace.js';
 
 const ORIGINAL_ENV = { ...process.env };
 
-async function createTempWorkspace(): Promise<string> {
-  return mkdtemp(join(tmpdir(), 'dcyfr-ai-cli-provider-'));
-}
-
 describe('AI provider local fallback', () => {
   let workspaceRoot = '';
 
   beforeEach(async () => {
     process.env = { ...ORIGINAL_ENV };
-    workspaceRoot = await createTempWorkspace();
+    workspaceRoot = await createTempWorkspace('provider');
     vi.restoreAllMocks();
   });
 
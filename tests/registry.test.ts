@@ -0,0 +1,176 @@
+/**
+ * Scanner registry tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScannerRegistry } from '../src/scanners/registry.js';
+import { loadPluginScanners, validateScanner } from '../src/scanners/plugins.js';
+import { DEFAULT_CONFIG, resolveRunOptions } from '../src/config/schema.js';
+import type { DcyfrConfig } from '../src/config/schema.js';
+import type { Scanner, ScanContext, ScanResult } from '../src/scanners/types.js';
+
+function passResult(scanner: string): ScanResult {
+  return {
+    scanner,
+    status: 'pass',
+    violations: [],
+    warnings: [],
+    metrics: {},
+    duration: 0,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function delayedScanner(id: string, ms: number, onStart?: () => void, onEnd?: () => void): Scanner {
+  return {
+    id,
+    name: id,
+    description: id,
+    category: 'testing',
+    async scan(context: ScanContext): Promise<ScanResult> {
+      onStart?.();
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        context.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('aborted'));
+        });
+      });
+      onEnd?.();
+      return passResult(id);
+    },
+  };
+}
+
+const context: ScanContext = { workspaceRoot: '/nonexistent-workspace' };
+
+describe('ScannerRegistry.runAll', () => {
+  it('limits concurrency and preserves registration order', async () => {
+    let running = 0;
+    let peak = 0;
+    const registry = new ScannerRegistry();
+    for (const [id, ms] of [['a', 30], ['b', 5], ['c', 20], ['d', 5]] as const) {
+      registry.register(
+        delayedScanner(
+          id,
+          ms,
+          () => {
+            running++;
+            peak = Math.max(peak, running);
+          },
+          () => running--,
+        ),
+      );
+    }
+
+    const results = await registry.runAll(context, { concurrency: 2 });
+
+    expect(results.map((r) => r.scanner)).toEqual(['a', 'b', 'c', 'd']);
+    expect(peak).toBe(2);
+  });
+
+  it('reports timed-out scanners as errors without failing the run', async () => {
+    const registry = new ScannerRegistry();
+    registry.register(delayedScanner('slow', 1_000));
+    registry.register(delayedScanner('fast', 1));
+
+    const results = await registry.runAll(context, {
+      timeoutMs: 5_000,
+      scannerTimeouts: { slow: 20 },
+    });
+
+    expect(results[0]!.status).toBe('error');
+    expect(results[0]!.summary).toContain('Timed out after 20ms');
+    expect(results[1]!.status).toBe('pass');
+  });
+
+  it('runs only the requested scanners', async () => {
+    const registry = new ScannerRegistry();
+    for (const id of ['a', 'b', 'c']) registry.register(delayedScanner(id, 1));
+
+    const results = await registry.runAll(context, { scanners: ['c', 'a'] });
+
+    expect(results.map((r) => r.scanner)).toEqual(['a', 'c']);
+  });
+
+  it('cancels scanners when the context signal aborts', async () => {
+    const registry = new ScannerRegistry();
+    registry.register(delayedScanner('slow', 1_000));
+    const controller = new AbortController();
+
+    const pending = registry.runAll({ ...context, signal: controller.signal });
+    controller.abort(new Error('Scan cancelled'));
+    const [result] = await pending;
+
+    expect(result!.status).toBe('error');
+    expect(result!.summary).toContain('Scan cancelled');
+  });
+});
+
+describe('resolveRunOptions', () => {
+  it('falls back to the defaults for values validateConfig rejects', () => {
+    const config = {
+      ...DEFAULT_CONFIG,
+      scan: { concurrency: 'four', timeoutMs: 30_000 },
+      scanners: { secrets: { timeoutMs: 10 }, 'design-tokens': { timeoutMs: 60_000 } },
+    } as unknown as DcyfrConfig;
+
+    expect(resolveRunOptions(config)).toEqual({
+      concurrency: DEFAULT_CONFIG.scan.concurrency,
+      timeoutMs: 30_000,
+      scannerTimeouts: { 'design-tokens': 60_000 },
+    });
+    expect(resolveRunOptions(config, { concurrency: 2 }).concurrency).toBe(2);
+  });
+});
+
+describe('scanner plugins', () => {
+  it('names both sources when scanner IDs conflict', () => {
+    const registry = new ScannerRegistry();
+    registry.register(delayedScanner('shared', 1));
+
+    expect(() => registry.register(delayedScanner('shared', 1), './plugins/shared.mjs')).toThrow(
+      "Scanner 'shared' from plugin './plugins/shared.mjs' conflicts with the scanner already registered from the built-in scanners",
+    );
+  });
+
+  it('rejects exports that do not implement Scanner', () => {
+    expect(() => validateScanner({ id: 'bad', name: 'Bad', category: 'misc' }, 'pkg')).toThrow(
+      /Plugin 'pkg' scanner 'bad' is invalid: 'description' must be a non-empty string; 'category' must be one of: .*; 'scan' must be a function/,
+    );
+    expect(() =>
+      validateScanner({ id: 'bad', name: 'Bad', description: 'Bad', category: 'governance', scan: () => null, plan: {} }, 'pkg'),
+    ).toThrow("Plugin 'pkg' scanner 'bad' is invalid: 'plan' must be a function when present");
+  });
+
+  it('loads named scanner exports from a local module', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'dcyfr-plugins-'));
+    try {
+      await writeFile(
+        join(root, 'checks.mjs'),
+        [
+          "const scan = async () => ({ scanner: 'x', status: 'pass', violations: [], warnings: [], metrics: {}, duration: 0, timestamp: '' });",
+          "export const first = { id: 'in-house-a', name: 'A', description: 'A', category: 'governance', scan };",
+          "export const second = { id: 'in-house-b', name: 'B', description: 'B', category: 'testing', scan };",
+          "export const unrelated = 42;",
+        ].join('\n'),
+      );
+
+      const loaded = await loadPluginScanners(root, ['./checks.mjs']);
+
+      expect(loaded.map((p) => p.scanner.id)).toEqual(['in-house-a', 'in-house-b']);
+      expect(loaded.every((p) => p.source === './checks.mjs')).toBe(true);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('reports modules that cannot be loaded', async () => {
+    await expect(loadPluginScanners('/nonexistent-workspace', ['./missing.mjs'])).rejects.toThrow(
+      "Failed to load scanner plugin './missing.mjs'",
+    );
+  });
+});
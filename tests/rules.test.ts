@@ -0,0 +1,133 @@
+/**
+ * Custom rules tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { globToRegExp, matchesGlob, matchesWildcard } from '../src/lib/glob.js';
+import {
+  applyRuleReplacement,
+  compileRule,
+  findRuleMatches,
+  loadRules,
+  ruleAppliesTo,
+  runRuleTests,
+} from '../src/rules/index.js';
+import { customRulesScanner } from '../src/scanners/custom-rules.js';
+
+describe('globToRegExp', () => {
+  it('matches directories, wildcards and alternation', () => {
+    expect(globToRegExp('src/**/*.ts').test('src/a/b/c.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.ts').test('src/c.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/a/c.ts')).toBe(false);
+    expect(matchesGlob('lib/x.test.tsx', ['*.test.{ts,tsx}'])).toBe(true);
+    expect(matchesGlob('lib/x.tsx', ['*.test.{ts,tsx}'])).toBe(false);
+  });
+
+  it('matches names against * wildcards across slashes and case', () => {
+    expect(matchesWildcard('@types/react', ['@types/*'])).toBe(true);
+    expect(matchesWildcard('gpl-3.0-only', ['GPL-*'])).toBe(true);
+    expect(matchesWildcard('LGPL-3.0-only', ['GPL-*'])).toBe(false);
+    expect(matchesWildcard('a.b', ['a?b', '{a}.b'])).toBe(false);
+  });
+});
+
+describe('compileRule', () => {
+  it('rejects invalid patterns and empty matches', () => {
+    expect(() => compileRule({ id: 'r', pattern: '(' }, 'f')).toThrow("Rule 'r': invalid pattern");
+    expect(() => compileRule({ id: 'r', pattern: 'a*' }, 'f')).toThrow('must not match the empty string');
+    expect(() => compileRule({ id: 'r', pattern: 'a', severity: 'fatal' }, 'f')).toThrow("'severity'");
+  });
+
+  it('applies include and exclude globs', () => {
+    const rule = compileRule({ id: 'r', pattern: 'a', include: ['src/**'], exclude: ['**/*.test.ts'] }, 'f');
+    expect(ruleAppliesTo(rule, 'src/a.ts')).toBe(true);
+    expect(ruleAppliesTo(rule, 'src/a.test.ts')).toBe(false);
+    expect(ruleAppliesTo(rule, 'lib/a.ts')).toBe(false);
+  });
+});
+
+describe('rule engine', () => {
+  const rule = compileRule(
+    {
+      id: 'no-console-log',
+      pattern: 'console\\.log\\((.*)\\)',
+      replacement: 'logger.debug($1)',
+      tests: [
+        { input: "console.log('x')", matches: 1, output: "logger.debug('x')" },
+        { name: 'wrong output', input: 'console.log(1)', matches: 1, output: 'console.log(1)' },
+        { input: 'logger.info(1)', matches: 1 },
+      ],
+    },
+    'f',
+  );
+
+  it('reports line and column for each match', () => {
+    const matches = findRuleMatches(rule, "a\n  console.log('x')");
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ line: 2, column: 2 });
+  });
+
+  it('replaces only the requested lines', () => {
+    const content = 'console.log(1)\nconsole.log(2)';
+    expect(applyRuleReplacement(rule, content, new Set([2]))).toBe('console.log(1)\nlogger.debug(2)');
+  });
+
+  it('runs declared test cases', () => {
+    const results = runRuleTests([rule]);
+    expect(results.map((r) => r.passed)).toEqual([true, false, false]);
+    expect(results[1]!.reason).toContain('expected output');
+    expect(results[2]!.reason).toBe('expected 1 match(es), found 0');
+  });
+});
+
+describe('custom-rules scanner', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'dcyfr-rules-'));
+    await mkdir(join(root, '.dcyfr', 'rules'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('loads YAML rules, reports findings and fixes them', async () => {
+    await writeFile(
+      join(root, '.dcyfr', 'rules', 'team.yaml'),
+      [
+        'rules:',
+        '  - id: no-var',
+        '    pattern: "\\\\bvar "',
+        '    severity: error',
+        '    replacement: "let "',
+        '    include: ["src/**/*.js"]',
+        '  - id: broken',
+        '    pattern: "["',
+      ].join('\n'),
+    );
+    await writeFile(join(root, 'src', 'a.js'), 'var x = 1;\nconst y = 2;\n');
+
+    const { rules, errors } = await loadRules(root);
+    expect(rules.map((r) => r.id)).toEqual(['no-var']);
+    expect(errors[0]!.message).toContain("rules[1]: Rule 'broken': invalid pattern");
+
+    const result = await customRulesScanner.scan({ workspaceRoot: root });
+    const finding = result.violations.find((v) => v.id === 'no-var');
+    expect(finding).toMatchObject({ file: 'src/a.js', line: 1, autoFixable: true });
+    expect(result.violations.some((v) => v.id === 'invalid-rule-file')).toBe(true);
+
+    const fix = await customRulesScanner.fix!({ workspaceRoot: root }, [finding!]);
+    expect(fix.filesModified).toEqual(['src/a.js']);
+    expect(await readFile(join(root, 'src', 'a.js'), 'utf-8')).toBe('let x = 1;\nconst y = 2;\n');
+  });
+
+  it('is skipped when no rules are defined', async () => {
+    const result = await customRulesScanner.scan({ workspaceRoot: root });
+    expect(result.status).toBe('skipped');
+  });
+});
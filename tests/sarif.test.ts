@@ -0,0 +1,89 @@
+/**
+ * SARIF renderer tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSarifLog, toSarifLevel } from '../src/health/sarif.js';
+import type { Scanner, ScanResult } from '../src/scanners/types.js';
+
+const scanner: Scanner = {
+  id: 'design-tokens',
+  name: 'Design Token Compliance',
+  description: 'Validates SPACING, TYPOGRAPHY, and COLOR token usage across components',
+  category: 'compliance',
+  scan: async () => {
+    throw new Error('not used');
+  },
+};
+
+function makeResult(overrides: Partial<ScanResult> = {}): ScanResult {
+  return {
+    scanner: 'design-tokens',
+    status: 'fail',
+    violations: [
+      {
+        id: 'spacing-hardcoded-gap',
+        severity: 'error',
+        message: "Hardcoded Gap: 'gap-4'",
+        file: 'dcyfr-labs/src/app/page.tsx',
+        line: 12,
+        column: 4,
+        fix: 'Use SPACING tokens or custom gap classes',
+      },
+    ],
+    warnings: [
+      {
+        id: 'spacing-hardcoded-margin',
+        severity: 'warning',
+        message: "Hardcoded Margin: 'mt-2'",
+        file: 'dcyfr-labs/src/app/page.tsx',
+        line: 14,
+      },
+    ],
+    metrics: {},
+    duration: 5,
+    timestamp: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+describe('SARIF output', () => {
+  it('maps severities to SARIF levels', () => {
+    expect(toSarifLevel('error')).toBe('error');
+    expect(toSarifLevel('warning')).toBe('warning');
+    expect(toSarifLevel('info')).toBe('note');
+  });
+
+  it('emits a 2.1.0 log with namespaced rules taken from scanner metadata', () => {
+    const log = buildSarifLog([makeResult()], [scanner]);
+    const run = log.runs[0]!;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual([
+      'design-tokens/spacing-hardcoded-gap',
+      'design-tokens/spacing-hardcoded-margin',
+    ]);
+    expect(run.tool.driver.rules[0]!.fullDescription.text).toBe(scanner.description);
+    expect(run.tool.driver.rules[0]!.properties.category).toBe('compliance');
+    expect(run.results).toHaveLength(2);
+  });
+
+  it('converts file, line and 0-based column into a 1-based physical location', () => {
+    const log = buildSarifLog([makeResult()], [scanner]);
+    const location = log.runs[0]!.results[0]!.locations![0]!.physicalLocation;
+
+    expect(location.artifactLocation.uri).toBe('dcyfr-labs/src/app/page.tsx');
+    expect(location.region).toEqual({ startLine: 12, startColumn: 5 });
+  });
+
+  it('reports errored scanners as failed tool executions', () => {
+    const log = buildSarifLog(
+      [makeResult({ status: 'error', violations: [], warnings: [], summary: 'npm audit failed' })],
+      [scanner],
+    );
+    const invocation = log.runs[0]!.invocations[0]!;
+
+    expect(invocation.executionSuccessful).toBe(false);
+    expect(invocation.toolExecutionNotifications[0]!.message.text).toBe('npm audit failed');
+  });
+});
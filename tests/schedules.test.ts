@@ -0,0 +1,197 @@
+/**
+ * Schedule timing, config and scheduler tests
+ */
+
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { validateConfig } from '../src/config/schema.js';
+import {
+  deferQuietHours,
+  formatInterval,
+  nextCronRun,
+  parseCron,
+  parseInterval,
+  parseQuietWindow,
+} from '../src/daemon/cron.js';
+import { EventBus } from '../src/daemon/events.js';
+import { Scheduler, nextRunTime } from '../src/daemon/scheduler.js';
+import type { TaskQueue } from '../src/daemon/queue.js';
+
+describe('cron expressions', () => {
+  it('parses lists, ranges, steps, names and macros', () => {
+    const cron = parseCron('*/15 9-17 * jan,jul mon-fri');
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toHaveLength(9);
+    expect([...cron.months]).toEqual([1, 7]);
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.eitherDay).toBe(false);
+
+    expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    expect(parseCron('0 0 1 * mon').eitherDay).toBe(true);
+
+    expect(() => parseCron('0 0 * *')).toThrow('must have 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow("Invalid cron minute '60'");
+    expect(() => parseCron('0 5-2 * * *')).toThrow('Invalid cron hour');
+  });
+
+  it('finds the next run in a timezone', () => {
+    const after = new Date('2026-03-06T12:00:00Z'); // Friday
+    // Weekdays at 02:30 in Berlin (UTC+1 in winter)
+    expect(nextCronRun(parseCron('30 2 * * 1-5'), after, 'Europe/Berlin').toISOString()).toBe(
+      '2026-03-09T01:30:00.000Z',
+    );
+    expect(nextCronRun(parseCron('0 0 1 * mon'), after, 'UTC').toISOString()).toBe('2026-03-09T00:00:00.000Z');
+    // Strictly after a matching minute
+    expect(nextCronRun(parseCron('0 12 * * *'), after, 'UTC').toISOString()).toBe('2026-03-07T12:00:00.000Z');
+    expect(() => nextCronRun(parseCron('0 0 30 2 *'), after, 'UTC')).toThrow('never matches');
+  });
+});
+
+describe('intervals and quiet hours', () => {
+  it('parses and formats intervals', () => {
+    expect(parseInterval('6h')).toBe(6 * 3_600_000);
+    expect(parseInterval('1h30m')).toBe(90 * 60_000);
+    expect(parseInterval(5000)).toBe(5000);
+    expect(formatInterval(90 * 60_000)).toBe('1h30m');
+    expect(() => parseInterval('6 hours')).toThrow('Invalid interval');
+    expect(() => parseInterval('0m')).toThrow('longer than zero');
+  });
+
+  it('defers times inside quiet windows to the window end', () => {
+    const night = parseQuietWindow('22:00-07:00');
+    expect(night).toEqual({ start: 1320, end: 420 });
+    expect(() => parseQuietWindow('25:00-07:00')).toThrow('Invalid quiet hours');
+
+    const windows = [night, parseQuietWindow('07:00-08:00')];
+    expect(deferQuietHours(new Date('2026-03-06T23:10:00Z'), windows, 'UTC').toISOString()).toBe(
+      '2026-03-07T08:00:00.000Z',
+    );
+    const noon = new Date('2026-03-06T12:00:00Z');
+    expect(deferQuietHours(noon, windows, 'UTC')).toBe(noon);
+  });
+});
+
+describe('schedule config', () => {
+  it('validates schedules', () => {
+    const errors = validateConfig({
+      schedules: [
+        { id: 'nightly', scanner: 'dependency-audit', cron: '0 3 * * *', timezone: 'Europe/Berlin' },
+        { id: 'nightly', every: '1h' },
+        { id: 'both', every: '1h', cron: '0 * * * *' },
+        { id: 'fast', every: '10s' },
+        { id: 'custom' },
+        { id: 'design-tokens', timezone: 'Mars/Olympus', quietHours: ['9-5'] },
+        { id: 'flag', every: true },
+      ],
+    });
+
+    expect(errors.map((e) => e.path)).toEqual([
+      'schedules.1.id',
+      'schedules.2',
+      'schedules.3.every',
+      'schedules.4',
+      'schedules.5.timezone',
+      'schedules.5.quietHours.0',
+      'schedules.6.every',
+    ]);
+  });
+});
+
+describe('Scheduler', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'dcyfr-schedules-'));
+    await mkdir(join(root, '.dcyfr'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  function createScheduler(): { scheduler: Scheduler; enqueued: Array<[string, unknown]> } {
+    const enqueued: Array<[string, unknown]> = [];
+    const queue = {
+      enqueue: (scanner: string, _source: string, _priority: number, _files?: string[], options?: unknown) => {
+        enqueued.push([scanner, options]);
+        return `task-${enqueued.length}`;
+      },
+    } as unknown as TaskQueue;
+    return { scheduler: new Scheduler(root, queue, new EventBus()), enqueued };
+  }
+
+  it('merges config schedules into the defaults and keeps CLI state', async () => {
+    await writeFile(
+      join(root, '.dcyfr', 'config.json'),
+      JSON.stringify({
+        schedules: [
+          { id: 'dependency-audit', cron: '0 3 * * *', quietHours: ['02:00-04:00'] },
+          { id: 'licenses', scanner: 'dependency-licenses', every: '12h', options: { includeDev: true } },
+          { id: 'broken', every: 'soon' },
+        ],
+      }),
+    );
+
+    const { scheduler, enqueued } = createScheduler();
+    await scheduler.init();
+    const schedules = scheduler.getSchedules();
+
+    const audit = schedules.find((s) => s.id === 'dependency-audit');
+    expect(audit).toMatchObject({ scanner: 'dependency-audit', cron: '0 3 * * *', interval: undefined });
+    // 03:00 falls inside quiet hours, so it waits for 04:00
+    const due = nextRunTime(audit!, new Date(2026, 2, 6, 12, 0));
+    expect([due.getHours(), due.getMinutes()]).toEqual([4, 0]);
+    // A weekly run missed during quiet hours happens when the window ends, not next week
+    const missed = {
+      ...audit!,
+      cron: '0 3 * * mon',
+      quietHours: ['22:00-07:00'],
+      lastRun: new Date(2026, 1, 23, 3, 0).toISOString(),
+    };
+    const catchUp = nextRunTime(missed, new Date(2026, 2, 6, 23, 0));
+    expect([catchUp.getDate(), catchUp.getHours(), catchUp.getMinutes()]).toEqual([7, 7, 0]);
+
+    expect(schedules.find((s) => s.id === 'licenses')).toMatchObject({ interval: 12 * 3_600_000, enabled: true });
+    expect(schedules.some((s) => s.id === 'broken')).toBe(false);
+
+    expect(await scheduler.setEnabled('licenses', false)).toBe(true);
+    expect(await scheduler.runNow('licenses')).toBe('task-1');
+    expect(enqueued).toEqual([['dependency-licenses', { includeDev: true }]]);
+    expect(await scheduler.setEnabled('missing', true)).toBe(false);
+
+    // A new process sees the persisted state
+    const reloaded = createScheduler().scheduler;
+    await reloaded.init();
+    const licenses = reloaded.getSchedules().find((s) => s.id === 'licenses');
+    expect(licenses?.enabled).toBe(false);
+    expect(licenses?.lastRun).toBeDefined();
+
+    // Config changes still apply to schedules the CLI hasn't toggled
+    await writeFile(
+      join(root, '.dcyfr', 'config.json'),
+      JSON.stringify({ schedules: [{ id: 'pagelayout', enabled: false }] }),
+    );
+    await reloaded.reload();
+    expect(reloaded.getSchedules().find((s) => s.id === 'pagelayout')?.enabled).toBe(false);
+  });
+
+  it('runs requested schedules on reload', async () => {
+    const cli = createScheduler().scheduler;
+    await cli.init();
+    expect(await cli.requestRun('tlp-headers')).toBe(true);
+
+    const { scheduler: daemon, enqueued } = createScheduler();
+    await daemon.init();
+    await daemon.reload();
+    expect(enqueued.map(([scanner]) => scanner)).toEqual(['tlp-headers']);
+
+    const saved = JSON.parse(await readFile(join(root, '.dcyfr', 'schedules.json'), 'utf-8')) as Array<{
+      id: string;
+      runRequested?: boolean;
+    }>;
+    expect(saved.find((s) => s.id === 'tlp-headers')?.runRequested).toBeUndefined();
+  });
+});
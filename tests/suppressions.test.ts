@@ -0,0 +1,100 @@
+/**
+ * Suppression directive and baseline tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSuppressions, isSuppressed } from '../src/scanners/suppressions.js';
+import { applyBaseline, createBaseline } from '../src/scanners/baseline.js';
+import type { ScanResult, ScanViolation } from '../src/scanners/types.js';
+
+const WORKSPACE = '/workspace';
+
+function violation(overrides: Partial<ScanViolation> = {}): ScanViolation {
+  return {
+    id: 'spacing-hardcoded-gap',
+    severity: 'error',
+    message: "Hardcoded Gap: 'gap-4'",
+    file: 'dcyfr-labs/src/app/page.tsx',
+    line: 3,
+    ...overrides,
+  };
+}
+
+function result(violations: ScanViolation[], warnings: ScanViolation[] = []): ScanResult {
+  return {
+    scanner: 'design-tokens',
+    status: 'fail',
+    violations,
+    warnings,
+    metrics: {},
+    duration: 1,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+describe('suppression directives', () => {
+  it('silences the next line for the named rule only', () => {
+    const suppressions = parseSuppressions(
+      ['const a = 1;', '// dcyfr-ignore-next-line spacing-hardcoded-gap', "<div className='gap-4' />"].join('\n'),
+    );
+
+    expect(isSuppressed(violation(), 'design-tokens', suppressions)).toBe(true);
+    expect(isSuppressed(violation({ id: 'typography-hardcoded-size' }), 'design-tokens', suppressions)).toBe(false);
+    expect(isSuppressed(violation({ line: 1 }), 'design-tokens', suppressions)).toBe(false);
+  });
+
+  it('matches scanner IDs, namespaced rule IDs and bare directives', () => {
+    const suppressions = parseSuppressions(
+      [
+        "a /* dcyfr-ignore-line design-tokens -- legacy */",
+        "b // dcyfr-ignore-line design-tokens/spacing-hardcoded-gap",
+        'c // dcyfr-ignore-line',
+      ].join('\n'),
+    );
+
+    expect(isSuppressed(violation({ line: 1 }), 'design-tokens', suppressions)).toBe(true);
+    expect(isSuppressed(violation({ line: 2 }), 'design-tokens', suppressions)).toBe(true);
+    expect(isSuppressed(violation({ line: 3, id: 'anything' }), 'code-smell', suppressions)).toBe(true);
+  });
+
+  it('supports file-level directives in markdown comments', () => {
+    const suppressions = parseSuppressions('<!-- dcyfr-ignore-file tlp-headers -->\n# Title');
+
+    expect(isSuppressed(violation({ id: 'missing-tlp', line: undefined }), 'tlp-headers', suppressions)).toBe(true);
+    expect(isSuppressed(violation(), 'design-tokens', suppressions)).toBe(false);
+  });
+});
+
+describe('baseline', () => {
+  it('drops baselined findings regardless of line and relaxes status', () => {
+    const baseline = createBaseline([result([violation()])], WORKSPACE);
+    const [filtered] = applyBaseline([result([violation({ line: 40 })])], baseline, WORKSPACE);
+
+    expect(filtered!.violations).toHaveLength(0);
+    expect(filtered!.status).toBe('pass');
+    expect(filtered!.metrics['baselined']).toBe(1);
+  });
+
+  it('keeps new findings beyond the baselined count', () => {
+    const baseline = createBaseline([result([violation()])], WORKSPACE);
+    const [filtered] = applyBaseline(
+      [result([violation(), violation({ line: 9 }), violation({ message: 'new' })])],
+      baseline,
+      WORKSPACE,
+    );
+
+    expect(filtered!.violations).toHaveLength(2);
+    expect(filtered!.status).toBe('fail');
+  });
+
+  it('treats absolute and workspace-relative paths as the same file', () => {
+    const baseline = createBaseline([result([violation()])], WORKSPACE);
+    const [filtered] = applyBaseline(
+      [result([violation({ file: `${WORKSPACE}/dcyfr-labs/src/app/page.tsx` })])],
+      baseline,
+      WORKSPACE,
+    );
+
+    expect(filtered!.violations).toHaveLength(0);
+  });
+});
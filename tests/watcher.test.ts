@@ -0,0 +1,97 @@
+/**
+ * Watcher configuration and file watcher tests
+ */
+
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { DEFAULT_CONFIG, resolveWatcherConfig, validateConfig } from '../src/config/schema.js';
+import { DEFAULT_WATCHER_CONFIG } from '../src/daemon/types.js';
+import { EventBus } from '../src/daemon/events.js';
+import { FileWatcher } from '../src/daemon/watcher.js';
+import type { TaskQueue } from '../src/daemon/queue.js';
+
+describe('watcher config', () => {
+  it('validates roots, ignores and rules', () => {
+    const errors = validateConfig({
+      watcher: {
+        roots: ['apps/web', '../outside'],
+        ignore: ['**/*.snap', 42],
+        rules: [
+          { glob: 'apps/**/*.tsx', scanners: ['design-tokens'] },
+          { glob: '*.md', pattern: '\\.md$', scanners: ['tlp-headers'] },
+          { pattern: '(unclosed', scanners: [] },
+          { glob: '*.json', scanners: ['dependency-audit'], debounceMs: 5 },
+        ],
+      },
+    });
+
+    expect(errors.map((e) => e.path)).toEqual([
+      'watcher.roots.1',
+      'watcher.ignore',
+      'watcher.rules.1',
+      'watcher.rules.2.pattern',
+      'watcher.rules.2.scanners',
+      'watcher.rules.3.debounceMs',
+    ]);
+  });
+
+  it('compiles glob and regex rules, falling back to the defaults when invalid', () => {
+    const resolved = resolveWatcherConfig({
+      ...DEFAULT_CONFIG,
+      watcher: {
+        roots: ['apps'],
+        ignore: ['**/generated/**'],
+        rules: [
+          { glob: 'apps/*/src/**/*.{ts,tsx}', scanners: ['design-tokens'], debounceMs: 500 },
+          { pattern: 'openapi\\.ya?ml$', scanners: ['openapi-drift'] },
+        ],
+      },
+    });
+
+    expect(resolved.roots).toEqual(['apps']);
+    expect(resolved.ignored).toEqual([...DEFAULT_WATCHER_CONFIG.ignored, '**/generated/**']);
+    expect(resolved.debounceMs).toBe(DEFAULT_CONFIG.daemon.watcherDebounceMs);
+    expect(resolved.rules[0]?.pattern.test('apps/web/src/ui/button.tsx')).toBe(true);
+    expect(resolved.rules[0]?.pattern.test('apps/web/test/button.tsx')).toBe(false);
+    expect(resolved.rules[1]?.pattern.test('docs/openapi.yaml')).toBe(true);
+
+    const invalid = resolveWatcherConfig({ ...DEFAULT_CONFIG, watcher: { rules: [{ scanners: ['x'] }] } });
+    expect(invalid.rules).toBe(DEFAULT_WATCHER_CONFIG.rules);
+  });
+});
+
+describe('FileWatcher', () => {
+  let root: string;
+  let watcher: FileWatcher | undefined;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'dcyfr-watcher-'));
+    await mkdir(join(root, 'apps', 'web', 'generated'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await watcher?.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('enqueues the scanners of matching rules and skips ignored paths', async () => {
+    const enqueue = vi.fn();
+    watcher = new FileWatcher(root, { enqueue } as unknown as TaskQueue, new EventBus(), {
+      roots: ['apps', 'missing'],
+      ignored: ['**/generated/**'],
+      debounceMs: 100,
+      rules: [{ pattern: /^apps\/.*\.ts$/, scanners: ['code-smell'] }],
+    });
+    await watcher.start();
+
+    await writeFile(join(root, 'apps', 'web', 'generated', 'schema.ts'), 'export {};');
+    await writeFile(join(root, 'apps', 'web', 'index.ts'), 'export {};');
+
+    await vi.waitFor(() => expect(enqueue).toHaveBeenCalled(), { timeout: 5000 });
+    expect(enqueue).toHaveBeenCalledTimes(1);
+    expect(enqueue.mock.calls[0]?.[0]).toBe('code-smell');
+    expect(enqueue.mock.calls[0]?.[3]).toEqual([join(root, 'apps', 'web', 'index.ts')]);
+  });
+});
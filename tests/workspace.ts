@@ -0,0 +1,47 @@
+/**
+ * Temporary workspaces for tests that scan files on disk
+ */
+
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { afterEach, beforeEach } from 'vitest';
+
+/**
+ * Workspace recreated for every test
+ */
+export interface TempWorkspace {
+  /** Absolute path of the current test's workspace */
+  readonly root: string;
+  /** Write a file relative to the root; non-strings are written as formatted JSON */
+  write(path: string, content: unknown): Promise<void>;
+}
+
+export async function createTempWorkspace(name: string): Promise<string> {
+  return mkdtemp(join(tmpdir(), `dcyfr-${name}-`));
+}
+
+/**
+ * Create a fresh workspace before each test in the file and remove it after
+ */
+export function useTempWorkspace(name: string): TempWorkspace {
+  let root = '';
+
+  beforeEach(async () => {
+    root = await createTempWorkspace(name);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  return {
+    get root() {
+      return root;
+    },
+    async write(path, content) {
+      await mkdir(dirname(join(root, path)), { recursive: true });
+      await writeFile(join(root, path), typeof content === 'string' ? content : JSON.stringify(content, null, 2) + '\n');
+    },
+  };
+}